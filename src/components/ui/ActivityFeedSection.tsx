@@ -4,21 +4,48 @@
  */
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { supabase } from '../../lib/supabase';
+import { activityApi } from '../../lib/api';
 import { ActivityItem } from './ActivityItem';
 import { Button } from './button';
-import type { ActivityFeedItem } from '../../types/activity';
+import type { ActivityFeedItem, ActivityFeedScope } from '../../types/activity';
 
 /**
  * @description Props for the ActivityFeedSection component
  * @param {boolean} isInPanel - Whether the component is rendered inside the PulsePanel
- * @param {string | null} latestActivityTimestamp - Timestamp of latest activity to trigger refresh
+ * @param {ActivityFeedItem[]} streamedActivities - Activities received in real time, newest first
+ * @param {ActivityFeedScope} scope - Which part of the feed to show (everyone, follows or own projects)
  */
 interface ActivityFeedSectionProps {
   isInPanel?: boolean;
-  latestActivityTimestamp?: string | null;
+  streamedActivities?: ActivityFeedItem[];
+  scope?: ActivityFeedScope;
 }
 
+// Empty-state copy per feed scope
+const EMPTY_FEED_MESSAGES: Record<ActivityFeedScope, string> = {
+  everyone: 'No recent activity. Be the first to create something!',
+  following: 'Nothing here yet. Follow builders and projects to see their activity.',
+  mine: 'No activity on your projects yet.'
+};
+
+// How close to the top (px) the panel must be scrolled for streamed items to be shown right away
+const TOP_SCROLL_THRESHOLD = 40;
+
+/**
+ * @description Merges activities into a list, skipping duplicates and keeping the list newest first
+ * @param {ActivityFeedItem[]} incoming - Activities to add
+ * @param {ActivityFeedItem[]} existing - Current list
+ * @returns {ActivityFeedItem[]} Combined list sorted by created_at, newest first
+ */
+const mergeActivities = (incoming: ActivityFeedItem[], existing: ActivityFeedItem[]): ActivityFeedItem[] => {
+  const existingIds = new Set(existing.map(activity => activity.id));
+  const uniqueIncoming = incoming.filter(activity => !existingIds.has(activity.id));
+
+  return [...uniqueIncoming, ...existing].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+};
+
 /**
  * @description Component that displays a feed of recent community activity
  * @param {ActivityFeedSectionProps} props - Component props
@@ -26,9 +53,11 @@ interface ActivityFeedSectionProps {
  */
 export const ActivityFeedSection: React.FC<ActivityFeedSectionProps> = ({
   isInPanel = false,
-  latestActivityTimestamp
+  streamedActivities = [],
+  scope = 'everyone'
 }) => {
   const [activities, setActivities] = useState<ActivityFeedItem[]>([]);
+  const [pendingActivities, setPendingActivities] = useState<ActivityFeedItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(true);
@@ -40,6 +69,14 @@ export const ActivityFeedSection: React.FC<ActivityFeedSectionProps> = ({
   // Use ref to prevent circular dependencies
   const activitiesRef = useRef<ActivityFeedItem[]>([]);
   activitiesRef.current = activities;
+  const pendingActivitiesRef = useRef<ActivityFeedItem[]>([]);
+  pendingActivitiesRef.current = pendingActivities;
+
+  // Newest created_at of the last full load; streamed items at or before it are already covered
+  const loadedUpToRef = useRef<string | null>(null);
+
+  // Incremented per full load so responses for a previous scope are ignored
+  const loadRequestRef = useRef(0);
 
   /**
    * @description Fetches activity feed data from Supabase
@@ -48,6 +85,8 @@ export const ActivityFeedSection: React.FC<ActivityFeedSectionProps> = ({
    * @sideEffects Updates activities, loading, error, and hasMore state
    */
   const fetchActivities = useCallback(async (isLoadMore = false) => {
+    const requestId = isLoadMore ? loadRequestRef.current : ++loadRequestRef.current;
+
     try {
       if (!isLoadMore) {
         setLoading(true);
@@ -59,28 +98,29 @@ export const ActivityFeedSection: React.FC<ActivityFeedSectionProps> = ({
       const startIndex = isLoadMore ? activitiesRef.current.length : 0;
       const endIndex = startIndex + ITEMS_PER_PAGE - 1;
 
-      const { data, error: fetchError } = await supabase
-        .from('activity_feed_curated')
-        .select('*')
-        .range(startIndex, endIndex)
-        .order('created_at', { ascending: false });
+      const data = scope === 'everyone'
+        ? await activityApi.fetchCuratedActivityFeed(startIndex, endIndex)
+        : await activityApi.fetchActivityFeed(scope, startIndex, endIndex);
 
-      if (fetchError) throw fetchError;
+      if (requestId !== loadRequestRef.current) {
+        return;
+      }
 
       if (isLoadMore) {
         setActivities(prev => {
-          const newData = data || [];
           // Filter out any activities that already exist to prevent duplicates
           const existingIds = new Set(prev.map(activity => activity.id));
-          const uniqueNewData = newData.filter(activity => !existingIds.has(activity.id));
+          const uniqueNewData = data.filter(activity => !existingIds.has(activity.id));
           return [...prev, ...uniqueNewData];
         });
       } else {
-        setActivities(data || []);
+        setActivities(data);
+        setPendingActivities([]);
+        loadedUpToRef.current = data[0]?.created_at ?? new Date(0).toISOString();
       }
 
       // Check if there are more items - only false if we got less than requested
-      setHasMore((data || []).length === ITEMS_PER_PAGE);
+      setHasMore(data.length === ITEMS_PER_PAGE);
     } catch (err) {
       console.error('Error fetching activities:', err);
       setError('Failed to load activity feed. Please try again.');
@@ -88,21 +128,35 @@ export const ActivityFeedSection: React.FC<ActivityFeedSectionProps> = ({
         setActivities([]);
       }
     } finally {
-      setLoading(false);
-      setLoadingMore(false);
+      if (requestId === loadRequestRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
-  }, [ITEMS_PER_PAGE]);
+  }, [ITEMS_PER_PAGE, scope]);
 
   /**
    * @description Handles scroll events to trigger auto-loading at 80% scroll position
    * @param {Event} event - Scroll event
    */
   const handleScroll = useCallback(() => {
-    if (!scrollContainerRef.current || !hasMore || loadingMore) {
+    if (!scrollContainerRef.current) {
       return;
     }
 
     const { scrollTop, scrollHeight, clientHeight } = scrollContainerRef.current;
+
+    // Reveal queued activities once the user is back at the top
+    if (scrollTop <= TOP_SCROLL_THRESHOLD && pendingActivitiesRef.current.length > 0) {
+      const pending = pendingActivitiesRef.current;
+      setActivities(prev => mergeActivities(pending, prev));
+      setPendingActivities([]);
+    }
+
+    if (!hasMore || loadingMore) {
+      return;
+    }
+
     const scrollPercentage = (scrollTop + clientHeight) / scrollHeight;
 
     // Trigger load more when user scrolls to 80% of the content
@@ -142,24 +196,61 @@ export const ActivityFeedSection: React.FC<ActivityFeedSectionProps> = ({
   }, [handleScroll, isInPanel, activities.length, hasMore, loadingMore, fetchActivities]);
 
   /**
-   * @description Effect to refresh activity feed when latestActivityTimestamp changes
-   * @sideEffects Triggers fetchActivities when new activity is detected
+   * @description Effect to add streamed activities without refetching the feed. They are shown immediately
+   * while the panel is scrolled to the top; otherwise they are queued behind the "new activities" pill.
+   * @sideEffects Updates activities or pendingActivities state
    */
   useEffect(() => {
-    if (latestActivityTimestamp && activitiesRef.current.length > 0) {
-      // Check if the latest timestamp is newer than our current latest activity
-      const currentLatest = activitiesRef.current[0]?.created_at;
-      if (currentLatest && new Date(latestActivityTimestamp) > new Date(currentLatest)) {
-        // Clear loading states before refresh to prevent race conditions
-        setLoadingMore(false);
-        fetchActivities(false); // Refresh from the beginning
+    const loadedUpTo = loadedUpToRef.current;
+    if (loading || !loadedUpTo || streamedActivities.length === 0) {
+      return;
+    }
+
+    const knownIds = new Set(
+      [...activitiesRef.current, ...pendingActivitiesRef.current].map(activity => activity.id)
+    );
+    const incoming = streamedActivities.filter(
+      activity => !knownIds.has(activity.id) && new Date(activity.created_at) > new Date(loadedUpTo)
+    );
+    if (incoming.length === 0) {
+      return;
+    }
+
+    const addActivities = (newActivities: ActivityFeedItem[]) => {
+      if (newActivities.length === 0) return;
+
+      const scrollTop = scrollContainerRef.current?.scrollTop ?? 0;
+      if (!isInPanel || scrollTop <= TOP_SCROLL_THRESHOLD) {
+        setActivities(prev => mergeActivities(newActivities, prev));
+      } else {
+        setPendingActivities(prev => mergeActivities(newActivities, prev));
       }
+    };
+
+    if (scope === 'everyone') {
+      addActivities(incoming);
+      return;
     }
-  }, [latestActivityTimestamp, fetchActivities]);
+
+    // Personal scopes are filtered server-side: ask only for what is newer than the items we already show
+    const requestId = loadRequestRef.current;
+    const newestShown = [...pendingActivitiesRef.current, ...activitiesRef.current]
+      .map(activity => activity.created_at)
+      .sort()
+      .pop() ?? loadedUpTo;
+
+    activityApi.fetchActivityFeed(scope, 0, ITEMS_PER_PAGE - 1, newestShown)
+      .then(data => {
+        if (requestId === loadRequestRef.current) addActivities(data);
+      })
+      .catch(err => console.error('Error fetching new activities:', err));
+  }, [streamedActivities, loading, isInPanel, scope, ITEMS_PER_PAGE]);
 
   useEffect(() => {
+    setLoadingMore(false);
+    setHasMore(true);
     fetchActivities();
-  }, []);
+  }, [fetchActivities]);
 
   /**
    * @description Handles loading more activities manually
@@ -170,6 +261,15 @@ export const ActivityFeedSection: React.FC<ActivityFeedSectionProps> = ({
     }
   };
 
+  /**
+   * @description Shows the queued activities and scrolls the feed back to the top
+   */
+  const handleShowPendingActivities = () => {
+    setActivities(prev => mergeActivities(pendingActivitiesRef.current, prev));
+    setPendingActivities([]);
+    scrollContainerRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   /**
    * @description Handles retry when there's an error
    */
@@ -210,7 +310,7 @@ export const ActivityFeedSection: React.FC<ActivityFeedSectionProps> = ({
       <div className={`${isInPanel ? 'p-6' : 'w-full max-w-screen-2xl px-8 py-16'}`}>
         <div className="text-center py-8">
           <span className="material-icons text-6xl text-startsnap-pale-sky mb-4">sentiment_satisfied</span>
-          <p className="text-startsnap-pale-sky">No recent activity. Be the first to create something!</p>
+          <p className="text-startsnap-pale-sky">{EMPTY_FEED_MESSAGES[scope]}</p>
         </div>
       </div>
     );
@@ -233,6 +333,20 @@ export const ActivityFeedSection: React.FC<ActivityFeedSectionProps> = ({
         ref={scrollContainerRef}
         className={`${isInPanel ? 'flex-1 overflow-y-auto px-4 py-4' : ''} space-y-3`}
       >
+        {/* New activities pill, shown while scrolled away from the top */}
+        {pendingActivities.length > 0 && (
+          <div className="sticky top-0 z-10 flex justify-center">
+            <button
+              type="button"
+              onClick={handleShowPendingActivities}
+              className="flex items-center gap-1 rounded-full border-2 border-gray-800 bg-startsnap-french-rose px-4 py-1.5 text-sm font-bold text-white shadow-lg hover:bg-startsnap-french-rose/90 transition-colors"
+            >
+              <span className="material-icons text-base">arrow_upward</span>
+              {pendingActivities.length} new {pendingActivities.length === 1 ? 'activity' : 'activities'}
+            </button>
+          </div>
+        )}
+
         {activities.map((activity) => (
           <ActivityItem key={activity.id} activity={activity} />
         ))}
@@ -89,8 +89,14 @@ export const ActivityItem: React.FC<ActivityItemProps> = ({ activity }) => {
         return 'celebration';
       case 'feedback_reply_added':
         return 'reply';
+      case 'vibe_request_completed':
+        return 'task_alt';
             case 'tip_sent':
         return 'monetization_on';
+      case 'badge_earned':
+        return 'military_tech';
+      case 'project_transferred':
+        return 'swap_horiz';
       default:
         return 'activity_zone';
     }
@@ -118,6 +124,12 @@ export const ActivityItem: React.FC<ActivityItemProps> = ({ activity }) => {
         return 'from-startsnap-persian-blue/8 to-transparent';
       case 'project_updated':
         return 'from-startsnap-corn/6 to-startsnap-mountain-meadow/4';
+      case 'vibe_request_completed':
+        return 'from-startsnap-mountain-meadow/8 to-startsnap-corn/4';
+      case 'badge_earned':
+        return 'from-startsnap-heliotrope/8 to-startsnap-corn/4';
+      case 'project_transferred':
+        return 'from-startsnap-persian-blue/8 to-startsnap-french-rose/4';
       default:
         return 'from-startsnap-mischka/6 to-transparent';
     }
@@ -145,6 +157,12 @@ export const ActivityItem: React.FC<ActivityItemProps> = ({ activity }) => {
         return 'text-startsnap-persian-blue';
       case 'tip_sent':
         return 'text-startsnap-corn';
+      case 'vibe_request_completed':
+        return 'text-startsnap-mountain-meadow';
+      case 'badge_earned':
+        return 'text-startsnap-heliotrope';
+      case 'project_transferred':
+        return 'text-startsnap-persian-blue';
       default:
         return 'text-startsnap-pale-sky';
     }
@@ -0,0 +1,129 @@
+/**
+ * src/components/ui/BadgeShelf.tsx
+ * @description Shelf card listing the badges a user has earned
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent } from './card';
+import { badgesApi } from '../../lib/api';
+import { formatDate } from '../../lib/utils';
+import type { AchievementBadge, UserBadge } from '../../types/badge';
+
+/**
+ * @description Props for the BadgeShelf component
+ * @param {string} userId - User whose badges are shown
+ * @param {boolean} [showLocked=false] - Also show badges that are not earned yet (used on the user's own profile)
+ */
+interface BadgeShelfProps {
+  userId: string;
+  showLocked?: boolean;
+}
+
+/**
+ * @description Card with one tile per earned badge and, optionally, greyed-out tiles for the rest
+ * @param {BadgeShelfProps} props - Component props
+ * @returns {JSX.Element | null} The shelf, or null when there is nothing to show
+ */
+export const BadgeShelf: React.FC<BadgeShelfProps> = ({ userId, showLocked = false }) => {
+  const [earnedBadges, setEarnedBadges] = useState<UserBadge[]>([]);
+  const [lockedBadges, setLockedBadges] = useState<AchievementBadge[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    /**
+     * @description Loads the user's badges and, when requested, the catalogue for locked badges
+     * @async
+     * @sideEffects Updates earnedBadges, lockedBadges and loading state
+     */
+    const fetchBadges = async () => {
+      setLoading(true);
+      try {
+        const [earned, catalogue] = await Promise.all([
+          badgesApi.fetchUserBadges(userId),
+          showLocked ? badgesApi.fetchBadges() : Promise.resolve([])
+        ]);
+        if (!isCurrent) return;
+
+        const earnedIds = new Set(earned.map(userBadge => userBadge.badge_id));
+        setEarnedBadges(earned);
+        setLockedBadges(catalogue.filter(badge => !earnedIds.has(badge.id)));
+      } catch (error) {
+        console.error('Error fetching badges:', error);
+        if (isCurrent) {
+          setEarnedBadges([]);
+          setLockedBadges([]);
+        }
+      } finally {
+        if (isCurrent) setLoading(false);
+      }
+    };
+
+    fetchBadges();
+    return () => {
+      isCurrent = false;
+    };
+  }, [userId, showLocked]);
+
+  if (loading || (earnedBadges.length === 0 && lockedBadges.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-8 bg-startsnap-white rounded-xl overflow-hidden border-[3px] border-solid border-gray-800 shadow-[5px_5px_0px_#1f2937]">
+      {/* Header strip */}
+      <div className="h-4 bg-startsnap-heliotrope border-b-4 border-black"></div>
+
+      <CardContent className="p-8">
+        <div className="flex items-center gap-3 mb-6">
+          <span className="material-icons text-startsnap-ebony-clay">military_tech</span>
+          <h3 className="font-heading text-startsnap-ebony-clay text-2xl">Badges</h3>
+          <span className="font-mono text-sm text-startsnap-pale-sky">
+            {earnedBadges.length}{showLocked ? ` / ${earnedBadges.length + lockedBadges.length}` : ''}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-4">
+          {earnedBadges.map(userBadge => (
+            <div
+              key={userBadge.badge_id}
+              title={userBadge.badge.description}
+              className="flex flex-col items-center text-center gap-2 p-3 rounded-lg border-2 border-gray-800 bg-startsnap-candlelight shadow-[3px_3px_0px_#1f2937]"
+            >
+              <div className="w-12 h-12 rounded-full bg-startsnap-heliotrope border-2 border-gray-800 flex items-center justify-center">
+                <span className="material-icons text-white text-2xl">{userBadge.badge.icon}</span>
+              </div>
+              <p className="font-ui text-sm text-startsnap-ebony-clay leading-tight">{userBadge.badge.name}</p>
+              {userBadge.startsnap ? (
+                <Link
+                  to={`/projects/${userBadge.startsnap.slug}`}
+                  className="font-body text-xs text-startsnap-persian-blue hover:text-startsnap-french-rose transition-colors line-clamp-1"
+                >
+                  {userBadge.startsnap.name}
+                </Link>
+              ) : (
+                <p className="font-body text-xs text-startsnap-pale-sky">{formatDate(userBadge.earned_at)}</p>
+              )}
+            </div>
+          ))}
+
+          {lockedBadges.map(badge => (
+            <div
+              key={badge.id}
+              title={badge.description}
+              className="flex flex-col items-center text-center gap-2 p-3 rounded-lg border-2 border-dashed border-gray-300 opacity-60"
+            >
+              <div className="w-12 h-12 rounded-full bg-startsnap-athens-gray border-2 border-gray-300 flex items-center justify-center">
+                <span className="material-icons text-startsnap-pale-sky text-2xl">lock</span>
+              </div>
+              <p className="font-ui text-sm text-startsnap-river-bed leading-tight">{badge.name}</p>
+              <p className="font-body text-xs text-startsnap-pale-sky line-clamp-2">{badge.description}</p>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,93 @@
+/**
+ * src/components/ui/DemoVideoPlayer.tsx
+ * @description Click-to-load player for project demo videos. Nothing is loaded from the video provider until the
+ * visitor presses play, so no third-party player or tracking runs on page load.
+ */
+
+import React, { useState } from 'react';
+import { VIDEO_PROVIDER_LABELS } from '../../lib/videoEmbed';
+import type { VideoEmbed } from '../../types/video';
+
+/**
+ * @description Props for the DemoVideoPlayer component
+ * @param {VideoEmbed} video - Parsed demo video
+ * @param {string} title - Accessible title of the player, e.g. the project name
+ * @param {boolean} [loadImmediately=false] - Start with the player loaded, for when the visitor already clicked play elsewhere
+ * @param {string} [className] - Extra classes for the 16:9 frame
+ */
+interface DemoVideoPlayerProps {
+  video: VideoEmbed;
+  title: string;
+  loadImmediately?: boolean;
+  className?: string;
+}
+
+/**
+ * @description Demo video that shows a poster with a play button first and the provider's player after a click
+ * @param {DemoVideoPlayerProps} props - Component props
+ * @returns {JSX.Element} The poster or the player
+ */
+export const DemoVideoPlayer: React.FC<DemoVideoPlayerProps> = ({
+  video,
+  title,
+  loadImmediately = false,
+  className = ''
+}) => {
+  const [isLoaded, setIsLoaded] = useState(loadImmediately);
+  const providerLabel = VIDEO_PROVIDER_LABELS[video.provider];
+
+  if (isLoaded) {
+    return (
+      <div className={`relative w-full aspect-video bg-black ${className}`}>
+        {video.provider === 'file' ? (
+          <video
+            src={video.embedUrl}
+            title={title}
+            className="absolute inset-0 w-full h-full"
+            controls
+            autoPlay
+            playsInline
+          />
+        ) : (
+          <iframe
+            src={video.embedUrl}
+            title={title}
+            className="absolute inset-0 w-full h-full"
+            allow="autoplay; fullscreen; picture-in-picture; encrypted-media"
+            allowFullScreen
+            referrerPolicy="strict-origin-when-cross-origin"
+          />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => setIsLoaded(true)}
+      className={`group relative block w-full aspect-video overflow-hidden bg-gradient-to-br from-startsnap-ebony-clay to-startsnap-persian-blue ${className}`}
+      aria-label={`Play demo video: ${title}`}
+    >
+      {video.thumbnailUrl && (
+        <img
+          src={video.thumbnailUrl}
+          alt=""
+          className="absolute inset-0 w-full h-full object-cover"
+          loading="lazy"
+          onError={(e) => {
+            (e.target as HTMLImageElement).style.display = 'none';
+          }}
+        />
+      )}
+      <div className="absolute inset-0 bg-black/30 group-hover:bg-black/40 transition-colors flex flex-col items-center justify-center gap-3">
+        <span className="w-16 h-16 rounded-full bg-startsnap-french-rose border-2 border-gray-800 shadow-[3px_3px_0px_#1f2937] flex items-center justify-center group-hover:scale-110 transition-transform">
+          <span className="material-icons text-white text-4xl">play_arrow</span>
+        </span>
+        <span className="font-ui text-xs text-white bg-black/50 rounded-full px-3 py-1">
+          {video.provider === 'file' ? 'Play demo video' : `Loads from ${providerLabel} when played`}
+        </span>
+      </div>
+    </button>
+  );
+};
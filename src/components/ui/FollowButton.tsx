@@ -0,0 +1,96 @@
+/**
+ * src/components/ui/FollowButton.tsx
+ * @description Follow / unfollow toggle for builders and projects
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from './button';
+import { followsApi } from '../../lib/api';
+import { useAuth } from '../../context/AuthContext';
+import { useApiErrorHandler } from '../../hooks/useApiErrorHandler';
+import type { FollowTarget } from '../../types/follow';
+
+/**
+ * @description Props for the FollowButton component
+ * @param {FollowTarget} target - Builder or project to follow
+ * @param {string} [className] - Extra classes for the button
+ */
+interface FollowButtonProps {
+  target: FollowTarget;
+  className?: string;
+}
+
+/**
+ * @description Button that follows or unfollows a builder or project for the signed-in user
+ * @param {FollowButtonProps} props - Component props
+ * @returns {JSX.Element | null} The toggle, or null for signed-out users and for the user's own profile
+ */
+export const FollowButton: React.FC<FollowButtonProps> = ({ target, className }) => {
+  const { user } = useAuth();
+  const { reportApiError } = useApiErrorHandler();
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const userId = user?.id ?? null;
+
+  useEffect(() => {
+    if (!userId) {
+      setIsFollowing(false);
+      return;
+    }
+
+    let isCurrent = true;
+    followsApi.isFollowing(userId, target)
+      .then(following => {
+        if (isCurrent) setIsFollowing(following);
+      })
+      .catch(error => console.error('Error checking follow status:', error));
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [userId, target.type, target.id]);
+
+  if (!userId || (target.type === 'user' && target.id === userId)) {
+    return null;
+  }
+
+  /**
+   * @description Toggles the follow
+   * @async
+   * @sideEffects Inserts into or deletes from follows
+   */
+  const handleToggle = async () => {
+    setLoading(true);
+    try {
+      if (isFollowing) {
+        await followsApi.unfollow(userId, target);
+        setIsFollowing(false);
+      } else {
+        await followsApi.follow(userId, target);
+        setIsFollowing(true);
+      }
+    } catch (error) {
+      await reportApiError(error, 'Follow Update Failed', 'Failed to update follow. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const label = target.type === 'user' ? 'builder' : 'project';
+
+  return (
+    <Button
+      onClick={handleToggle}
+      disabled={loading}
+      variant={isFollowing ? 'filterOptionSelected' : 'filterOption'}
+      className={className}
+      aria-pressed={isFollowing}
+      aria-label={isFollowing ? `Unfollow this ${label}` : `Follow this ${label}`}
+    >
+      <span className="material-icons text-base">
+        {isFollowing ? 'notifications_active' : 'add'}
+      </span>
+      {isFollowing ? 'Following' : 'Follow'}
+    </Button>
+  );
+};
@@ -1,32 +1,44 @@
 /**
  * src/components/ui/ImageUploader.tsx
- * @description Reusable image uploader component with drag-and-drop functionality for project screenshots
+ * @description Reusable image uploader component with drag-and-drop upload, reordering, captions and cover selection
+ * for project screenshots. Images are resized, re-encoded and stripped of metadata in the browser before upload.
  */
 
 import React, { useState, useRef, useCallback } from 'react';
-import { supabase } from '../../lib/supabase';
+import { storageApi } from '../../lib/api';
 import { useAuth } from '../../context/AuthContext';
+import { useApiErrorHandler } from '../../hooks/useApiErrorHandler';
 import { Button } from './button';
 import { toast } from 'sonner';
 import { getTransformedImageUrl } from '../../lib/utils';
+import { processImageForUpload, type ProcessedImage } from '../../lib/imageProcessing';
+import { MAX_PROJECT_IMAGES } from '../../config/site';
+import type { ProjectImageInput } from '../../types/startsnap';
 
 /**
  * @description Props for the ImageUploader component
  */
 interface ImageUploaderProps {
-  onUploadComplete: (url: string) => void;
+  onUploadComplete: (url: string, placeholder: string | null) => void;
   onRemove: (url: string) => void;
-  existingImageUrls: string[];
+  onImagesChange: (images: ProjectImageInput[]) => void; // Reorder, caption, alt text and cover edits
+  images: ProjectImageInput[];
+  maxImages?: number;
   mode?: 'create' | 'edit'; // Add mode to differentiate behavior
 }
 
+const MAX_SOURCE_IMAGE_BYTES = 20 * 1024 * 1024; // Selected files are downsized before upload
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024; // Applies to what is actually uploaded, e.g. GIFs that are kept as-is
+const PROCESSING_PROGRESS_SHARE = 0.7; // Share of the progress bar spent optimizing; the upload fills the rest
+
 /**
  * @description Interface for tracking upload progress of individual images
  */
 interface UploadingImage {
   file: File;
   preview: string;
-  uploading: boolean;
+  stage: 'optimizing' | 'uploading';
+  progress: number; // 0-100
 }
 
 /**
@@ -37,19 +49,34 @@ interface UploadingImage {
 export const ImageUploader: React.FC<ImageUploaderProps> = ({
   onUploadComplete,
   onRemove,
-  existingImageUrls,
+  onImagesChange,
+  images,
+  maxImages = MAX_PROJECT_IMAGES,
   mode = 'create'
 }) => {
   const { user } = useAuth();
+  const { reportApiError } = useApiErrorHandler();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [uploadingImages, setUploadingImages] = useState<UploadingImage[]>([]);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const isAtLimit = images.length >= maxImages;
+
+  /**
+   * @description Updates the progress of an image that is being processed or uploaded
+   * @param {File} file - Selected file the entry belongs to
+   * @param {Pick<UploadingImage, 'stage' | 'progress'>} update - New stage and progress
+   */
+  const updateUploadProgress = useCallback((file: File, update: Pick<UploadingImage, 'stage' | 'progress'>) => {
+    setUploadingImages(prev => prev.map(img => (img.file === file ? { ...img, ...update } : img)));
+  }, []);
 
   /**
-   * @description Handles file upload to Supabase Storage
+   * @description Optimizes an image in the browser and uploads it to Supabase Storage
    * @async
    * @param {File} file - File to upload
-   * @sideEffects Uploads file to Supabase Storage and calls onUploadComplete
+   * @sideEffects Uploads the processed file to Supabase Storage, updates progress and calls onUploadComplete
    */
   const uploadFile = useCallback(async (file: File) => {
     if (!user) {
@@ -59,34 +86,43 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
       return;
     }
 
-    const fileExt = file.name.split('.').pop();
-    const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
-    const filePath = `${user.id}/${fileName}`;
-
+    let processed: ProcessedImage;
     try {
-      const { data, error } = await supabase.storage
-        .from('project-screenshots')
-        .upload(filePath, file);
+      processed = await processImageForUpload(file, (progress) =>
+        updateUploadProgress(file, {
+          stage: 'optimizing',
+          progress: Math.round(progress * PROCESSING_PROGRESS_SHARE * 100)
+        })
+      );
+    } catch (error) {
+      console.error('Error processing image:', error);
+      toast.error('Unsupported Image', {
+        description: `${file.name} could not be read. Please try a PNG, JPG or WebP file.`
+      });
+      return;
+    }
 
-      if (error) throw error;
+    if (processed.file.size > MAX_UPLOAD_BYTES) {
+      toast.error('File Too Large', {
+        description: `${file.name} is still larger than 5MB after optimization.`
+      });
+      return;
+    }
 
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('project-screenshots')
-        .getPublicUrl(filePath);
+    try {
+      updateUploadProgress(file, { stage: 'uploading', progress: Math.round(PROCESSING_PROGRESS_SHARE * 100) });
+      const publicUrl = await storageApi.uploadScreenshot(user.id, processed.file);
+      updateUploadProgress(file, { stage: 'uploading', progress: 100 });
 
-      onUploadComplete(publicUrl);
+      onUploadComplete(publicUrl, processed.placeholder);
 
       toast.success('Image Uploaded', {
         description: 'Screenshot has been uploaded successfully.'
       });
     } catch (error) {
-      console.error('Error uploading file:', error);
-      toast.error('Upload Failed', {
-        description: 'Failed to upload image. Please try again.'
-      });
+      await reportApiError(error, 'Upload Failed', 'Failed to upload image. Please try again.');
     }
-  }, [user, onUploadComplete]);
+  }, [user, onUploadComplete, reportApiError, updateUploadProgress]);
 
   /**
    * @description Handles file selection and upload
@@ -95,13 +131,12 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
    * @sideEffects Updates uploadingImages state and triggers file uploads
    */
   const handleFiles = useCallback(async (files: FileList) => {
-    const MAX_SCREENSHOTS = 3;
-    const currentImageCount = existingImageUrls.length + uploadingImages.length;
+    const currentImageCount = images.length + uploadingImages.length;
 
     // Check if adding new files would exceed the limit
-    if (currentImageCount >= MAX_SCREENSHOTS) {
+    if (currentImageCount >= maxImages) {
       toast.error('Screenshot Limit Reached', {
-        description: `You can only upload up to ${MAX_SCREENSHOTS} screenshots per project.`
+        description: `You can only upload up to ${maxImages} screenshots per project.`
       });
       return;
     }
@@ -113,9 +148,9 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
         });
         return false;
       }
-      if (file.size > 5 * 1024 * 1024) { // 5MB limit
+      if (file.size > MAX_SOURCE_IMAGE_BYTES) {
         toast.error('File Too Large', {
-          description: 'Please select images smaller than 5MB.'
+          description: 'Please select images smaller than 20MB.'
         });
         return false;
       }
@@ -125,12 +160,12 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
     if (validFiles.length === 0) return;
 
     // Limit the number of files to not exceed the maximum
-    const remainingSlots = MAX_SCREENSHOTS - currentImageCount;
+    const remainingSlots = maxImages - currentImageCount;
     const filesToUpload = validFiles.slice(0, remainingSlots);
 
     if (filesToUpload.length < validFiles.length) {
       toast.warning('Some Images Skipped', {
-        description: `Only uploading ${filesToUpload.length} images to stay within the ${MAX_SCREENSHOTS} screenshot limit.`
+        description: `Only uploading ${filesToUpload.length} images to stay within the ${maxImages} screenshot limit.`
       });
     }
 
@@ -138,7 +173,8 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
     const newUploadingImages: UploadingImage[] = filesToUpload.map(file => ({
       file,
       preview: URL.createObjectURL(file),
-      uploading: true
+      stage: 'optimizing',
+      progress: 0
     }));
 
     setUploadingImages(prev => [...prev, ...newUploadingImages]);
@@ -149,11 +185,13 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
       await uploadFile(file);
 
       // Remove from uploading state after upload
-      setUploadingImages(prev =>
-        prev.filter(img => img.file !== file)
-      );
+      setUploadingImages(prev => {
+        const finished = prev.find(img => img.file === file);
+        if (finished) URL.revokeObjectURL(finished.preview);
+        return prev.filter(img => img.file !== file);
+      });
     }
-  }, [uploadFile, existingImageUrls.length, uploadingImages.length]);
+  }, [uploadFile, images.length, uploadingImages.length, maxImages]);
 
   /**
    * @description Handles click on upload area to trigger file input
@@ -165,7 +203,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
     event.stopPropagation();
 
     // Don't allow upload if limit is reached
-    if (existingImageUrls.length >= 3) {
+    if (isAtLimit) {
       toast.info('Screenshot Limit Reached', {
         description: 'Remove an existing image to upload a new one.'
       });
@@ -222,6 +260,83 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
     }
   };
 
+  /**
+   * @description Moves an image to a new position
+   * @param {number} fromIndex - Current index of the image
+   * @param {number} toIndex - Index the image should end up at
+   * @sideEffects Calls onImagesChange with the reordered list
+   */
+  const moveImage = (fromIndex: number, toIndex: number) => {
+    if (fromIndex === toIndex || toIndex < 0 || toIndex >= images.length) return;
+
+    const reordered = [...images];
+    const [moved] = reordered.splice(fromIndex, 1);
+    reordered.splice(toIndex, 0, moved);
+    onImagesChange(reordered);
+  };
+
+  /**
+   * @description Updates the caption or alt text of an image
+   * @param {number} index - Index of the image
+   * @param {Partial<ProjectImageInput>} changes - Fields to change
+   * @sideEffects Calls onImagesChange with the updated list
+   */
+  const updateImage = (index: number, changes: Pick<Partial<ProjectImageInput>, 'caption' | 'alt_text'>) => {
+    onImagesChange(images.map((image, i) => (i === index ? { ...image, ...changes } : image)));
+  };
+
+  /**
+   * @description Makes an image the project cover
+   * @param {number} index - Index of the new cover image
+   * @sideEffects Calls onImagesChange with exactly one cover flagged
+   */
+  const setCoverImage = (index: number) => {
+    onImagesChange(images.map((image, i) => ({ ...image, is_cover: i === index })));
+  };
+
+  /**
+   * @description Starts dragging an existing image to reorder it
+   * @param {number} index - Index of the dragged image
+   * @param {React.DragEvent} event - Drag event
+   */
+  const handleImageDragStart = (index: number, event: React.DragEvent) => {
+    setDraggedIndex(index);
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
+  /**
+   * @description Marks the image under the pointer as the drop target
+   * @param {number} index - Index of the hovered image
+   * @param {React.DragEvent} event - Drag event
+   */
+  const handleImageDragOver = (index: number, event: React.DragEvent) => {
+    if (draggedIndex === null) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    setDropIndex(index);
+  };
+
+  /**
+   * @description Drops the dragged image onto the hovered position
+   * @param {number} index - Index the image is dropped on
+   * @param {React.DragEvent} event - Drop event
+   */
+  const handleImageDrop = (index: number, event: React.DragEvent) => {
+    if (draggedIndex === null) return;
+    event.preventDefault();
+    moveImage(draggedIndex, index);
+    setDraggedIndex(null);
+    setDropIndex(null);
+  };
+
+  /**
+   * @description Clears the drag state when a drag ends without a drop
+   */
+  const handleImageDragEnd = () => {
+    setDraggedIndex(null);
+    setDropIndex(null);
+  };
+
   /**
    * @description Handles removal of existing images
    * @async
@@ -244,18 +359,8 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
 
     // In create mode, delete immediately (existing behavior)
     try {
-      // Extract file path from URL
-      const urlParts = url.split('/');
-      const fileName = urlParts[urlParts.length - 1];
-      const userId = urlParts[urlParts.length - 2];
-      const filePath = `${userId}/${fileName}`;
-
       // Delete from Supabase Storage
-      const { error } = await supabase.storage
-        .from('project-screenshots')
-        .remove([filePath]);
-
-      if (error) throw error;
+      await storageApi.removeScreenshots([url]);
 
       onRemove(url);
 
@@ -263,10 +368,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
         description: 'Screenshot has been removed successfully.'
       });
     } catch (error) {
-      console.error('Error removing file:', error);
-      toast.error('Remove Failed', {
-        description: 'Failed to remove image. Please try again.'
-      });
+      await reportApiError(error, 'Remove Failed', 'Failed to remove image. Please try again.');
     }
   };
 
@@ -308,7 +410,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
             ? 'border-startsnap-french-rose bg-startsnap-wisp-pink'
             : 'border-gray-800 bg-startsnap-athens-gray hover:bg-gray-200'
           }
-          ${existingImageUrls.length >= 3 ? 'opacity-50 cursor-not-allowed' : ''}
+          ${isAtLimit ? 'opacity-50 cursor-not-allowed' : ''}
         `}
       >
         <div className="flex flex-col items-center gap-4">
@@ -317,15 +419,15 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
           </span>
           <div>
                             <p className="font-ui text-startsnap-ebony-clay text-lg">
-              {existingImageUrls.length >= 3
+              {isAtLimit
                 ? 'Maximum screenshots reached'
                 : 'Drop images here or click to upload'
               }
             </p>
                           <p className="font-body text-startsnap-pale-sky text-sm mt-1">
-              {existingImageUrls.length >= 3
+              {isAtLimit
                 ? 'Remove an image to upload a new one'
-                : `PNG, JPG, GIF up to 5MB each (${existingImageUrls.length + uploadingImages.length}/3)`
+                : `PNG, JPG, WebP, GIF up to 20MB each, optimized before upload (${images.length + uploadingImages.length}/${maxImages})`
               }
             </p>
           </div>
@@ -333,37 +435,113 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
       </div>
 
       {/* Image Previews */}
-      {(existingImageUrls.length > 0 || uploadingImages.length > 0) && (
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+      {images.length > 1 && (
+        <p className="font-body text-startsnap-pale-sky text-sm">
+          Drag images to reorder them. The cover image represents your project on cards and link previews.
+        </p>
+      )}
+      {(images.length > 0 || uploadingImages.length > 0) && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
           {/* Existing Images */}
-          {existingImageUrls.map((url, index) => {
+          {images.map((image, index) => {
             // Optimize existing images for thumbnail display
-            let optimizedUrl = url;
+            let optimizedUrl = image.url;
             try {
-              if (url.includes('supabase.co/storage')) {
-                optimizedUrl = getTransformedImageUrl(url, {
-                  width: 120,
-                  height: 96,
+              if (image.url.includes('supabase.co/storage')) {
+                optimizedUrl = getTransformedImageUrl(image.url, {
+                  width: 240,
+                  height: 160,
                   quality: 75,
                   resize: 'cover'
                 });
               }
             } catch (error) {
               console.error(`Error optimizing preview image ${index + 1}:`, error);
-              optimizedUrl = url; // Fallback to original URL
+              optimizedUrl = image.url; // Fallback to original URL
             }
 
             return (
-              <div key={`existing-${index}`} className="relative group">
-                <img
-                  src={optimizedUrl}
-                  alt={`Screenshot ${index + 1}`}
-                  className="w-full h-24 object-cover rounded-lg border-2 border-gray-800"
-                  loading="lazy"
+              <div
+                key={image.url}
+                draggable
+                onDragStart={(event) => handleImageDragStart(index, event)}
+                onDragOver={(event) => handleImageDragOver(index, event)}
+                onDrop={(event) => handleImageDrop(index, event)}
+                onDragEnd={handleImageDragEnd}
+                className={`relative group rounded-lg border-2 bg-white p-2 space-y-2 transition-colors ${
+                  dropIndex === index && draggedIndex !== index
+                    ? 'border-startsnap-french-rose bg-startsnap-wisp-pink'
+                    : 'border-gray-800'
+                } ${draggedIndex === index ? 'opacity-50' : ''}`}
+              >
+                <div className="relative cursor-move">
+                  <img
+                    src={optimizedUrl}
+                    alt={image.alt_text || `Screenshot ${index + 1}`}
+                    className="w-full h-28 object-cover rounded-md border border-gray-300"
+                    loading="lazy"
+                    draggable={false}
+                  />
+                  <span className="absolute top-1 left-1 bg-white/90 rounded px-1.5 text-xs font-mono text-startsnap-ebony-clay border border-gray-800">
+                    {index + 1}
+                  </span>
+                  {image.is_cover ? (
+                    <span className="absolute bottom-1 left-1 flex items-center gap-1 bg-startsnap-corn rounded-full px-2 py-0.5 text-xs font-bold text-startsnap-ebony-clay border border-gray-800">
+                      <span className="material-icons text-sm">star</span>
+                      Cover
+                    </span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setCoverImage(index)}
+                      className="absolute bottom-1 left-1 flex items-center gap-1 bg-white/90 rounded-full px-2 py-0.5 text-xs font-bold text-startsnap-ebony-clay border border-gray-800 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                    >
+                      <span className="material-icons text-sm">star_border</span>
+                      Make cover
+                    </button>
+                  )}
+                  <div className="absolute bottom-1 right-1 flex gap-1">
+                    <button
+                      type="button"
+                      onClick={() => moveImage(index, index - 1)}
+                      disabled={index === 0}
+                      className="w-6 h-6 flex items-center justify-center bg-white/90 rounded-full border border-gray-800 disabled:opacity-30"
+                      aria-label={`Move image ${index + 1} earlier`}
+                    >
+                      <span className="material-icons text-sm">chevron_left</span>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveImage(index, index + 1)}
+                      disabled={index === images.length - 1}
+                      className="w-6 h-6 flex items-center justify-center bg-white/90 rounded-full border border-gray-800 disabled:opacity-30"
+                      aria-label={`Move image ${index + 1} later`}
+                    >
+                      <span className="material-icons text-sm">chevron_right</span>
+                    </button>
+                  </div>
+                </div>
+                <input
+                  type="text"
+                  value={image.caption ?? ''}
+                  onChange={(event) => updateImage(index, { caption: event.target.value })}
+                  placeholder="Caption (optional)"
+                  maxLength={200}
+                  className="startsnap-form-input w-full text-sm py-1.5"
+                  aria-label={`Caption for image ${index + 1}`}
+                />
+                <input
+                  type="text"
+                  value={image.alt_text ?? ''}
+                  onChange={(event) => updateImage(index, { alt_text: event.target.value })}
+                  placeholder="Alt text for screen readers"
+                  maxLength={300}
+                  className="startsnap-form-input w-full text-sm py-1.5"
+                  aria-label={`Alt text for image ${index + 1}`}
                 />
                 <Button
                   type="button"
-                  onClick={(event) => handleRemoveExisting(url, event)}
+                  onClick={(event) => handleRemoveExisting(image.url, event)}
                   className="absolute -top-2 -right-2 w-6 h-6 p-0 bg-startsnap-french-rose text-white rounded-full border-2 border-gray-800 shadow-[2px_2px_0px_#1f2937] opacity-0 group-hover:opacity-100 transition-opacity"
                   aria-label="Remove image"
                 >
@@ -379,13 +557,26 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
               <img
                 src={image.preview}
                 alt={`Uploading ${index + 1}`}
-                className="w-full h-24 object-cover rounded-lg border-2 border-gray-800"
+                className="w-full h-28 object-cover rounded-lg border-2 border-gray-800"
               />
-              {image.uploading && (
-                <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center rounded-lg">
-                  <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+              <div className="absolute inset-0 bg-black bg-opacity-50 flex flex-col items-center justify-center gap-2 px-4 rounded-lg">
+                <span className="font-ui text-xs text-white">
+                  {image.stage === 'optimizing' ? 'Optimizing' : 'Uploading'} {image.progress}%
+                </span>
+                <div
+                  className="w-full h-2 bg-white/30 rounded-full overflow-hidden"
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={image.progress}
+                  aria-label={`Uploading ${image.file.name}`}
+                >
+                  <div
+                    className="h-full bg-startsnap-mountain-meadow transition-[width] duration-200"
+                    style={{ width: `${image.progress}%` }}
+                  />
                 </div>
-              )}
+              </div>
               <Button
                 type="button"
                 onClick={(event) => handleRemoveUploading(image, event)}
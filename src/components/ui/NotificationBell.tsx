@@ -0,0 +1,150 @@
+/**
+ * src/components/ui/NotificationBell.tsx
+ * @description Header bell with an unread badge and a dropdown of the most recent notifications
+ */
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from './button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from './dropdown-menu';
+import { NotificationItem } from './NotificationItem';
+import { notificationsApi } from '../../lib/api';
+import { useAuth } from '../../context/AuthContext';
+import { useNotifications } from '../../context/NotificationsContext';
+import { useApiErrorHandler } from '../../hooks/useApiErrorHandler';
+import type { AppNotification } from '../../types/notification';
+
+const RECENT_NOTIFICATIONS_LIMIT = 8;
+
+/**
+ * @description Bell button that shows the unread count and lists recent notifications when opened
+ * @returns {JSX.Element | null} The bell, or null when nobody is signed in
+ */
+export const NotificationBell = (): JSX.Element | null => {
+  const { user } = useAuth();
+  const { unreadCount, refreshUnreadCount, markAsRead, markAllAsRead } = useNotifications();
+  const { reportApiError } = useApiErrorHandler();
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  /**
+   * @description Loads the most recent notifications whenever the dropdown opens
+   * @async
+   * @param {boolean} open - New open state of the dropdown
+   * @sideEffects Fetches notifications and refreshes the unread count
+   */
+  const handleOpenChange = async (open: boolean) => {
+    setIsOpen(open);
+    if (!open || !user) return;
+
+    setLoading(true);
+    try {
+      const [recent] = await Promise.all([
+        notificationsApi.fetchNotifications(user.id, 0, RECENT_NOTIFICATIONS_LIMIT - 1),
+        refreshUnreadCount(),
+      ]);
+      setNotifications(recent);
+    } catch (error) {
+      await reportApiError(error, 'Error', 'Could not load notifications.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * @description Marks the opened notification as read and closes the dropdown
+   * @async
+   * @param {AppNotification} notification - The notification that was clicked
+   */
+  const handleSelect = async (notification: AppNotification) => {
+    setIsOpen(false);
+    try {
+      await markAsRead(notification);
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+    }
+  };
+
+  /**
+   * @description Marks every notification as read
+   * @async
+   * @sideEffects Updates the notifications table and the local list
+   */
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllAsRead();
+      const readAt = new Date().toISOString();
+      setNotifications(current => current.map(notification => ({ ...notification, read_at: notification.read_at ?? readAt })));
+    } catch (error) {
+      await reportApiError(error, 'Error', 'Could not mark notifications as read.');
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <DropdownMenu open={isOpen} onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative min-w-[44px] min-h-[44px] text-startsnap-oxford-blue hover:text-startsnap-french-rose"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        >
+          <span className="material-icons text-2xl">notifications</span>
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[20px] h-5 px-1 rounded-full bg-startsnap-french-rose text-startsnap-white text-xs font-bold flex items-center justify-center border-2 border-startsnap-beige">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent align="end" className="w-80 sm:w-96 p-3 bg-white border-2 border-gray-800 rounded-xl shadow-[3px_3px_0px_#1f2937]">
+        <div className="flex items-center justify-between mb-3 px-1">
+          <h3 className="font-ui text-startsnap-oxford-blue text-lg">Notifications</h3>
+          <Button
+            variant="unstyled"
+            size="sm"
+            onClick={handleMarkAllRead}
+            disabled={unreadCount === 0}
+            className="h-auto p-0 text-sm font-ui text-startsnap-persian-blue hover:text-startsnap-french-rose disabled:text-startsnap-pale-sky"
+          >
+            Mark all read
+          </Button>
+        </div>
+
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {loading ? (
+            <p className="text-center text-sm text-startsnap-pale-sky py-6">Loading notifications...</p>
+          ) : notifications.length === 0 ? (
+            <p className="text-center text-sm text-startsnap-pale-sky py-6">You're all caught up.</p>
+          ) : (
+            notifications.map(notification => (
+              <NotificationItem
+                key={notification.id}
+                notification={notification}
+                onSelect={handleSelect}
+              />
+            ))
+          )}
+        </div>
+
+        <div className="mt-3 pt-3 border-t border-gray-200 text-center">
+          <Link
+            to="/notifications"
+            onClick={() => setIsOpen(false)}
+            className="font-ui text-sm text-startsnap-oxford-blue hover:text-startsnap-french-rose transition-colors"
+          >
+            View all notifications
+          </Link>
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
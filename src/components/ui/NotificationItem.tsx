@@ -0,0 +1,86 @@
+/**
+ * src/components/ui/NotificationItem.tsx
+ * @description Component for rendering a single notification in the header bell and on the notifications page
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { formatDetailedDate } from '../../lib/utils';
+import type { AppNotification, NotificationType } from '../../types/notification';
+
+/**
+ * @description Props for the NotificationItem component
+ * @param {AppNotification} notification - The notification to display
+ * @param {(notification: AppNotification) => void} onSelect - Called when the notification is opened
+ */
+interface NotificationItemProps {
+  notification: AppNotification;
+  onSelect: (notification: AppNotification) => void;
+}
+
+const NOTIFICATION_ICONS: Record<NotificationType, { icon: string; color: string }> = {
+  project_supported: { icon: 'favorite', color: 'text-startsnap-french-rose' },
+  support_milestone_reached: { icon: 'celebration', color: 'text-startsnap-french-rose' },
+  feedback_added: { icon: 'forum', color: 'text-startsnap-persian-blue' },
+  feedback_reply_added: { icon: 'reply', color: 'text-startsnap-persian-blue' },
+  tip_sent: { icon: 'monetization_on', color: 'text-startsnap-corn' },
+  vibe_request_completed: { icon: 'task_alt', color: 'text-startsnap-mountain-meadow' },
+};
+
+/**
+ * @description Resolves the page a notification points to
+ * @param {AppNotification} notification - The notification
+ * @returns {string} Route of the linked project (at the feedback thread when there is one), or the requests board for vibe requests without a project
+ */
+export const getNotificationLink = (notification: AppNotification): string => {
+  if (notification.startsnap?.slug) {
+    const anchor = notification.feedback_id ? `#feedback-${notification.feedback_id}` : '';
+    return `/projects/${notification.startsnap.slug}${anchor}`;
+  }
+  if (notification.notification_type === 'vibe_request_completed') {
+    return '/requests';
+  }
+  return '/notifications';
+};
+
+/**
+ * @description Renders a notification as a link, highlighted while unread
+ * @param {NotificationItemProps} props - Component props
+ * @returns {JSX.Element} Notification row
+ */
+export const NotificationItem: React.FC<NotificationItemProps> = ({ notification, onSelect }) => {
+  const { icon, color } = NOTIFICATION_ICONS[notification.notification_type] ?? {
+    icon: 'notifications',
+    color: 'text-startsnap-pale-sky',
+  };
+  const isUnread = !notification.read_at;
+
+  return (
+    <Link
+      to={getNotificationLink(notification)}
+      onClick={() => onSelect(notification)}
+      className={`flex items-start gap-3 p-3 rounded-lg border transition-colors duration-200 ${
+        isUnread
+          ? 'bg-startsnap-french-rose/5 border-startsnap-french-rose/20 hover:bg-startsnap-french-rose/10'
+          : 'bg-white border-gray-200/60 hover:bg-gray-50'
+      }`}
+    >
+      <div className={`flex-shrink-0 w-8 h-8 rounded-full bg-white flex items-center justify-center ${color}`}>
+        <span className="material-icons text-base">{icon}</span>
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <p className={`font-body text-sm leading-relaxed ${isUnread ? 'text-startsnap-ebony-clay font-semibold' : 'text-startsnap-river-bed'}`}>
+          {notification.message}
+        </p>
+        <p className="font-body text-startsnap-pale-sky text-xs mt-1">
+          {formatDetailedDate(notification.created_at)}
+        </p>
+      </div>
+
+      {isUnread && (
+        <span className="flex-shrink-0 w-2 h-2 mt-2 rounded-full bg-startsnap-french-rose" aria-label="Unread" />
+      )}
+    </Link>
+  );
+};
@@ -3,22 +3,25 @@
  * @description Sliding panel component for displaying the Community Pulse activity feed
  */
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X } from 'lucide-react';
 import { Button } from './button';
 import { ActivityFeedSection } from './ActivityFeedSection';
+import { useAuth } from '../../context/AuthContext';
+import { getActivityFeedScopeOptions } from '../../config/categories';
+import type { ActivityFeedItem, ActivityFeedScope } from '../../types/activity';
 
 /**
  * @description Props for the PulsePanel component
  * @param {boolean} isOpen - Whether the panel is currently open
  * @param {() => void} onClose - Function to call when the panel should be closed
- * @param {string | null} latestActivityTimestamp - Timestamp of the latest activity for triggering refreshes
+ * @param {ActivityFeedItem[]} streamedActivities - Activities received in real time, newest first
  */
 interface PulsePanelProps {
   isOpen: boolean;
   onClose: () => void;
-  latestActivityTimestamp: string | null;
+  streamedActivities: ActivityFeedItem[];
 }
 
 /**
@@ -29,8 +32,15 @@ interface PulsePanelProps {
 export const PulsePanel: React.FC<PulsePanelProps> = ({
   isOpen,
   onClose,
-  latestActivityTimestamp
+  streamedActivities
 }) => {
+  const { user } = useAuth();
+  const [selectedScope, setSelectedScope] = useState<ActivityFeedScope>('everyone');
+  const scopeOptions = getActivityFeedScopeOptions(!!user);
+
+  // Personal tabs disappear on sign-out; fall back to the global feed
+  const scope: ActivityFeedScope = user ? selectedScope : 'everyone';
+
   /**
    * @description Handles escape key press to close the panel
    * @param {KeyboardEvent} event - Keyboard event
@@ -84,7 +94,6 @@ export const PulsePanel: React.FC<PulsePanelProps> = ({
               duration: 0.4
             }}
             className="fixed top-0 right-0 h-full w-full max-w-md bg-white shadow-2xl z-50 border-l-4 border-startsnap-french-rose flex flex-col"
-            data-pulse-panel-open="true"
           >
             {/* Panel Header */}
             <div className="flex items-center justify-between p-6 border-b-2 border-gray-800 bg-startsnap-beige flex-shrink-0">
@@ -105,11 +114,42 @@ export const PulsePanel: React.FC<PulsePanelProps> = ({
               </Button>
             </div>
 
+            {/* Feed Tabs */}
+            {scopeOptions.length > 1 && (
+              <div
+                className="flex gap-2 px-4 py-3 border-b-2 border-gray-800 bg-white flex-shrink-0"
+                role="tablist"
+                aria-label="Community Pulse feed"
+              >
+                {scopeOptions.map(option => {
+                  const isSelected = option.value === scope;
+                  return (
+                    <Button
+                      key={option.value}
+                      variant="unstyled"
+                      size="sm"
+                      role="tab"
+                      aria-selected={isSelected}
+                      onClick={() => setSelectedScope(option.value)}
+                      className={`rounded-full border-2 px-4 font-bold transition-colors duration-200 ${
+                        isSelected
+                          ? 'bg-startsnap-french-rose border-startsnap-french-rose text-startsnap-white'
+                          : 'bg-transparent border-startsnap-mischka text-startsnap-river-bed hover:border-startsnap-ebony-clay'
+                      }`}
+                    >
+                      {option.label}
+                    </Button>
+                  );
+                })}
+              </div>
+            )}
+
             {/* Panel Content */}
             <div className="flex-1 min-h-0">
               <ActivityFeedSection
                 isInPanel={true}
-                latestActivityTimestamp={latestActivityTimestamp}
+                streamedActivities={streamedActivities}
+                scope={scope}
               />
             </div>
           </motion.div>
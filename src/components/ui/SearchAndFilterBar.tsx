@@ -28,6 +28,26 @@ interface SearchAndFilterBarProps {
 }
 
 const DEFAULT_SORT: SortOption = { field: 'created_at', direction: 'desc' }; // Newest by default
+const RELEVANCE_SORT: SortOption = { field: 'relevance', direction: 'desc' }; // Best search match first
+
+/**
+ * @description Picks the sort to apply for a search term: starting a search while on the default sort switches
+ * to relevance, and clearing the search leaves relevance (which has nothing to rank without a term).
+ * @param {string} searchTerm - Search term about to be applied
+ * @param {string} previousSearchTerm - Search term currently applied
+ * @param {SortOption} sort - Currently selected sort
+ * @returns {SortOption} Sort to apply
+ */
+const resolveSortForSearch = (searchTerm: string, previousSearchTerm: string, sort: SortOption): SortOption => {
+  const isSearching = searchTerm.trim() !== '';
+  if (isSearching && previousSearchTerm.trim() === '' && sort.field === DEFAULT_SORT.field && sort.direction === DEFAULT_SORT.direction) {
+    return RELEVANCE_SORT;
+  }
+  if (!isSearching && sort.field === 'relevance') {
+    return DEFAULT_SORT;
+  }
+  return sort;
+};
 
 /**
  * @description A bar with search input, filter options, and sort options for project listings.
@@ -74,7 +94,10 @@ export const SearchAndFilterBar: React.FC<SearchAndFilterBarProps> = ({
 
   const handleApplyChanges = (updatedFilters?: FilterOptions, updatedSort?: SortOption) => {
     const finalFilters = updatedFilters || currentFilters;
-    const finalSort = updatedSort || currentSort;
+    const finalSort = resolveSortForSearch(searchTerm, initialSearchTerm, updatedSort || currentSort);
+    if (finalSort !== (updatedSort || currentSort)) {
+      setCurrentSort(finalSort);
+    }
     onDiscoveryChange({
       searchTerm,
       filters: finalFilters,
@@ -96,7 +119,7 @@ export const SearchAndFilterBar: React.FC<SearchAndFilterBarProps> = ({
       newDirection = direction || (currentSort.field === 'name' && currentSort.direction === 'asc' ? 'desc' : 'asc');
     } else if (field === 'created_at') {
       newDirection = direction || (currentSort.field === 'created_at' && currentSort.direction === 'desc' ? 'asc' : 'desc');
-    } else if (field === 'support_count') {
+    } else if (field === 'support_count' || field === 'relevance' || field === 'trending') {
       newDirection = 'desc';
     }
 
@@ -131,9 +154,11 @@ export const SearchAndFilterBar: React.FC<SearchAndFilterBarProps> = ({
   };
 
   const getSortLabel = (sort: SortOption): string => {
+    if (sort.field === 'relevance') return 'Relevance';
     if (sort.field === 'created_at' && sort.direction === 'desc') return 'Newest';
     if (sort.field === 'created_at' && sort.direction === 'asc') return 'Oldest';
     if (sort.field === 'support_count') return 'Most Supported';
+    if (sort.field === 'trending') return 'Trending';
     if (sort.field === 'name' && sort.direction === 'asc') return 'Name (A-Z)';
     if (sort.field === 'name' && sort.direction === 'desc') return 'Name (Z-A)';
     return 'Sort by';
@@ -241,12 +266,21 @@ export const SearchAndFilterBar: React.FC<SearchAndFilterBarProps> = ({
                         <DropdownMenuContent align="end">
               <DropdownMenuLabel>Sort By</DropdownMenuLabel>
               <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onClick={() => handleSortChange('relevance', 'desc')}
+                disabled={!searchTerm.trim()}
+              >
+                Relevance
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={() => handleSortChange('created_at', 'desc')}>
                 Newest
               </DropdownMenuItem>
               <DropdownMenuItem onClick={() => handleSortChange('created_at', 'asc')}>
                 Oldest
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleSortChange('trending', 'desc')}>
+                Trending
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={() => handleSortChange('support_count', 'desc')}>
                 Most Supported
               </DropdownMenuItem>
@@ -3,13 +3,17 @@
  * @description Reusable card component for displaying StartSnap projects with consistent styling
  */
 
-import React from "react";
+import React, { useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Card, CardContent } from "./card";
 import { Badge } from "./badge";
 import { UserAvatar, getAvatarName } from "./user-avatar";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "./tooltip";
 import { getTransformedImageUrl } from "../../lib/utils";
+import { getProjectCoverUrl } from "./project-thumbnail";
+import { ReportDialog } from "./report-dialog";
+import { useAuth } from "../../context/AuthContext";
+import type { ReportTarget } from "../../types/report";
 
 /**
  * @description Props interface for the StartSnapCard component
@@ -46,28 +50,30 @@ export const StartSnapCard: React.FC<StartSnapCardProps> = ({
   rank
 }) => {
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
   const categoryDisplay = getCategoryDisplay(startsnap.category);
 
   /**
    * @description Gets the optimized thumbnail URL for the card header
-   * @returns {string | null} Optimized image URL or null if no screenshot available
+   * @returns {string | null} Optimized cover image URL or null if no screenshot available
    */
   const getCardThumbnail = (): string | null => {
-    if (!startsnap.screenshot_urls || !startsnap.screenshot_urls.length) {
+    const coverUrl = getProjectCoverUrl(startsnap);
+    if (!coverUrl) {
       return null;
     }
 
     try {
-      const firstScreenshot = startsnap.screenshot_urls[0];
-      if (firstScreenshot.includes('supabase.co/storage')) {
-        return getTransformedImageUrl(firstScreenshot, {
+      if (coverUrl.includes('supabase.co/storage')) {
+        return getTransformedImageUrl(coverUrl, {
           width: 600,
           height: 300,
           quality: 80,
           resize: 'contain'
         });
       }
-      return firstScreenshot;
+      return coverUrl;
     } catch (error) {
       return null;
     }
@@ -113,6 +119,8 @@ export const StartSnapCard: React.FC<StartSnapCardProps> = ({
 
   // Check if this project is featured by our scout account
   const isScouted = creatorName === 'VibeScout';
+  const coCreators = startsnap.co_creators ?? [];
+  const canReport = !!user && !isOwner && user.id !== startsnap.user_id;
 
     const cardContent = (
     <Card className="h-full bg-startsnap-white rounded-xl overflow-hidden border-[3px] border-solid border-gray-800 shadow-[3px_3px_0px_#1f2937] active:opacity-85 active:scale-[0.98] transition-all duration-150 md:shadow-[5px_5px_0px_#1f2937] md:hover:opacity-90 md:duration-200">
@@ -267,6 +275,14 @@ export const StartSnapCard: React.FC<StartSnapCardProps> = ({
                       </span>
                     </div>
                   )}
+                  {coCreators.length > 0 && (
+                    <span
+                      className="font-body text-startsnap-shuttle-gray text-sm ml-1"
+                      title={`Built with ${coCreators.join(', ')}`}
+                    >
+                      {coCreators.length === 1 ? `& ${coCreators[0]}` : `+${coCreators.length}`}
+                    </span>
+                  )}
                 </div>
               )
             )}
@@ -287,6 +303,19 @@ export const StartSnapCard: React.FC<StartSnapCardProps> = ({
               <span className="material-icons text-lg">favorite</span>
               {startsnap.support_count || 0}
             </div>
+
+            {canReport && (
+              <button
+                type="button"
+                onClick={() => setReportTarget({ type: 'startsnap', id: startsnap.id, label: startsnap.name })}
+                onKeyDown={(e) => e.stopPropagation()} // Keep Enter/Space from reaching the card's key handler
+                className="ml-2 flex items-center text-startsnap-pale-sky hover:text-startsnap-french-rose transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-startsnap-french-rose rounded"
+                aria-label={`Report ${startsnap.name}`}
+                title="Report"
+              >
+                <span className="material-icons text-lg">outlined_flag</span>
+              </button>
+            )}
           </div>
 
           {/* Launch date for main-page variant - only show if not scouted */}
@@ -326,6 +355,8 @@ export const StartSnapCard: React.FC<StartSnapCardProps> = ({
       >
         {cardContent}
       </div>
+      {/* Outside the clickable card so clicks in the dialog do not open the project */}
+      <ReportDialog target={reportTarget} onClose={() => setReportTarget(null)} />
     </TooltipProvider>
   );
 };
\ No newline at end of file
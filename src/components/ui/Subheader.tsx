@@ -15,6 +15,7 @@ const pathDisplayNames: Record<string, string> = {
   'projects': 'Projects',
   'profile': 'Profile',
   'create': 'Create StartSnap',
+  'requests': 'Vibe Requests',
   // 'edit' will be handled contextually
 };
 
@@ -3,7 +3,8 @@
  * @description Reusable form component for creating and editing StartSnap projects
  */
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
+import { useLocation } from "react-router-dom";
 import { Button } from "./button";
 import { Input } from "./input";
 import { Label } from "./label";
@@ -15,8 +16,16 @@ import { Badge } from "./badge";
 import { SegmentedControl } from "./segmented-control";
 import { VibeLogEntry } from "./vibe-log-entry";
 import { ImageUploader } from "./ImageUploader";
+import { RestoreChangesBanner } from "./restore-changes-banner";
+import { UnsavedChangesPrompt } from "./unsaved-changes-prompt";
 import { getFormOptions, getVibeLogOptions } from "../../config/categories";
 import { isValidUrl } from "../../lib/utils";
+import { parseVideoUrl, VIDEO_PROVIDER_LABELS } from "../../lib/videoEmbed";
+import { MAX_PROJECT_IMAGES } from "../../config/site";
+import { fromDateTimeLocalValue, resolvePublishStatus, toDateTimeLocalValue } from "../../lib/publishing";
+import { useAuth } from "../../context/AuthContext";
+import { getAutosaveKey, useFormAutosave } from "../../hooks/useFormAutosave";
+import type { ProjectImageInput, PublishStatus } from "../../types/startsnap";
 import { X } from "lucide-react";
 import { toast } from "sonner";
 
@@ -35,12 +44,44 @@ interface FormState {
   isHackathon: boolean;
   toolsInput: string;
   toolsUsed: string[];
+  feedbackInput: string;
+  feedbackAreas: string[]; // Areas the owner wants feedback on, saved as startsnaps.feedback_tags
   vibeLogType: string;
   vibeLogTitle: string;
   vibeLogContent: string;
-  screenshotUrls: string[];
+  images: ProjectImageInput[];
+  publishStatus: PublishStatus; // Status the project is saved with; set on submit
+  publishAt: string | null; // ISO date string of the scheduled publish time
 }
 
+/** Reviewers rate every area, so the list is kept short */
+const MAX_FEEDBACK_AREAS = 5;
+
+/**
+ * @description Empty form state of a new project
+ */
+const DEFAULT_FORM_STATE: FormState = {
+  projectType: 'idea',
+  projectName: '',
+  description: '',
+  category: '',
+  liveUrl: '',
+  videoUrl: '',
+  tagsInput: '',
+  tags: [],
+  isHackathon: false,
+  toolsInput: '',
+  toolsUsed: [],
+  feedbackInput: '',
+  feedbackAreas: [],
+  vibeLogType: 'launch',
+  vibeLogTitle: '',
+  vibeLogContent: '',
+  images: [],
+  publishStatus: 'published',
+  publishAt: null,
+};
+
 /**
  * @description Props for the ProjectForm component
  */
@@ -58,27 +99,33 @@ interface ProjectFormProps {
  * @returns {JSX.Element} Project form with all necessary fields and validation
  */
 export const ProjectForm = ({ mode, projectId, initialData, onSubmit, onCancel }: ProjectFormProps): JSX.Element => {
-  const [formState, setFormState] = useState<FormState>({
-    projectType: 'idea',
-    projectName: '',
-    description: '',
-    category: '',
-    liveUrl: '',
-    videoUrl: '',
-    tagsInput: '',
-    tags: [],
-    isHackathon: false,
-    toolsInput: '',
-    toolsUsed: [],
-    vibeLogType: 'launch',
-    vibeLogTitle: '',
-    vibeLogContent: '',
-    screenshotUrls: [],
-  });
+  const { user } = useAuth();
+  const location = useLocation();
+  const [formState, setFormState] = useState<FormState>(DEFAULT_FORM_STATE);
 
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [imagesToDelete, setImagesToDelete] = useState<string[]>([]);
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
+  const [isLeaving, setIsLeaving] = useState(false);
+
+  // Unsaved changes are autosaved per user, route and project so they survive navigation and sign-outs
+  const loadedState = useMemo<FormState>(() => (
+    mode === 'edit' && initialData
+      ? { ...DEFAULT_FORM_STATE, ...initialData, images: initialData.images || [] }
+      : DEFAULT_FORM_STATE
+  ), [mode, initialData]);
+  const isDirty = JSON.stringify(formState) !== JSON.stringify(loadedState);
+  const autosaveKey = user ? getAutosaveKey(user.id, location.pathname, projectId ?? 'new') : null;
+  const { savedChanges, restoreSavedChanges, discardSavedChanges, clearSavedChanges } = useFormAutosave(
+    autosaveKey,
+    formState,
+    { isDirty, enabled: !isSubmitting && !isLeaving }
+  );
+
+  // Published projects stay published; only new and unpublished projects can be drafted or scheduled
+  const canSaveDraft = mode === 'create' || (initialData?.publishStatus ?? 'published') !== 'published';
+  const submitStatus: PublishStatus = canSaveDraft ? resolvePublishStatus(formState.publishAt) : 'published';
 
   // Populate form with initial data when editing
   useEffect(() => {
@@ -86,11 +133,36 @@ export const ProjectForm = ({ mode, projectId, initialData, onSubmit, onCancel }
       setFormState(prev => ({
         ...prev,
         ...initialData,
-        screenshotUrls: initialData.screenshotUrls || [],
+        images: initialData.images || [],
       }));
     }
   }, [mode, initialData]);
 
+  // Leave only after the navigation prompt has been switched off
+  useEffect(() => {
+    if (isLeaving) onCancel();
+  }, [isLeaving]);
+
+  /**
+   * @description Puts autosaved changes from an earlier visit back into the form
+   */
+  const handleRestoreChanges = () => {
+    const restored = restoreSavedChanges();
+    if (restored) {
+      setFormState({ ...loadedState, ...restored });
+      setErrors({});
+    }
+  };
+
+  /**
+   * @description Cancels editing, throwing away the autosaved changes
+   * @sideEffects Clears the autosaved changes and calls onCancel
+   */
+  const handleCancel = () => {
+    clearSavedChanges();
+    setIsLeaving(true);
+  };
+
   /**
    * @description Handles input changes for form fields
    * @param {string} field - Field name to update
@@ -156,27 +228,71 @@ export const ProjectForm = ({ mode, projectId, initialData, onSubmit, onCancel }
     }));
   };
 
+  /**
+   * @description Adds an area to the feedback areas, up to MAX_FEEDBACK_AREAS
+   * @param {string} area - Feedback area to add
+   */
+  const addFeedbackArea = (area: string) => {
+    const trimmedArea = area.trim();
+    if (!trimmedArea || formState.feedbackAreas.includes(trimmedArea)) return;
+    if (formState.feedbackAreas.length >= MAX_FEEDBACK_AREAS) {
+      toast.error('Too Many Feedback Areas', {
+        description: `Ask for feedback on up to ${MAX_FEEDBACK_AREAS} areas so reviewers can rate each of them.`
+      });
+      return;
+    }
+    setFormState(prev => ({
+      ...prev,
+      feedbackAreas: [...prev.feedbackAreas, trimmedArea],
+      feedbackInput: ''
+    }));
+  };
+
+  /**
+   * @description Removes an area from the feedback areas
+   * @param {string} areaToRemove - Feedback area to remove
+   */
+  const removeFeedbackArea = (areaToRemove: string) => {
+    setFormState(prev => ({
+      ...prev,
+      feedbackAreas: prev.feedbackAreas.filter(area => area !== areaToRemove)
+    }));
+  };
+
   /**
    * @description Handles screenshot upload completion
    * @param {string} url - URL of the uploaded screenshot
+   * @param {string | null} placeholder - Low-quality preview generated before upload
    */
-  const handleScreenshotUploadComplete = (url: string) => {
+  const handleScreenshotUploadComplete = (url: string, placeholder: string | null) => {
     setFormState(prev => ({
       ...prev,
-      screenshotUrls: [...prev.screenshotUrls, url]
+      images: [...prev.images, { url, caption: '', alt_text: '', placeholder, is_cover: prev.images.length === 0 }]
     }));
   };
 
+  /**
+   * @description Handles screenshot reordering and caption, alt text or cover edits
+   * @param {ProjectImageInput[]} images - Updated ordered image list
+   */
+  const handleScreenshotsChange = (images: ProjectImageInput[]) => {
+    setFormState(prev => ({ ...prev, images }));
+  };
+
   /**
    * @description Handles screenshot removal
    * @param {string} url - URL of the screenshot to remove
    * @sideEffects Updates form state and tracks images for deletion in edit mode
    */
   const handleScreenshotRemove = (url: string) => {
-    setFormState(prev => ({
-      ...prev,
-      screenshotUrls: prev.screenshotUrls.filter(screenshotUrl => screenshotUrl !== url)
-    }));
+    setFormState(prev => {
+      const images = prev.images.filter(image => image.url !== url);
+      // Removing the cover hands it to the first remaining image
+      if (images.length > 0 && !images.some(image => image.is_cover)) {
+        images[0] = { ...images[0], is_cover: true };
+      }
+      return { ...prev, images };
+    });
 
     // Track image for deletion in edit mode
     if (mode === 'edit') {
@@ -186,20 +302,21 @@ export const ProjectForm = ({ mode, projectId, initialData, onSubmit, onCancel }
 
   /**
    * @description Validates the form and returns validation errors
+   * @param {boolean} [asDraft=false] - Validate for a draft, which only needs a name and well-formed links
    * @returns {Record<string, string>} Object containing validation errors
    */
-  const validateForm = (): Record<string, string> => {
+  const validateForm = (asDraft = false): Record<string, string> => {
     const newErrors: Record<string, string> = {};
 
     if (!formState.projectName.trim()) {
       newErrors.projectName = 'Project name is required';
     }
 
-    if (!formState.description.trim()) {
+    if (!asDraft && !formState.description.trim()) {
       newErrors.description = 'Description is required';
     }
 
-    if (!formState.category) {
+    if (!asDraft && !formState.category) {
       newErrors.category = 'Category is required';
     }
 
@@ -211,13 +328,13 @@ export const ProjectForm = ({ mode, projectId, initialData, onSubmit, onCancel }
       newErrors.videoUrl = 'Please enter a valid URL';
     }
 
-    // Validate screenshot count (max 3)
-    if (formState.screenshotUrls.length > 3) {
-      newErrors.screenshots = 'Maximum 3 screenshots allowed per project';
+    // Validate screenshot count
+    if (formState.images.length > MAX_PROJECT_IMAGES) {
+      newErrors.screenshots = `Maximum ${MAX_PROJECT_IMAGES} screenshots allowed per project`;
     }
 
     // Only validate vibe log for create mode
-    if (mode === 'create') {
+    if (mode === 'create' && !asDraft) {
       if (!formState.vibeLogTitle.trim()) {
         newErrors.vibeLogTitle = 'Vibe log title is required';
       }
@@ -250,14 +367,13 @@ export const ProjectForm = ({ mode, projectId, initialData, onSubmit, onCancel }
   };
 
   /**
-   * @description Handles form submission
+   * @description Validates the form and submits it with the given publish status
    * @async
+   * @param {PublishStatus} publishStatus - Status to save the project with
    * @sideEffects Calls onSubmit prop with form data and images to delete
    */
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-
-    const validationErrors = validateForm();
+  const submitForm = async (publishStatus: PublishStatus) => {
+    const validationErrors = validateForm(publishStatus === 'draft');
 
     if (Object.keys(validationErrors).length > 0) {
       setErrors(validationErrors);
@@ -265,9 +381,15 @@ export const ProjectForm = ({ mode, projectId, initialData, onSubmit, onCancel }
       return;
     }
 
+    // Saved forms need no recovery; on failure the form stays dirty and is autosaved again
+    clearSavedChanges();
     setIsSubmitting(true);
     try {
-      await onSubmit(formState, imagesToDelete);
+      await onSubmit({
+        ...formState,
+        publishStatus,
+        publishAt: publishStatus === 'published' ? null : formState.publishAt,
+      }, imagesToDelete);
     } catch (error) {
       console.error('❌ Form submission error:', error);
       // Add user-friendly error toast if one isn't already shown
@@ -282,6 +404,29 @@ export const ProjectForm = ({ mode, projectId, initialData, onSubmit, onCancel }
     }
   };
 
+  /**
+   * @description Handles form submission, publishing or scheduling the project
+   * @async
+   * @param {React.FormEvent} e - Form submit event
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await submitForm(submitStatus);
+  };
+
+  /**
+   * @description Saves the project as a draft that only its owner and editors can see
+   * @async
+   */
+  const handleSaveDraft = async () => {
+    setIsSavingDraft(true);
+    try {
+      await submitForm('draft');
+    } finally {
+      setIsSavingDraft(false);
+    }
+  };
+
   /**
    * @description Handles key press events for tag/tool inputs
    * @param {React.KeyboardEvent} e - Keyboard event
@@ -298,10 +443,28 @@ export const ProjectForm = ({ mode, projectId, initialData, onSubmit, onCancel }
   const categoryOptions = getFormOptions();
   const vibeLogOptions = getVibeLogOptions();
 
+  // Tell the user whether their demo video link will be embedded or only shown as a link
+  const trimmedVideoUrl = formState.videoUrl.trim();
+  const videoEmbed = trimmedVideoUrl ? parseVideoUrl(trimmedVideoUrl) : null;
+  const videoEmbedHint = !trimmedVideoUrl || !isValidUrl(trimmedVideoUrl)
+    ? null
+    : videoEmbed
+      ? { embeddable: true, message: `${VIDEO_PROVIDER_LABELS[videoEmbed.provider]} video will be embedded on your project page` }
+      : { embeddable: false, message: "This link can't be embedded and will be shown as a link. Use YouTube, Loom, Vimeo or a direct .mp4/.webm file to embed it." };
+
   return (
     <div className="project-form-container w-full max-w-4xl bg-transparent border-0 shadow-none rounded-none overflow-visible md:bg-startsnap-white md:rounded-xl md:overflow-hidden md:border-[3px] md:border-solid md:border-gray-800 md:shadow-[5px_5px_0px_#1f2937]">
       <div className="p-4 md:p-8">
+        <UnsavedChangesPrompt when={isDirty && !isSubmitting && !isLeaving} />
         <form onSubmit={handleSubmit} className="space-y-6 md:space-y-8">
+          {savedChanges && (
+            <RestoreChangesBanner
+              savedAt={savedChanges.savedAt}
+              onRestore={handleRestoreChanges}
+              onDiscard={discardSavedChanges}
+            />
+          )}
+
           {/* Project Type */}
           <div className="startsnap-form-group">
             <label className="startsnap-form-label">
@@ -421,8 +584,13 @@ export const ProjectForm = ({ mode, projectId, initialData, onSubmit, onCancel }
                   placeholder="https://youtube.com/watch?v=..."
                   className="startsnap-form-input"
                 />
-                {errors.videoUrl && (
+                {errors.videoUrl ? (
                   <p className="text-red-500 text-sm">{errors.videoUrl}</p>
+                ) : videoEmbedHint && (
+                  <p className={`text-sm font-body flex items-center gap-1 ${videoEmbedHint.embeddable ? 'text-startsnap-mountain-meadow' : 'text-startsnap-pale-sky'}`}>
+                    <span className="material-icons text-base">{videoEmbedHint.embeddable ? 'check_circle' : 'info'}</span>
+                    {videoEmbedHint.message}
+                  </p>
                 )}
               </div>
             </div>
@@ -435,16 +603,17 @@ export const ProjectForm = ({ mode, projectId, initialData, onSubmit, onCancel }
                 Project Screenshots
               </label>
               <span className="text-sm font-body text-startsnap-pale-sky">
-                {formState.screenshotUrls.length}/3 uploaded
+                {formState.images.length}/{MAX_PROJECT_IMAGES} uploaded
               </span>
             </div>
             <p className="text-sm text-startsnap-pale-sky font-body">
-              Upload screenshots to showcase your project visually. Maximum 3 images allowed.
+              Upload screenshots to showcase your project visually. Maximum {MAX_PROJECT_IMAGES} images allowed.
             </p>
             <ImageUploader
               onUploadComplete={handleScreenshotUploadComplete}
               onRemove={handleScreenshotRemove}
-              existingImageUrls={formState.screenshotUrls}
+              onImagesChange={handleScreenshotsChange}
+              images={formState.images}
               mode={mode}
             />
             {errors.screenshots && (
@@ -524,6 +693,45 @@ export const ProjectForm = ({ mode, projectId, initialData, onSubmit, onCancel }
             </div>
           </div>
 
+          {/* Feedback Areas */}
+          <div className="startsnap-form-group">
+            <label className="startsnap-form-label">
+              Feedback Areas <span className="font-normal text-gray-500">(optional)</span>
+            </label>
+            <div className="space-y-3">
+              <Input
+                value={formState.feedbackInput}
+                onChange={(e) => handleInputChange('feedbackInput', e.target.value)}
+                onKeyPress={(e) => handleKeyPress(e, addFeedbackArea, formState.feedbackInput)}
+                placeholder="What should reviewers rate? e.g. UI/UX, Performance (press Enter to add)"
+                className="startsnap-form-input"
+              />
+              {formState.feedbackAreas.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {formState.feedbackAreas.map((area, index) => (
+                    <Badge
+                      key={index}
+                      variant="outline"
+                      className="bg-startsnap-candlelight text-startsnap-ebony-clay font-mono text-sm rounded-full border border-solid border-gray-800 px-3 py-1 flex items-center gap-2"
+                    >
+                      {area}
+                      <button
+                        type="button"
+                        onClick={() => removeFeedbackArea(area)}
+                        className="hover:text-red-500"
+                      >
+                        <X size={14} />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-gray-500">
+                Reviewers can rate each area from 1 to 5, and your project page shows the average per area.
+              </p>
+            </div>
+          </div>
+
           {/* Initial Vibe Log (Create mode only) */}
           {mode === 'create' && (
             <div className="startsnap-form-group border-t-0 md:border-t-2 md:border-gray-200 pt-4 md:pt-8">
@@ -558,24 +766,58 @@ export const ProjectForm = ({ mode, projectId, initialData, onSubmit, onCancel }
             </div>
           )}
 
+          {/* Publishing */}
+          {canSaveDraft && (
+            <div className="startsnap-form-group">
+              <Label htmlFor="publishAt" className="startsnap-form-label">
+                Schedule for Later <span className="font-normal text-gray-500">(optional)</span>
+              </Label>
+              <Input
+                id="publishAt"
+                type="datetime-local"
+                value={toDateTimeLocalValue(formState.publishAt)}
+                onChange={(e) => handleInputChange('publishAt', fromDateTimeLocalValue(e.target.value))}
+                className="startsnap-form-input"
+              />
+              <p className="text-xs text-gray-500 mt-1.5">
+                Pick a future time to go live automatically. Until then, only you and your collaborators can see the project.
+              </p>
+            </div>
+          )}
+
           {/* Form Actions */}
           <div className="startsnap-form-actions">
             <Button
               type="button"
               variant="secondary"
               size="lg"
-              onClick={onCancel}
+              onClick={handleCancel}
               disabled={isSubmitting}
             >
               Cancel
             </Button>
+            {canSaveDraft && (
+              <Button
+                type="button"
+                variant="outline"
+                size="lg"
+                onClick={handleSaveDraft}
+                disabled={isSubmitting}
+              >
+                {isSavingDraft ? 'Saving...' : 'Save Draft'}
+              </Button>
+            )}
             <Button
               type="submit"
               variant="primary"
               size="lg"
               disabled={isSubmitting}
             >
-              {isSubmitting ? (mode === 'create' ? 'Creating...' : 'Updating...') : (mode === 'create' ? 'Create StartSnap' : 'Update StartSnap')}
+              {isSubmitting && !isSavingDraft
+                ? (mode === 'create' ? 'Creating...' : 'Updating...')
+                : submitStatus === 'scheduled'
+                  ? 'Schedule StartSnap'
+                  : mode === 'create' ? 'Create StartSnap' : canSaveDraft ? 'Publish StartSnap' : 'Update StartSnap'}
             </Button>
           </div>
         </form>
@@ -5,6 +5,7 @@
 
 import React from 'react';
 import { getCategoryHueMap } from '../../config/categories';
+import type { StartSnapProject } from '../../types/startsnap';
 
 // Properties for the thumbnail components
 interface ThumbnailProps {
@@ -13,6 +14,15 @@ interface ThumbnailProps {
   category: string;
 }
 
+/**
+ * @description Picks the image that represents a project: the chosen cover, else the first screenshot
+ * @param {Pick<StartSnapProject, 'cover_image_url' | 'screenshot_urls'>} project - Project with image columns
+ * @returns {string | null} Image URL, or null when the project has no images
+ */
+export const getProjectCoverUrl = (
+  project: Pick<StartSnapProject, 'cover_image_url' | 'screenshot_urls'>
+): string | null => project.cover_image_url ?? project.screenshot_urls?.[0] ?? null;
+
 // Function to generate a consistent color based on project properties
 const generateColor = (id: string, category: string, opacity: number = 0.1) => {
   // Simple hash function to get a number from the id
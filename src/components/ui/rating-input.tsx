@@ -0,0 +1,76 @@
+/**
+ * src/components/ui/rating-input.tsx
+ * @description Star rating from 1 to 5, as an input and as a read-only display
+ */
+
+import React from "react";
+import { cn } from "../../lib/utils";
+
+const RATING_VALUES = [1, 2, 3, 4, 5];
+
+interface RatingInputProps {
+  /** Current rating, or null when unrated */
+  value: number | null;
+  /** Called with the new rating; clicking the current rating again clears it. Omit for a read-only display. */
+  onChange?: (value: number | null) => void;
+  /** Accessible name, e.g. the rated area */
+  label: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * @description Row of five stars for rating from 1 to 5
+ * @param {RatingInputProps} props - Component props
+ * @returns {JSX.Element} The star rating
+ */
+export const RatingInput = ({
+  value,
+  onChange,
+  label,
+  disabled = false,
+  className,
+}: RatingInputProps): JSX.Element => {
+  if (!onChange) {
+    return (
+      <span className={cn("inline-flex items-center", className)} aria-label={`${label}: ${value ?? 0} out of 5`}>
+        {RATING_VALUES.map(star => (
+          <span
+            key={star}
+            className={cn("material-icons text-base", star <= (value ?? 0) ? "text-startsnap-corn" : "text-gray-300")}
+            aria-hidden="true"
+          >
+            star
+          </span>
+        ))}
+      </span>
+    );
+  }
+
+  return (
+    <div role="radiogroup" aria-label={label} className={cn("inline-flex items-center", className)}>
+      {RATING_VALUES.map(star => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} out of 5`}
+          onClick={() => onChange(value === star ? null : star)}
+          disabled={disabled}
+          className="p-0.5 rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-startsnap-french-rose disabled:opacity-50"
+        >
+          <span
+            className={cn(
+              "material-icons text-xl transition-colors",
+              star <= (value ?? 0) ? "text-startsnap-corn" : "text-gray-300 hover:text-startsnap-corn/60"
+            )}
+            aria-hidden="true"
+          >
+            {star <= (value ?? 0) ? "star" : "star_border"}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+};
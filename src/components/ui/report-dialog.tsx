@@ -0,0 +1,196 @@
+/**
+ * src/components/ui/report-dialog.tsx
+ * @description Dialog for reporting a project, feedback, reply or profile to the admins
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from './button';
+import { Textarea } from './textarea';
+import { X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../../context/AuthContext';
+import { useApiErrorHandler } from '../../hooks/useApiErrorHandler';
+import { ApiError, reportsApi } from '../../lib/api';
+import { REPORT_REASONS } from '../../config/reports';
+import type { ReportReason, ReportTarget } from '../../types/report';
+
+const MAX_DETAILS_LENGTH = 1000;
+
+/**
+ * @description Props for the ReportDialog component.
+ * @param {ReportTarget | null} target - The content being reported; the dialog is closed when null.
+ * @param {() => void} onClose - Closes the dialog.
+ */
+interface ReportDialogProps {
+  target: ReportTarget | null;
+  onClose: () => void;
+}
+
+/**
+ * @description Dialog for reporting content, with a reason and optional details
+ * @param {ReportDialogProps} props - Component props
+ * @returns {JSX.Element | null} Dialog or null if nothing is being reported
+ */
+export const ReportDialog: React.FC<ReportDialogProps> = ({ target, onClose }) => {
+  const { user } = useAuth();
+  const { reportApiError } = useApiErrorHandler();
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setReason(null);
+    setDetails('');
+  }, [target]);
+
+  if (!target) return null;
+
+  const needsDetails = reason === 'other' && details.trim().length === 0;
+
+  /**
+   * @description Handles backdrop click to close dialog
+   * @param {React.MouseEvent} e - Mouse event
+   */
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget && !isSubmitting) {
+      onClose();
+    }
+  };
+
+  /**
+   * @description Handles escape key press to close dialog
+   * @param {React.KeyboardEvent} e - Keyboard event
+   */
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && !isSubmitting) {
+      onClose();
+    }
+  };
+
+  /**
+   * @description Submits the report
+   * @async
+   * @sideEffects Inserts a report, shows a toast and closes the dialog
+   */
+  const handleSubmit = async () => {
+    if (!user || !reason || needsDetails) return;
+
+    setIsSubmitting(true);
+    try {
+      await reportsApi.createReport(user.id, target.type, target.id, reason, details);
+      toast.success('Report Sent', {
+        description: 'Thanks for letting us know. An admin will review it.'
+      });
+      onClose();
+    } catch (error) {
+      if (error instanceof ApiError && error.code === '23505') {
+        toast.info('Already Reported', {
+          description: 'You already reported this and it is waiting for review.'
+        });
+        onClose();
+      } else {
+        await reportApiError(error, 'Report Failed', 'Could not send your report. Please try again.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+    >
+      <div
+        className="bg-startsnap-white border-2 border-startsnap-ebony-clay rounded-xl shadow-[4px_4px_0px_#1f2937] max-w-md w-full max-h-[90vh] overflow-y-auto animate-in zoom-in-95 duration-200"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="report-dialog-title"
+      >
+        {/* Header Section */}
+        <div className="border-b-2 border-startsnap-ebony-clay p-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-8 h-8 bg-startsnap-french-rose rounded-lg border-2 border-startsnap-ebony-clay flex items-center justify-center shadow-[2px_2px_0px_#1f2937]">
+                <span className="material-icons text-base text-startsnap-white">flag</span>
+              </div>
+              <h2
+                id="report-dialog-title"
+                className="font-heading text-startsnap-ebony-clay text-xl uppercase tracking-wider"
+              >
+                Report
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="w-8 h-8 bg-startsnap-beige border-2 border-startsnap-ebony-clay rounded-lg hover:bg-startsnap-beige/90 active:scale-95 transition-all duration-150 flex items-center justify-center shadow-[2px_2px_0px_#1f2937] hover:shadow-[3px_3px_0px_#1f2937] hover:translate-x-[-1px] hover:translate-y-[-1px]"
+              aria-label="Close dialog"
+            >
+              <X className="h-4 w-4 text-startsnap-ebony-clay" />
+            </button>
+          </div>
+          <p className="text-startsnap-ebony-clay/70 mt-3 font-medium text-sm">
+            Reporting <strong className="text-startsnap-ebony-clay">{target.label}</strong>. Reports are only seen
+            by the StartSnap admins.
+          </p>
+        </div>
+
+        {/* Main Content Section */}
+        <div className="p-6 space-y-6">
+          <fieldset className="space-y-2">
+            <legend className="startsnap-form-label">Reason</legend>
+            {REPORT_REASONS.map(option => {
+              const isSelected = reason === option.value;
+              return (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setReason(option.value)}
+                  disabled={isSubmitting}
+                  aria-pressed={isSelected}
+                  className={`w-full text-left p-3 rounded-lg border-2 border-gray-800 transition-all duration-150 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-startsnap-french-rose ${
+                    isSelected
+                      ? 'bg-startsnap-candlelight shadow-[2px_2px_0px_#1f2937]'
+                      : 'bg-startsnap-white hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="block font-ui text-startsnap-ebony-clay text-sm">{option.label}</span>
+                  <span className="block font-body text-startsnap-pale-sky text-xs">{option.description}</span>
+                </button>
+              );
+            })}
+          </fieldset>
+
+          <div className="startsnap-form-group">
+            <label htmlFor="report-details" className="startsnap-form-label">
+              Details {reason !== 'other' && <span className="font-normal text-gray-500">(optional)</span>}
+            </label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={MAX_DETAILS_LENGTH}
+              rows={3}
+              disabled={isSubmitting}
+              placeholder="Anything that helps us review this report"
+              className="startsnap-form-input"
+            />
+          </div>
+
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !reason || needsDetails}
+            variant="primary"
+            size="lg"
+            className="w-full"
+          >
+            {isSubmitting ? 'SENDING...' : 'SEND REPORT'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+/**
+ * src/components/ui/restore-changes-banner.tsx
+ * @description Banner offering to restore autosaved changes from an earlier visit to a form
+ */
+
+import React from 'react';
+import { Button } from './button';
+import { formatDetailedDate } from '../../lib/utils';
+
+interface RestoreChangesBannerProps {
+  /** ISO date string of when the changes were saved */
+  savedAt: string;
+  /** Puts the saved changes back into the form */
+  onRestore: () => void;
+  /** Throws the saved changes away */
+  onDiscard: () => void;
+}
+
+/**
+ * @description Asks whether to restore unsaved changes found on this device
+ * @param {RestoreChangesBannerProps} props - Component props
+ * @returns {JSX.Element} The banner
+ */
+export const RestoreChangesBanner: React.FC<RestoreChangesBannerProps> = ({ savedAt, onRestore, onDiscard }) => {
+  return (
+    <div
+      role="status"
+      className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between p-4 rounded-lg border-2 border-gray-800 bg-startsnap-candlelight shadow-[2px_2px_0px_#1f2937]"
+    >
+      <div className="flex items-center gap-3">
+        <span className="material-icons text-startsnap-french-rose">history</span>
+        <p className="font-body text-sm text-startsnap-river-bed">
+          Restore unsaved changes? You left this form with changes on {formatDetailedDate(savedAt)}.
+        </p>
+      </div>
+      <div className="flex gap-3">
+        <Button type="button" variant="secondary" size="sm" onClick={onDiscard}>
+          Discard
+        </Button>
+        <Button type="button" variant="primary" size="sm" onClick={onRestore}>
+          Restore
+        </Button>
+      </div>
+    </div>
+  );
+};
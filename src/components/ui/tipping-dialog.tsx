@@ -10,7 +10,7 @@ import { Textarea } from './textarea';
 import { WalletConnect } from './WalletConnect';
 import { useWallet } from '@txnlab/use-wallet-react';
 import { useAuth } from '../../context/AuthContext';
-import { supabase } from '../../lib/supabase';
+import { activityApi, startsnapsApi } from '../../lib/api';
 import { X } from 'lucide-react';
 import { toast } from 'sonner';
 import algosdk from 'algosdk';
@@ -385,39 +385,31 @@ export const TippingDialog: React.FC<TippingDialogProps> = ({
 
     try {
       // Find the project ID and creator info for the activity log
-      const { data: projectData, error: projectError } = await supabase
-        .from('startsnaps')
-        .select('id, user_id')
-        .eq('name', projectName)
-        .single();
-
-      if (projectError || !projectData) {
-        console.warn('Could not find project for activity log:', projectError);
+      const projectData = await startsnapsApi.fetchStartSnapByName(projectName);
+
+      if (!projectData) {
+        console.warn('Could not find project for activity log:', projectName);
         return;
       }
 
       const currency = CURRENCIES[selectedCurrency];
 
       // Call the database function to create activity log entry
-      const { error: activityError } = await supabase.rpc('create_activity_log', {
-        p_activity_type: 'tip_sent',
-        p_actor_user_id: user.id,
-        p_target_startsnap_id: projectData.id,
-        p_target_user_id: projectData.user_id,
-        p_metadata: {
+      await activityApi.logActivity({
+        activityType: 'tip_sent',
+        actorUserId: user.id,
+        targetStartsnapId: projectData.id,
+        targetUserId: projectData.user_id,
+        metadata: {
           tip_amount: tipAmount.toString(),
           currency: currency.symbol,
           transaction_id: txId,
           note: note || null
         },
-        p_visibility: 'public'
+        visibility: 'public'
       });
-
-      if (activityError) {
-        console.error('Error logging tip activity:', activityError);
-      }
     } catch (error) {
-      console.error('Error in logTipActivity:', error);
+      console.error('Error logging tip activity:', error);
     }
   };
 
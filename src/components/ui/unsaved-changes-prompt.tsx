@@ -0,0 +1,63 @@
+/**
+ * src/components/ui/unsaved-changes-prompt.tsx
+ * @description Asks for confirmation before leaving a page with unsaved changes, for in-app navigation as well as
+ * reloads and closing the tab
+ */
+
+import React, { useEffect } from 'react';
+import { useBlocker } from 'react-router-dom';
+import { ConfirmationDialog } from './confirmation-dialog';
+
+interface UnsavedChangesPromptProps {
+  /** Whether the page has unsaved changes */
+  when: boolean;
+  /** Message shown in the dialog */
+  description?: string;
+}
+
+/**
+ * @description Blocks navigation to another page while there are unsaved changes and asks the user to confirm.
+ * Changes stay autosaved when the user leaves anyway, so they can be restored later.
+ * @param {UnsavedChangesPromptProps} props - Component props
+ * @returns {JSX.Element} Confirmation dialog, shown while a navigation is blocked
+ */
+export const UnsavedChangesPrompt: React.FC<UnsavedChangesPromptProps> = ({
+  when,
+  description = 'You have unsaved changes. They are kept on this device, so you can restore them when you come back.'
+}) => {
+  // Query string and hash changes stay on the same page and are not blocked
+  const blocker = useBlocker(({ currentLocation, nextLocation }) =>
+    when && currentLocation.pathname !== nextLocation.pathname
+  );
+
+  useEffect(() => {
+    if (!when) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [when]);
+
+  // Let a navigation through once the changes are gone, e.g. after saving
+  useEffect(() => {
+    if (blocker.state === 'blocked' && !when) {
+      blocker.proceed();
+    }
+  }, [blocker, when]);
+
+  return (
+    <ConfirmationDialog
+      isOpen={blocker.state === 'blocked'}
+      onClose={() => blocker.reset?.()}
+      onConfirm={() => blocker.proceed?.()}
+      title="Leave Without Saving?"
+      description={description}
+      confirmText="Leave Page"
+      type="warning"
+    />
+  );
+};
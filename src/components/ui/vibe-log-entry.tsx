@@ -3,14 +3,17 @@
  *
  * @description VibeLogEntry component for creating and editing vibe log entries.
  * Provides form fields for title, content, and type selection with support for
- * both single-option and multi-option type selection modes.
+ * both single-option and multi-option type selection modes, optional scheduling and draft controls, and optional
+ * autosave of unsaved changes.
  */
 
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useMemo } from "react";
 import { Label } from "./label";
 import { Input } from "./input";
 import { Textarea } from "./textarea";
 import { Button } from "./button";
+import { RestoreChangesBanner } from "./restore-changes-banner";
+import { UnsavedChangesPrompt } from "./unsaved-changes-prompt";
 import {
   Select,
   SelectContent,
@@ -19,6 +22,8 @@ import {
   SelectValue,
 } from "./select";
 import { getVibeLogOptions, getVibeLogDisplay } from "../../config/categories";
+import { fromDateTimeLocalValue, toDateTimeLocalValue } from "../../lib/publishing";
+import { useFormAutosave } from "../../hooks/useFormAutosave";
 
 import { supabase } from "../../lib/supabase";
 import { toast } from "sonner";
@@ -32,6 +37,12 @@ interface VibeLogEntryProps {
   onTypeChange: (value: string) => void;
   showAllTypes?: boolean;
   singleOptionType?: 'launch' | 'idea';
+  publishAt?: string | null; // ISO date string of the scheduled publish time
+  onPublishAtChange?: (value: string | null) => void; // Shows the schedule field when provided
+  onSaveDraft?: () => void; // Shows the Save Draft button when provided
+  isSavingDraft?: boolean;
+  autosaveKey?: string | null; // Autosaves the entry and guards navigation when provided, see getAutosaveKey
+  isDirty?: boolean; // Whether the entry differs from what was loaded; required for autosave
 }
 
 /**
@@ -48,8 +59,16 @@ export const VibeLogEntry = ({
   onTypeChange,
   showAllTypes = false,
   singleOptionType = 'launch',
+  publishAt = null,
+  onPublishAtChange,
+  onSaveDraft,
+  isSavingDraft = false,
+  autosaveKey = null,
+  isDirty = false,
 }: VibeLogEntryProps): JSX.Element => {
   const [isFormatting, setIsFormatting] = useState(false);
+  const entryState = useMemo(() => ({ type, title, content }), [type, title, content]);
+  const { savedChanges, restoreSavedChanges, discardSavedChanges } = useFormAutosave(autosaveKey, entryState, { isDirty });
   const vibeLogOptions = getVibeLogOptions();
   const currentTypeConfig = vibeLogOptions.find(option => option.value === type);
 
@@ -88,8 +107,29 @@ export const VibeLogEntry = ({
     }
   }, [content, type, onContentChange]);
 
+  /**
+   * @description Puts autosaved changes from an earlier visit back into the entry
+   */
+  const handleRestoreChanges = () => {
+    const restored = restoreSavedChanges();
+    if (restored) {
+      onTypeChange(restored.type);
+      onTitleChange(restored.title);
+      onContentChange(restored.content);
+    }
+  };
+
   return (
     <div className="space-y-5">
+      {autosaveKey && <UnsavedChangesPrompt when={isDirty} />}
+      {savedChanges && (
+        <RestoreChangesBanner
+          savedAt={savedChanges.savedAt}
+          onRestore={handleRestoreChanges}
+          onDiscard={discardSavedChanges}
+        />
+      )}
+
       <div className="startsnap-form-group">
         <label className="startsnap-form-label">
           Entry Type
@@ -164,6 +204,35 @@ export const VibeLogEntry = ({
         />
         <p className="text-xs text-gray-500 mt-1.5">Markdown formatting is supported.</p>
       </div>
+
+      {(onPublishAtChange || onSaveDraft) && (
+        <div className="startsnap-form-group flex flex-col gap-3 sm:flex-row sm:items-end">
+          {onPublishAtChange && (
+            <div className="flex-1">
+              <label className="startsnap-form-label">
+                Schedule for Later <span className="font-normal text-gray-500">(optional)</span>
+              </label>
+              <Input
+                type="datetime-local"
+                value={toDateTimeLocalValue(publishAt)}
+                onChange={(e) => onPublishAtChange(fromDateTimeLocalValue(e.target.value))}
+                className="startsnap-form-input"
+              />
+            </div>
+          )}
+          {onSaveDraft && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onSaveDraft}
+              disabled={isSavingDraft || !title.trim()}
+            >
+              <span className="material-icons text-base mr-2">edit_note</span>
+              {isSavingDraft ? 'Saving...' : 'Save Draft'}
+            </Button>
+          )}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -219,6 +219,151 @@ export const USER_STATUS_CONFIG = {
   }
 } as const;
 
+/**
+ * @description Configuration for vibe request statuses
+ * Order matters: it is the order statuses are offered as transitions on the board
+ */
+export const VIBE_REQUEST_STATUS_CONFIG = {
+  open: {
+    value: 'open',
+    label: 'Open',
+    icon: 'radio_button_unchecked',
+    display: {
+      bgColor: 'bg-startsnap-mountain-meadow',
+      textColor: 'text-white'
+    }
+  },
+  'in progress': {
+    value: 'in progress',
+    label: 'In Progress',
+    icon: 'pending',
+    display: {
+      bgColor: 'bg-startsnap-candlelight',
+      textColor: 'text-startsnap-ebony-clay'
+    }
+  },
+  completed: {
+    value: 'completed',
+    label: 'Completed',
+    icon: 'task_alt',
+    display: {
+      bgColor: 'bg-startsnap-ebony-clay',
+      textColor: 'text-startsnap-beige'
+    }
+  }
+} as const;
+
+/**
+ * @description Configuration for vibe request types
+ */
+export const VIBE_REQUEST_TYPE_CONFIG = {
+  request: {
+    value: 'request',
+    label: 'Request',
+    icon: 'lightbulb',
+    description: 'Something you wish existed and would love someone to build'
+  },
+  challenge: {
+    value: 'challenge',
+    label: 'Challenge',
+    icon: 'emoji_events',
+    description: 'A build challenge thrown down to the community'
+  }
+} as const;
+
+/**
+ * @description Configuration for trending time windows. Must match the windows accepted by
+ * the startsnap_trending_score database function (and its trending_score_<window> computed fields).
+ */
+export const TRENDING_WINDOW_CONFIG = {
+  '24h': {
+    value: '24h',
+    label: '24h',
+    description: 'Hot today'
+  },
+  '7d': {
+    value: '7d',
+    label: '7 days',
+    description: 'Trending this week'
+  },
+  '30d': {
+    value: '30d',
+    label: '30 days',
+    description: 'Trending this month'
+  }
+} as const;
+
+/**
+ * @description Configuration for Community Pulse feed tabs. Must match the scopes accepted by
+ * the get_activity_feed database function.
+ */
+export const ACTIVITY_FEED_SCOPE_CONFIG = {
+  everyone: {
+    value: 'everyone',
+    label: 'Everyone',
+    requiresAuth: false
+  },
+  following: {
+    value: 'following',
+    label: 'Following',
+    requiresAuth: true
+  },
+  mine: {
+    value: 'mine',
+    label: 'My projects',
+    requiresAuth: true
+  }
+} as const;
+
+/**
+ * @description Configuration for email notification events. Must match the event types accepted by
+ * the notification_preferences table.
+ */
+export const NOTIFICATION_EMAIL_EVENT_CONFIG = {
+  feedback: {
+    value: 'feedback',
+    label: 'New feedback',
+    icon: 'forum',
+    description: 'Someone leaves feedback on one of your projects'
+  },
+  reply: {
+    value: 'reply',
+    label: 'Replies',
+    icon: 'reply',
+    description: 'Someone replies to your feedback'
+  },
+  support_milestone: {
+    value: 'support_milestone',
+    label: 'Support milestones',
+    icon: 'celebration',
+    description: 'One of your projects reaches a supporter milestone'
+  },
+  tip: {
+    value: 'tip',
+    label: 'Tips',
+    icon: 'monetization_on',
+    description: 'Someone tips one of your projects'
+  }
+} as const;
+
+/**
+ * @description Configuration for email delivery modes
+ */
+export const EMAIL_DELIVERY_CONFIG = {
+  immediate: {
+    value: 'immediate',
+    label: 'Immediately'
+  },
+  daily_digest: {
+    value: 'daily_digest',
+    label: 'Daily digest'
+  },
+  off: {
+    value: 'off',
+    label: 'Off'
+  }
+} as const;
+
 /**
  * @description Get form options for select dropdowns
  * @returns Array of {value, label} objects for form components
@@ -349,10 +494,110 @@ export const getUserStatusDisplay = (status: string) => {
   return displayMap[status] || displayMap.brainstorming;
 };
 
+/**
+ * @description Get vibe request status options for select dropdowns
+ * @returns Array of {value, label, icon} objects for form components
+ */
+export const getVibeRequestStatusOptions = () => {
+  return Object.values(VIBE_REQUEST_STATUS_CONFIG).map(config => ({
+    value: config.value,
+    label: config.label,
+    icon: config.icon
+  }));
+};
+
+/**
+ * @description Get display properties for a specific vibe request status
+ * @param {string} status - Vibe request status identifier
+ * @returns {Object} Display properties including label, icon and colors
+ */
+export const getVibeRequestStatusDisplay = (status: string) => {
+  const config = VIBE_REQUEST_STATUS_CONFIG[status as VibeRequestStatusValue] || VIBE_REQUEST_STATUS_CONFIG.open;
+  return { label: config.label, icon: config.icon, ...config.display };
+};
+
+/**
+ * @description Get vibe request type options for select dropdowns
+ * @returns Array of {value, label, icon, description} objects for form components
+ */
+export const getVibeRequestTypeOptions = () => {
+  return Object.values(VIBE_REQUEST_TYPE_CONFIG).map(config => ({
+    value: config.value,
+    label: config.label,
+    icon: config.icon,
+    description: config.description
+  }));
+};
+
+/**
+ * @description Get display properties for a specific vibe request type
+ * @param {string} type - Vibe request type identifier
+ * @returns {Object} Display properties including label and icon
+ */
+export const getVibeRequestTypeDisplay = (type: string) => {
+  return VIBE_REQUEST_TYPE_CONFIG[type as VibeRequestTypeValue] || VIBE_REQUEST_TYPE_CONFIG.request;
+};
+
+/**
+ * @description Get trending window options for toggle buttons
+ * @returns Array of {value, label, description} objects
+ */
+export const getTrendingWindowOptions = () => {
+  return Object.values(TRENDING_WINDOW_CONFIG).map(config => ({
+    value: config.value,
+    label: config.label,
+    description: config.description
+  }));
+};
+
+/**
+ * @description Get Community Pulse feed tabs
+ * @param {boolean} isSignedIn - Whether the viewer is signed in; personal tabs are only offered to signed-in users
+ * @returns Array of {value, label} objects
+ */
+export const getActivityFeedScopeOptions = (isSignedIn: boolean) => {
+  return Object.values(ACTIVITY_FEED_SCOPE_CONFIG)
+    .filter(config => isSignedIn || !config.requiresAuth)
+    .map(config => ({
+      value: config.value,
+      label: config.label
+    }));
+};
+
+/**
+ * @description Get email notification events for the settings form
+ * @returns Array of {value, label, icon, description} objects
+ */
+export const getNotificationEmailEventOptions = () => {
+  return Object.values(NOTIFICATION_EMAIL_EVENT_CONFIG).map(config => ({
+    value: config.value,
+    label: config.label,
+    icon: config.icon,
+    description: config.description
+  }));
+};
+
+/**
+ * @description Get email delivery options for select dropdowns
+ * @returns Array of {value, label} objects
+ */
+export const getEmailDeliveryOptions = () => {
+  return Object.values(EMAIL_DELIVERY_CONFIG).map(config => ({
+    value: config.value,
+    label: config.label
+  }));
+};
+
 // Type exports for better TypeScript support
 export type CategoryValue = keyof typeof CATEGORY_CONFIG;
 export type CategoryConfig = typeof CATEGORY_CONFIG[CategoryValue];
 export type VibeLogValue = keyof typeof VIBE_LOG_CONFIG;
 export type VibeLogConfig = typeof VIBE_LOG_CONFIG[VibeLogValue];
 export type UserStatusValue = keyof typeof USER_STATUS_CONFIG;
-export type UserStatusConfig = typeof USER_STATUS_CONFIG[UserStatusValue];
\ No newline at end of file
+export type UserStatusConfig = typeof USER_STATUS_CONFIG[UserStatusValue];
+export type VibeRequestStatusValue = keyof typeof VIBE_REQUEST_STATUS_CONFIG;
+export type VibeRequestTypeValue = keyof typeof VIBE_REQUEST_TYPE_CONFIG;
+export type TrendingWindowValue = keyof typeof TRENDING_WINDOW_CONFIG;
+export type ActivityFeedScopeValue = keyof typeof ACTIVITY_FEED_SCOPE_CONFIG;
+export type NotificationEmailEventValue = keyof typeof NOTIFICATION_EMAIL_EVENT_CONFIG;
+export type EmailDeliveryValue = keyof typeof EMAIL_DELIVERY_CONFIG;
@@ -0,0 +1,16 @@
+/**
+ * src/config/reactions.ts
+ * @description Emoji reactions available on feedback and replies. Keep in step with the emoji CHECK constraint on
+ * public.feedback_reactions.
+ */
+
+export const FEEDBACK_REACTIONS = [
+  { emoji: '👍', label: 'Thumbs up' },
+  { emoji: '❤️', label: 'Love' },
+  { emoji: '🎉', label: 'Celebrate' },
+  { emoji: '🚀', label: 'Rocket' },
+  { emoji: '👀', label: 'Eyes' },
+  { emoji: '😂', label: 'Laugh' },
+] as const;
+
+export type FeedbackReactionEmoji = typeof FEEDBACK_REACTIONS[number]['emoji'];
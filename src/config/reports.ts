@@ -0,0 +1,24 @@
+/**
+ * src/config/reports.ts
+ * @description Reasons users can pick when reporting content. Keep in step with the reason CHECK constraint on
+ * public.reports.
+ */
+
+import type { ReportReason } from '../types/report';
+
+export const REPORT_REASONS: { value: ReportReason; label: string; description: string }[] = [
+  { value: 'spam', label: 'Spam', description: 'Advertising, scams or repeated off-topic posts' },
+  { value: 'harassment', label: 'Harassment', description: 'Insults, threats or targeting someone' },
+  { value: 'inappropriate', label: 'Inappropriate', description: 'Offensive, explicit or illegal content' },
+  { value: 'impersonation', label: 'Impersonation', description: 'Pretending to be someone else' },
+  { value: 'other', label: 'Other', description: 'Something else, please describe it' },
+];
+
+/**
+ * @description Gets the label of a report reason
+ * @param {ReportReason} reason - Reason value
+ * @returns {string} Human-readable label
+ */
+export const getReportReasonLabel = (reason: ReportReason): string => {
+  return REPORT_REASONS.find(option => option.value === reason)?.label ?? reason;
+};
@@ -18,4 +18,11 @@ export const SITE_URL: string =
  * @description Fallback image that will be used for OpenGraph / Twitter cards when a page-specific
  *              image is not available. Should be an absolute URL to comply with social scrapers.
  */
-export const DEFAULT_OG_IMAGE: string = "https://ik.imagekit.io/craftsnap/startsnap/vibe-coder-aha.png?updatedAt=1748985333023";
\ No newline at end of file
+export const DEFAULT_OG_IMAGE: string = "https://ik.imagekit.io/craftsnap/startsnap/vibe-coder-aha.png?updatedAt=1748985333023";
+
+/**
+ * @description Maximum number of images per project. Override with `VITE_MAX_PROJECT_IMAGES`; keep it in step
+ *              with the `app.max_project_images` database setting that save_startsnap_images() enforces.
+ */
+export const MAX_PROJECT_IMAGES: number =
+  Number(import.meta.env.VITE_MAX_PROJECT_IMAGES as string | undefined) || 10;
@@ -12,6 +12,10 @@ interface AuthContextType {
   user: User | null;
   loading: boolean;
   session: Session | null;
+  /**
+   * @description Whether the signed-in user carries the admin role claim (app_metadata.role, set by the service role)
+   */
+  isAdmin: boolean;
   /**
    * @description Call this function when a Supabase API call fails due to a session issue (e.g., 403 "session_not_found").
    * It will sign the user out, triggering an auth state change that should update the UI to a logged-out state.
@@ -420,6 +424,7 @@ export const AuthProvider = ({ children }: AuthProviderProps): JSX.Element => {
     user,
     loading,
     session,
+    isAdmin: user?.app_metadata?.role === 'admin',
     handleAuthErrorAndSignOut,
     forceLogout,
   };
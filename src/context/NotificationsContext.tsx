@@ -0,0 +1,109 @@
+/**
+ * src/context/NotificationsContext.tsx
+ * @description Notifications context that tracks the signed-in user's unread count and shares read actions
+ * between the header bell and the notifications page
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { notificationsApi } from '../lib/api';
+import { useAuth } from './AuthContext';
+import type { AppNotification } from '../types/notification';
+
+const UNREAD_POLL_INTERVAL_MS = 30000;
+
+interface NotificationsContextType {
+  unreadCount: number;
+  /**
+   * @description Re-reads the unread count from the database
+   * @async
+   * @returns {Promise<void>}
+   */
+  refreshUnreadCount: () => Promise<void>;
+  /**
+   * @description Marks one notification as read and updates the unread count
+   * @async
+   * @param {AppNotification} notification - The notification to mark; already-read notifications are ignored
+   * @returns {Promise<void>}
+   * @throws {ApiError} When the update fails
+   */
+  markAsRead: (notification: AppNotification) => Promise<void>;
+  /**
+   * @description Marks every unread notification of the current user as read
+   * @async
+   * @returns {Promise<void>}
+   * @throws {ApiError} When the update fails
+   */
+  markAllAsRead: () => Promise<void>;
+}
+
+const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined);
+
+interface NotificationsProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * @description Provider that polls the unread notification count while a user is signed in
+ * @param {NotificationsProviderProps} props - Component props containing children
+ * @returns {JSX.Element} NotificationsContext provider wrapping children
+ * @sideEffects Polls the notifications table every 30 seconds while signed in
+ */
+export const NotificationsProvider = ({ children }: NotificationsProviderProps): JSX.Element => {
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const userId = user?.id ?? null;
+
+  const refreshUnreadCount = useCallback(async () => {
+    if (!userId) {
+      setUnreadCount(0);
+      return;
+    }
+
+    try {
+      setUnreadCount(await notificationsApi.fetchUnreadNotificationCount(userId));
+    } catch (error) {
+      console.error('Error fetching unread notification count:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refreshUnreadCount();
+    if (!userId) return;
+
+    const pollingInterval = setInterval(refreshUnreadCount, UNREAD_POLL_INTERVAL_MS);
+    return () => clearInterval(pollingInterval);
+  }, [userId, refreshUnreadCount]);
+
+  const markAsRead = useCallback(async (notification: AppNotification) => {
+    if (notification.read_at) return;
+
+    await notificationsApi.markNotificationRead(notification.id);
+    setUnreadCount(count => Math.max(count - 1, 0));
+  }, []);
+
+  const markAllAsRead = useCallback(async () => {
+    if (!userId) return;
+
+    await notificationsApi.markAllNotificationsRead(userId);
+    setUnreadCount(0);
+  }, [userId]);
+
+  return (
+    <NotificationsContext.Provider value={{ unreadCount, refreshUnreadCount, markAsRead, markAllAsRead }}>
+      {children}
+    </NotificationsContext.Provider>
+  );
+};
+
+/**
+ * @description Custom hook to consume the notifications context
+ * @returns {NotificationsContextType} Unread count and read actions
+ * @throws {Error} When used outside of a NotificationsProvider
+ */
+export const useNotifications = (): NotificationsContextType => {
+  const context = useContext(NotificationsContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationsProvider');
+  }
+  return context;
+};
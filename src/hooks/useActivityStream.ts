@@ -0,0 +1,127 @@
+/**
+ * src/hooks/useActivityStream.ts
+ * @description Hook that streams new public community activity over Supabase Realtime, with polling as a fallback
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { activityApi } from '../lib/api';
+import type { ActivityStreamStatus } from '../lib/api/activity';
+import type { ActivityFeedItem } from '../types/activity';
+
+const FALLBACK_POLL_INTERVAL_MS = 30000;
+const MAX_TRACKED_ACTIVITY_IDS = 200;
+
+/**
+ * @description How new activity is currently being received
+ */
+export type ActivityStreamConnection = 'connecting' | 'realtime' | 'polling';
+
+/**
+ * @description Subscribes to inserts of public activity and hands every new curated feed item to a callback.
+ * While the websocket is down the hook polls the curated feed every 30 seconds instead, and after reconnecting
+ * it fetches whatever was missed in between.
+ * @param {(activity: ActivityFeedItem) => void} onActivity - Called once per new activity; may change between renders
+ * @returns {{ connection: ActivityStreamConnection }} The current delivery mode
+ * @sideEffects Opens a realtime channel for the lifetime of the component and may start a polling interval
+ */
+export const useActivityStream = (
+  onActivity: (activity: ActivityFeedItem) => void
+): { connection: ActivityStreamConnection } => {
+  const [connection, setConnection] = useState<ActivityStreamConnection>('connecting');
+
+  // Keep the latest callback without resubscribing on every render
+  const onActivityRef = useRef(onActivity);
+  onActivityRef.current = onActivity;
+
+  useEffect(() => {
+    let isActive = true;
+    let pollingInterval: ReturnType<typeof setInterval> | null = null;
+    let lastSeenAt: string | null = null;
+    const seenIds = new Set<string>();
+
+    const emit = (activity: ActivityFeedItem) => {
+      if (!isActive || seenIds.has(activity.id)) return;
+
+      seenIds.add(activity.id);
+      if (seenIds.size > MAX_TRACKED_ACTIVITY_IDS) {
+        const oldestId = seenIds.values().next().value;
+        if (oldestId) seenIds.delete(oldestId);
+      }
+
+      if (!lastSeenAt || new Date(activity.created_at) > new Date(lastSeenAt)) {
+        lastSeenAt = activity.created_at;
+      }
+      onActivityRef.current(activity);
+    };
+
+    const catchUp = async () => {
+      if (!lastSeenAt) return;
+
+      try {
+        const activities = await activityApi.fetchCuratedActivitySince(lastSeenAt);
+        // Oldest first, so consumers that prepend end up newest first
+        [...activities].reverse().forEach(emit);
+      } catch (error) {
+        console.error('Error polling for new activity:', error);
+      }
+    };
+
+    const startPolling = () => {
+      if (pollingInterval) return;
+      setConnection('polling');
+      pollingInterval = setInterval(catchUp, FALLBACK_POLL_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      if (!pollingInterval) return;
+      clearInterval(pollingInterval);
+      pollingInterval = null;
+    };
+
+    const handleInsert = async (activityId: string) => {
+      try {
+        // Realtime rows come from activity_log; the curated view adds usernames, project names and slugs
+        const activity = await activityApi.fetchCuratedActivityById(activityId);
+        if (activity) emit(activity);
+      } catch (error) {
+        console.error('Error loading streamed activity:', error);
+      }
+    };
+
+    const handleStatusChange = (status: ActivityStreamStatus) => {
+      if (!isActive) return;
+
+      if (status === 'SUBSCRIBED') {
+        const wasPolling = pollingInterval !== null;
+        stopPolling();
+        setConnection('realtime');
+        if (wasPolling) catchUp();
+      } else {
+        // CHANNEL_ERROR, TIMED_OUT or CLOSED: the realtime client keeps retrying, poll until it is back
+        startPolling();
+      }
+    };
+
+    activityApi.fetchLatestPublicActivityTimestamp()
+      .then((timestamp) => {
+        const baseline = timestamp ?? new Date().toISOString();
+        if (!lastSeenAt || new Date(baseline) > new Date(lastSeenAt)) {
+          lastSeenAt = baseline;
+        }
+      })
+      .catch((error) => {
+        console.error('Error fetching latest activity timestamp:', error);
+        lastSeenAt = lastSeenAt ?? new Date().toISOString();
+      });
+
+    const unsubscribe = activityApi.subscribeToPublicActivity(handleInsert, handleStatusChange);
+
+    return () => {
+      isActive = false;
+      stopPolling();
+      unsubscribe();
+    };
+  }, []);
+
+  return { connection };
+};
@@ -3,11 +3,13 @@
  * @description Custom hook for handling API errors with automatic auth error detection and logout
  */
 
+import { toast } from 'sonner';
 import { useAuth } from '../context/AuthContext';
+import { ApiError, RATE_LIMIT_ERROR_CODE, getApiErrorMessage } from '../lib/api/errors';
 
 /**
  * @description Hook that provides error handling utilities for API calls, with automatic auth error detection
- * @returns Object containing error handler function
+ * @returns Object containing error handler functions
  */
 export const useApiErrorHandler = () => {
   const { handleAuthErrorAndSignOut } = useAuth();
@@ -95,8 +97,37 @@ export const useApiErrorHandler = () => {
     return handleApiError(error, context);
   };
 
+  /**
+   * @description Central error path for data-access calls: logs the error, signs out on auth failures,
+   * shows a "slow down" warning with the retry-after time on rate limits, and otherwise shows an error toast with a
+   * message mapped from the database error code
+   * @async
+   * @param {unknown} error - Error thrown by a src/lib/api repository function
+   * @param {string} title - Toast title, e.g. "Update Failed"
+   * @param {string} fallbackDescription - Toast description used when the error code has no specific message
+   * @returns {Promise<boolean>} Returns true if it was an auth error and logout was triggered
+   * @sideEffects Logs to console, may trigger logout, shows a toast
+   */
+  const reportApiError = async (error: unknown, title: string, fallbackDescription: string): Promise<boolean> => {
+    const context = error instanceof ApiError ? error.context : undefined;
+    console.error(`Error${context ? ` in ${context}` : ''}:`, error);
+
+    const wasAuthError = await handleApiError(error, context);
+    if (!wasAuthError && error instanceof ApiError && error.code === RATE_LIMIT_ERROR_CODE) {
+      toast.warning('Slow Down', {
+        description: getApiErrorMessage(error, fallbackDescription)
+      });
+    } else if (!wasAuthError) {
+      toast.error(title, {
+        description: getApiErrorMessage(error, fallbackDescription)
+      });
+    }
+    return wasAuthError;
+  };
+
   return {
     handleApiError,
-    handleCriticalApiError
+    handleCriticalApiError,
+    reportApiError
   };
 };
\ No newline at end of file
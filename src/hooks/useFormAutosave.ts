@@ -0,0 +1,180 @@
+/**
+ * src/hooks/useFormAutosave.ts
+ * @description Hook that keeps unsaved form state in localStorage so it survives accidental navigation, reloads and
+ * sign-outs, and offers it back the next time the same form is opened
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const AUTOSAVE_KEY_PREFIX = 'startsnap:autosave';
+const AUTOSAVE_DEBOUNCE_MS = 1000;
+/** Saved changes expire after a day, when screenshots uploaded with them may already be garbage-collected */
+const AUTOSAVE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Orders queued writes and clears, so a write queued before a clear (e.g. flushed on unmount after submit) is dropped
+let autosaveSequence = 0;
+const clearedAtSequence = new Map<string, number>();
+
+/**
+ * @description Form state read back from localStorage
+ */
+export interface SavedChanges<T> {
+  data: T;
+  savedAt: string; // ISO date string
+}
+
+/**
+ * @description Builds the localStorage key of a form, scoped to the signed-in user so changes never leak between accounts
+ * @param {string} userId - ID of the signed-in user
+ * @param {string} route - Route of the page the form lives on
+ * @param {string} id - Identifier of the edited item within the route, e.g. a project ID or "new"
+ * @returns {string} The storage key
+ */
+export const getAutosaveKey = (userId: string, route: string, id: string): string => {
+  return `${AUTOSAVE_KEY_PREFIX}:${userId}:${route}:${id}`;
+};
+
+/**
+ * @description Reads saved changes, dropping entries that are malformed or expired
+ * @param {string} key - Storage key
+ * @returns {SavedChanges<T> | null} The saved changes, if any
+ */
+const readSavedChanges = <T>(key: string): SavedChanges<T> | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return null;
+
+    const parsed = JSON.parse(raw) as SavedChanges<T>;
+    if (!parsed?.savedAt || Date.now() - new Date(parsed.savedAt).getTime() > AUTOSAVE_MAX_AGE_MS) {
+      localStorage.removeItem(key);
+      return null;
+    }
+    return parsed;
+  } catch (error) {
+    console.warn('Could not read autosaved changes:', error);
+    return null;
+  }
+};
+
+/**
+ * @description Writes form state to localStorage; storage errors (quota, private mode) only disable autosave
+ * @param {string} key - Storage key
+ * @param {T} data - Form state
+ */
+const writeSavedChanges = <T>(key: string, data: T): void => {
+  try {
+    const entry: SavedChanges<T> = { data, savedAt: new Date().toISOString() };
+    localStorage.setItem(key, JSON.stringify(entry));
+  } catch (error) {
+    console.warn('Could not autosave changes:', error);
+  }
+};
+
+/**
+ * @description Removes the saved changes of a form, e.g. after it was submitted
+ * @param {string | null} key - Storage key; nothing happens when null
+ */
+export const clearAutosavedChanges = (key: string | null): void => {
+  if (!key) return;
+  clearedAtSequence.set(key, ++autosaveSequence);
+  try {
+    localStorage.removeItem(key);
+  } catch (error) {
+    console.warn('Could not clear autosaved changes:', error);
+  }
+};
+
+/**
+ * @description Whether a form has saved changes waiting to be restored
+ * @param {string | null} key - Storage key
+ * @returns {boolean} True when unexpired changes are saved under the key
+ */
+export const hasAutosavedChanges = (key: string | null): boolean => {
+  return !!key && readSavedChanges(key) !== null;
+};
+
+/**
+ * @description Autosaves form state under a key, debounced, while it differs from what was loaded.
+ * Changes saved by an earlier visit are returned as savedChanges; until they are restored or discarded nothing is
+ * written, so opening the form does not overwrite them.
+ * @param {string | null} key - Storage key from getAutosaveKey; null disables autosave
+ * @param {T} value - Current form state
+ * @param {Object} options - Autosave options
+ * @param {boolean} options.isDirty - Whether the form differs from its loaded state
+ * @param {boolean} [options.enabled=true] - Pauses autosave, e.g. while the form is being submitted
+ * @returns {{ savedChanges: SavedChanges<T> | null, restoreSavedChanges: () => T | null, discardSavedChanges: () => void, clearSavedChanges: () => void }}
+ * Saved changes from an earlier visit and the actions to resolve them
+ * @sideEffects Reads and writes localStorage
+ */
+export const useFormAutosave = <T>(
+  key: string | null,
+  value: T,
+  { isDirty, enabled = true }: { isDirty: boolean; enabled?: boolean }
+): {
+  savedChanges: SavedChanges<T> | null;
+  restoreSavedChanges: () => T | null;
+  discardSavedChanges: () => void;
+  clearSavedChanges: () => void;
+} => {
+  const [savedChanges, setSavedChanges] = useState<SavedChanges<T> | null>(() => (key ? readSavedChanges<T>(key) : null));
+  const [loadedKey, setLoadedKey] = useState(key);
+
+  // Opening another item in the same component offers that item's saved changes instead
+  if (loadedKey !== key) {
+    setLoadedKey(key);
+    setSavedChanges(key ? readSavedChanges<T>(key) : null);
+  }
+
+  const canWrite = !!key && enabled && !savedChanges;
+
+  // Latest state for the flush on unmount
+  const pendingWriteRef = useRef<{ key: string; value: T; sequence: number } | null>(null);
+
+  /**
+   * @description Writes the pending changes unless the key was cleared after they were queued
+   */
+  const flushPendingWrite = () => {
+    const pending = pendingWriteRef.current;
+    pendingWriteRef.current = null;
+    if (pending && pending.sequence > (clearedAtSequence.get(pending.key) ?? 0)) {
+      writeSavedChanges(pending.key, pending.value);
+    }
+  };
+
+  useEffect(() => {
+    if (!canWrite || !key) return;
+
+    if (!isDirty) {
+      pendingWriteRef.current = null;
+      clearAutosavedChanges(key);
+      return;
+    }
+
+    pendingWriteRef.current = { key, value, sequence: ++autosaveSequence };
+    const timeout = setTimeout(flushPendingWrite, AUTOSAVE_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [key, value, isDirty, canWrite]);
+
+  // Write the last changes right away when the form goes away before the debounce fires
+  useEffect(() => {
+    return flushPendingWrite;
+  }, []);
+
+  const restoreSavedChanges = useCallback((): T | null => {
+    const data = savedChanges?.data ?? null;
+    setSavedChanges(null);
+    return data;
+  }, [savedChanges]);
+
+  const discardSavedChanges = useCallback(() => {
+    clearAutosavedChanges(key);
+    setSavedChanges(null);
+  }, [key]);
+
+  const clearSavedChanges = useCallback(() => {
+    clearAutosavedChanges(key);
+  }, [key]);
+
+  return { savedChanges, restoreSavedChanges, discardSavedChanges, clearSavedChanges };
+};
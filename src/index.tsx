@@ -5,20 +5,31 @@
 
 import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
-import { BrowserRouter } from "react-router-dom";
+import { createBrowserRouter, RouterProvider } from "react-router-dom";
 import { HelmetProvider } from "react-helmet-async";
 import { Frame } from "./screens/Frame/Frame";
 
 /**
- * Render the application inside a StrictMode wrapper with BrowserRouter for routing
- * @sideEffects Mounts the React application to the DOM
+ * Data router with a single catch-all route; Frame declares the actual routes.
+ * A data router is required for navigation blocking (useBlocker) in forms with unsaved changes.
  */
-createRoot(document.getElementById("app") as HTMLElement).render(
-  <StrictMode>
-    <BrowserRouter>
+const router = createBrowserRouter([
+  {
+    path: "*",
+    element: (
       <HelmetProvider>
         <Frame />
       </HelmetProvider>
-    </BrowserRouter>
+    ),
+  },
+]);
+
+/**
+ * Render the application inside a StrictMode wrapper with the router
+ * @sideEffects Mounts the React application to the DOM
+ */
+createRoot(document.getElementById("app") as HTMLElement).render(
+  <StrictMode>
+    <RouterProvider router={router} />
   </StrictMode>,
-);
\ No newline at end of file
+);
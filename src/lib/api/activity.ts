@@ -0,0 +1,178 @@
+/**
+ * src/lib/api/activity.ts
+ * @description Repository for the activity log and the curated activity feed view
+ */
+
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { getApiClient } from './client';
+import { toApiError } from './errors';
+import type { ActivityFeedItem, ActivityFeedScope } from '../../types/activity';
+
+/**
+ * @description Parameters for logging an activity that is not covered by a database trigger
+ */
+export interface LogActivityParams {
+  activityType: string;
+  actorUserId: string;
+  targetStartsnapId?: string | null;
+  targetVibeLogId?: string | null;
+  targetVibeRequestId?: string | null;
+  targetFeedbackId?: string | null;
+  targetUserId?: string | null;
+  metadata?: Record<string, any>;
+  visibility?: 'public' | 'low_priority' | 'hidden';
+}
+
+/**
+ * @description Connection states reported by a public activity subscription
+ */
+export type ActivityStreamStatus = 'SUBSCRIBED' | 'TIMED_OUT' | 'CLOSED' | 'CHANNEL_ERROR';
+
+/**
+ * @description Fetches a range of the curated community activity feed, newest first
+ * @async
+ * @param {number} startIndex - Zero-based index of the first item
+ * @param {number} endIndex - Zero-based index of the last item (inclusive)
+ * @returns {Promise<ActivityFeedItem[]>} Activity items in the range
+ */
+export const fetchCuratedActivityFeed = async (startIndex: number, endIndex: number): Promise<ActivityFeedItem[]> => {
+  const { data, error } = await getApiClient()
+    .from('activity_feed_curated')
+    .select('*')
+    .range(startIndex, endIndex)
+    .order('created_at', { ascending: false });
+
+  if (error) throw toApiError(error, 'activity.fetchCuratedActivityFeed');
+  return (data || []) as ActivityFeedItem[];
+};
+
+/**
+ * @description Fetches a range of the public activity feed for a scope, newest first, through get_activity_feed()
+ * @async
+ * @param {ActivityFeedScope} scope - Everyone, the signed-in user's follows, or the user's own projects
+ * @param {number} startIndex - Zero-based index of the first item
+ * @param {number} endIndex - Zero-based index of the last item (inclusive)
+ * @param {string | null} [since] - Only return items created after this ISO timestamp
+ * @returns {Promise<ActivityFeedItem[]>} Activity items in the range
+ */
+export const fetchActivityFeed = async (
+  scope: ActivityFeedScope,
+  startIndex: number,
+  endIndex: number,
+  since: string | null = null
+): Promise<ActivityFeedItem[]> => {
+  const { data, error } = await getApiClient().rpc('get_activity_feed', {
+    p_scope: scope,
+    p_limit: endIndex - startIndex + 1,
+    p_offset: startIndex,
+    p_since: since
+  });
+
+  if (error) throw toApiError(error, 'activity.fetchActivityFeed');
+  return (data || []) as ActivityFeedItem[];
+};
+
+/**
+ * @description Reads the timestamp of the most recent public activity, used to detect new activity
+ * @async
+ * @returns {Promise<string | null>} ISO timestamp, or null when there is no activity yet
+ */
+export const fetchLatestPublicActivityTimestamp = async (): Promise<string | null> => {
+  const { data, error } = await getApiClient()
+    .from('activity_log')
+    .select('created_at')
+    .eq('visibility', 'public')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw toApiError(error, 'activity.fetchLatestPublicActivityTimestamp');
+  return data?.created_at ?? null;
+};
+
+/**
+ * @description Fetches a single curated feed item, used to enrich a realtime activity_log insert
+ * @async
+ * @param {string} activityId - ID of the activity_log row
+ * @returns {Promise<ActivityFeedItem | null>} The feed item, or null when it is not part of the public feed
+ */
+export const fetchCuratedActivityById = async (activityId: string): Promise<ActivityFeedItem | null> => {
+  const { data, error } = await getApiClient()
+    .from('activity_feed_curated')
+    .select('*')
+    .eq('id', activityId)
+    .maybeSingle();
+
+  if (error) throw toApiError(error, 'activity.fetchCuratedActivityById');
+  return (data as ActivityFeedItem | null) ?? null;
+};
+
+/**
+ * @description Fetches curated feed items created after a timestamp, newest first
+ * @async
+ * @param {string} since - ISO timestamp; only newer items are returned
+ * @param {number} [limit=20] - Maximum number of items
+ * @returns {Promise<ActivityFeedItem[]>} Activity items newer than the timestamp
+ */
+export const fetchCuratedActivitySince = async (since: string, limit = 20): Promise<ActivityFeedItem[]> => {
+  const { data, error } = await getApiClient()
+    .from('activity_feed_curated')
+    .select('*')
+    .gt('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw toApiError(error, 'activity.fetchCuratedActivitySince');
+  return (data || []) as ActivityFeedItem[];
+};
+
+/**
+ * @description Subscribes to inserts of public activity_log rows over Supabase Realtime
+ * @param {(activityId: string) => void} onInsert - Called with the ID of every new public activity
+ * @param {(status: ActivityStreamStatus) => void} onStatusChange - Called whenever the channel connects or drops
+ * @returns {() => void} Function that removes the subscription
+ * @sideEffects Opens a realtime channel on the shared Supabase client
+ */
+export const subscribeToPublicActivity = (
+  onInsert: (activityId: string) => void,
+  onStatusChange: (status: ActivityStreamStatus) => void
+): (() => void) => {
+  const client = getApiClient();
+  const channel: RealtimeChannel = client
+    .channel(`public-activity-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'activity_log', filter: 'visibility=eq.public' },
+      (payload) => {
+        const activityId = (payload.new as { id?: string }).id;
+        if (activityId) onInsert(activityId);
+      }
+    )
+    .subscribe((status) => onStatusChange(status as ActivityStreamStatus));
+
+  return () => {
+    client.removeChannel(channel);
+  };
+};
+
+/**
+ * @description Logs an activity through the create_activity_log database function
+ * @async
+ * @param {LogActivityParams} params - Activity type, actor, targets and metadata
+ * @sideEffects Inserts into the activity_log table
+ */
+export const logActivity = async (params: LogActivityParams): Promise<void> => {
+  const { error } = await getApiClient().rpc('create_activity_log', {
+    p_activity_type: params.activityType,
+    p_actor_user_id: params.actorUserId,
+    p_target_startsnap_id: params.targetStartsnapId ?? null,
+    p_target_vibe_log_id: params.targetVibeLogId ?? null,
+    p_target_vibe_request_id: params.targetVibeRequestId ?? null,
+    p_target_feedback_id: params.targetFeedbackId ?? null,
+    p_target_user_id: params.targetUserId ?? null,
+    p_metadata: params.metadata ?? {},
+    p_visibility: params.visibility ?? 'public'
+  });
+
+  if (error) throw toApiError(error, 'activity.logActivity');
+};
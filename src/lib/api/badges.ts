@@ -0,0 +1,40 @@
+/**
+ * src/lib/api/badges.ts
+ * @description Repository for the badges catalogue and earned user_badges. Badges are awarded by database triggers only.
+ */
+
+import { getApiClient } from './client';
+import { toApiError } from './errors';
+import type { AchievementBadge, UserBadge } from '../../types/badge';
+
+/**
+ * @description Fetches every badge that can be earned, in display order
+ * @async
+ * @returns {Promise<AchievementBadge[]>} The badges catalogue
+ */
+export const fetchBadges = async (): Promise<AchievementBadge[]> => {
+  const { data, error } = await getApiClient()
+    .from('badges')
+    .select('*')
+    .order('sort_order', { ascending: true });
+
+  if (error) throw toApiError(error, 'badges.fetchBadges');
+  return (data || []) as AchievementBadge[];
+};
+
+/**
+ * @description Fetches the badges a user has earned, in display order
+ * @async
+ * @param {string} userId - User ID
+ * @returns {Promise<UserBadge[]>} Earned badges with the project that earned them
+ */
+export const fetchUserBadges = async (userId: string): Promise<UserBadge[]> => {
+  const { data, error } = await getApiClient()
+    .from('user_badges')
+    .select('badge_id, earned_at, startsnap_id, badge:badges(*), startsnap:startsnaps(name, slug)')
+    .eq('user_id', userId);
+
+  if (error) throw toApiError(error, 'badges.fetchUserBadges');
+  return ((data || []) as unknown as UserBadge[])
+    .sort((a, b) => a.badge.sort_order - b.badge.sort_order);
+};
@@ -0,0 +1,13 @@
+/**
+ * src/lib/api/client.ts
+ * @description Holds the Supabase client used by the data-access layer
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+
+/**
+ * @description Returns the Supabase client every repository function queries through
+ * @returns {SupabaseClient} The application client
+ */
+export const getApiClient = (): SupabaseClient => supabase;
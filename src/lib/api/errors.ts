@@ -0,0 +1,126 @@
+/**
+ * src/lib/api/errors.ts
+ * @description Error type thrown by the data-access layer and the mapping from database/PostgREST errors to user-facing messages
+ */
+
+/**
+ * @description Shape of the error objects returned by PostgREST, storage and RPC calls
+ */
+interface RawApiError {
+  message?: string;
+  code?: string;
+  status?: number;
+  details?: string | null;
+  hint?: string | null;
+}
+
+/**
+ * @description Error thrown by every repository function. Keeps the original PostgREST fields
+ * (code, status, details) so useApiErrorHandler can detect auth failures and map friendly messages.
+ */
+export class ApiError extends Error {
+  code?: string;
+  status?: number;
+  details?: string | null;
+  hint?: string | null;
+  context: string;
+
+  constructor(raw: RawApiError, context: string) {
+    super(raw.message || 'Unknown API error');
+    this.name = 'ApiError';
+    this.code = raw.code;
+    this.status = raw.status;
+    this.details = raw.details;
+    this.hint = raw.hint;
+    this.context = context;
+  }
+}
+
+/**
+ * @description Wraps any thrown value in an ApiError tagged with the repository operation that failed
+ * @param {unknown} error - Error returned or thrown by the Supabase client
+ * @param {string} context - Repository operation name, used for logging (e.g. "startsnaps.fetchBySlug")
+ * @returns {ApiError} The normalized error
+ */
+export const toApiError = (error: unknown, context: string): ApiError => {
+  if (error instanceof ApiError) return error;
+  if (error && typeof error === 'object') {
+    return new ApiError(error as RawApiError, context);
+  }
+  return new ApiError({ message: String(error) }, context);
+};
+
+/**
+ * @description SQLSTATE raised by the rate limit triggers (enforce_rate_limit); PostgREST answers it with HTTP 429
+ */
+export const RATE_LIMIT_ERROR_CODE = 'PT429';
+
+/**
+ * @description Reads how long a rate-limited user has to wait from the error's details
+ * @param {unknown} error - Error thrown by a repository function
+ * @returns {number | null} Seconds until the action is allowed again, or null when the error is not a rate limit
+ */
+export const getRetryAfterSeconds = (error: unknown): number | null => {
+  const apiError = error as RawApiError | null;
+  if (apiError?.code !== RATE_LIMIT_ERROR_CODE || !apiError.details) return null;
+
+  try {
+    const seconds = Number(JSON.parse(apiError.details).retry_after_seconds);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds : null;
+  } catch (parseError) {
+    return null;
+  }
+};
+
+/**
+ * @description Formats a wait time for messages like "Try again in 3 minutes"
+ * @param {number} seconds - Wait time in seconds
+ * @returns {string} e.g. "45 seconds", "3 minutes" or "2 hours"
+ */
+const formatRetryAfter = (seconds: number): string => {
+  if (seconds < 60) return `${seconds} ${seconds === 1 ? 'second' : 'seconds'}`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+};
+
+/**
+ * @description Maps well-known Postgres/PostgREST error codes to messages that can be shown to users
+ * @param {unknown} error - Error thrown by a repository function
+ * @param {string} fallback - Message to use when the error is not a known case
+ * @returns {string} A user-facing description of the error
+ */
+export const getApiErrorMessage = (error: unknown, fallback: string): string => {
+  const apiError = error as RawApiError | null;
+  const message = apiError?.message || '';
+
+  switch (apiError?.code) {
+    case '23505': // unique_violation
+      return 'That already exists. Please choose a different value.';
+    case '23503': // foreign_key_violation
+      return 'This item references something that no longer exists. Please refresh and try again.';
+    case '23514': // check_violation
+      return 'Some of the values are not allowed. Please review the form and try again.';
+    case '42501': // insufficient_privilege (RLS or explicit RAISE)
+      return message && !message.includes('row-level security')
+        ? message
+        : 'You do not have permission to do that.';
+    case 'P0001': // raise_exception from our own functions and triggers
+      return message || fallback;
+    case 'P0002': // no_data_found
+      return message || 'The requested item could not be found.';
+    case RATE_LIMIT_ERROR_CODE: {
+      const retryAfter = getRetryAfterSeconds(error);
+      return retryAfter
+        ? `You're posting too quickly. Try again in ${formatRetryAfter(retryAfter)}.`
+        : "You're posting too quickly. Please wait a moment and try again.";
+    }
+  }
+
+  if (message.includes('Failed to fetch') || message.includes('NetworkError')) {
+    return 'Network error. Please check your connection and try again.';
+  }
+
+  return fallback;
+};
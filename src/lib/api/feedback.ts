@@ -0,0 +1,478 @@
+/**
+ * src/lib/api/feedback.ts
+ * @description Repository for the feedbacks, feedback_replies, feedback_reactions and feedback_ratings tables
+ */
+
+import { getApiClient } from './client';
+import { toApiError } from './errors';
+import { fetchUsernameMap } from './profiles';
+import { FEEDBACK_REACTIONS } from '../../config/reactions';
+import type { FeedbackReactionEmoji } from '../../config/reactions';
+import type {
+  FeedbackComment,
+  FeedbackCommentKind,
+  FeedbackRatings,
+  FeedbackReactionSummary
+} from '../../types/feedback';
+
+interface CommentRow {
+  id: string;
+  user_id: string;
+  content: string;
+  created_at: string;
+  updated_at: string;
+  hidden_at: string | null;
+}
+
+interface FeedbackRow extends CommentRow {
+  pinned_at: string | null;
+  addressed_at: string | null;
+  addressed_vibelog_id: string | null;
+}
+
+interface FeedbackReplyRow extends CommentRow {
+  parent_feedback_id: string;
+  parent_reply_id: string | null;
+}
+
+interface FeedbackReactionRow {
+  user_id: string;
+  feedback_id: string | null;
+  reply_id: string | null;
+  emoji: FeedbackReactionEmoji;
+}
+
+interface FeedbackRatingRow {
+  feedback_id: string;
+  area: string;
+  rating: number;
+}
+
+/**
+ * @description Counts reactions per emoji, in the order of FEEDBACK_REACTIONS
+ * @param {FeedbackReactionRow[]} reactions - Reactions on one comment
+ * @param {string | null} currentUserId - Signed-in user, to mark their own reactions
+ * @returns {FeedbackReactionSummary[]} One summary per emoji used at least once
+ */
+const summarizeReactions = (reactions: FeedbackReactionRow[], currentUserId: string | null): FeedbackReactionSummary[] => {
+  return FEEDBACK_REACTIONS
+    .map(({ emoji }) => {
+      const matching = reactions.filter(reaction => reaction.emoji === emoji);
+      return {
+        emoji,
+        count: matching.length,
+        reacted: !!currentUserId && matching.some(reaction => reaction.user_id === currentUserId),
+      };
+    })
+    .filter(summary => summary.count > 0);
+};
+
+/**
+ * @description Fetches all feedback of a project as comment trees, with area ratings, reactions and author usernames, using
+ * batched queries. Avoids the N+1 problem by loading every reply and reaction of the project at once and resolving
+ * every author in a single profiles lookup.
+ * @async
+ * @param {string} startsnapId - Project ID
+ * @param {string | null} [currentUserId=null] - Signed-in user, to mark their own reactions
+ * @returns {Promise<FeedbackComment[]>} Pinned feedback first (latest pin on top), then the rest oldest first, each with
+ * its replies nested oldest first. Hidden comments are only returned to their author and the project owner.
+ */
+export const fetchFeedbackEntries = async (
+  startsnapId: string,
+  currentUserId: string | null = null
+): Promise<FeedbackComment[]> => {
+  const client = getApiClient();
+
+  // 1. Fetch all feedbacks
+  const { data: feedbackData, error: feedbackError } = await client
+    .from('feedbacks')
+    .select('*')
+    .eq('startsnap_id', startsnapId)
+    .order('created_at', { ascending: true });
+
+  if (feedbackError) throw toApiError(feedbackError, 'feedback.fetchFeedbackEntries');
+  if (!feedbackData || feedbackData.length === 0) return [];
+
+  // 2. Fetch the replies of every thread, at any depth, in one query
+  const feedbacks = feedbackData as FeedbackRow[];
+  const feedbackIds = feedbacks.map(f => f.id);
+  const { data: repliesData, error: repliesError } = await client
+    .from('feedback_replies')
+    .select('*')
+    .in('parent_feedback_id', feedbackIds)
+    .order('created_at', { ascending: true });
+
+  if (repliesError) {
+    // Continue without replies rather than failing completely
+    console.error('Error fetching replies:', repliesError);
+  }
+  const replies = (repliesData || []) as FeedbackReplyRow[];
+
+  // 3. Fetch reactions on feedback and replies
+  let reactions: FeedbackReactionRow[] = [];
+  try {
+    const replyIds = replies.map(r => r.id);
+    const [feedbackReactions, replyReactions] = await Promise.all([
+      client.from('feedback_reactions').select('user_id, feedback_id, reply_id, emoji').in('feedback_id', feedbackIds),
+      replyIds.length > 0
+        ? client.from('feedback_reactions').select('user_id, feedback_id, reply_id, emoji').in('reply_id', replyIds)
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+    if (feedbackReactions.error) throw feedbackReactions.error;
+    if (replyReactions.error) throw replyReactions.error;
+    reactions = [...(feedbackReactions.data || []), ...(replyReactions.data || [])] as FeedbackReactionRow[];
+  } catch (reactionsError) {
+    // Reactions are decoration; show the comments without them
+    console.error('Error fetching reactions:', reactionsError);
+  }
+
+  // 4. Fetch the area ratings of every feedback entry
+  const { data: ratingsData, error: ratingsError } = await client
+    .from('feedback_ratings')
+    .select('feedback_id, area, rating')
+    .in('feedback_id', feedbackIds);
+
+  if (ratingsError) {
+    // Continue without ratings rather than failing completely
+    console.error('Error fetching ratings:', ratingsError);
+  }
+
+  const ratingsByFeedbackId = new Map<string, FeedbackRatings>();
+  ((ratingsData || []) as FeedbackRatingRow[]).forEach(row => {
+    ratingsByFeedbackId.set(row.feedback_id, { ...ratingsByFeedbackId.get(row.feedback_id), [row.area]: row.rating });
+  });
+
+  // 5. Batch fetch all unique authors (feedback authors + reply authors)
+  let usernameMap: Record<string, string> = {};
+  try {
+    usernameMap = await fetchUsernameMap([
+      ...feedbacks.map(f => f.user_id),
+      ...replies.map(r => r.user_id)
+    ]);
+  } catch (profilesError) {
+    // Continue with anonymous profiles rather than failing
+    console.error('Error fetching profiles:', profilesError);
+  }
+
+  const profileFor = (userId: string) => ({ username: usernameMap[userId] || 'Anonymous' });
+
+  // 6. Group reactions by comment and replies by the comment they answer for O(1) lookup
+  const reactionsByCommentId = new Map<string, FeedbackReactionRow[]>();
+  reactions.forEach(reaction => {
+    const commentId = (reaction.feedback_id || reaction.reply_id) as string;
+    const group = reactionsByCommentId.get(commentId) || [];
+    group.push(reaction);
+    reactionsByCommentId.set(commentId, group);
+  });
+
+  const repliesByParentId = new Map<string, FeedbackReplyRow[]>();
+  replies.forEach(reply => {
+    const parentId = reply.parent_reply_id || reply.parent_feedback_id;
+    const group = repliesByParentId.get(parentId) || [];
+    group.push(reply);
+    repliesByParentId.set(parentId, group);
+  });
+
+  // 7. Build the comment trees
+  const toComment = (
+    row: CommentRow & Partial<FeedbackRow>,
+    kind: FeedbackCommentKind,
+    feedbackId: string,
+    parentReplyId: string | null
+  ): FeedbackComment => ({
+    id: row.id,
+    kind,
+    feedback_id: feedbackId,
+    parent_reply_id: parentReplyId,
+    user_id: row.user_id,
+    content: row.content,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    profile: profileFor(row.user_id),
+    reactions: summarizeReactions(reactionsByCommentId.get(row.id) || [], currentUserId),
+    ratings: (kind === 'feedback' && ratingsByFeedbackId.get(row.id)) || {},
+    pinned_at: row.pinned_at ?? null,
+    addressed_at: row.addressed_at ?? null,
+    addressed_vibelog_id: row.addressed_vibelog_id ?? null,
+    hidden_at: row.hidden_at ?? null,
+    replies: (repliesByParentId.get(row.id) || []).map(reply =>
+      toComment(reply, 'reply', feedbackId, reply.parent_reply_id)
+    ),
+  });
+
+  const pinned = feedbacks
+    .filter(feedback => feedback.pinned_at)
+    .sort((a, b) => (b.pinned_at as string).localeCompare(a.pinned_at as string));
+  const unpinned = feedbacks.filter(feedback => !feedback.pinned_at);
+
+  return [...pinned, ...unpinned].map(feedback => toComment(feedback, 'feedback', feedback.id, null));
+};
+
+/**
+ * @description Replaces the area ratings of a feedback entry through the save_feedback_ratings function
+ * @async
+ * @param {string} feedbackId - Feedback ID
+ * @param {FeedbackRatings} ratings - Rating from 1 to 5 per feedback area of the project; omitted areas are unrated
+ * @sideEffects Replaces rows in feedback_ratings
+ */
+export const saveFeedbackRatings = async (feedbackId: string, ratings: FeedbackRatings): Promise<void> => {
+  const { error } = await getApiClient().rpc('save_feedback_ratings', {
+    p_feedback_id: feedbackId,
+    p_ratings: ratings
+  });
+
+  if (error) throw toApiError(error, 'feedback.saveFeedbackRatings');
+};
+
+/**
+ * @description Posts new feedback on a project, optionally rating the project's feedback areas
+ * @async
+ * @param {string} startsnapId - Project ID
+ * @param {string} userId - Author's user ID
+ * @param {string} content - Feedback text
+ * @param {FeedbackRatings} [ratings={}] - Rating from 1 to 5 per feedback area
+ * @sideEffects Inserts into the feedbacks and feedback_ratings tables (notification email and activity are handled
+ * by database triggers)
+ */
+export const createFeedback = async (
+  startsnapId: string,
+  userId: string,
+  content: string,
+  ratings: FeedbackRatings = {}
+): Promise<void> => {
+  const { data, error } = await getApiClient()
+    .from('feedbacks')
+    .insert({
+      startsnap_id: startsnapId,
+      user_id: userId,
+      content
+    })
+    .select('id')
+    .single();
+
+  if (error) throw toApiError(error, 'feedback.createFeedback');
+
+  if (Object.keys(ratings).length > 0) {
+    await saveFeedbackRatings(data.id, ratings);
+  }
+};
+
+/**
+ * @description Edits the content of a feedback entry and, when given, replaces its area ratings
+ * @async
+ * @param {string} id - Feedback ID
+ * @param {string} content - New feedback text
+ * @param {FeedbackRatings} [ratings] - New rating per feedback area; ratings stay unchanged when omitted
+ * @sideEffects Updates the feedbacks table and replaces rows in feedback_ratings
+ */
+export const updateFeedback = async (id: string, content: string, ratings?: FeedbackRatings): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('feedbacks')
+    .update({
+      content,
+      updated_at: new Date()
+    })
+    .eq('id', id);
+
+  if (error) throw toApiError(error, 'feedback.updateFeedback');
+
+  if (ratings) {
+    await saveFeedbackRatings(id, ratings);
+  }
+};
+
+/**
+ * @description Deletes a feedback entry together with its replies
+ * @async
+ * @param {string} id - Feedback ID
+ * @sideEffects Deletes from feedback_replies, then from feedbacks
+ */
+export const deleteFeedback = async (id: string): Promise<void> => {
+  const client = getApiClient();
+
+  const { error: repliesError } = await client
+    .from('feedback_replies')
+    .delete()
+    .eq('parent_feedback_id', id);
+
+  if (repliesError) {
+    // Replies also cascade in the database, so a failure here should not block the delete
+    console.error('Error deleting associated replies:', repliesError);
+  }
+
+  const { error } = await client
+    .from('feedbacks')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw toApiError(error, 'feedback.deleteFeedback');
+};
+
+/**
+ * @description Posts a reply to a feedback entry or to another reply in its thread
+ * @async
+ * @param {string} feedbackId - Feedback the thread started from
+ * @param {string} userId - Author's user ID
+ * @param {string} content - Reply text
+ * @param {string | null} [parentReplyId=null] - Reply being answered; null to answer the feedback itself
+ * @sideEffects Inserts into the feedback_replies table
+ */
+export const createReply = async (
+  feedbackId: string,
+  userId: string,
+  content: string,
+  parentReplyId: string | null = null
+): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('feedback_replies')
+    .insert({
+      parent_feedback_id: feedbackId,
+      parent_reply_id: parentReplyId,
+      user_id: userId,
+      content
+    });
+
+  if (error) throw toApiError(error, 'feedback.createReply');
+};
+
+/**
+ * @description Edits the content of a reply
+ * @async
+ * @param {string} id - Reply ID
+ * @param {string} content - New reply text
+ * @sideEffects Updates the feedback_replies table
+ */
+export const updateReply = async (id: string, content: string): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('feedback_replies')
+    .update({
+      content,
+      updated_at: new Date()
+    })
+    .eq('id', id);
+
+  if (error) throw toApiError(error, 'feedback.updateReply');
+};
+
+/**
+ * @description Deletes a reply; the replies below it cascade in the database
+ * @async
+ * @param {string} id - Reply ID
+ * @sideEffects Deletes from the feedback_replies table
+ */
+export const deleteReply = async (id: string): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('feedback_replies')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw toApiError(error, 'feedback.deleteReply');
+};
+
+/**
+ * @description Adds the user's emoji reaction to a feedback entry or reply
+ * @async
+ * @param {Pick<FeedbackComment, 'id' | 'kind'>} comment - Comment reacted to
+ * @param {string} userId - Reacting user's ID
+ * @param {FeedbackReactionEmoji} emoji - One of FEEDBACK_REACTIONS
+ * @sideEffects Inserts into the feedback_reactions table
+ */
+export const addReaction = async (
+  comment: Pick<FeedbackComment, 'id' | 'kind'>,
+  userId: string,
+  emoji: FeedbackReactionEmoji
+): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('feedback_reactions')
+    .insert({
+      user_id: userId,
+      emoji,
+      ...(comment.kind === 'feedback' ? { feedback_id: comment.id } : { reply_id: comment.id })
+    });
+
+  if (error) throw toApiError(error, 'feedback.addReaction');
+};
+
+/**
+ * @description Removes the user's emoji reaction from a feedback entry or reply
+ * @async
+ * @param {Pick<FeedbackComment, 'id' | 'kind'>} comment - Comment reacted to
+ * @param {string} userId - Reacting user's ID
+ * @param {FeedbackReactionEmoji} emoji - The reaction to remove
+ * @sideEffects Deletes from the feedback_reactions table
+ */
+export const removeReaction = async (
+  comment: Pick<FeedbackComment, 'id' | 'kind'>,
+  userId: string,
+  emoji: FeedbackReactionEmoji
+): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('feedback_reactions')
+    .delete()
+    .eq(comment.kind === 'feedback' ? 'feedback_id' : 'reply_id', comment.id)
+    .eq('user_id', userId)
+    .eq('emoji', emoji);
+
+  if (error) throw toApiError(error, 'feedback.removeReaction');
+};
+
+/**
+ * @description Pins a feedback entry to the top of its project's feedback, or unpins it (project owner only)
+ * @async
+ * @param {string} id - Feedback ID
+ * @param {boolean} pinned - Whether the feedback should be pinned
+ * @sideEffects Updates feedbacks.pinned_at
+ */
+export const setFeedbackPinned = async (id: string, pinned: boolean): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('feedbacks')
+    .update({ pinned_at: pinned ? new Date().toISOString() : null })
+    .eq('id', id);
+
+  if (error) throw toApiError(error, 'feedback.setFeedbackPinned');
+};
+
+/**
+ * @description Marks a feedback entry as addressed, optionally linking the vibe log that addressed it, or clears the
+ * mark (project owner only)
+ * @async
+ * @param {string} id - Feedback ID
+ * @param {boolean} addressed - Whether the feedback has been addressed
+ * @param {string | null} [vibeLogId=null] - Vibe log of the same project that addressed it
+ * @sideEffects Updates feedbacks.addressed_at and addressed_vibelog_id
+ */
+export const setFeedbackAddressed = async (
+  id: string,
+  addressed: boolean,
+  vibeLogId: string | null = null
+): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('feedbacks')
+    .update({
+      addressed_at: addressed ? new Date().toISOString() : null,
+      addressed_vibelog_id: addressed ? vibeLogId : null
+    })
+    .eq('id', id);
+
+  if (error) throw toApiError(error, 'feedback.setFeedbackAddressed');
+};
+
+/**
+ * @description Hides a feedback entry or reply from everyone but its author and the project owner, or shows it
+ * again (project owner only)
+ * @async
+ * @param {Pick<FeedbackComment, 'id' | 'kind'>} comment - Comment to hide or show
+ * @param {boolean} hidden - Whether the comment should be hidden
+ * @sideEffects Updates hidden_at in feedbacks or feedback_replies
+ */
+export const setCommentHidden = async (
+  comment: Pick<FeedbackComment, 'id' | 'kind'>,
+  hidden: boolean
+): Promise<void> => {
+  const { error } = await getApiClient()
+    .from(comment.kind === 'feedback' ? 'feedbacks' : 'feedback_replies')
+    .update({ hidden_at: hidden ? new Date().toISOString() : null })
+    .eq('id', comment.id);
+
+  if (error) throw toApiError(error, 'feedback.setCommentHidden');
+};
@@ -0,0 +1,67 @@
+/**
+ * src/lib/api/follows.ts
+ * @description Repository for the follows table (followed builders and projects)
+ */
+
+import { getApiClient } from './client';
+import { toApiError } from './errors';
+import type { FollowTarget } from '../../types/follow';
+
+/**
+ * @description Maps a follow target to the follows column that stores it
+ * @param {FollowTarget} target - Followed builder or project
+ * @returns {string} Column name
+ */
+const getTargetColumn = (target: FollowTarget): 'followed_user_id' | 'followed_startsnap_id' =>
+  target.type === 'user' ? 'followed_user_id' : 'followed_startsnap_id';
+
+/**
+ * @description Checks whether a user follows a builder or project
+ * @async
+ * @param {string} followerUserId - Following user's ID
+ * @param {FollowTarget} target - Followed builder or project
+ * @returns {Promise<boolean>} True if the follow exists
+ */
+export const isFollowing = async (followerUserId: string, target: FollowTarget): Promise<boolean> => {
+  const { data, error } = await getApiClient()
+    .from('follows')
+    .select('id')
+    .eq('follower_user_id', followerUserId)
+    .eq(getTargetColumn(target), target.id)
+    .maybeSingle();
+
+  if (error) throw toApiError(error, 'follows.isFollowing');
+  return !!data;
+};
+
+/**
+ * @description Follows a builder or project
+ * @async
+ * @param {string} followerUserId - Following user's ID
+ * @param {FollowTarget} target - Builder or project to follow
+ * @sideEffects Inserts into follows
+ */
+export const follow = async (followerUserId: string, target: FollowTarget): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('follows')
+    .insert({ follower_user_id: followerUserId, [getTargetColumn(target)]: target.id });
+
+  if (error) throw toApiError(error, 'follows.follow');
+};
+
+/**
+ * @description Stops following a builder or project
+ * @async
+ * @param {string} followerUserId - Following user's ID
+ * @param {FollowTarget} target - Builder or project to unfollow
+ * @sideEffects Deletes from follows
+ */
+export const unfollow = async (followerUserId: string, target: FollowTarget): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('follows')
+    .delete()
+    .eq('follower_user_id', followerUserId)
+    .eq(getTargetColumn(target), target.id);
+
+  if (error) throw toApiError(error, 'follows.unfollow');
+};
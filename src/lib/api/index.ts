@@ -0,0 +1,24 @@
+/**
+ * src/lib/api/index.ts
+ * @description Typed data-access layer. Screens and components query Supabase only through these repositories,
+ * which throw ApiError so failures can be reported through useApiErrorHandler.
+ */
+
+export * as activityApi from './activity';
+export * as badgesApi from './badges';
+export * as feedbackApi from './feedback';
+export * as followsApi from './follows';
+export * as membersApi from './members';
+export * as notificationsApi from './notifications';
+export * as profilesApi from './profiles';
+export * as projectImagesApi from './projectImages';
+export * as reportsApi from './reports';
+export * as startsnapsApi from './startsnaps';
+export * as storageApi from './storage';
+export * as supportersApi from './supporters';
+export * as vibeLogsApi from './vibelogs';
+export * as vibeRequestsApi from './vibeRequests';
+export { ApiError, getApiErrorMessage } from './errors';
+export { getApiClient } from './client';
+export type { UsernameMap, ProfileUpdate } from './profiles';
+export type { LogActivityParams } from './activity';
@@ -0,0 +1,216 @@
+/**
+ * src/lib/api/members.ts
+ * @description Repository for project collaborators (startsnap_members) and ownership transfers
+ * (startsnap_transfer_requests). Invitations, transfers, responses and removals go through database functions that
+ * enforce who may change membership or ownership.
+ */
+
+import { getApiClient } from './client';
+import { toApiError } from './errors';
+import { fetchUsernameMap } from './profiles';
+import type {
+  StartSnapInvitation,
+  StartSnapMember,
+  StartSnapTransferRequest,
+  StartSnapTransferRequestWithDetails
+} from '../../types/member';
+
+type TransferRequestRow = StartSnapTransferRequest & { startsnap: { name: string; slug: string } | null };
+
+/**
+ * @description Adds sender and recipient usernames to transfer requests with one batched profile lookup
+ * @async
+ * @param {TransferRequestRow[]} rows - Transfer requests with their projects
+ * @returns {Promise<StartSnapTransferRequestWithDetails[]>} Requests with usernames
+ */
+const withUsernames = async (rows: TransferRequestRow[]): Promise<StartSnapTransferRequestWithDetails[]> => {
+  if (rows.length === 0) return [];
+
+  const usernames = await fetchUsernameMap(rows.flatMap(row => [row.from_user_id, row.to_user_id]));
+  return rows.map(row => ({
+    ...row,
+    from_username: usernames[row.from_user_id] ?? null,
+    to_username: usernames[row.to_user_id] ?? null
+  }));
+};
+
+/**
+ * @description Fetches a project's members, owner first. Pending invitations are only included for the project
+ * owner and the invitee.
+ * @async
+ * @param {string} startsnapId - Project ID
+ * @returns {Promise<StartSnapMember[]>} The project's members
+ */
+export const fetchMembers = async (startsnapId: string): Promise<StartSnapMember[]> => {
+  const { data, error } = await getApiClient().rpc('get_startsnap_members', { p_startsnap_id: startsnapId });
+
+  if (error) throw toApiError(error, 'members.fetchMembers');
+  return (data || []) as StartSnapMember[];
+};
+
+/**
+ * @description Fetches a user's pending invitations, newest first
+ * @async
+ * @param {string} userId - Invited user's ID
+ * @returns {Promise<StartSnapInvitation[]>} Pending invitations with their projects
+ */
+export const fetchMyInvitations = async (userId: string): Promise<StartSnapInvitation[]> => {
+  const { data, error } = await getApiClient()
+    .from('startsnap_members')
+    .select('startsnap_id, role, created_at, startsnap:startsnaps(name, slug)')
+    .eq('user_id', userId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw toApiError(error, 'members.fetchMyInvitations');
+  return (data || []) as unknown as StartSnapInvitation[];
+};
+
+/**
+ * @description Checks whether the signed-in user owns or is an accepted editor of a project
+ * @async
+ * @param {string} startsnapId - Project ID
+ * @returns {Promise<boolean>} True if the user may edit the project
+ */
+export const canEditStartSnap = async (startsnapId: string): Promise<boolean> => {
+  const { data, error } = await getApiClient().rpc('is_startsnap_editor', { p_startsnap_id: startsnapId });
+
+  if (error) throw toApiError(error, 'members.canEditStartSnap');
+  return data === true;
+};
+
+/**
+ * @description Invites a builder to a project as an editor (project owner only)
+ * @async
+ * @param {string} startsnapId - Project ID
+ * @param {string} username - Username of the builder to invite
+ * @sideEffects Inserts a pending row into startsnap_members
+ */
+export const inviteMember = async (startsnapId: string, username: string): Promise<void> => {
+  const { error } = await getApiClient().rpc('invite_startsnap_member', {
+    p_startsnap_id: startsnapId,
+    p_username: username
+  });
+
+  if (error) throw toApiError(error, 'members.inviteMember');
+};
+
+/**
+ * @description Accepts or declines the signed-in user's invitation to a project
+ * @async
+ * @param {string} startsnapId - Project ID
+ * @param {boolean} accept - True to become an editor, false to decline
+ * @sideEffects Marks the invitation accepted, or deletes it
+ */
+export const respondToInvitation = async (startsnapId: string, accept: boolean): Promise<void> => {
+  const { error } = await getApiClient().rpc('respond_to_startsnap_invitation', {
+    p_startsnap_id: startsnapId,
+    p_accept: accept
+  });
+
+  if (error) throw toApiError(error, 'members.respondToInvitation');
+};
+
+/**
+ * @description Removes an editor or cancels an invitation; owners can remove anyone but themselves, editors can
+ * only remove themselves (leave the project)
+ * @async
+ * @param {string} startsnapId - Project ID
+ * @param {string} userId - Member to remove
+ * @sideEffects Deletes from startsnap_members
+ */
+export const removeMember = async (startsnapId: string, userId: string): Promise<void> => {
+  const { error } = await getApiClient().rpc('remove_startsnap_member', {
+    p_startsnap_id: startsnapId,
+    p_user_id: userId
+  });
+
+  if (error) throw toApiError(error, 'members.removeMember');
+};
+
+/**
+ * @description Fetches the open ownership transfer of a project, visible to its sender and recipient
+ * @async
+ * @param {string} startsnapId - Project ID
+ * @returns {Promise<StartSnapTransferRequestWithDetails | null>} The pending transfer, or null when there is none
+ */
+export const fetchPendingTransfer = async (startsnapId: string): Promise<StartSnapTransferRequestWithDetails | null> => {
+  const { data, error } = await getApiClient()
+    .from('startsnap_transfer_requests')
+    .select('*, startsnap:startsnaps(name, slug)')
+    .eq('startsnap_id', startsnapId)
+    .eq('status', 'pending')
+    .maybeSingle();
+
+  if (error) throw toApiError(error, 'members.fetchPendingTransfer');
+  if (!data) return null;
+
+  const [transfer] = await withUsernames([data as unknown as TransferRequestRow]);
+  return transfer;
+};
+
+/**
+ * @description Fetches the pending ownership transfers offered to a user, newest first
+ * @async
+ * @param {string} userId - Recipient's user ID
+ * @returns {Promise<StartSnapTransferRequestWithDetails[]>} Pending transfers with projects and usernames
+ */
+export const fetchIncomingTransfers = async (userId: string): Promise<StartSnapTransferRequestWithDetails[]> => {
+  const { data, error } = await getApiClient()
+    .from('startsnap_transfer_requests')
+    .select('*, startsnap:startsnaps(name, slug)')
+    .eq('to_user_id', userId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false });
+
+  if (error) throw toApiError(error, 'members.fetchIncomingTransfers');
+  return withUsernames((data || []) as unknown as TransferRequestRow[]);
+};
+
+/**
+ * @description Offers a project to another builder (project owner only); the project moves once they accept
+ * @async
+ * @param {string} startsnapId - Project ID
+ * @param {string} username - Username of the new owner
+ * @sideEffects Inserts a pending row into startsnap_transfer_requests
+ */
+export const requestTransfer = async (startsnapId: string, username: string): Promise<void> => {
+  const { error } = await getApiClient().rpc('request_startsnap_transfer', {
+    p_startsnap_id: startsnapId,
+    p_username: username
+  });
+
+  if (error) throw toApiError(error, 'members.requestTransfer');
+};
+
+/**
+ * @description Withdraws a pending transfer the signed-in user sent
+ * @async
+ * @param {string} requestId - Transfer request ID
+ * @sideEffects Marks the transfer cancelled
+ */
+export const cancelTransfer = async (requestId: string): Promise<void> => {
+  const { error } = await getApiClient().rpc('cancel_startsnap_transfer', { p_request_id: requestId });
+
+  if (error) throw toApiError(error, 'members.cancelTransfer');
+};
+
+/**
+ * @description Accepts or declines a transfer offered to the signed-in user
+ * @async
+ * @param {string} requestId - Transfer request ID
+ * @param {boolean} accept - True to take over the project
+ * @returns {Promise<StartSnapTransferRequest>} The answered transfer; its status is 'cancelled' when the sender no
+ * longer owned the project, in which case nothing moved
+ * @sideEffects On accept, moves the project, its memberships and vibe log activity to the signed-in user and logs
+ * a project_transferred activity
+ */
+export const respondToTransfer = async (requestId: string, accept: boolean): Promise<StartSnapTransferRequest> => {
+  const { data, error } = await getApiClient().rpc('respond_to_startsnap_transfer', {
+    p_request_id: requestId,
+    p_accept: accept
+  });
+
+  if (error) throw toApiError(error, 'members.respondToTransfer');
+  return data as StartSnapTransferRequest;
+};
@@ -0,0 +1,141 @@
+/**
+ * src/lib/api/notifications.ts
+ * @description Repository for the current user's notifications (rows are written by database triggers) and email preferences
+ */
+
+import { getApiClient } from './client';
+import { toApiError } from './errors';
+import type {
+  AppNotification,
+  EmailDelivery,
+  EmailEventType,
+  NotificationPreference,
+  UnsubscribeScope,
+} from '../../types/notification';
+
+const NOTIFICATION_COLUMNS = '*, startsnap:startsnaps(name, slug)';
+
+/**
+ * @description Fetches a range of a user's notifications, newest first
+ * @async
+ * @param {string} userId - Recipient's user ID
+ * @param {number} startIndex - Zero-based index of the first notification
+ * @param {number} endIndex - Zero-based index of the last notification (inclusive)
+ * @returns {Promise<AppNotification[]>} Notifications in the range
+ */
+export const fetchNotifications = async (
+  userId: string,
+  startIndex: number,
+  endIndex: number
+): Promise<AppNotification[]> => {
+  const { data, error } = await getApiClient()
+    .from('notifications')
+    .select(NOTIFICATION_COLUMNS)
+    .eq('recipient_user_id', userId)
+    .order('created_at', { ascending: false })
+    .range(startIndex, endIndex);
+
+  if (error) throw toApiError(error, 'notifications.fetchNotifications');
+  return (data || []) as AppNotification[];
+};
+
+/**
+ * @description Counts a user's unread notifications
+ * @async
+ * @param {string} userId - Recipient's user ID
+ * @returns {Promise<number>} Number of unread notifications
+ */
+export const fetchUnreadNotificationCount = async (userId: string): Promise<number> => {
+  const { count, error } = await getApiClient()
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('recipient_user_id', userId)
+    .is('read_at', null);
+
+  if (error) throw toApiError(error, 'notifications.fetchUnreadNotificationCount');
+  return count || 0;
+};
+
+/**
+ * @description Marks a single notification as read
+ * @async
+ * @param {string} id - Notification ID
+ * @sideEffects Sets read_at on the notification
+ */
+export const markNotificationRead = async (id: string): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('read_at', null);
+
+  if (error) throw toApiError(error, 'notifications.markNotificationRead');
+};
+
+/**
+ * @description Marks all of a user's unread notifications as read
+ * @async
+ * @param {string} userId - Recipient's user ID
+ * @sideEffects Sets read_at on every unread notification of the user
+ */
+export const markAllNotificationsRead = async (userId: string): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('recipient_user_id', userId)
+    .is('read_at', null);
+
+  if (error) throw toApiError(error, 'notifications.markAllNotificationsRead');
+};
+
+/**
+ * @description Fetches the signed-in user's email preferences, with defaults for events they never changed
+ * @async
+ * @returns {Promise<NotificationPreference[]>} One preference per email event
+ */
+export const fetchNotificationPreferences = async (): Promise<NotificationPreference[]> => {
+  const { data, error } = await getApiClient().rpc('get_my_notification_preferences');
+
+  if (error) throw toApiError(error, 'notifications.fetchNotificationPreferences');
+  return (data || []) as NotificationPreference[];
+};
+
+/**
+ * @description Saves how a user wants to be emailed about one event
+ * @async
+ * @param {string} userId - User's ID
+ * @param {EmailEventType} eventType - Email event
+ * @param {EmailDelivery} delivery - Immediate, daily digest or off
+ * @sideEffects Upserts into the notification_preferences table
+ */
+export const updateNotificationPreference = async (
+  userId: string,
+  eventType: EmailEventType,
+  delivery: EmailDelivery
+): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('notification_preferences')
+    .upsert({ user_id: userId, event_type: eventType, delivery });
+
+  if (error) throw toApiError(error, 'notifications.updateNotificationPreference');
+};
+
+/**
+ * @description Turns email off through a signed unsubscribe link, without signing in
+ * @async
+ * @param {string} userId - User ID from the link
+ * @param {UnsubscribeScope} scope - Email event from the link, or "all"
+ * @param {string} signature - Signature from the link
+ * @sideEffects Calls the unsubscribe Edge Function, which sets the matching preferences to off
+ */
+export const unsubscribeWithSignedLink = async (
+  userId: string,
+  scope: UnsubscribeScope,
+  signature: string
+): Promise<void> => {
+  const { error } = await getApiClient().functions.invoke('unsubscribe', {
+    body: { u: userId, e: scope, s: signature }
+  });
+
+  if (error) throw toApiError(error, 'notifications.unsubscribeWithSignedLink');
+};
@@ -0,0 +1,172 @@
+/**
+ * src/lib/api/profiles.ts
+ * @description Repository for the profiles table
+ */
+
+import { getApiClient } from './client';
+import { toApiError } from './errors';
+import type { UserProfileData, ProfileSummary, PaginatedProfileDiscoveryState } from '../../types/user';
+
+/**
+ * @description Map of user IDs to usernames, used to show creator names next to content
+ */
+export type UsernameMap = Record<UserProfileData['user_id'], UserProfileData['username']>;
+
+/**
+ * @description Fields that can be written when saving a profile
+ */
+export type ProfileUpdate = Partial<Omit<UserProfileData, 'user_id' | 'created_at' | 'updated_at'>>;
+
+/**
+ * @description Fetches the profile of a user by their auth user ID
+ * @async
+ * @param {string} userId - Auth user ID
+ * @returns {Promise<UserProfileData | null>} The profile, or null when the user has none yet
+ */
+export const fetchProfileByUserId = async (userId: string): Promise<UserProfileData | null> => {
+  const { data, error } = await getApiClient()
+    .from('profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw toApiError(error, 'profiles.fetchProfileByUserId');
+  return data as UserProfileData | null;
+};
+
+/**
+ * @description Fetches a public profile by its unique username
+ * @async
+ * @param {string} username - Username to look up
+ * @returns {Promise<UserProfileData | null>} The profile, or null when no user has that username
+ */
+export const fetchProfileByUsername = async (username: string): Promise<UserProfileData | null> => {
+  const { data, error } = await getApiClient()
+    .from('profiles')
+    .select('*')
+    .eq('username', username)
+    .maybeSingle();
+
+  if (error) throw toApiError(error, 'profiles.fetchProfileByUsername');
+  return data as UserProfileData | null;
+};
+
+/**
+ * @description Fetches usernames for a batch of users in one query
+ * @async
+ * @param {string[]} userIds - User IDs to resolve; duplicates are ignored
+ * @returns {Promise<UsernameMap>} Map of user ID to username
+ */
+export const fetchUsernameMap = async (userIds: string[]): Promise<UsernameMap> => {
+  const uniqueIds = [...new Set(userIds.filter(Boolean))];
+  if (uniqueIds.length === 0) return {};
+
+  const { data, error } = await getApiClient()
+    .from('profiles')
+    .select('user_id, username')
+    .in('user_id', uniqueIds);
+
+  if (error) throw toApiError(error, 'profiles.fetchUsernameMap');
+
+  const usernameMap: UsernameMap = {};
+  (data || []).forEach(profile => {
+    usernameMap[profile.user_id] = profile.username;
+  });
+  return usernameMap;
+};
+
+/**
+ * @description Checks whether a username is already used by another user
+ * @async
+ * @param {string} username - Username to check
+ * @param {string} excludeUserId - The current user, whose own username does not count as taken
+ * @returns {Promise<boolean>} True if another user already has the username
+ */
+export const isUsernameTaken = async (username: string, excludeUserId: string): Promise<boolean> => {
+  const { data, error } = await getApiClient()
+    .from('profiles')
+    .select('user_id')
+    .eq('username', username)
+    .neq('user_id', excludeUserId)
+    .limit(1);
+
+  if (error) throw toApiError(error, 'profiles.isUsernameTaken');
+  return !!data && data.length > 0;
+};
+
+/**
+ * @description Creates or updates the profile of a user
+ * @async
+ * @param {string} userId - Auth user ID that owns the profile
+ * @param {ProfileUpdate} profile - Profile fields to save
+ * @sideEffects Upserts into the profiles table
+ */
+export const upsertProfile = async (userId: string, profile: ProfileUpdate): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('profiles')
+    .upsert({
+      ...profile,
+      user_id: userId,
+      updated_at: new Date()
+    }, {
+      onConflict: 'user_id'
+    });
+
+  if (error) throw toApiError(error, 'profiles.upsertProfile');
+};
+
+/**
+ * @description Updates selected fields on an existing profile
+ * @async
+ * @param {string} userId - Auth user ID that owns the profile
+ * @param {ProfileUpdate} updates - Fields to change
+ * @sideEffects Updates the profiles table
+ */
+export const updateProfile = async (userId: string, updates: ProfileUpdate): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('profiles')
+    .update({
+      ...updates,
+      updated_at: new Date()
+    })
+    .eq('user_id', userId);
+
+  if (error) throw toApiError(error, 'profiles.updateProfile');
+};
+
+/**
+ * @description Fetches one page of the profiles directory with search, filtering and sorting
+ * @async
+ * @param {PaginatedProfileDiscoveryState} state - Discovery state including pagination
+ * @returns {Promise<{ profiles: ProfileSummary[]; totalCount: number }>} The page and the total number of matches
+ */
+export const fetchPaginatedProfiles = async (
+  state: PaginatedProfileDiscoveryState
+): Promise<{ profiles: ProfileSummary[]; totalCount: number }> => {
+  // Calculate range for pagination (zero-based indices)
+  const startIndex = (state.page - 1) * state.pageSize;
+  const endIndex = startIndex + state.pageSize - 1;
+
+  let query = getApiClient()
+    .from('profiles')
+    .select('user_id, username, bio, status, github_url, twitter_url, linkedin_url, website_url, created_at', { count: 'exact' })
+    .range(startIndex, endIndex);
+
+  if (state.searchTerm.trim()) {
+    query = query.or(`username.ilike.%${state.searchTerm}%,bio.ilike.%${state.searchTerm}%`);
+  }
+
+  if (state.filters.status && state.filters.status !== 'all') {
+    query = query.eq('status', state.filters.status);
+  }
+
+  query = query.order(state.sort.field, { ascending: state.sort.direction === 'asc' });
+  if (state.sort.field !== 'created_at') {
+    query = query.order('created_at', { ascending: false });
+  }
+
+  const { data, error, count } = await query;
+  if (error) throw toApiError(error, 'profiles.fetchPaginatedProfiles');
+
+  return { profiles: (data || []) as ProfileSummary[], totalCount: count || 0 };
+};
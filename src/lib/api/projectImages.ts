@@ -0,0 +1,50 @@
+/**
+ * src/lib/api/projectImages.ts
+ * @description Repository for the startsnap_images table. The startsnaps screenshot_urls and cover_image_url
+ * columns are kept in sync with it by a database trigger.
+ */
+
+import { getApiClient } from './client';
+import { toApiError } from './errors';
+import type { ProjectImage, ProjectImageInput } from '../../types/startsnap';
+
+/**
+ * @description Fetches a project's images in display order
+ * @async
+ * @param {string} startsnapId - Project ID
+ * @returns {Promise<ProjectImage[]>} The project's images
+ */
+export const fetchProjectImages = async (startsnapId: string): Promise<ProjectImage[]> => {
+  const { data, error } = await getApiClient()
+    .from('startsnap_images')
+    .select('*')
+    .eq('startsnap_id', startsnapId)
+    .order('position', { ascending: true });
+
+  if (error) throw toApiError(error, 'projectImages.fetchProjectImages');
+  return (data || []) as ProjectImage[];
+};
+
+/**
+ * @description Replaces a project's images with the given ordered list through the save_startsnap_images function
+ * @async
+ * @param {string} startsnapId - Project ID
+ * @param {ProjectImageInput[]} images - Images in display order; the first is the cover unless another is flagged
+ * @returns {Promise<ProjectImage[]>} The saved images
+ * @sideEffects Replaces rows in startsnap_images; triggers update the project's screenshot_urls and cover_image_url
+ */
+export const saveProjectImages = async (startsnapId: string, images: ProjectImageInput[]): Promise<ProjectImage[]> => {
+  const { data, error } = await getApiClient().rpc('save_startsnap_images', {
+    p_startsnap_id: startsnapId,
+    p_images: images.map(image => ({
+      url: image.url,
+      caption: image.caption,
+      alt_text: image.alt_text,
+      placeholder: image.placeholder,
+      is_cover: image.is_cover
+    }))
+  });
+
+  if (error) throw toApiError(error, 'projectImages.saveProjectImages');
+  return (data || []) as ProjectImage[];
+};
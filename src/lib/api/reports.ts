@@ -0,0 +1,141 @@
+/**
+ * src/lib/api/reports.ts
+ * @description Repository for content reports (reports) and the admin moderation queue. Admin reads and decisions go
+ * through database functions that check the admin role claim and record every decision in moderation_actions.
+ */
+
+import { getApiClient } from './client';
+import { toApiError } from './errors';
+import { fetchUsernameMap } from './profiles';
+import type {
+  ModerationAction,
+  ModerationActionEntry,
+  ReportQueueItem,
+  ReportReason,
+  ReportTargetType
+} from '../../types/report';
+
+/** How many audit trail entries the admin screen loads */
+const MODERATION_HISTORY_LIMIT = 50;
+
+/**
+ * @description Reports a project, feedback, reply or profile
+ * @async
+ * @param {string} reporterId - Reporting user's ID
+ * @param {ReportTargetType} targetType - Kind of content reported
+ * @param {string} targetId - ID of the content; the user ID for profiles
+ * @param {ReportReason} reason - Why it is reported
+ * @param {string} [details] - Optional explanation, required for 'other'
+ * @sideEffects Inserts into reports; fails with a unique violation if the user already has an open report on it
+ */
+export const createReport = async (
+  reporterId: string,
+  targetType: ReportTargetType,
+  targetId: string,
+  reason: ReportReason,
+  details = ''
+): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('reports')
+    .insert({
+      reporter_id: reporterId,
+      target_type: targetType,
+      target_id: targetId,
+      reason,
+      details: details.trim() || null
+    });
+
+  if (error) throw toApiError(error, 'reports.createReport');
+};
+
+/**
+ * @description Fetches the admin report queue (admins only)
+ * @async
+ * @param {'open' | 'resolved'} status - Open reports, oldest first, or resolved ones, most recent first
+ * @returns {Promise<ReportQueueItem[]>} Reports with a preview of the reported content
+ */
+export const fetchReportQueue = async (status: 'open' | 'resolved'): Promise<ReportQueueItem[]> => {
+  const { data, error } = await getApiClient().rpc('get_report_queue', { p_status: status });
+
+  if (error) throw toApiError(error, 'reports.fetchReportQueue');
+  return (data || []) as ReportQueueItem[];
+};
+
+/**
+ * @description Dismisses a report, hides the reported content or suspends its author (admins only). All open
+ * reports on the same content are resolved with it.
+ * @async
+ * @param {string} reportId - Report ID
+ * @param {ModerationAction} action - What to do about it
+ * @param {string} [note] - Optional note kept in the audit trail
+ * @sideEffects Updates reports, may hide content or insert into user_suspensions, inserts into moderation_actions
+ */
+export const resolveReport = async (reportId: string, action: ModerationAction, note = ''): Promise<void> => {
+  const { error } = await getApiClient().rpc('resolve_report', {
+    p_report_id: reportId,
+    p_action: action,
+    p_note: note.trim() || null
+  });
+
+  if (error) throw toApiError(error, 'reports.resolveReport');
+};
+
+/**
+ * @description Makes hidden content visible again (admins only)
+ * @async
+ * @param {ReportTargetType} targetType - Kind of content; profiles cannot be hidden
+ * @param {string} targetId - ID of the project, feedback or reply
+ * @param {string} [note] - Optional note kept in the audit trail
+ * @sideEffects Clears hidden_at on the content, inserts into moderation_actions
+ */
+export const unhideContent = async (targetType: ReportTargetType, targetId: string, note = ''): Promise<void> => {
+  const { error } = await getApiClient().rpc('unhide_content', {
+    p_target_type: targetType,
+    p_target_id: targetId,
+    p_note: note.trim() || null
+  });
+
+  if (error) throw toApiError(error, 'reports.unhideContent');
+};
+
+/**
+ * @description Lifts a user's suspension so they can post again (admins only)
+ * @async
+ * @param {string} userId - Suspended user's ID
+ * @param {string} [note] - Optional note kept in the audit trail
+ * @sideEffects Deletes from user_suspensions, inserts into moderation_actions
+ */
+export const liftSuspension = async (userId: string, note = ''): Promise<void> => {
+  const { error } = await getApiClient().rpc('lift_suspension', {
+    p_user_id: userId,
+    p_note: note.trim() || null
+  });
+
+  if (error) throw toApiError(error, 'reports.liftSuspension');
+};
+
+/**
+ * @description Fetches the most recent moderation decisions and reversals with admin and author usernames (admins only)
+ * @async
+ * @returns {Promise<ModerationActionEntry[]>} Audit trail entries, newest first
+ */
+export const fetchModerationActions = async (): Promise<ModerationActionEntry[]> => {
+  const { data, error } = await getApiClient()
+    .from('moderation_actions')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(MODERATION_HISTORY_LIMIT);
+
+  if (error) throw toApiError(error, 'reports.fetchModerationActions');
+
+  const rows = (data || []) as Omit<ModerationActionEntry, 'admin_username' | 'target_username'>[];
+  const usernames = await fetchUsernameMap(
+    rows.flatMap(row => [row.admin_id, row.target_user_id]).filter((id): id is string => !!id)
+  );
+
+  return rows.map(row => ({
+    ...row,
+    admin_username: row.admin_id ? usernames[row.admin_id] ?? null : null,
+    target_username: row.target_user_id ? usernames[row.target_user_id] ?? null : null
+  }));
+};
@@ -0,0 +1,340 @@
+/**
+ * src/lib/api/startsnaps.ts
+ * @description Repository for the startsnaps table
+ */
+
+import { getApiClient } from './client';
+import { toApiError } from './errors';
+import { CATEGORY_CONFIG } from '../../config/categories';
+import type { StartSnapProject, StartSnapInput } from '../../types/startsnap';
+import type { PaginatedProjectDiscoveryState, TrendingWindow } from '../../types/projectDiscovery';
+
+const STARTSNAP_COLUMNS = '*, support_count, screenshot_urls, co_creators';
+
+/**
+ * @description Window used when projects are sorted by "Trending" in the gallery
+ */
+export const DEFAULT_TRENDING_WINDOW: TrendingWindow = '7d';
+
+/**
+ * @description Select fragment aliasing a trending computed field to trending_score
+ * @param {TrendingWindow} window - Trending window
+ * @returns {string} PostgREST select fragment
+ */
+const trendingScoreColumn = (window: TrendingWindow): string => `trending_score:trending_score_${window}`;
+
+/**
+ * @description Fetches a StartSnap by its URL slug
+ * @async
+ * @param {string} slug - Project slug
+ * @returns {Promise<StartSnapProject | null>} The project, or null when no project has that slug
+ */
+export const fetchStartSnapBySlug = async (slug: string): Promise<StartSnapProject | null> => {
+  const { data, error } = await getApiClient()
+    .from('startsnaps')
+    .select(STARTSNAP_COLUMNS)
+    .eq('slug', slug)
+    .maybeSingle();
+
+  if (error) throw toApiError(error, 'startsnaps.fetchStartSnapBySlug');
+  return data as StartSnapProject | null;
+};
+
+/**
+ * @description Fetches a StartSnap by its ID
+ * @async
+ * @param {string} id - Project ID
+ * @returns {Promise<StartSnapProject | null>} The project, or null when it does not exist
+ */
+export const fetchStartSnapById = async (id: string): Promise<StartSnapProject | null> => {
+  const { data, error } = await getApiClient()
+    .from('startsnaps')
+    .select(STARTSNAP_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw toApiError(error, 'startsnaps.fetchStartSnapById');
+  return data as StartSnapProject | null;
+};
+
+/**
+ * @description Fetches every published StartSnap created by a user, newest first
+ * @async
+ * @param {string} userId - Creator's user ID
+ * @returns {Promise<StartSnapProject[]>} The user's projects
+ */
+export const fetchStartSnapsByUser = async (userId: string): Promise<StartSnapProject[]> => {
+  const { data, error } = await getApiClient()
+    .from('startsnaps')
+    .select(STARTSNAP_COLUMNS)
+    .eq('user_id', userId)
+    .eq('status', 'published')
+    .order('created_at', { ascending: false });
+
+  if (error) throw toApiError(error, 'startsnaps.fetchStartSnapsByUser');
+  return (data || []) as StartSnapProject[];
+};
+
+/**
+ * @description Fetches the draft and scheduled StartSnaps a user owns, most recently edited first.
+ * Projects they only edit are not included. RLS hides unpublished rows from everyone but their owner and
+ * editors, so this returns nothing for another user's ID unless the caller edits those projects.
+ * @async
+ * @param {string} userId - Owner's user ID
+ * @returns {Promise<StartSnapProject[]>} The user's own unpublished projects
+ */
+export const fetchDraftStartSnapsByUser = async (userId: string): Promise<StartSnapProject[]> => {
+  const { data, error } = await getApiClient()
+    .from('startsnaps')
+    .select(STARTSNAP_COLUMNS)
+    .eq('user_id', userId)
+    .in('status', ['draft', 'scheduled'])
+    .order('updated_at', { ascending: false });
+
+  if (error) throw toApiError(error, 'startsnaps.fetchDraftStartSnapsByUser');
+  return (data || []) as StartSnapProject[];
+};
+
+/**
+ * @description Fetches the most recently created StartSnaps
+ * @async
+ * @param {number} limit - Maximum number of projects to return
+ * @returns {Promise<StartSnapProject[]>} Latest projects, newest first
+ */
+export const fetchLatestStartSnaps = async (limit: number): Promise<StartSnapProject[]> => {
+  const { data, error } = await getApiClient()
+    .from('startsnaps')
+    .select(STARTSNAP_COLUMNS)
+    .eq('status', 'published')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw toApiError(error, 'startsnaps.fetchLatestStartSnaps');
+  return (data || []) as StartSnapProject[];
+};
+
+/**
+ * @description Fetches the StartSnaps with the most supporters
+ * @async
+ * @param {number} limit - Maximum number of projects to return
+ * @returns {Promise<StartSnapProject[]>} Projects ordered by support count
+ */
+export const fetchMostSupportedStartSnaps = async (limit: number): Promise<StartSnapProject[]> => {
+  const { data, error } = await getApiClient()
+    .from('startsnaps')
+    .select(STARTSNAP_COLUMNS)
+    .eq('status', 'published')
+    .order('support_count', { ascending: false })
+    .limit(limit);
+
+  if (error) throw toApiError(error, 'startsnaps.fetchMostSupportedStartSnaps');
+  return (data || []) as StartSnapProject[];
+};
+
+/**
+ * @description Fetches the top trending StartSnaps for a time window, scored from recent supports,
+ * feedback, vibe logs and tips with a half-life decay
+ * @async
+ * @param {TrendingWindow} window - Time window to score activity over
+ * @param {number} limit - Maximum number of projects to return
+ * @returns {Promise<StartSnapProject[]>} Projects ordered by trending score, each with trending_score set
+ */
+export const fetchTrendingStartSnaps = async (window: TrendingWindow, limit: number): Promise<StartSnapProject[]> => {
+  const columns: string = `${STARTSNAP_COLUMNS}, ${trendingScoreColumn(window)}`;
+  const { data, error } = await getApiClient()
+    .rpc('trending_startsnaps', { p_window: window, p_limit: limit })
+    .select(columns);
+
+  if (error) throw toApiError(error, 'startsnaps.fetchTrendingStartSnaps');
+  return (data || []) as unknown as StartSnapProject[];
+};
+
+/**
+ * @description Fetches one page of the project gallery with search, filtering and sorting.
+ * A search term goes through the search_startsnaps RPC (ranked, prefix-matching full-text search);
+ * filters, count and range are applied on top of its result like on a plain table query.
+ * @async
+ * @param {PaginatedProjectDiscoveryState} state - Discovery state including pagination
+ * @returns {Promise<{ startsnaps: StartSnapProject[]; totalCount: number }>} The page and the total number of matches
+ */
+export const fetchPaginatedStartSnaps = async (
+  state: PaginatedProjectDiscoveryState
+): Promise<{ startsnaps: StartSnapProject[]; totalCount: number }> => {
+  // Calculate range for pagination (zero-based indices)
+  const startIndex = (state.page - 1) * state.pageSize;
+  const endIndex = startIndex + state.pageSize - 1;
+
+  const searchTerm = state.searchTerm.trim();
+  const columns: string = state.sort.field === 'trending'
+    ? `${STARTSNAP_COLUMNS}, ${trendingScoreColumn(DEFAULT_TRENDING_WINDOW)}`
+    : STARTSNAP_COLUMNS;
+
+  let query = searchTerm
+    ? getApiClient()
+      .rpc('search_startsnaps', { p_query: searchTerm }, { count: 'exact' })
+      .range(startIndex, endIndex)
+    : getApiClient()
+      .from('startsnaps')
+      .select(columns, { count: 'exact' })
+      .range(startIndex, endIndex);
+
+  // Owners and editors can read their own drafts, which must still stay out of the gallery
+  query = query.eq('status', 'published');
+
+  if (state.filters.category) {
+    const categoryKey = Object.keys(CATEGORY_CONFIG).find(
+      key => CATEGORY_CONFIG[key as keyof typeof CATEGORY_CONFIG].label === state.filters.category
+    );
+    if (categoryKey) {
+      query = query.eq('category', categoryKey);
+    }
+  }
+  if (state.filters.type && state.filters.type !== 'all') {
+    query = query.eq('type', state.filters.type);
+  }
+  if (state.filters.isHackathonEntry) {
+    query = query.eq('is_hackathon_entry', true);
+  }
+
+  if (state.sort.field === 'relevance') {
+    // The RPC already returns best matches first; without a search term there is nothing to rank
+    if (!searchTerm) {
+      query = query.order('created_at', { ascending: false });
+    }
+  } else if (state.sort.field === 'trending') {
+    query = query
+      .order(`trending_score_${DEFAULT_TRENDING_WINDOW}`, { ascending: false })
+      .order('support_count', { ascending: false })
+      .order('created_at', { ascending: false });
+  } else {
+    query = query.order(state.sort.field, { ascending: state.sort.direction === 'asc' });
+    if (state.sort.field !== 'created_at') {
+      query = query.order('created_at', { ascending: false });
+    }
+  }
+
+  // The RPC has no select of its own; apply the column list last so filters stay available above
+  const { data, error, count } = await (searchTerm ? query.select(columns) : query);
+  if (error) throw toApiError(error, 'startsnaps.fetchPaginatedStartSnaps');
+
+  return { startsnaps: (data || []) as StartSnapProject[], totalCount: count || 0 };
+};
+
+/**
+ * @description Reads the current support count of a project (maintained by database triggers)
+ * @async
+ * @param {string} id - Project ID
+ * @returns {Promise<number>} Current number of supporters
+ */
+export const fetchSupportCount = async (id: string): Promise<number> => {
+  const { data, error } = await getApiClient()
+    .from('startsnaps')
+    .select('support_count')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw toApiError(error, 'startsnaps.fetchSupportCount');
+  return data?.support_count || 0;
+};
+
+/**
+ * @description Checks whether a slug is already used by another project, including drafts, scheduled and hidden
+ * projects that RLS hides from the caller
+ * @async
+ * @param {string} slug - Slug to check
+ * @param {string} [excludeId] - Project to ignore, e.g. the one being edited
+ * @returns {Promise<boolean>} True if another project already uses the slug
+ */
+export const isSlugTaken = async (slug: string, excludeId?: string): Promise<boolean> => {
+  const { data, error } = await getApiClient().rpc('is_startsnap_slug_taken', {
+    p_slug: slug,
+    p_exclude_id: excludeId ?? null
+  });
+
+  if (error) throw toApiError(error, 'startsnaps.isSlugTaken');
+  return data === true;
+};
+
+/**
+ * @description Creates a new StartSnap project
+ * @async
+ * @param {StartSnapInput} startsnap - Project fields to insert
+ * @returns {Promise<StartSnapProject>} The created project
+ * @sideEffects Inserts into the startsnaps table (activity logging is handled by database triggers)
+ */
+export const createStartSnap = async (startsnap: StartSnapInput): Promise<StartSnapProject> => {
+  const { data, error } = await getApiClient()
+    .from('startsnaps')
+    .insert(startsnap)
+    .select()
+    .single();
+
+  if (error) throw toApiError(error, 'startsnaps.createStartSnap');
+  return data as StartSnapProject;
+};
+
+/**
+ * @description Updates an existing StartSnap project
+ * @async
+ * @param {string} id - Project ID
+ * @param {Partial<StartSnapInput>} updates - Fields to change
+ * @sideEffects Updates the startsnaps table
+ */
+export const updateStartSnap = async (id: string, updates: Partial<StartSnapInput>): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('startsnaps')
+    .update({
+      ...updates,
+      updated_at: new Date()
+    })
+    .eq('id', id);
+
+  if (error) throw toApiError(error, 'startsnaps.updateStartSnap');
+};
+
+/**
+ * @description Publishes a draft or scheduled StartSnap right away
+ * @async
+ * @param {string} id - Project ID
+ * @sideEffects Updates the startsnaps table; the publish trigger stamps created_at and logs project_created
+ */
+export const publishStartSnap = async (id: string): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('startsnaps')
+    .update({ status: 'published', publish_at: null })
+    .eq('id', id);
+
+  if (error) throw toApiError(error, 'startsnaps.publishStartSnap');
+};
+
+/**
+ * @description Deletes a StartSnap project; vibe logs, feedback and supporters cascade in the database
+ * @async
+ * @param {string} id - Project ID
+ * @sideEffects Deletes from the startsnaps table
+ */
+export const deleteStartSnap = async (id: string): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('startsnaps')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw toApiError(error, 'startsnaps.deleteStartSnap');
+};
+
+/**
+ * @description Fetches a StartSnap by its exact display name
+ * @async
+ * @param {string} name - Project name
+ * @returns {Promise<StartSnapProject | null>} The project, or null when no project has that name
+ */
+export const fetchStartSnapByName = async (name: string): Promise<StartSnapProject | null> => {
+  const { data, error } = await getApiClient()
+    .from('startsnaps')
+    .select(STARTSNAP_COLUMNS)
+    .eq('name', name)
+    .maybeSingle();
+
+  if (error) throw toApiError(error, 'startsnaps.fetchStartSnapByName');
+  return data as StartSnapProject | null;
+};
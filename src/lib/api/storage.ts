@@ -0,0 +1,59 @@
+/**
+ * src/lib/api/storage.ts
+ * @description Repository for project screenshots in Supabase Storage
+ */
+
+import { getApiClient } from './client';
+import { toApiError } from './errors';
+
+const SCREENSHOTS_BUCKET = 'project-screenshots';
+
+/**
+ * @description Extracts the storage path ("<userId>/<fileName>") from a public screenshot URL
+ * @param {string} url - Public URL returned by getPublicUrl
+ * @returns {string} Path of the object inside the screenshots bucket
+ */
+export const getScreenshotPathFromUrl = (url: string): string => {
+  const urlParts = url.split('/');
+  const fileName = urlParts[urlParts.length - 1];
+  const userId = urlParts[urlParts.length - 2];
+  return `${userId}/${fileName}`;
+};
+
+/**
+ * @description Uploads a screenshot to the user's folder and returns its public URL
+ * @async
+ * @param {string} userId - Uploading user's ID (storage policies only allow writes to their own folder)
+ * @param {File} file - Image file to upload
+ * @returns {Promise<string>} Public URL of the uploaded image
+ * @sideEffects Uploads a file to the project-screenshots bucket
+ */
+export const uploadScreenshot = async (userId: string, file: File): Promise<string> => {
+  const storage = getApiClient().storage.from(SCREENSHOTS_BUCKET);
+  const fileExt = file.name.split('.').pop();
+  const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
+  const filePath = `${userId}/${fileName}`;
+
+  const { error } = await storage.upload(filePath, file);
+  if (error) throw toApiError(error, 'storage.uploadScreenshot');
+
+  const { data: { publicUrl } } = storage.getPublicUrl(filePath);
+  return publicUrl;
+};
+
+/**
+ * @description Deletes screenshots by their public URLs
+ * @async
+ * @param {string[]} urls - Public URLs of the screenshots to delete
+ * @sideEffects Removes files from the project-screenshots bucket
+ */
+export const removeScreenshots = async (urls: string[]): Promise<void> => {
+  if (urls.length === 0) return;
+
+  const { error } = await getApiClient()
+    .storage
+    .from(SCREENSHOTS_BUCKET)
+    .remove(urls.map(getScreenshotPathFromUrl));
+
+  if (error) throw toApiError(error, 'storage.removeScreenshots');
+};
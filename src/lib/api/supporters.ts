@@ -0,0 +1,58 @@
+/**
+ * src/lib/api/supporters.ts
+ * @description Repository for the project_supporters table. Support counts on startsnaps are kept in sync by database triggers.
+ */
+
+import { getApiClient } from './client';
+import { toApiError } from './errors';
+
+/**
+ * @description Checks whether a user supports a project
+ * @async
+ * @param {string} startsnapId - Project ID
+ * @param {string} userId - User ID
+ * @returns {Promise<boolean>} True if the user supports the project
+ */
+export const hasUserSupported = async (startsnapId: string, userId: string): Promise<boolean> => {
+  const { data, error } = await getApiClient()
+    .from('project_supporters')
+    .select('startsnap_id')
+    .eq('startsnap_id', startsnapId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw toApiError(error, 'supporters.hasUserSupported');
+  return !!data;
+};
+
+/**
+ * @description Adds the user's support to a project
+ * @async
+ * @param {string} startsnapId - Project ID
+ * @param {string} userId - Supporting user's ID
+ * @sideEffects Inserts into project_supporters; triggers increment support_count and log the activity
+ */
+export const addSupport = async (startsnapId: string, userId: string): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('project_supporters')
+    .insert({ startsnap_id: startsnapId, user_id: userId });
+
+  if (error) throw toApiError(error, 'supporters.addSupport');
+};
+
+/**
+ * @description Withdraws the user's support from a project
+ * @async
+ * @param {string} startsnapId - Project ID
+ * @param {string} userId - Supporting user's ID
+ * @sideEffects Deletes from project_supporters; triggers decrement support_count and log the activity
+ */
+export const removeSupport = async (startsnapId: string, userId: string): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('project_supporters')
+    .delete()
+    .eq('startsnap_id', startsnapId)
+    .eq('user_id', userId);
+
+  if (error) throw toApiError(error, 'supporters.removeSupport');
+};
@@ -0,0 +1,171 @@
+/**
+ * src/lib/api/vibeRequests.ts
+ * @description Repository for the vibe_requests table and the answer_vibe_request RPC
+ */
+
+import { getApiClient } from './client';
+import { toApiError } from './errors';
+import { fetchUsernameMap } from './profiles';
+import type {
+  VibeRequest,
+  VibeRequestFilters,
+  VibeRequestFormData,
+  VibeRequestWithDetails,
+} from '../../types/vibeRequest';
+
+/**
+ * @description Attaches requester/answerer usernames and linked StartSnap details to raw vibe request rows
+ * @async
+ * @param {VibeRequest[]} rows - Vibe request rows from the database
+ * @returns {Promise<VibeRequestWithDetails[]>} Rows enriched for display
+ */
+const enrichVibeRequests = async (rows: VibeRequest[]): Promise<VibeRequestWithDetails[]> => {
+  if (rows.length === 0) return [];
+
+  const userIds = rows.flatMap(row => [row.user_id, row.answered_by]).filter(Boolean) as string[];
+  const startsnapIds = [...new Set(rows.map(row => row.linked_startsnap_id).filter(Boolean))] as string[];
+
+  const [usernameMap, startsnapsResult] = await Promise.all([
+    fetchUsernameMap(userIds),
+    startsnapIds.length > 0
+      ? getApiClient().from('startsnaps').select('id, name, slug').in('id', startsnapIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (startsnapsResult.error) throw toApiError(startsnapsResult.error, 'vibeRequests.enrichVibeRequests');
+
+  const startsnapMap = new Map<string, { id: string; name: string; slug: string }>(
+    (startsnapsResult.data || []).map((startsnap: { id: string; name: string; slug: string }) => [startsnap.id, startsnap])
+  );
+
+  return rows.map(row => ({
+    ...row,
+    requester_username: usernameMap[row.user_id],
+    answerer_username: row.answered_by ? usernameMap[row.answered_by] : undefined,
+    linked_startsnap: row.linked_startsnap_id ? startsnapMap.get(row.linked_startsnap_id) || null : null,
+  }));
+};
+
+/**
+ * @description Fetches one page of vibe requests, newest first
+ * @async
+ * @param {VibeRequestFilters} filters - Status and type filters
+ * @param {number} page - 1-based page number
+ * @param {number} pageSize - Number of requests per page
+ * @returns {Promise<{ requests: VibeRequestWithDetails[]; totalCount: number }>} The page and the total number of matches
+ */
+export const fetchVibeRequests = async (
+  filters: VibeRequestFilters,
+  page: number,
+  pageSize: number
+): Promise<{ requests: VibeRequestWithDetails[]; totalCount: number }> => {
+  const startIndex = (page - 1) * pageSize;
+  const endIndex = startIndex + pageSize - 1;
+
+  let query = getApiClient()
+    .from('vibe_requests')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(startIndex, endIndex);
+
+  if (filters.status !== 'all') {
+    query = query.eq('status', filters.status);
+  }
+  if (filters.type !== 'all') {
+    query = query.eq('type', filters.type);
+  }
+
+  const { data, error, count } = await query;
+  if (error) throw toApiError(error, 'vibeRequests.fetchVibeRequests');
+
+  const requests = await enrichVibeRequests((data || []) as VibeRequest[]);
+  return { requests, totalCount: count || 0 };
+};
+
+/**
+ * @description Fetches a single vibe request with display details
+ * @async
+ * @param {string} id - Vibe request ID
+ * @returns {Promise<VibeRequestWithDetails | null>} The request, or null when it no longer exists
+ */
+export const fetchVibeRequestById = async (id: string): Promise<VibeRequestWithDetails | null> => {
+  const { data, error } = await getApiClient()
+    .from('vibe_requests')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw toApiError(error, 'vibeRequests.fetchVibeRequestById');
+  if (!data) return null;
+
+  const [enriched] = await enrichVibeRequests([data as VibeRequest]);
+  return enriched;
+};
+
+/**
+ * @description Posts a new vibe request
+ * @async
+ * @param {string} userId - Requester's user ID
+ * @param {VibeRequestFormData} request - Title, description, type and tags
+ * @sideEffects Inserts into the vibe_requests table (activity logging is handled by database triggers)
+ */
+export const createVibeRequest = async (userId: string, request: VibeRequestFormData): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('vibe_requests')
+    .insert({
+      user_id: userId,
+      title: request.title,
+      description: request.description,
+      type: request.type,
+      tags: request.tags,
+    });
+
+  if (error) throw toApiError(error, 'vibeRequests.createVibeRequest');
+};
+
+/**
+ * @description Updates fields of a vibe request owned by the current user
+ * @async
+ * @param {string} id - Vibe request ID
+ * @param {Partial<VibeRequest>} updates - Fields to change
+ * @sideEffects Updates the vibe_requests table
+ */
+export const updateVibeRequest = async (id: string, updates: Partial<VibeRequest>): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('vibe_requests')
+    .update(updates)
+    .eq('id', id);
+
+  if (error) throw toApiError(error, 'vibeRequests.updateVibeRequest');
+};
+
+/**
+ * @description Answers a vibe request with a StartSnap owned by the current user
+ * @async
+ * @param {string} vibeRequestId - Vibe request ID
+ * @param {string} startsnapId - ID of the StartSnap that answers the request
+ * @sideEffects Completes the request via the answer_vibe_request RPC, which also logs the activity
+ */
+export const answerVibeRequest = async (vibeRequestId: string, startsnapId: string): Promise<void> => {
+  const { error } = await getApiClient().rpc('answer_vibe_request', {
+    p_vibe_request_id: vibeRequestId,
+    p_startsnap_id: startsnapId,
+  });
+
+  if (error) throw toApiError(error, 'vibeRequests.answerVibeRequest');
+};
+
+/**
+ * @description Deletes a vibe request
+ * @async
+ * @param {string} id - Vibe request ID
+ * @sideEffects Deletes from the vibe_requests table
+ */
+export const deleteVibeRequest = async (id: string): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('vibe_requests')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw toApiError(error, 'vibeRequests.deleteVibeRequest');
+};
@@ -0,0 +1,136 @@
+/**
+ * src/lib/api/vibelogs.ts
+ * @description Repository for the vibelogs table
+ */
+
+import { getApiClient } from './client';
+import { toApiError } from './errors';
+import type { DraftVibeLog, VibeLog, VibeLogFormData, VibeLogRevision } from '../../types/vibeLog';
+
+/**
+ * @description Fetches every Vibe Log entry of a project the caller may see, newest first.
+ * Drafts and scheduled entries are only returned to the project's owner and editors.
+ * @async
+ * @param {string} startsnapId - Project ID
+ * @returns {Promise<VibeLog[]>} The project's Vibe Log entries
+ */
+export const fetchVibeLogs = async (startsnapId: string): Promise<VibeLog[]> => {
+  const { data, error } = await getApiClient()
+    .from('vibelogs')
+    .select('*')
+    .eq('startsnap_id', startsnapId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw toApiError(error, 'vibelogs.fetchVibeLogs');
+  return (data || []) as VibeLog[];
+};
+
+/**
+ * @description Fetches the draft and scheduled Vibe Log entries the caller may see, with their project's name and slug
+ * @async
+ * @returns {Promise<DraftVibeLog[]>} Unpublished entries, most recently edited first
+ */
+export const fetchDraftVibeLogs = async (): Promise<DraftVibeLog[]> => {
+  const { data, error } = await getApiClient()
+    .from('vibelogs')
+    .select('*, startsnap:startsnaps(name, slug)')
+    .in('status', ['draft', 'scheduled'])
+    .order('updated_at', { ascending: false });
+
+  if (error) throw toApiError(error, 'vibelogs.fetchDraftVibeLogs');
+  return (data || []) as unknown as DraftVibeLog[];
+};
+
+/**
+ * @description Adds a Vibe Log entry to a project
+ * @async
+ * @param {string} startsnapId - Project ID
+ * @param {VibeLogFormData} vibeLog - Entry type, title, content and optionally its publish status
+ * @returns {Promise<VibeLog>} The created entry
+ * @sideEffects Inserts into the vibelogs table (activity logging is handled by database triggers once it is published)
+ */
+export const createVibeLog = async (startsnapId: string, vibeLog: VibeLogFormData): Promise<VibeLog> => {
+  const { data, error } = await getApiClient()
+    .from('vibelogs')
+    .insert({
+      startsnap_id: startsnapId,
+      log_type: vibeLog.log_type,
+      title: vibeLog.title,
+      content: vibeLog.content,
+      ...(vibeLog.status && { status: vibeLog.status, publish_at: vibeLog.publish_at ?? null })
+    })
+    .select()
+    .single();
+
+  if (error) throw toApiError(error, 'vibelogs.createVibeLog');
+  return data as VibeLog;
+};
+
+/**
+ * @description Updates a Vibe Log entry
+ * @async
+ * @param {string} id - Vibe Log ID
+ * @param {VibeLogFormData} vibeLog - New entry type, title, content and optionally a new publish status
+ * @sideEffects Updates the vibelogs table
+ */
+export const updateVibeLog = async (id: string, vibeLog: VibeLogFormData): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('vibelogs')
+    .update({
+      log_type: vibeLog.log_type,
+      title: vibeLog.title,
+      content: vibeLog.content,
+      ...(vibeLog.status && { status: vibeLog.status, publish_at: vibeLog.publish_at ?? null }),
+      updated_at: new Date()
+    })
+    .eq('id', id);
+
+  if (error) throw toApiError(error, 'vibelogs.updateVibeLog');
+};
+
+/**
+ * @description Publishes a draft or scheduled Vibe Log entry right away
+ * @async
+ * @param {string} id - Vibe Log ID
+ * @sideEffects Updates the vibelogs table; the publish trigger stamps created_at and logs the activity
+ */
+export const publishVibeLog = async (id: string): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('vibelogs')
+    .update({ status: 'published', publish_at: null })
+    .eq('id', id);
+
+  if (error) throw toApiError(error, 'vibelogs.publishVibeLog');
+};
+
+/**
+ * @description Fetches the earlier versions of a Vibe Log entry, most recently replaced first
+ * @async
+ * @param {string} vibeLogId - Vibe Log ID
+ * @returns {Promise<VibeLogRevision[]>} The entry's revisions; empty when it was never edited after publishing
+ */
+export const fetchVibeLogRevisions = async (vibeLogId: string): Promise<VibeLogRevision[]> => {
+  const { data, error } = await getApiClient()
+    .from('vibelog_revisions')
+    .select('*')
+    .eq('vibelog_id', vibeLogId)
+    .order('replaced_at', { ascending: false });
+
+  if (error) throw toApiError(error, 'vibelogs.fetchVibeLogRevisions');
+  return (data || []) as VibeLogRevision[];
+};
+
+/**
+ * @description Deletes a Vibe Log entry
+ * @async
+ * @param {string} id - Vibe Log ID
+ * @sideEffects Deletes from the vibelogs table
+ */
+export const deleteVibeLog = async (id: string): Promise<void> => {
+  const { error } = await getApiClient()
+    .from('vibelogs')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw toApiError(error, 'vibelogs.deleteVibeLog');
+};
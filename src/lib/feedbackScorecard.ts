@@ -0,0 +1,33 @@
+/**
+ * src/lib/feedbackScorecard.ts
+ * @description Aggregates the area ratings of a project's feedback into its feedback scorecard
+ */
+
+import type { FeedbackAreaScore, FeedbackComment } from '../types/feedback';
+
+/**
+ * @description Builds the scorecard of a project's feedback areas, in the order the owner listed them.
+ * Ratings of areas that are no longer listed are left out.
+ * @param {string[]} areas - The project's feedback areas (startsnaps.feedback_tags)
+ * @param {FeedbackComment[]} feedbackEntries - Top-level feedback with its ratings
+ * @returns {FeedbackAreaScore[]} One score per area, including areas nobody rated yet
+ */
+export const buildFeedbackScorecard = (areas: string[], feedbackEntries: FeedbackComment[]): FeedbackAreaScore[] => {
+  return areas.map(area => {
+    let total = 0;
+    let ratingCount = 0;
+
+    feedbackEntries.forEach(feedback => {
+      const rating = feedback.ratings[area];
+      if (!rating || rating < 1 || rating > 5) return;
+      total += rating;
+      ratingCount += 1;
+    });
+
+    return {
+      area,
+      average: ratingCount > 0 ? total / ratingCount : null,
+      ratingCount,
+    };
+  });
+};
@@ -0,0 +1,258 @@
+/**
+ * src/lib/imageProcessing.ts
+ * @description Browser-side image pipeline for screenshot uploads: decodes an image, downsizes it, re-encodes it
+ * as WebP (JPEG where WebP encoding is unsupported) and builds a tiny blurred placeholder (LQIP). Re-encoding
+ * through a canvas drops all EXIF metadata, including GPS coordinates.
+ */
+
+const MAX_IMAGE_DIMENSION = 2400;
+const TARGET_IMAGE_BYTES = 1.5 * 1024 * 1024;
+const ENCODE_QUALITIES = [0.85, 0.75, 0.65, 0.55];
+const PLACEHOLDER_WIDTH = 16;
+const PLACEHOLDER_QUALITY = 0.5;
+
+/**
+ * @description Result of processing an image for upload
+ */
+export interface ProcessedImage {
+  file: File; // Re-encoded image without metadata
+  placeholder: string | null; // Data URL of a ~16px wide preview, shown blurred while the full image loads
+  width: number;
+  height: number;
+}
+
+type DrawingCanvas = OffscreenCanvas | HTMLCanvasElement;
+type DrawingSource = ImageBitmap | HTMLImageElement;
+
+let webpSupport: Promise<boolean> | null = null;
+
+/**
+ * @description Creates a canvas, preferring OffscreenCanvas where the browser has it
+ * @param {number} width - Canvas width in pixels
+ * @param {number} height - Canvas height in pixels
+ * @returns {DrawingCanvas} The canvas
+ */
+const createCanvas = (width: number, height: number): DrawingCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * @description Gets the 2D drawing context of a canvas
+ * @param {DrawingCanvas} canvas - Canvas to draw on
+ * @returns {CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D} The 2D context
+ * @throws {Error} If the browser cannot create a 2D context
+ */
+const getContext = (canvas: DrawingCanvas): CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D => {
+  const context = canvas instanceof HTMLCanvasElement ? canvas.getContext('2d') : canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  return context;
+};
+
+/**
+ * @description Encodes the canvas contents
+ * @param {DrawingCanvas} canvas - Canvas to encode
+ * @param {string} type - Image MIME type
+ * @param {number} quality - Encoder quality between 0 and 1
+ * @returns {Promise<Blob | null>} Encoded image, or null if encoding failed
+ */
+const canvasToBlob = (canvas: DrawingCanvas, type: string, quality: number): Promise<Blob | null> => {
+  if (canvas instanceof HTMLCanvasElement) {
+    return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+  }
+  return canvas.convertToBlob({ type, quality }).catch(() => null);
+};
+
+/**
+ * @description Reads a blob into a data URL
+ * @param {Blob} blob - Blob to read
+ * @returns {Promise<string>} Data URL
+ */
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * @description Checks once whether the browser can encode WebP from a canvas
+ * @returns {Promise<boolean>} True when WebP encoding works
+ */
+const supportsWebpEncoding = (): Promise<boolean> => {
+  if (!webpSupport) {
+    webpSupport = canvasToBlob(createCanvas(1, 1), 'image/webp', 0.8)
+      .then(blob => blob?.type === 'image/webp')
+      .catch(() => false);
+  }
+  return webpSupport;
+};
+
+/**
+ * @description Decodes an image file, applying its EXIF orientation so the pixels end up upright
+ * @param {File} file - Image file
+ * @returns {Promise<DrawingSource>} Decoded image
+ */
+const decodeImage = async (file: File): Promise<DrawingSource> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch (error) {
+      console.warn('createImageBitmap failed, falling back to <img> decoding:', error);
+    }
+  }
+
+  // Browsers apply EXIF orientation to <img> by default
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = objectUrl;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+/**
+ * @description Gets the pixel size of a decoded image
+ * @param {DrawingSource} source - Decoded image
+ * @returns {{ width: number; height: number }} Size in pixels
+ */
+const getSourceSize = (source: DrawingSource): { width: number; height: number } =>
+  source instanceof HTMLImageElement
+    ? { width: source.naturalWidth, height: source.naturalHeight }
+    : { width: source.width, height: source.height };
+
+/**
+ * @description Scales a size down so its longest side is at most maxDimension, keeping the aspect ratio
+ * @param {number} width - Original width
+ * @param {number} height - Original height
+ * @param {number} maxDimension - Longest allowed side
+ * @returns {{ width: number; height: number }} Scaled size
+ */
+const fitWithin = (width: number, height: number, maxDimension: number): { width: number; height: number } => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+};
+
+/**
+ * @description Draws the image onto a new canvas of the given size
+ * @param {DrawingSource} source - Decoded image
+ * @param {number} width - Target width
+ * @param {number} height - Target height
+ * @param {boolean} opaque - Fill a white background first (JPEG has no transparency)
+ * @returns {DrawingCanvas} Canvas holding the resized image
+ */
+const drawResized = (source: DrawingSource, width: number, height: number, opaque: boolean): DrawingCanvas => {
+  const canvas = createCanvas(width, height);
+  const context = getContext(canvas);
+
+  if (opaque) {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+  }
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, width, height);
+  return canvas;
+};
+
+/**
+ * @description Builds the low-quality image placeholder for a decoded image
+ * @param {DrawingSource} source - Decoded image
+ * @param {number} width - Image width
+ * @param {number} height - Image height
+ * @returns {Promise<string | null>} JPEG data URL, or null if it could not be encoded
+ */
+const createPlaceholder = async (source: DrawingSource, width: number, height: number): Promise<string | null> => {
+  const size = fitWithin(width, height, PLACEHOLDER_WIDTH);
+  const blob = await canvasToBlob(drawResized(source, size.width, size.height, true), 'image/jpeg', PLACEHOLDER_QUALITY);
+  return blob ? blobToDataUrl(blob) : null;
+};
+
+/**
+ * @description Replaces the extension of a file name
+ * @param {string} fileName - Original file name
+ * @param {string} extension - New extension without the dot
+ * @returns {string} File name with the new extension
+ */
+const withExtension = (fileName: string, extension: string): string => {
+  const baseName = fileName.replace(/\.[^./]+$/, '') || 'screenshot';
+  return `${baseName}.${extension}`;
+};
+
+/**
+ * @description Prepares an image for upload: downsizes it to at most 2400px on its longest side, re-encodes it
+ * as WebP or JPEG, lowering quality until it is under ~1.5 MB, and builds its placeholder. Animated GIFs are
+ * uploaded unchanged so they keep their animation; they only get a placeholder.
+ * @async
+ * @param {File} file - Image selected by the user
+ * @param {(progress: number) => void} [onProgress] - Called with the completed share of the work, from 0 to 1
+ * @returns {Promise<ProcessedImage>} The file to upload and its placeholder
+ * @throws {Error} If the image cannot be decoded or encoded
+ */
+export const processImageForUpload = async (
+  file: File,
+  onProgress?: (progress: number) => void
+): Promise<ProcessedImage> => {
+  onProgress?.(0);
+  const source = await decodeImage(file);
+
+  try {
+    const original = getSourceSize(source);
+    onProgress?.(0.2);
+
+    const placeholder = await createPlaceholder(source, original.width, original.height).catch(error => {
+      console.warn('Could not create image placeholder:', error);
+      return null;
+    });
+    onProgress?.(0.3);
+
+    if (file.type === 'image/gif') {
+      onProgress?.(1);
+      return { file, placeholder, ...original };
+    }
+
+    const useWebp = await supportsWebpEncoding();
+    const type = useWebp ? 'image/webp' : 'image/jpeg';
+    const size = fitWithin(original.width, original.height, MAX_IMAGE_DIMENSION);
+    const canvas = drawResized(source, size.width, size.height, !useWebp);
+    onProgress?.(0.5);
+
+    let encoded: Blob | null = null;
+    for (let i = 0; i < ENCODE_QUALITIES.length; i++) {
+      encoded = await canvasToBlob(canvas, type, ENCODE_QUALITIES[i]);
+      onProgress?.(0.5 + (0.5 * (i + 1)) / ENCODE_QUALITIES.length);
+      if (!encoded || encoded.size <= TARGET_IMAGE_BYTES) break;
+    }
+
+    if (!encoded) {
+      throw new Error('The image could not be encoded');
+    }
+
+    onProgress?.(1);
+    return {
+      file: new File([encoded], withExtension(file.name, useWebp ? 'webp' : 'jpg'), {
+        type,
+        lastModified: Date.now()
+      }),
+      placeholder,
+      ...size
+    };
+  } finally {
+    if ('close' in source) source.close();
+  }
+};
@@ -0,0 +1,84 @@
+/**
+ * src/lib/lineDiff.ts
+ * @description Line-based diff of two texts, using the longest common subsequence of their lines
+ */
+
+import type { DiffLine } from '../types/diff';
+
+/**
+ * @description Splits a text into lines, treating an empty or missing text as having no lines
+ * @param {string | null | undefined} text - Text to split
+ * @returns {string[]} The lines without line breaks
+ */
+const splitLines = (text: string | null | undefined): string[] => {
+  return text ? text.replace(/\r\n/g, '\n').split('\n') : [];
+};
+
+/**
+ * @description Diffs two texts line by line. Lines outside the common prefix and suffix are matched through a
+ * longest common subsequence table, which is fine for vibe log sized texts.
+ * @param {string | null | undefined} oldText - Earlier version
+ * @param {string | null | undefined} newText - Later version
+ * @returns {DiffLine[]} Every line of both texts in reading order, marked unchanged, removed or added
+ */
+export const diffLines = (oldText: string | null | undefined, newText: string | null | undefined): DiffLine[] => {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  // Skip the common prefix and suffix so the table only covers the changed middle
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix
+    && suffix < newLines.length - prefix
+    && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  // lengths[i][j] = length of the LCS of oldMiddle[i..] and newMiddle[j..]
+  const lengths: number[][] = Array.from({ length: oldMiddle.length + 1 }, () => new Array(newMiddle.length + 1).fill(0));
+  for (let i = oldMiddle.length - 1; i >= 0; i--) {
+    for (let j = newMiddle.length - 1; j >= 0; j--) {
+      lengths[i][j] = oldMiddle[i] === newMiddle[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let oldNumber = 1;
+  let newNumber = 1;
+  const pushUnchanged = (text: string) => {
+    result.push({ type: 'unchanged', text, oldLineNumber: oldNumber++, newLineNumber: newNumber++ });
+  };
+
+  oldLines.slice(0, prefix).forEach(pushUnchanged);
+
+  let i = 0;
+  let j = 0;
+  while (i < oldMiddle.length || j < newMiddle.length) {
+    if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+      pushUnchanged(oldMiddle[i]);
+      i++;
+      j++;
+    } else if (i < oldMiddle.length && (j === newMiddle.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      // Removals come before additions, so a rewritten line reads old first, then new
+      result.push({ type: 'removed', text: oldMiddle[i], oldLineNumber: oldNumber++, newLineNumber: null });
+      i++;
+    } else {
+      result.push({ type: 'added', text: newMiddle[j], oldLineNumber: null, newLineNumber: newNumber++ });
+      j++;
+    }
+  }
+
+  oldLines.slice(oldLines.length - suffix).forEach(pushUnchanged);
+
+  return result;
+};
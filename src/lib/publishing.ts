@@ -0,0 +1,51 @@
+/**
+ * src/lib/publishing.ts
+ * @description Helpers for draft and scheduled publishing of projects and vibe logs
+ */
+
+import type { PublishStatus } from '../types/startsnap';
+
+/**
+ * @description Picks the status for publishing an item: scheduled when a future time is set, otherwise published
+ * @param {string | null | undefined} publishAt - ISO date string of the scheduled time, if any
+ * @returns {PublishStatus} 'scheduled' or 'published'
+ */
+export const resolvePublishStatus = (publishAt: string | null | undefined): PublishStatus => {
+  if (publishAt && new Date(publishAt).getTime() > Date.now()) {
+    return 'scheduled';
+  }
+  return 'published';
+};
+
+/**
+ * @description Converts an ISO date string into the local "YYYY-MM-DDTHH:mm" value of a datetime-local input
+ * @param {string | null | undefined} iso - ISO date string
+ * @returns {string} Input value, or an empty string when there is no date
+ */
+export const toDateTimeLocalValue = (iso: string | null | undefined): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+/**
+ * @description Converts the value of a datetime-local input (local time) into an ISO date string
+ * @param {string} value - Input value
+ * @returns {string | null} ISO date string, or null when the input is empty or invalid
+ */
+export const fromDateTimeLocalValue = (value: string): string | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * @description Formats a scheduled publish time for display, e.g. "Jun 30, 2025, 9:00 AM"
+ * @param {string} iso - ISO date string
+ * @returns {string} Localized date and time
+ */
+export const formatPublishAt = (iso: string): string => {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+};
@@ -0,0 +1,128 @@
+/**
+ * src/lib/videoEmbed.ts
+ * @description Recognizes demo video links (YouTube, Loom, Vimeo and direct video files) and turns them into
+ * privacy-friendly embed URLs
+ */
+
+import type { VideoEmbed, VideoProvider } from '../types/video';
+
+const YOUTUBE_HOSTS = ['youtube.com', 'm.youtube.com', 'music.youtube.com', 'youtube-nocookie.com'];
+const YOUTUBE_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+const VIDEO_FILE_PATTERN = /\.(mp4|webm|ogv|ogg|m4v)$/i;
+
+/**
+ * @description Display names of the video providers
+ */
+export const VIDEO_PROVIDER_LABELS: Record<VideoProvider, string> = {
+  youtube: 'YouTube',
+  loom: 'Loom',
+  vimeo: 'Vimeo',
+  file: 'Video'
+};
+
+/**
+ * @description Parses a YouTube start time ("90", "1m30s", "1h2m3s") into seconds
+ * @param {string | null} value - Value of the t or start query parameter
+ * @returns {number | null} Start time in seconds, or null when absent or malformed
+ */
+const parseStartTime = (value: string | null): number | null => {
+  if (!value) return null;
+  if (/^\d+$/.test(value)) return Number(value);
+
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!match || match[0] === '') return null;
+  const [, hours = '0', minutes = '0', seconds = '0'] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+};
+
+/**
+ * @description Builds the embed for a YouTube video, using the youtube-nocookie domain
+ * @param {string | undefined} videoId - 11 character video ID
+ * @param {URL} url - Original URL, for its start time
+ * @param {string} sourceUrl - URL as entered
+ * @returns {VideoEmbed | null} The embed, or null for a malformed ID
+ */
+const youtubeEmbed = (videoId: string | undefined, url: URL, sourceUrl: string): VideoEmbed | null => {
+  if (!videoId || !YOUTUBE_ID_PATTERN.test(videoId)) return null;
+
+  const params = new URLSearchParams({ autoplay: '1', rel: '0' });
+  const start = parseStartTime(url.searchParams.get('t') ?? url.searchParams.get('start'));
+  if (start) params.set('start', String(start));
+
+  return {
+    provider: 'youtube',
+    sourceUrl,
+    embedUrl: `https://www.youtube-nocookie.com/embed/${videoId}?${params.toString()}`,
+    thumbnailUrl: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`
+  };
+};
+
+/**
+ * @description Resolves a demo video link into an embeddable video. Recognizes youtube.com/watch, /shorts,
+ * /embed and /live links, youtu.be short links, Loom share and embed links, Vimeo video and player links
+ * (including unlisted hashes), and direct links to .mp4, .webm, .ogv and .m4v files.
+ * @param {string} sourceUrl - Link entered by the project owner
+ * @returns {VideoEmbed | null} The embed, or null when the link cannot be embedded
+ */
+export const parseVideoUrl = (sourceUrl: string): VideoEmbed | null => {
+  let url: URL;
+  try {
+    url = new URL(sourceUrl.trim());
+  } catch (error) {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  if (host === 'youtu.be') {
+    return youtubeEmbed(segments[0], url, sourceUrl);
+  }
+
+  if (YOUTUBE_HOSTS.includes(host)) {
+    if (segments[0] === 'watch') {
+      return youtubeEmbed(url.searchParams.get('v') ?? undefined, url, sourceUrl);
+    }
+    if (['shorts', 'embed', 'live', 'v'].includes(segments[0])) {
+      return youtubeEmbed(segments[1], url, sourceUrl);
+    }
+    return null;
+  }
+
+  if (host === 'loom.com') {
+    const [kind, videoId] = segments;
+    if ((kind === 'share' || kind === 'embed') && videoId && /^[a-f0-9]{32}$/i.test(videoId)) {
+      return {
+        provider: 'loom',
+        sourceUrl,
+        embedUrl: `https://www.loom.com/embed/${videoId}?autoplay=1&hide_owner=true`,
+        thumbnailUrl: null
+      };
+    }
+    return null;
+  }
+
+  if (host === 'vimeo.com' || host === 'player.vimeo.com') {
+    // vimeo.com/<id>[/<hash>], vimeo.com/channels/<name>/<id>, player.vimeo.com/video/<id>?h=<hash>
+    const idIndex = segments.findIndex(segment => /^\d+$/.test(segment));
+    if (idIndex === -1) return null;
+
+    const params = new URLSearchParams({ autoplay: '1', dnt: '1' });
+    const hash = url.searchParams.get('h') ?? segments[idIndex + 1];
+    if (hash && /^[a-f0-9]+$/i.test(hash)) params.set('h', hash);
+
+    return {
+      provider: 'vimeo',
+      sourceUrl,
+      embedUrl: `https://player.vimeo.com/video/${segments[idIndex]}?${params.toString()}`,
+      thumbnailUrl: null
+    };
+  }
+
+  if (VIDEO_FILE_PATTERN.test(url.pathname)) {
+    return { provider: 'file', sourceUrl, embedUrl: url.toString(), thumbnailUrl: null };
+  }
+
+  return null;
+};
@@ -0,0 +1,283 @@
+/**
+ * src/screens/AdminReports/AdminReports.tsx
+ * @description Admin moderation queue: open reports to dismiss or act on (hide the content or suspend its author),
+ * resolved reports, where a hide or suspension can be reversed, and the audit trail of moderation decisions
+ */
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "../../components/ui/button";
+import { ConfirmationDialog } from "../../components/ui/confirmation-dialog";
+import { reportsApi } from "../../lib/api";
+import { useApiErrorHandler } from "../../hooks/useApiErrorHandler";
+import { formatDetailedDate } from "../../lib/utils";
+import { ReportCard, REPORT_TARGET_LABELS } from "./components/ReportCard";
+import { toast } from "sonner";
+import type {
+  ModerationAction,
+  ModerationActionEntry,
+  ModerationReversal,
+  ReportQueueItem
+} from "../../types/report";
+
+type AdminReportsTab = 'open' | 'resolved' | 'history';
+
+const TABS: { value: AdminReportsTab; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'history', label: 'Audit Trail' },
+];
+
+const ACTION_LABELS: Record<ModerationActionEntry['action'], string> = {
+  dismiss: 'dismissed a report',
+  hide_content: 'hid the content',
+  suspend_user: 'suspended the author',
+  unhide_content: 'unhid the content',
+  unsuspend_user: 'lifted the suspension',
+};
+
+const ACTION_TOASTS: Record<ModerationAction, string> = {
+  dismiss: 'Report dismissed.',
+  hide_content: 'The content is now hidden.',
+  suspend_user: 'The user is suspended and can no longer post.',
+};
+
+const REVERSAL_TOASTS: Record<ModerationReversal, string> = {
+  unhide_content: 'The content is visible again.',
+  unsuspend_user: 'The suspension is lifted and the user can post again.',
+};
+
+/**
+ * @description Admin reports page
+ * @returns {JSX.Element} Report queue with moderation actions and the audit trail
+ */
+export const AdminReports = (): JSX.Element => {
+  const { reportApiError } = useApiErrorHandler();
+  const [activeTab, setActiveTab] = useState<AdminReportsTab>('open');
+  const [reports, setReports] = useState<ReportQueueItem[]>([]);
+  const [moderationActions, setModerationActions] = useState<ModerationActionEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [pendingSuspension, setPendingSuspension] = useState<{ report: ReportQueueItem; note: string } | null>(null);
+
+  /**
+   * @description Loads the reports or audit trail of the active tab
+   * @async
+   * @sideEffects Updates reports or moderationActions state
+   */
+  const loadTab = useCallback(async () => {
+    setLoading(true);
+    try {
+      if (activeTab === 'history') {
+        setModerationActions(await reportsApi.fetchModerationActions());
+      } else {
+        setReports(await reportsApi.fetchReportQueue(activeTab));
+      }
+    } catch (error) {
+      await reportApiError(error, 'Error', 'Could not load reports.');
+    } finally {
+      setLoading(false);
+    }
+  }, [activeTab]);
+
+  useEffect(() => {
+    loadTab();
+  }, [loadTab]);
+
+  /**
+   * @description Saves a moderation decision and drops every open report on the same content from the queue
+   * @async
+   * @param {ReportQueueItem} report - Report being resolved
+   * @param {ModerationAction} action - Decision
+   * @param {string} note - Optional note for the audit trail
+   * @sideEffects Calls resolve_report, updates the queue and shows a toast
+   */
+  const resolveReport = async (report: ReportQueueItem, action: ModerationAction, note: string) => {
+    setResolvingId(report.id);
+    try {
+      await reportsApi.resolveReport(report.id, action, note);
+      setReports(current => current.filter(item =>
+        item.target_type !== report.target_type || item.target_id !== report.target_id
+      ));
+      toast.success('Report Resolved', { description: ACTION_TOASTS[action] });
+    } catch (error) {
+      await reportApiError(error, 'Moderation Failed', 'Could not resolve the report. Please try again.');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  /**
+   * @description Resolves a report right away, except suspensions, which are confirmed first
+   * @param {ReportQueueItem} report - Report being resolved
+   * @param {ModerationAction} action - Decision
+   * @param {string} note - Optional note for the audit trail
+   */
+  const handleResolve = (report: ReportQueueItem, action: ModerationAction, note: string) => {
+    if (action === 'suspend_user') {
+      setPendingSuspension({ report, note });
+      return;
+    }
+    resolveReport(report, action, note);
+  };
+
+  /**
+   * @description Unhides the reported content or lifts its author's suspension, and updates every report in the list
+   * that shows the same content or author
+   * @async
+   * @param {ReportQueueItem} report - Resolved report the reversal starts from
+   * @param {ModerationReversal} reversal - What to undo
+   * @param {string} note - Optional note for the audit trail
+   * @sideEffects Calls unhide_content or lift_suspension, updates the list and shows a toast
+   */
+  const handleReverse = async (report: ReportQueueItem, reversal: ModerationReversal, note: string) => {
+    setResolvingId(report.id);
+    try {
+      if (reversal === 'unhide_content') {
+        await reportsApi.unhideContent(report.target_type, report.target_id, note);
+        setReports(current => current.map(item =>
+          item.target_type === report.target_type && item.target_id === report.target_id
+            ? { ...item, target_hidden: false }
+            : item
+        ));
+      } else if (report.target_user_id) {
+        await reportsApi.liftSuspension(report.target_user_id, note);
+        setReports(current => current.map(item =>
+          item.target_user_id === report.target_user_id ? { ...item, target_user_suspended: false } : item
+        ));
+      }
+      toast.success('Decision Reversed', { description: REVERSAL_TOASTS[reversal] });
+    } catch (error) {
+      await reportApiError(error, 'Moderation Failed', 'Could not reverse the decision. Please try again.');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  /**
+   * @description Suspends the author of the report awaiting confirmation
+   * @async
+   */
+  const confirmSuspension = async () => {
+    if (!pendingSuspension) return;
+    await resolveReport(pendingSuspension.report, 'suspend_user', pendingSuspension.note);
+    setPendingSuspension(null);
+  };
+
+  /**
+   * @description Renders the list of the active tab
+   * @returns {JSX.Element} Reports, audit trail entries or an empty state
+   */
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <div className="text-center py-12">
+          <p className="text-lg text-startsnap-pale-sky">Loading...</p>
+        </div>
+      );
+    }
+
+    if (activeTab === 'history') {
+      if (moderationActions.length === 0) {
+        return (
+          <div className="text-center py-12 bg-gray-50 rounded-xl border-2 border-dashed border-gray-200">
+            <p className="text-lg text-startsnap-pale-sky">No moderation decisions yet.</p>
+          </div>
+        );
+      }
+
+      return (
+        <ul className="divide-y divide-gray-200 bg-startsnap-white rounded-xl border-2 border-gray-800">
+          {moderationActions.map(entry => (
+            <li key={entry.id} className="p-4">
+              <p className="font-body text-startsnap-river-bed text-sm">
+                <strong>{entry.admin_username ?? 'An admin'}</strong> {ACTION_LABELS[entry.action]}
+                {' · '}
+                {REPORT_TARGET_LABELS[entry.target_type]}
+                {entry.target_username && <> by <strong>{entry.target_username}</strong></>}
+              </p>
+              {entry.note && (
+                <p className="font-body text-startsnap-pale-sky text-sm mt-1">“{entry.note}”</p>
+              )}
+              <p className="font-body text-startsnap-pale-sky text-xs mt-1">{formatDetailedDate(entry.created_at)}</p>
+            </li>
+          ))}
+        </ul>
+      );
+    }
+
+    if (reports.length === 0) {
+      return (
+        <div className="text-center py-12 bg-gray-50 rounded-xl border-2 border-dashed border-gray-200">
+          <span className="material-icons text-5xl text-startsnap-pale-sky mb-2">verified_user</span>
+          <p className="text-lg text-startsnap-pale-sky">
+            {activeTab === 'open' ? 'No open reports. All clear!' : 'No resolved reports yet.'}
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        {reports.map(report => (
+          <ReportCard
+            key={report.id}
+            report={report}
+            onResolve={handleResolve}
+            onReverse={handleReverse}
+            isResolving={resolvingId === report.id}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col w-full items-center bg-white">
+      <div className="w-full max-w-3xl px-8 py-16">
+        <div className="mb-8">
+          <h1 className="text-4xl font-heading text-startsnap-ebony-clay mb-2">
+            Reports
+          </h1>
+          <p className="text-lg text-startsnap-river-bed font-body">
+            Review reported projects, feedback and profiles.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6" role="group" aria-label="Report list">
+          {TABS.map(tab => {
+            const isSelected = tab.value === activeTab;
+            return (
+              <Button
+                key={tab.value}
+                variant="unstyled"
+                size="sm"
+                aria-pressed={isSelected}
+                onClick={() => setActiveTab(tab.value)}
+                className={`rounded-full border-2 px-4 font-bold transition-colors duration-200 ${
+                  isSelected
+                    ? 'bg-startsnap-french-rose border-startsnap-french-rose text-startsnap-white'
+                    : 'bg-transparent border-gray-800 text-startsnap-ebony-clay hover:bg-gray-50'
+                }`}
+              >
+                {tab.label}
+              </Button>
+            );
+          })}
+        </div>
+
+        {renderContent()}
+      </div>
+
+      <ConfirmationDialog
+        isOpen={pendingSuspension !== null}
+        onClose={() => setPendingSuspension(null)}
+        onConfirm={confirmSuspension}
+        title="Suspend User"
+        description={`${pendingSuspension?.report.target_username ?? 'This user'} will no longer be able to post or edit projects, vibe logs, feedback or replies, react, follow or report. Their existing content stays up unless you hide it.`}
+        confirmText="Suspend User"
+        isLoading={resolvingId !== null}
+        type="danger"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+/**
+ * src/screens/AdminReports/components/ReportCard.tsx
+ * @description A report in the admin queue: what was reported, by whom and why, with the moderation actions for open
+ * reports and the outcome for resolved ones, where a hide or suspension that is still in place can be reversed.
+ */
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '../../../components/ui/button';
+import { Badge } from '../../../components/ui/badge';
+import { Textarea } from '../../../components/ui/textarea';
+import { formatDetailedDate } from '../../../lib/utils';
+import { getReportReasonLabel } from '../../../config/reports';
+import type { ModerationAction, ModerationReversal, ReportQueueItem, ReportTargetType } from '../../../types/report';
+
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  startsnap: 'Project',
+  feedback: 'Feedback',
+  feedback_reply: 'Reply',
+  profile: 'Profile',
+};
+
+/**
+ * @description Builds the link to the reported content
+ * @param {ReportQueueItem} report - Report to link
+ * @returns {string | null} App path of the content, or null when it no longer exists
+ */
+const getTargetPath = (report: ReportQueueItem): string | null => {
+  switch (report.target_type) {
+    case 'startsnap':
+      return report.target_slug ? `/projects/${report.target_slug}` : null;
+    case 'feedback':
+      return report.target_slug ? `/projects/${report.target_slug}#feedback-${report.target_id}` : null;
+    case 'feedback_reply':
+      return report.target_slug ? `/projects/${report.target_slug}#reply-${report.target_id}` : null;
+    case 'profile':
+      return report.target_username ? `/profiles/${report.target_username}` : null;
+  }
+};
+
+/**
+ * @description Props for the ReportCard component.
+ * @param {ReportQueueItem} report - The report to show.
+ * @param {(report: ReportQueueItem, action: ModerationAction, note: string) => void} onResolve - Resolves an open
+ * report with the chosen action and note.
+ * @param {(report: ReportQueueItem, reversal: ModerationReversal, note: string) => void} onReverse - Unhides the
+ * content or lifts its author's suspension after the report was resolved.
+ * @param {boolean} isResolving - Whether a decision on this report is being saved.
+ */
+interface ReportCardProps {
+  report: ReportQueueItem;
+  onResolve: (report: ReportQueueItem, action: ModerationAction, note: string) => void;
+  onReverse: (report: ReportQueueItem, reversal: ModerationReversal, note: string) => void;
+  isResolving: boolean;
+}
+
+/**
+ * @description Card for one report in the admin queue
+ * @param {ReportCardProps} props - Component props
+ * @returns {JSX.Element} The report with its actions or outcome
+ */
+export const ReportCard: React.FC<ReportCardProps> = ({ report, onResolve, onReverse, isResolving }) => {
+  const [note, setNote] = useState('');
+  const targetPath = getTargetPath(report);
+  const isOpen = report.status === 'open';
+  const canUnhide = report.target_hidden && report.target_type !== 'profile';
+  const canLiftSuspension = report.target_user_suspended && !!report.target_user_id;
+
+  const noteField = (
+    <Textarea
+      value={note}
+      onChange={(e) => setNote(e.target.value)}
+      rows={2}
+      disabled={isResolving}
+      placeholder="Note for the audit trail (optional)"
+      aria-label="Moderation note"
+    />
+  );
+
+  return (
+    <article className="bg-startsnap-white rounded-xl border-2 border-gray-800 shadow-[3px_3px_0px_#1f2937] p-5">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline" className="bg-startsnap-athens-gray text-startsnap-ebony-clay font-mono text-xs rounded-full border border-gray-800 px-2 py-1">
+          {REPORT_TARGET_LABELS[report.target_type]}
+        </Badge>
+        <Badge variant="outline" className="bg-startsnap-french-rose/10 text-startsnap-french-rose font-mono text-xs rounded-full border border-startsnap-french-rose px-2 py-1">
+          {getReportReasonLabel(report.reason)}
+        </Badge>
+        {report.target_hidden && (
+          <Badge variant="outline" className="bg-gray-100 text-gray-700 font-mono text-xs rounded-full border border-gray-400 px-2 py-1">
+            Hidden
+          </Badge>
+        )}
+        {report.target_user_suspended && (
+          <Badge variant="outline" className="bg-red-50 text-red-700 font-mono text-xs rounded-full border border-red-300 px-2 py-1">
+            Author suspended
+          </Badge>
+        )}
+        <span className="ml-auto font-body text-startsnap-pale-sky text-xs">
+          {formatDetailedDate(report.created_at)}
+        </span>
+      </div>
+
+      <div className="mt-4 p-3 bg-gray-50 rounded-lg border border-gray-200">
+        <p className="font-body text-startsnap-pale-sky text-xs mb-1">
+          By {report.target_username ? (
+            <Link to={`/profiles/${report.target_username}`} className="font-semibold text-startsnap-oxford-blue hover:text-startsnap-french-rose">
+              {report.target_username}
+            </Link>
+          ) : 'a deleted user'}
+          {targetPath && (
+            <>
+              {' · '}
+              <Link to={targetPath} className="text-startsnap-oxford-blue hover:text-startsnap-french-rose underline">
+                Open
+              </Link>
+            </>
+          )}
+        </p>
+        <p className="font-body text-startsnap-river-bed text-sm whitespace-pre-line break-words">
+          {report.target_excerpt ?? <em>This content no longer exists.</em>}
+        </p>
+      </div>
+
+      <p className="mt-3 font-body text-startsnap-river-bed text-sm">
+        Reported by <strong>{report.reporter_username ?? 'a deleted user'}</strong>
+        {report.details && <>: “{report.details}”</>}
+      </p>
+
+      {isOpen ? (
+        <div className="mt-4 space-y-3">
+          {noteField}
+          <div className="flex flex-wrap gap-2">
+            <Button variant="secondary" size="sm" onClick={() => onResolve(report, 'dismiss', note)} disabled={isResolving}>
+              <span className="material-icons text-base">block</span>
+              Dismiss
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => onResolve(report, 'hide_content', note)}
+              disabled={isResolving || report.target_type === 'profile' || report.target_hidden || !report.target_excerpt}
+              title={report.target_type === 'profile' ? 'Profiles cannot be hidden. Suspend the user instead.' : undefined}
+            >
+              <span className="material-icons text-base">visibility_off</span>
+              Hide Content
+            </Button>
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={() => onResolve(report, 'suspend_user', note)}
+              disabled={isResolving || report.target_user_suspended || !report.target_user_id}
+            >
+              <span className="material-icons text-base">person_off</span>
+              Suspend User
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="mt-4 pt-3 border-t border-gray-200">
+          <p className="font-body text-startsnap-pale-sky text-xs">
+            {report.status === 'dismissed' ? 'Dismissed' : 'Actioned'}
+            {report.resolved_by_username && <> by {report.resolved_by_username}</>}
+            {report.resolved_at && <> · {formatDetailedDate(report.resolved_at)}</>}
+            {report.resolution_note && <> · “{report.resolution_note}”</>}
+          </p>
+          {(canUnhide || canLiftSuspension) && (
+            <div className="mt-3 space-y-3">
+              {noteField}
+              <div className="flex flex-wrap gap-2">
+                {canUnhide && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => onReverse(report, 'unhide_content', note)}
+                    disabled={isResolving}
+                  >
+                    <span className="material-icons text-base">visibility</span>
+                    Unhide Content
+                  </Button>
+                )}
+                {canLiftSuspension && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => onReverse(report, 'unsuspend_user', note)}
+                    disabled={isResolving}
+                  >
+                    <span className="material-icons text-base">how_to_reg</span>
+                    Lift Suspension
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </article>
+  );
+};
@@ -0,0 +1,6 @@
+/**
+ * src/screens/AdminReports/index.ts
+ * @description Barrel file that exports the AdminReports component
+ */
+
+export { AdminReports } from "./AdminReports";
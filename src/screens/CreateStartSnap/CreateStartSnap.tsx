@@ -6,9 +6,11 @@
 import React, { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { ProjectForm } from "../../components/ui/project-form";
-import { supabase } from "../../lib/supabase";
+import { projectImagesApi, startsnapsApi, vibeLogsApi } from "../../lib/api";
 import { useAuth } from "../../context/AuthContext";
+import { useApiErrorHandler } from "../../hooks/useApiErrorHandler";
 import { generateSlug } from "../../lib/utils";
+import { formatPublishAt } from "../../lib/publishing";
 import { toast } from "sonner";
 
 /**
@@ -18,6 +20,7 @@ import { toast } from "sonner";
 export const CreateStartSnap = (): JSX.Element => {
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { reportApiError } = useApiErrorHandler();
 
   /**
    * @description Handles form submission to create a new StartSnap
@@ -48,21 +51,7 @@ export const CreateStartSnap = (): JSX.Element => {
 
     // 2. Check for slug uniqueness
     try {
-      const { data: existingProject, error: checkError } = await supabase
-        .from('startsnaps')
-        .select('slug')
-        .eq('slug', newPotentialSlug)
-        .maybeSingle();
-
-      if (checkError) {
-        console.error("Error checking slug uniqueness:", checkError);
-        toast.error('Validation Error', {
-          description: 'Error checking project name uniqueness. Please try again.'
-        });
-        return;
-      }
-
-      if (existingProject) {
+      if (await startsnapsApi.isSlugTaken(newPotentialSlug)) {
         toast.error('Name Already Exists', {
           description: 'A project with a similar name already exists. Please try a different name.'
         });
@@ -70,58 +59,65 @@ export const CreateStartSnap = (): JSX.Element => {
       }
 
     } catch (error) {
-      console.error("Error during slug uniqueness check:", error);
-      toast.error('Unexpected Error', {
-        description: 'An unexpected error occurred while validating project name. Please try again.'
-      });
+      await reportApiError(error, 'Validation Error', 'Error checking project name uniqueness. Please try again.');
       return;
     }
 
-    // 3. Insert the startsnap with the slug and screenshot URLs
+    // 3. Insert the startsnap with the slug, then its screenshots
     try {
-      const { data: startsnap, error: startsnapError } = await supabase
-        .from('startsnaps')
-        .insert({
-          user_id: user.id,
-          name: formData.projectName,
-          slug: newPotentialSlug,
-          description: formData.description,
-          category: formData.category,
-          type: formData.projectType,
-          live_demo_url: formData.liveUrl,
-          demo_video_url: formData.videoUrl,
-          tools_used: formData.toolsUsed,
-          feedback_tags: formData.feedbackAreas,
-          is_hackathon_entry: formData.isHackathon,
-          tags: formData.tags,
-          screenshot_urls: formData.screenshotUrls
-        })
-        .select();
+      const startsnap = await startsnapsApi.createStartSnap({
+        user_id: user.id,
+        name: formData.projectName,
+        slug: newPotentialSlug,
+        description: formData.description,
+        category: formData.category,
+        type: formData.projectType,
+        live_demo_url: formData.liveUrl,
+        demo_video_url: formData.videoUrl,
+        tools_used: formData.toolsUsed,
+        feedback_tags: formData.feedbackAreas,
+        is_hackathon_entry: formData.isHackathon,
+        tags: formData.tags,
+        status: formData.publishStatus,
+        publish_at: formData.publishAt
+      });
 
-      if (startsnapError) throw startsnapError;
+      if (formData.images.length > 0) {
+        try {
+          await projectImagesApi.saveProjectImages(startsnap.id, formData.images);
+        } catch (imagesError) {
+          // The project exists at this point; screenshots can be re-added from the edit page
+          await reportApiError(imagesError, 'Screenshots Not Saved', 'Project created, but its screenshots could not be saved. Add them again from the edit page.');
+        }
+      }
 
       // Insert the initial vibe log
       if (formData.vibeLogContent.trim()) {
-        const { error: vibeLogError } = await supabase
-          .from('vibelogs')
-          .insert({
-            startsnap_id: startsnap[0].id,
-            log_type: formData.vibeLogType,
-            title: formData.vibeLogTitle,
-            content: formData.vibeLogContent
-          });
-
-        if (vibeLogError) throw vibeLogError;
+        await vibeLogsApi.createVibeLog(startsnap.id, {
+          log_type: formData.vibeLogType,
+          title: formData.vibeLogTitle,
+          content: formData.vibeLogContent
+        });
       }
 
       // 4. Redirect to the project detail page using the new slug
-      if (startsnap && startsnap.length > 0 && startsnap[0].slug) {
-        toast.success('StartSnap Created Successfully!', {
-          description: 'Your project is now live on startsnap.fun'
-        });
-        navigate(`/projects/${startsnap[0].slug}`);
+      if (startsnap.slug) {
+        if (formData.publishStatus === 'draft') {
+          toast.success('Draft Saved', {
+            description: 'Only you and your collaborators can see this project until you publish it.'
+          });
+        } else if (formData.publishStatus === 'scheduled') {
+          toast.success('StartSnap Scheduled', {
+            description: `Your project goes live on ${formatPublishAt(formData.publishAt)}.`
+          });
+        } else {
+          toast.success('StartSnap Created Successfully!', {
+            description: 'Your project is now live on startsnap.fun'
+          });
+        }
+        navigate(`/projects/${startsnap.slug}`);
       } else {
-        // Fallback, though ideally startsnap[0].slug should always exist
+        // Fallback, though ideally startsnap.slug should always exist
         console.error("Failed to get slug from created startsnap:", startsnap);
         toast.warning('StartSnap Created', {
           description: 'Project created but there was an issue with the redirect.'
@@ -129,10 +125,7 @@ export const CreateStartSnap = (): JSX.Element => {
         navigate('/');
       }
     } catch (error) {
-      console.error('Error creating StartSnap:', error);
-      toast.error('Creation Failed', {
-        description: 'Failed to create StartSnap. Please try again.'
-      });
+      await reportApiError(error, 'Creation Failed', 'Failed to create StartSnap. Please try again.');
     }
   };
 
@@ -6,10 +6,13 @@
 import React, { useEffect, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { ProjectForm } from "../../components/ui/project-form";
-import { supabase } from "../../lib/supabase";
+import { membersApi, projectImagesApi, startsnapsApi, storageApi } from "../../lib/api";
 import { useAuth } from "../../context/AuthContext";
+import { useApiErrorHandler } from "../../hooks/useApiErrorHandler";
 import { generateSlug } from "../../lib/utils";
+import { formatPublishAt } from "../../lib/publishing";
 import { toast } from "sonner";
+import type { StartSnapInput } from "../../types/startsnap";
 
 /**
  * @description Page component for editing an existing StartSnap project
@@ -19,6 +22,7 @@ export const EditStartSnap = (): JSX.Element => {
   const navigate = useNavigate();
   const { id } = useParams();
   const { user } = useAuth();
+  const { reportApiError } = useApiErrorHandler();
   const [loading, setLoading] = useState(true);
   const [initialData, setInitialData] = useState<any>(null);
 
@@ -32,13 +36,7 @@ export const EditStartSnap = (): JSX.Element => {
     const fetchData = async () => {
       // Fetch project data
       try {
-        const { data, error } = await supabase
-          .from('startsnaps')
-          .select('*')
-          .eq('id', id)
-          .single();
-
-        if (error) throw error;
+        const data = id ? await startsnapsApi.fetchStartSnapById(id) : null;
 
         if (!data) {
           toast.error('Project Not Found', {
@@ -48,8 +46,8 @@ export const EditStartSnap = (): JSX.Element => {
           return;
         }
 
-        // Verify ownership
-        if (data.user_id !== user.id) {
+        // Verify the user owns or is an editor of the project
+        if (data.user_id !== user.id && !(await membersApi.canEditStartSnap(data.id))) {
           toast.error('Access Denied', {
             description: 'You do not have permission to edit this project.'
           });
@@ -57,6 +55,8 @@ export const EditStartSnap = (): JSX.Element => {
           return;
         }
 
+        const images = await projectImagesApi.fetchProjectImages(data.id);
+
         // Transform data to match form state structure
         setInitialData({
           projectType: data.type || 'idea',
@@ -73,15 +73,20 @@ export const EditStartSnap = (): JSX.Element => {
           toolsUsed: data.tools_used || [],
           feedbackInput: '',
           feedbackAreas: data.feedback_tags || [],
-          screenshotUrls: data.screenshot_urls || []
+          images: images.map(image => ({
+            url: image.url,
+            caption: image.caption ?? '',
+            alt_text: image.alt_text ?? '',
+            placeholder: image.placeholder,
+            is_cover: image.is_cover
+          })),
+          publishStatus: data.status ?? 'published',
+          publishAt: data.publish_at ?? null
         });
 
         setLoading(false);
       } catch (error) {
-        console.error('Error fetching project data:', error);
-        toast.error('Loading Error', {
-          description: 'Error loading project data. Please try again.'
-        });
+        await reportApiError(error, 'Loading Error', 'Error loading project data. Please try again.');
         navigate('/profile');
       }
     };
@@ -114,36 +119,19 @@ export const EditStartSnap = (): JSX.Element => {
 
       // Check for slug uniqueness only if the name (and thus potential slug) has changed
       try {
-        const { data: existingProject, error: checkError } = await supabase
-          .from('startsnaps')
-          .select('id')
-          .eq('slug', newPotentialSlug)
-          .not('id', 'eq', id) // Exclude the current project from the check
-          .maybeSingle();
-
-        if (checkError) {
-          console.error("Error checking slug uniqueness:", checkError);
-          toast.error('Validation Error', {
-            description: 'Error checking project name uniqueness. Please try again.'
-          });
-          return;
-        }
-
-        if (existingProject) {
+        // Exclude the current project from the check
+        if (await startsnapsApi.isSlugTaken(newPotentialSlug, id)) {
           // Slug collision, make it unique by appending a short part of the ID
           newPotentialSlug = `${newPotentialSlug}-${id.substring(0, 6)}`;
         }
         slugToSave = newPotentialSlug;
       } catch (error) {
-        console.error("Error during slug uniqueness check:", error);
-        toast.error('Unexpected Error', {
-          description: 'An unexpected error occurred while validating project name. Please try again.'
-        });
+        await reportApiError(error, 'Validation Error', 'Error checking project name uniqueness. Please try again.');
         return;
       }
     }
 
-    const updatePayload: any = {
+    const updatePayload: Partial<StartSnapInput> = {
       name: formData.projectName,
       description: formData.description,
       category: formData.category,
@@ -151,60 +139,51 @@ export const EditStartSnap = (): JSX.Element => {
       live_demo_url: formData.liveUrl,
       demo_video_url: formData.videoUrl,
       tools_used: formData.toolsUsed,
+      feedback_tags: formData.feedbackAreas,
       is_hackathon_entry: formData.isHackathon,
-      tags: formData.tags,
-      screenshot_urls: formData.screenshotUrls,
-      updated_at: new Date()
+      tags: formData.tags
     };
 
+    // Published projects cannot go back to draft; the form only changes the status of unpublished ones
+    if (initialData.publishStatus !== 'published') {
+      updatePayload.status = formData.publishStatus;
+      updatePayload.publish_at = formData.publishAt;
+    }
+
     if (nameChanged || slugToSave !== initialData.slug) {
       updatePayload.slug = slugToSave;
     }
 
     try {
       // CRITICAL: Update database FIRST to prevent race condition
-      const { error: startsnapError } = await supabase
-        .from('startsnaps')
-        .update(updatePayload)
-        .eq('id', id);
-
-      if (startsnapError) throw startsnapError;
+      await startsnapsApi.updateStartSnap(id, updatePayload);
+      await projectImagesApi.saveProjectImages(id, formData.images);
 
       // Only delete images from storage AFTER database update succeeds
-      if (imagesToDelete.length > 0) {
-        for (const url of imagesToDelete) {
-          try {
-            // Extract file path from URL
-            const urlParts = url.split('/');
-            const fileName = urlParts[urlParts.length - 1];
-            const userId = urlParts[urlParts.length - 2];
-            const filePath = `${userId}/${fileName}`;
-
-            const { error: deleteError } = await supabase.storage
-              .from('project-screenshots')
-              .remove([filePath]);
-
-            if (deleteError) {
-              console.warn('Error deleting image from storage:', deleteError);
-              // Don't fail the save if image deletion fails - database is already updated correctly
-            }
-          } catch (error) {
-            console.warn('Error processing image deletion:', error);
-            // Continue with cleanup even if individual image deletion fails
-          }
-        }
+      try {
+        await storageApi.removeScreenshots(imagesToDelete);
+      } catch (deleteError) {
+        console.warn('Error deleting images from storage:', deleteError);
+        // Don't fail the save if image deletion fails - database is already updated correctly
       }
 
-      toast.success('StartSnap Updated Successfully!', {
-        description: 'Your changes have been saved and are now live.'
-      });
+      if (formData.publishStatus === 'draft') {
+        toast.success('Draft Saved', {
+          description: 'Only you and your collaborators can see this project until you publish it.'
+        });
+      } else if (formData.publishStatus === 'scheduled') {
+        toast.success('StartSnap Scheduled', {
+          description: `Your project goes live on ${formatPublishAt(formData.publishAt)}.`
+        });
+      } else {
+        toast.success('StartSnap Updated Successfully!', {
+          description: 'Your changes have been saved and are now live.'
+        });
+      }
       navigate(`/projects/${slugToSave}`);
 
     } catch (error) {
-      console.error('Error updating StartSnap:', error);
-      toast.error('Update Failed', {
-        description: 'Failed to update StartSnap. Please try again.'
-      });
+      await reportApiError(error, 'Update Failed', 'Failed to update StartSnap. Please try again.');
     }
   };
 
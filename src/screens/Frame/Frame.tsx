@@ -3,7 +3,7 @@
  * @description Main application frame component that handles routing and authentication state with real-time activity detection and wallet connectivity
  */
 
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useState, useCallback, useRef } from "react";
 import { Routes, Route, Navigate } from "react-router-dom";
 import { FooterSection } from "./sections/FooterSection/FooterSection";
 import { HeaderSection } from "./sections/HeaderSection/HeaderSection";
@@ -16,14 +16,20 @@ import { EditStartSnap } from "../EditStartSnap";
 import { Profile } from "../Profile";
 import { PublicProfile } from "../PublicProfile";
 import { Profiles } from "../Profiles";
+import { VibeRequests } from "../VibeRequests";
+import { Notifications } from "../Notifications";
+import { Unsubscribe } from "../Unsubscribe";
 import { About } from "../About";
 import { Terms } from "../Terms";
 import { Privacy } from "../Privacy";
+import { AdminReports } from "../AdminReports";
 import { AuthProvider, useAuth } from "../../context/AuthContext";
+import { NotificationsProvider } from "../../context/NotificationsContext";
 import { ScrollToTop } from "../../components/utils/ScrollToTop";
 import { ToastProvider } from "../../components/providers/ToastProvider";
 import { PulsePanel } from "../../components/ui/PulsePanel";
-import { supabase } from "../../lib/supabase";
+import { useActivityStream } from "../../hooks/useActivityStream";
+import type { ActivityFeedItem } from "../../types/activity";
 import { WalletProvider, WalletManager, WalletId, NetworkId } from '@txnlab/use-wallet-react';
 import { DefaultHelmet } from "../../components/DefaultHelmet";
 
@@ -58,10 +64,11 @@ setTimeout(() => {
  * @description Component that protects routes requiring authentication
  * @param {Object} props - Component props
  * @param {React.ReactNode} props.children - Child components to render when authenticated
+ * @param {boolean} [props.requireAdmin] - Only let users with the admin role claim through
  * @returns {JSX.Element} The children when authenticated, or a redirect to home
  */
-const ProtectedRoute = ({ children }: { children: React.ReactNode }): JSX.Element => {
-  const { user, loading } = useAuth();
+const ProtectedRoute = ({ children, requireAdmin = false }: { children: React.ReactNode; requireAdmin?: boolean }): JSX.Element => {
+  const { user, loading, isAdmin } = useAuth();
 
   if (loading) {
     return (
@@ -71,13 +78,16 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }): JSX.Elemen
     );
   }
 
-  if (!user) {
+  if (!user || (requireAdmin && !isAdmin)) {
     return <Navigate to="/" replace />;
   }
 
   return <>{children}</>;
 };
 
+// Streamed items kept for the Community Pulse panel; anything older is covered by its own fetch
+const MAX_STREAMED_ACTIVITIES = 50;
+
 /**
  * @description Inner frame component that has access to auth context
  * @returns {JSX.Element} The main application content with real-time activity detection
@@ -85,7 +95,7 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }): JSX.Elemen
 const FrameContent = (): JSX.Element => {
   const [isPulsePanelOpen, setIsPulsePanelOpen] = useState(false);
   const [hasNewActivity, setHasNewActivity] = useState(false);
-  const [latestActivityTimestamp, setLatestActivityTimestamp] = useState<string | null>(null);
+  const [streamedActivities, setStreamedActivities] = useState<ActivityFeedItem[]>([]);
   const { user } = useAuth(); // Now this is safely inside AuthProvider
 
   // Use ref to create stable callback reference and prevent infinite subscription loops
@@ -94,90 +104,24 @@ const FrameContent = (): JSX.Element => {
 
 
 
+  // Read by the stream callback so the pulse only starts while the panel is closed
+  const isPulsePanelOpenRef = useRef(isPulsePanelOpen);
+  isPulsePanelOpenRef.current = isPulsePanelOpen;
+
   /**
-   * @description Sets up polling-based activity detection (no WebSocket complexity)
-   * @async
-   * @sideEffects Polls activity_log every 30 seconds for new activity detection
+   * @description Keeps the most recent streamed activities for the panel and flags new activity while it is closed
+   * @param {ActivityFeedItem} activity - Newly streamed activity
+   * @sideEffects Updates streamedActivities and hasNewActivity state
    */
-  useEffect(() => {
-    let pollingInterval: NodeJS.Timeout | null = null;
-    let lastKnownTimestamp: string | null = null;
-
-    const setupActivityPolling = async () => {
-      try {
-        // Get initial latest activity timestamp
-        console.log('🔍 Setting up activity polling...');
-        const { data, error } = await supabase
-          .from('activity_log')
-          .select('created_at')
-          .eq('visibility', 'public')
-          .order('created_at', { ascending: false })
-          .limit(1)
-          .single();
-
-        if (error && error.code !== 'PGRST116') {
-          console.error('❌ Error fetching initial activity timestamp:', error);
-        } else if (data) {
-          lastKnownTimestamp = data.created_at;
-          setLatestActivityTimestamp(data.created_at);
-          console.log('✅ Activity polling initialized with timestamp:', data.created_at);
-        }
-
-        // Set up polling every 30 seconds
-        pollingInterval = setInterval(async () => {
-          try {
-            const { data } = await supabase
-              .from('activity_log')
-              .select('created_at')
-              .eq('visibility', 'public')
-              .order('created_at', { ascending: false })
-              .limit(1)
-              .single();
-
-                        if (data && data.created_at !== lastKnownTimestamp) {
-              // Only consider it "new" if the timestamp is actually newer
-              const isNewerActivity = !lastKnownTimestamp || new Date(data.created_at) > new Date(lastKnownTimestamp);
-
-              if (isNewerActivity) {
-                console.log('🔄 New activity detected via polling:', data.created_at, 'vs', lastKnownTimestamp);
-                lastKnownTimestamp = data.created_at;
-                setLatestActivityTimestamp(data.created_at);
-
-                // Only trigger pulse animation if panel is closed
-                const panelElement = document.querySelector('[data-pulse-panel-open="true"]');
-                const panelIsClosed = !panelElement;
-
-                if (panelIsClosed) {
-                  setHasNewActivity(true);
-                }
-              } else {
-                console.log('🔄 Activity timestamp changed but is older (likely deleted entry):', data.created_at, 'vs', lastKnownTimestamp);
-                // Update our tracking timestamp but don't trigger pulse
-                lastKnownTimestamp = data.created_at;
-                setLatestActivityTimestamp(data.created_at);
-              }
-            } else {
-              console.log('🔍 No new activity detected');
-            }
-          } catch (error) {
-            console.error('❌ Activity polling failed:', error);
-          }
-        }, 30000); // Poll every 30 seconds
-
-      } catch (error) {
-        console.error('❌ Error setting up activity polling:', error);
-      }
-    };
+  const handleStreamedActivity = useCallback((activity: ActivityFeedItem) => {
+    setStreamedActivities(prev => [activity, ...prev].slice(0, MAX_STREAMED_ACTIVITIES));
 
-    setupActivityPolling();
+    if (!isPulsePanelOpenRef.current) {
+      setHasNewActivity(true);
+    }
+  }, []);
 
-    // Cleanup function
-    return () => {
-      if (pollingInterval) {
-        clearInterval(pollingInterval);
-      }
-    };
-  }, []); // No dependencies needed for simple polling
+  useActivityStream(handleStreamedActivity);
 
   /**
    * @description Opens the Community Pulse panel and stops the pulsing effect
@@ -213,9 +157,11 @@ const FrameContent = (): JSX.Element => {
           <Route path="/projects/:slug" element={<ProjectDetail />} />
           <Route path="/profiles" element={<Profiles />} />
           <Route path="/profiles/:username" element={<PublicProfile />} />
+          <Route path="/requests" element={<VibeRequests />} />
           <Route path="/about" element={<About />} />
           <Route path="/terms" element={<Terms />} />
           <Route path="/privacy" element={<Privacy />} />
+          <Route path="/unsubscribe" element={<Unsubscribe />} />
           <Route
             path="/create"
             element={
@@ -240,13 +186,29 @@ const FrameContent = (): JSX.Element => {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/notifications"
+            element={
+              <ProtectedRoute>
+                <Notifications />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/reports"
+            element={
+              <ProtectedRoute requireAdmin>
+                <AdminReports />
+              </ProtectedRoute>
+            }
+          />
         </Routes>
       </div>
       <FooterSection />
       <PulsePanel
         isOpen={isPulsePanelOpen}
         onClose={closePulsePanel}
-        latestActivityTimestamp={latestActivityTimestamp}
+        streamedActivities={streamedActivities}
       />
     </>
   );
@@ -263,7 +225,9 @@ export const Frame = (): JSX.Element => {
         <AuthProvider>
           <ToastProvider />
           <ScrollToTop />
-          <FrameContent />
+          <NotificationsProvider>
+            <FrameContent />
+          </NotificationsProvider>
         </AuthProvider>
       </div>
     </WalletProvider>
@@ -13,14 +13,15 @@ import {
   NavigationMenuList,
 } from "../../../../components/ui/navigation-menu";
 import { AuthDialog } from "../../../../components/ui/auth-dialog";
-import { supabase } from "../../../../lib/supabase";
+import { NotificationBell } from "../../../../components/ui/NotificationBell";
+import { profilesApi } from "../../../../lib/api";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "../../../../components/ui/dropdown-menu";
-import { LogOut, User, Menu, X } from "lucide-react";
+import { LogOut, User, Menu, X, ShieldAlert } from "lucide-react";
 import { useAuth } from "../../../../context/AuthContext";
 import { UserAvatar, getAvatarName } from "../../../../components/ui/user-avatar";
 import type { UserProfileData } from "../../../../types/user";
@@ -44,7 +45,7 @@ export const HeaderSection = ({ onPulseButtonClick, hasNewActivity }: HeaderSect
   const [authMode, setAuthMode] = useState<'signup' | 'login'>('login');
   const [isAuthDialogOpen, setIsAuthDialogOpen] = useState(false);
   const [userProfile, setUserProfile] = useState<Pick<UserProfileData, 'username'> | null>(null);
-  const { user, handleAuthErrorAndSignOut } = useAuth();
+  const { user, isAdmin, handleAuthErrorAndSignOut } = useAuth();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
 
@@ -54,20 +55,10 @@ export const HeaderSection = ({ onPulseButtonClick, hasNewActivity }: HeaderSect
     if (user) {
       const fetchUserProfile = async () => {
         try {
-          const { data, error } = await supabase
-            .from('profiles')
-            .select('username')
-            .eq('user_id', user.id)
-            .single();
-
-          if (error && error.code !== 'PGRST116') {
-            console.error('Error fetching user profile for header:', error);
-            return;
-          }
-
-          setUserProfile(data);
+          const profile = await profilesApi.fetchProfileByUserId(user.id);
+          setUserProfile(profile ? { username: profile.username } : null);
         } catch (error) {
-          console.error('Error:', error);
+          console.error('Error fetching user profile for header:', error);
         }
       };
 
@@ -79,8 +70,9 @@ export const HeaderSection = ({ onPulseButtonClick, hasNewActivity }: HeaderSect
 
   // Only "Feed" & Profiles are visible to all users
   const navLinks = [
-    { title: "Profiles", href: "/profiles" },
-    { title: "Projects", href: "/projects" },
+    { title: "Profiles", href: "/profiles", icon: "people" },
+    { title: "Projects", href: "/projects", icon: "dashboard" },
+    { title: "Requests", href: "/requests", icon: "lightbulb" },
   ];
 
   /**
@@ -157,6 +149,8 @@ export const HeaderSection = ({ onPulseButtonClick, hasNewActivity }: HeaderSect
             <span className="hidden lg:inline">Pulse</span>
           </Button>
 
+          <NotificationBell />
+
           {user ? (
             <DropdownMenu>
               <DropdownMenuTrigger className="outline-none">
@@ -202,6 +196,22 @@ export const HeaderSection = ({ onPulseButtonClick, hasNewActivity }: HeaderSect
                       </Link>
                     </DropdownMenuItem>
 
+                    {isAdmin && (
+                      <DropdownMenuItem asChild className="p-0">
+                        <Link
+                          to="/admin/reports"
+                          className="flex items-center gap-3 p-3 rounded-lg hover:bg-gray-50 transition-all duration-200 group w-full"
+                        >
+                          <div className="w-8 h-8 rounded-lg bg-gray-100 flex items-center justify-center group-hover:bg-startsnap-oxford-blue/10 transition-colors">
+                            <ShieldAlert size={16} className="text-startsnap-oxford-blue" />
+                          </div>
+                          <span className="font-ui text-startsnap-oxford-blue text-sm">
+                            Reports
+                          </span>
+                        </Link>
+                      </DropdownMenuItem>
+                    )}
+
                     <DropdownMenuItem asChild className="p-0">
                       <button
                         onClick={handleSignOut}
@@ -233,7 +243,8 @@ export const HeaderSection = ({ onPulseButtonClick, hasNewActivity }: HeaderSect
         </div>
 
         {/* Mobile Menu Button */}
-        <div className="md:hidden flex items-center">
+        <div className="md:hidden flex items-center gap-1">
+          <NotificationBell />
           <Button
             variant="ghost"
             size="icon"
@@ -266,7 +277,7 @@ export const HeaderSection = ({ onPulseButtonClick, hasNewActivity }: HeaderSect
                   >
                     <div className="w-10 h-10 rounded-lg bg-startsnap-oxford-blue/10 flex items-center justify-center group-hover:bg-startsnap-french-rose/20 transition-colors">
                       <span className="material-icons text-startsnap-oxford-blue group-hover:text-startsnap-french-rose transition-colors">
-                        {link.title === 'Profiles' ? 'people' : 'dashboard'}
+                        {link.icon}
                       </span>
                     </div>
                     <span className="font-ui text-startsnap-oxford-blue text-lg group-hover:text-startsnap-french-rose transition-colors">
@@ -349,6 +360,21 @@ export const HeaderSection = ({ onPulseButtonClick, hasNewActivity }: HeaderSect
                       </span>
                     </Link>
 
+                    {isAdmin && (
+                      <Link
+                        to="/admin/reports"
+                        onClick={toggleMobileMenu}
+                        className="flex items-center gap-4 p-4 rounded-xl hover:bg-gray-50 transition-all duration-200 active:scale-[0.98] group"
+                      >
+                        <div className="w-10 h-10 rounded-lg bg-gray-100 flex items-center justify-center group-hover:bg-startsnap-oxford-blue/10 transition-colors">
+                          <ShieldAlert size={20} className="text-startsnap-oxford-blue" />
+                        </div>
+                        <span className="font-ui text-startsnap-oxford-blue text-lg">
+                          Reports
+                        </span>
+                      </Link>
+                    )}
+
                     <Button
                       variant="unstyled"
                       onClick={() => {
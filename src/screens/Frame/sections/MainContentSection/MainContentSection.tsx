@@ -6,7 +6,7 @@
 import React, { useState, useEffect, useCallback } from "react";
 import { Button } from "../../../../components/ui/button";
 import { Link } from "react-router-dom";
-import { supabase } from "../../../../lib/supabase";
+import { profilesApi, startsnapsApi } from "../../../../lib/api";
 import { StartSnapCard } from "../../../../components/ui/StartSnapCard";
 import { SearchAndFilterBar } from "../../../../components/ui/SearchAndFilterBar";
 import { CATEGORY_CONFIG } from "../../../../config/categories";
@@ -43,38 +43,10 @@ export const MainContentSection = (): JSX.Element => {
   const fetchFeaturedStartSnaps = useCallback(async () => {
     try {
       setLoadingFeatured(true);
-      let query = supabase
-        .from('startsnaps')
-        .select('*, support_count, screenshot_urls');
-
       // Featured projects: latest 12 projects ordered by creation date
-      query = query.order('created_at', { ascending: false });
-      query = query.limit(12);
-
-      const { data, error } = await query;
-
-      if (error) throw error;
-
-      setFeaturedStartSnaps(data || []);
-
-      if (data && data.length > 0) {
-        const userIds = [...new Set(data.map(snap => snap.user_id))];
-        const { data: profilesData, error: profilesError } = await supabase
-          .from('profiles')
-          .select('user_id, username')
-          .in('user_id', userIds);
-
-        if (profilesError) throw profilesError;
-
-        const creatorsMap: Record<UserProfileData['user_id'], UserProfileData['username']> = {};
-        profilesData?.forEach(profile => {
-          creatorsMap[profile.user_id] = profile.username;
-        });
-
-        setFeaturedCreators(creatorsMap);
-      } else {
-        setFeaturedCreators({});
-      }
+      const data = await startsnapsApi.fetchLatestStartSnaps(12);
+      setFeaturedStartSnaps(data);
+      setFeaturedCreators(await profilesApi.fetchUsernameMap(data.map(snap => snap.user_id)));
     } catch (error) {
       console.error('Error fetching startsnaps:', error);
       setFeaturedStartSnaps([]);
@@ -94,30 +66,18 @@ export const MainContentSection = (): JSX.Element => {
       setLoadingPlatformData(true);
       const platformId = "09d44a11-959b-43a2-b57f-8b2c5e591e5f";
 
-      const { data, error } = await supabase
-        .from('startsnaps')
-        .select('*, support_count, screenshot_urls')
-        .eq('id', platformId)
-        .maybeSingle();
-
-      if (error && error.code !== 'PGRST116') {
-        throw error;
-      }
-
-      setPlatformStartSnap(data || null);
+      const data = await startsnapsApi.fetchStartSnapById(platformId);
+      setPlatformStartSnap(data);
 
       // Fetch creator info if needed
       if (data) {
-        const { data: creatorData, error: creatorError } = await supabase
-          .from('profiles')
-          .select('username')
-          .eq('user_id', data.user_id)
-          .single();
-
-        if (creatorError && creatorError.code !== 'PGRST116') {
+        try {
+          const creatorData = await profilesApi.fetchProfileByUserId(data.user_id);
+          if (creatorData) {
+            setPlatformCreator(creatorData.username);
+          }
+        } catch (creatorError) {
           console.error('Error fetching platform creator:', creatorError);
-        } else if (creatorData) {
-          setPlatformCreator(creatorData.username);
         }
       }
     } catch (error) {
@@ -0,0 +1,147 @@
+/**
+ * src/screens/Notifications/Notifications.tsx
+ * @description Page listing the signed-in user's notifications with mark-as-read and mark-all-read
+ */
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "../../components/ui/button";
+import { NotificationItem } from "../../components/ui/NotificationItem";
+import { notificationsApi } from "../../lib/api";
+import { useAuth } from "../../context/AuthContext";
+import { useNotifications } from "../../context/NotificationsContext";
+import { useApiErrorHandler } from "../../hooks/useApiErrorHandler";
+import type { AppNotification } from "../../types/notification";
+
+const PAGE_SIZE = 20;
+
+/**
+ * @description Notifications page with paginated history, newest first
+ * @returns {JSX.Element} Notification list with read controls
+ */
+export const Notifications = (): JSX.Element => {
+  const { user } = useAuth();
+  const { unreadCount, markAsRead, markAllAsRead } = useNotifications();
+  const { reportApiError } = useApiErrorHandler();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const userId = user?.id ?? null;
+
+  /**
+   * @description Fetches one page of notifications and appends it to the list
+   * @async
+   * @param {number} startIndex - Zero-based index of the first notification to load
+   * @sideEffects Updates notifications and hasMore state
+   */
+  const loadNotifications = useCallback(async (startIndex: number) => {
+    if (!userId) return;
+
+    try {
+      const page = await notificationsApi.fetchNotifications(userId, startIndex, startIndex + PAGE_SIZE - 1);
+      setNotifications(current => (startIndex === 0 ? page : [...current, ...page]));
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error) {
+      await reportApiError(error, 'Error', 'Could not load notifications.');
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadNotifications(0).finally(() => setLoading(false));
+  }, [loadNotifications]);
+
+  /**
+   * @description Loads the next page of notifications
+   * @async
+   */
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    await loadNotifications(notifications.length);
+    setLoadingMore(false);
+  };
+
+  /**
+   * @description Marks a notification as read when it is opened
+   * @async
+   * @param {AppNotification} notification - The notification that was clicked
+   */
+  const handleSelect = async (notification: AppNotification) => {
+    try {
+      await markAsRead(notification);
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+    }
+  };
+
+  /**
+   * @description Marks every notification as read
+   * @async
+   * @sideEffects Updates the notifications table and the local list
+   */
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllAsRead();
+      const readAt = new Date().toISOString();
+      setNotifications(current => current.map(notification => ({ ...notification, read_at: notification.read_at ?? readAt })));
+    } catch (error) {
+      await reportApiError(error, 'Error', 'Could not mark notifications as read.');
+    }
+  };
+
+  return (
+    <div className="flex flex-col w-full items-center bg-white">
+      <div className="w-full max-w-3xl px-8 py-16">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-4xl font-heading text-startsnap-ebony-clay mb-2">
+              Notifications
+            </h1>
+            <p className="text-lg text-startsnap-river-bed font-body">
+              {unreadCount > 0 ? `${unreadCount} unread` : "You're all caught up."}
+            </p>
+          </div>
+          <Button
+            variant="secondary"
+            onClick={handleMarkAllRead}
+            disabled={unreadCount === 0}
+          >
+            <span className="material-icons text-lg">done_all</span>
+            Mark all read
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <p className="text-lg text-startsnap-pale-sky">Loading notifications...</p>
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="text-center py-12 bg-gray-50 rounded-xl border-2 border-dashed border-gray-200">
+            <span className="material-icons text-5xl text-startsnap-pale-sky mb-2">notifications_none</span>
+            <p className="text-lg text-startsnap-pale-sky">
+              No notifications yet. Supports, feedback, replies and tips will show up here.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {notifications.map(notification => (
+              <NotificationItem
+                key={notification.id}
+                notification={notification}
+                onSelect={handleSelect}
+              />
+            ))}
+
+            {hasMore && (
+              <div className="flex justify-center pt-4">
+                <Button variant="secondary" onClick={handleLoadMore} disabled={loadingMore}>
+                  {loadingMore ? 'Loading...' : 'Load more'}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,6 @@
+/**
+ * src/screens/Notifications/index.ts
+ * @description Barrel file that exports the Notifications component
+ */
+
+export { Notifications } from "./Notifications";
@@ -11,14 +11,15 @@ import { Badge } from "../../components/ui/badge";
 import { Input } from "../../components/ui/input";
 import { Textarea } from "../../components/ui/textarea";
 import { Popover, PopoverTrigger, PopoverContent } from "../../components/ui/popover";
-import { supabase } from "../../lib/supabase";
+import { profilesApi, startsnapsApi } from "../../lib/api";
 import { FaGithub, FaXTwitter, FaLinkedinIn } from "react-icons/fa6";
 import { StartSnapCard } from "../../components/ui/StartSnapCard";
 import { getCategoryDisplay, getUserStatusOptions} from "../../config/categories";
 import { formatDate, validateSocialLinks, LinkValidationErrors, ProfileLinks } from "../../lib/utils";
 import { useAuth } from "../../context/AuthContext";
+import { useApiErrorHandler } from "../../hooks/useApiErrorHandler";
 import { UserAvatar, getAvatarName } from "../../components/ui/user-avatar";
-import type { UserProfileData } from "../../types/user";
+import type { StartSnapProject } from "../../types/startsnap";
 import { toast } from "sonner";
 import { WalletConnect } from "../../components/ui/WalletConnect";
 import {
@@ -30,6 +31,10 @@ import {
 import { MoreHorizontal, Edit, Trash2, Unplug, Link as LinkIcon, X } from "lucide-react";
 import { useWallet } from '@txnlab/use-wallet-react';
 import { ConfirmationDialog } from "../../components/ui/confirmation-dialog";
+import { EmailNotificationSettings } from "./components/EmailNotificationSettings";
+import { ProjectInvitations } from "./components/ProjectInvitations";
+import { MyDrafts } from "./components/MyDrafts";
+import { BadgeShelf } from "../../components/ui/BadgeShelf";
 
 /**
  * @description User profile page with settings and project management
@@ -40,6 +45,7 @@ export const Profile = (): JSX.Element => {
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
   const { user } = useAuth();
+  const { reportApiError } = useApiErrorHandler();
   const { activeAddress, wallets } = useWallet();
   const [profile, setProfile] = useState({
     username: "",
@@ -51,7 +57,7 @@ export const Profile = (): JSX.Element => {
     website: "",
     algorand_wallet_address: ""
   });
-  const [userStartSnaps, setUserStartSnaps] = useState<any[]>([]);
+  const [userStartSnaps, setUserStartSnaps] = useState<StartSnapProject[]>([]);
   const [loadingStartSnaps, setLoadingStartSnaps] = useState(true);
   const [linkErrors, setLinkErrors] = useState<LinkValidationErrors>({
     github: "",
@@ -107,15 +113,7 @@ export const Profile = (): JSX.Element => {
       }
 
       // Remove the stored address from database immediately
-      const { error } = await supabase
-        .from('profiles')
-        .update({
-          algorand_wallet_address: '',
-          updated_at: new Date()
-        })
-        .eq('user_id', user.id);
-
-      if (error) throw error;
+      await profilesApi.updateProfile(user.id, { algorand_wallet_address: '' });
 
       // Update local state after successful database update
       setProfile(prev => ({ ...prev, algorand_wallet_address: '' }));
@@ -124,10 +122,7 @@ export const Profile = (): JSX.Element => {
         description: 'Wallet disconnected and address removed. Add a new one to receive tips.'
       });
     } catch (error) {
-      console.error('Error removing wallet:', error);
-      toast.error('Failed to remove wallet', {
-        description: 'Please try again or contact support if the issue persists.'
-      });
+      await reportApiError(error, 'Failed to remove wallet', 'Please try again or contact support if the issue persists.');
     } finally {
       setIsRemovingWallet(false);
       setIsRemoveWalletDialogOpen(false);
@@ -196,16 +191,7 @@ export const Profile = (): JSX.Element => {
     const fetchProfile = async () => {
       try {
         // Fetch profile data
-        const { data, error }: { data: UserProfileData | null, error: any } = await supabase
-          .from('profiles')
-          .select('*')
-          .eq('user_id', user.id)
-          .single();
-
-        if (error && error.code !== 'PGRST116') {
-          console.error('Error fetching profile:', error);
-          return;
-        }
+        const data = await profilesApi.fetchProfileByUserId(user.id);
 
         // If profile exists, use it; otherwise, use default values
         if (data) {
@@ -231,7 +217,7 @@ export const Profile = (): JSX.Element => {
         // Fetch user's StartSnaps
         fetchUserStartSnaps(user.id);
       } catch (error) {
-        console.error('Error:', error);
+        console.error('Error fetching profile:', error);
       } finally {
         setLoading(false);
       }
@@ -251,17 +237,7 @@ export const Profile = (): JSX.Element => {
       setLoadingStartSnaps(true);
 
       // Fetch startsnaps for the user
-      const { data, error } = await supabase
-        .from('startsnaps')
-        .select('*, screenshot_urls')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        throw error;
-      }
-
-      setUserStartSnaps(data || []);
+      setUserStartSnaps(await startsnapsApi.fetchStartSnapsByUser(userId));
     } catch (error) {
       console.error('Error fetching user StartSnaps:', error);
     } finally {
@@ -330,24 +306,13 @@ export const Profile = (): JSX.Element => {
 
     // Check if the username is taken by another user
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('user_id')
-        .eq('username', profile.username)
-        .neq('user_id', user.id) // IMPORTANT: Exclude the current user from the check
-        .limit(1);
-
-      if (error) throw error; // Let the main catch block handle Supabase errors
-
-      if (data && data.length > 0) {
+      // IMPORTANT: Exclude the current user from the check
+      if (await profilesApi.isUsernameTaken(profile.username, user.id)) {
         setUsernameError("This username is already taken. Please choose another.");
         return; // Stop the update process
       }
     } catch (error) {
-      console.error('Error checking username uniqueness:', error);
-      toast.error('Username Validation Failed', {
-        description: 'Could not verify username. Please try again.'
-      });
+      await reportApiError(error, 'Username Validation Failed', 'Could not verify username. Please try again.');
       return;
     }
     // --- END NEW VALIDATION LOGIC ---
@@ -360,33 +325,22 @@ export const Profile = (): JSX.Element => {
     try {
       setUpdating(true);
 
-      const { error } = await supabase
-        .from('profiles')
-        .upsert({
-          user_id: user.id,
-          username: profile.username,
-          bio: profile.bio,
-          status: profile.status,
-          github_url: profile.github,
-          twitter_url: profile.twitter,
-          linkedin_url: profile.linkedin,
-          website_url: profile.website,
-          algorand_wallet_address: profile.algorand_wallet_address,
-          updated_at: new Date()
-        }, {
-          onConflict: 'user_id'
-        });
-
-      if (error) throw error;
+      await profilesApi.upsertProfile(user.id, {
+        username: profile.username,
+        bio: profile.bio,
+        status: profile.status,
+        github_url: profile.github,
+        twitter_url: profile.twitter,
+        linkedin_url: profile.linkedin,
+        website_url: profile.website,
+        algorand_wallet_address: profile.algorand_wallet_address
+      });
 
       toast.success('Profile Updated Successfully!', {
         description: 'Your profile changes have been saved.'
       });
     } catch (error) {
-      console.error('Error updating profile:', error);
-      toast.error('Update Failed', {
-        description: 'Error updating profile. Please try again.'
-      });
+      await reportApiError(error, 'Update Failed', 'Error updating profile. Please try again.');
     } finally {
       setUpdating(false);
     }
@@ -782,6 +736,18 @@ export const Profile = (): JSX.Element => {
               </div>
             </CardContent>
           </Card>
+
+          {/* Pending collaboration invitations */}
+          <ProjectInvitations />
+
+          {/* Unpublished projects and vibe logs */}
+          <MyDrafts />
+
+          {/* Badges */}
+          {user && <BadgeShelf userId={user.id} showLocked />}
+
+          {/* Email Notification Settings */}
+          <EmailNotificationSettings />
         </div>
       </div>
 
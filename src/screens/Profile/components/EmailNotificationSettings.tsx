@@ -0,0 +1,130 @@
+/**
+ * src/screens/Profile/components/EmailNotificationSettings.tsx
+ * @description Settings card for choosing how the user is emailed about feedback, replies, milestones and tips
+ */
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent } from "../../../components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../components/ui/select";
+import { notificationsApi } from "../../../lib/api";
+import { getEmailDeliveryOptions, getNotificationEmailEventOptions } from "../../../config/categories";
+import { useAuth } from "../../../context/AuthContext";
+import { useApiErrorHandler } from "../../../hooks/useApiErrorHandler";
+import type { EmailDelivery, EmailEventType } from "../../../types/notification";
+import { toast } from "sonner";
+
+const emailEventOptions = getNotificationEmailEventOptions();
+const emailDeliveryOptions = getEmailDeliveryOptions();
+
+/**
+ * @description Email notification settings; every change is saved right away
+ * @returns {JSX.Element} Card with one delivery selector per email event
+ */
+export const EmailNotificationSettings = (): JSX.Element => {
+  const { user } = useAuth();
+  const { reportApiError } = useApiErrorHandler();
+  const [preferences, setPreferences] = useState<Partial<Record<EmailEventType, EmailDelivery>>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingEvent, setSavingEvent] = useState<EmailEventType | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    /**
+     * @description Loads the user's effective email preferences
+     * @async
+     * @sideEffects Updates preferences state
+     */
+    const fetchPreferences = async () => {
+      try {
+        const rows = await notificationsApi.fetchNotificationPreferences();
+        setPreferences(Object.fromEntries(rows.map(row => [row.event_type, row.delivery])));
+      } catch (error) {
+        await reportApiError(error, 'Error', 'Could not load your email settings.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPreferences();
+  }, [user]);
+
+  /**
+   * @description Saves a new delivery mode for one event, reverting the selector if saving fails
+   * @async
+   * @param {EmailEventType} eventType - Email event being changed
+   * @param {EmailDelivery} delivery - New delivery mode
+   * @sideEffects Upserts the preference and shows a toast
+   */
+  const handleDeliveryChange = async (eventType: EmailEventType, delivery: EmailDelivery) => {
+    if (!user) return;
+
+    const previous = preferences[eventType];
+    setPreferences(current => ({ ...current, [eventType]: delivery }));
+    setSavingEvent(eventType);
+
+    try {
+      await notificationsApi.updateNotificationPreference(user.id, eventType, delivery);
+      toast.success('Email settings saved');
+    } catch (error) {
+      setPreferences(current => ({ ...current, [eventType]: previous }));
+      await reportApiError(error, 'Error', 'Could not save your email settings. Please try again.');
+    } finally {
+      setSavingEvent(null);
+    }
+  };
+
+  return (
+    <Card className="mt-8 bg-startsnap-white rounded-xl overflow-hidden border-[3px] border-solid border-gray-800 shadow-[5px_5px_0px_#1f2937]">
+      {/* Header strip */}
+      <div className="h-4 bg-startsnap-persian-blue border-b-4 border-black"></div>
+
+      <CardContent className="p-8">
+        <div className="flex items-center gap-3 mb-2">
+          <span className="material-icons text-startsnap-ebony-clay">mail</span>
+          <h3 className="font-heading text-startsnap-ebony-clay text-2xl">Email Notifications</h3>
+        </div>
+        <p className="font-body text-startsnap-river-bed mb-6">
+          Choose what we email you about. Digests arrive at most once a day; in-app notifications are always on.
+        </p>
+
+        {loading ? (
+          <p className="text-startsnap-pale-sky">Loading email settings...</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {emailEventOptions.map(option => (
+              <div key={option.value} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 py-4">
+                <div className="flex items-start gap-3">
+                  <span className="material-icons text-startsnap-oxford-blue mt-0.5">{option.icon}</span>
+                  <div>
+                    <p className="font-ui text-startsnap-oxford-blue">{option.label}</p>
+                    <p className="font-body text-sm text-startsnap-pale-sky">{option.description}</p>
+                  </div>
+                </div>
+                <Select
+                  value={preferences[option.value]}
+                  onValueChange={value => handleDeliveryChange(option.value, value as EmailDelivery)}
+                  disabled={savingEvent === option.value}
+                >
+                  <SelectTrigger
+                    className="w-full sm:w-48 border-2 border-gray-800 rounded-lg"
+                    aria-label={`Email delivery for ${option.label.toLowerCase()}`}
+                  >
+                    <SelectValue placeholder="Choose delivery" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-startsnap-white border border-gray-800 rounded-md">
+                    {emailDeliveryOptions.map(delivery => (
+                      <SelectItem key={delivery.value} value={delivery.value}>
+                        {delivery.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
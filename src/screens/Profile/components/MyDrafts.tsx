@@ -0,0 +1,125 @@
+/**
+ * src/screens/Profile/components/MyDrafts.tsx
+ * @description Card listing the user's draft and scheduled projects and vibe logs, which nobody else can see yet
+ */
+
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent } from "../../../components/ui/card";
+import { startsnapsApi, vibeLogsApi } from "../../../lib/api";
+import { useAuth } from "../../../context/AuthContext";
+import { formatPublishAt } from "../../../lib/publishing";
+import type { StartSnapProject } from "../../../types/startsnap";
+import type { DraftVibeLog } from "../../../types/vibeLog";
+
+/**
+ * @description Status label of an unpublished project or vibe log
+ * @param {StartSnapProject | DraftVibeLog} item - Draft or scheduled item
+ * @returns {string} "Draft" or the scheduled publish time
+ */
+const getStatusLabel = (item: StartSnapProject | DraftVibeLog): string => {
+  return item.status === 'scheduled' && item.publish_at
+    ? `Goes live ${formatPublishAt(item.publish_at)}`
+    : 'Draft';
+};
+
+/**
+ * @description The user's unpublished projects and vibe logs; renders nothing when there are none
+ * @returns {JSX.Element | null} Card with one row per draft
+ */
+export const MyDrafts = (): JSX.Element | null => {
+  const { user } = useAuth();
+  const [projects, setProjects] = useState<StartSnapProject[]>([]);
+  const [vibeLogs, setVibeLogs] = useState<DraftVibeLog[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    /**
+     * @description Loads the user's draft and scheduled projects and vibe logs
+     * @async
+     * @sideEffects Updates projects and vibeLogs state
+     */
+    const fetchDrafts = async () => {
+      try {
+        const [draftProjects, draftVibeLogs] = await Promise.all([
+          startsnapsApi.fetchDraftStartSnapsByUser(user.id),
+          vibeLogsApi.fetchDraftVibeLogs()
+        ]);
+        setProjects(draftProjects);
+        setVibeLogs(draftVibeLogs);
+      } catch (error) {
+        console.error('Error fetching drafts:', error);
+        setProjects([]);
+        setVibeLogs([]);
+      }
+    };
+
+    fetchDrafts();
+  }, [user]);
+
+  if (projects.length === 0 && vibeLogs.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-8 bg-startsnap-white rounded-xl overflow-hidden border-[3px] border-solid border-gray-800 shadow-[5px_5px_0px_#1f2937]">
+      {/* Header strip */}
+      <div className="h-4 bg-startsnap-corn border-b-4 border-black"></div>
+
+      <CardContent className="p-8">
+        <div className="flex items-center gap-3 mb-6">
+          <span className="material-icons text-startsnap-ebony-clay">edit_note</span>
+          <h3 className="font-heading text-startsnap-ebony-clay text-2xl">My Drafts</h3>
+        </div>
+
+        <ul className="flex flex-col gap-4">
+          {projects.map(project => (
+            <li
+              key={project.id}
+              className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between p-4 rounded-lg border-2 border-gray-800 bg-startsnap-candlelight"
+            >
+              <div className="min-w-0">
+                <Link
+                  to={`/edit/${project.id}`}
+                  className="font-ui text-startsnap-ebony-clay hover:text-startsnap-french-rose transition-colors"
+                >
+                  {project.name}
+                </Link>
+                <p className="font-body text-sm text-startsnap-shuttle-gray">Project</p>
+              </div>
+              <span className="font-mono text-xs rounded-full border border-gray-800 px-2 py-0.5 bg-startsnap-white text-startsnap-ebony-clay self-start sm:self-auto">
+                {getStatusLabel(project)}
+              </span>
+            </li>
+          ))}
+          {vibeLogs.map(vibeLog => (
+            <li
+              key={vibeLog.id}
+              className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between p-4 rounded-lg border-2 border-gray-800 bg-startsnap-candlelight"
+            >
+              <div className="min-w-0">
+                {vibeLog.startsnap ? (
+                  <Link
+                    to={`/projects/${vibeLog.startsnap.slug}`}
+                    className="font-ui text-startsnap-ebony-clay hover:text-startsnap-french-rose transition-colors"
+                  >
+                    {vibeLog.title}
+                  </Link>
+                ) : (
+                  <span className="font-ui text-startsnap-ebony-clay">{vibeLog.title}</span>
+                )}
+                <p className="font-body text-sm text-startsnap-shuttle-gray">
+                  Vibe log{vibeLog.startsnap ? ` on ${vibeLog.startsnap.name}` : ''}
+                </p>
+              </div>
+              <span className="font-mono text-xs rounded-full border border-gray-800 px-2 py-0.5 bg-startsnap-white text-startsnap-ebony-clay self-start sm:self-auto">
+                {getStatusLabel(vibeLog)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,218 @@
+/**
+ * src/screens/Profile/components/ProjectInvitations.tsx
+ * @description Card listing the user's pending invitations to collaborate on projects and offers to take over
+ * projects, with accept and decline actions
+ */
+
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent } from "../../../components/ui/card";
+import { Button } from "../../../components/ui/button";
+import { membersApi } from "../../../lib/api";
+import { useAuth } from "../../../context/AuthContext";
+import { useApiErrorHandler } from "../../../hooks/useApiErrorHandler";
+import { formatDate } from "../../../lib/utils";
+import type { StartSnapInvitation, StartSnapTransferRequestWithDetails } from "../../../types/member";
+import { toast } from "sonner";
+
+/**
+ * @description Pending collaboration invitations and ownership transfers; renders nothing when there are none
+ * @returns {JSX.Element | null} Card with one row per invitation or transfer
+ */
+export const ProjectInvitations = (): JSX.Element | null => {
+  const { user } = useAuth();
+  const { reportApiError } = useApiErrorHandler();
+  const [invitations, setInvitations] = useState<StartSnapInvitation[]>([]);
+  const [transfers, setTransfers] = useState<StartSnapTransferRequestWithDetails[]>([]);
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    /**
+     * @description Loads the user's pending invitations and incoming ownership transfers
+     * @async
+     * @sideEffects Updates invitations and transfers state
+     */
+    const fetchInvitations = async () => {
+      try {
+        const [pendingInvitations, incomingTransfers] = await Promise.all([
+          membersApi.fetchMyInvitations(user.id),
+          membersApi.fetchIncomingTransfers(user.id)
+        ]);
+        setInvitations(pendingInvitations);
+        setTransfers(incomingTransfers);
+      } catch (error) {
+        console.error('Error fetching project invitations:', error);
+        setInvitations([]);
+        setTransfers([]);
+      }
+    };
+
+    fetchInvitations();
+  }, [user]);
+
+  /**
+   * @description Accepts or declines an invitation
+   * @async
+   * @param {StartSnapInvitation} invitation - Invitation to answer
+   * @param {boolean} accept - True to join the project as an editor
+   * @sideEffects Updates startsnap_members and removes the invitation from the list
+   */
+  const handleRespond = async (invitation: StartSnapInvitation, accept: boolean) => {
+    setRespondingTo(invitation.startsnap_id);
+    try {
+      await membersApi.respondToInvitation(invitation.startsnap_id, accept);
+      setInvitations(prev => prev.filter(item => item.startsnap_id !== invitation.startsnap_id));
+      const projectName = invitation.startsnap?.name || 'the project';
+      if (accept) {
+        toast.success('Invitation Accepted', {
+          description: `You can now edit ${projectName} and post vibe logs.`
+        });
+      } else {
+        toast.success('Invitation Declined');
+      }
+    } catch (error) {
+      await reportApiError(error, 'Response Failed', 'Could not answer the invitation. Please try again.');
+    } finally {
+      setRespondingTo(null);
+    }
+  };
+
+  /**
+   * @description Accepts or declines an ownership transfer
+   * @async
+   * @param {StartSnapTransferRequestWithDetails} transfer - Transfer to answer
+   * @param {boolean} accept - True to become the project's owner
+   * @sideEffects On accept the project moves to the user, unless the transfer went stale; removes the transfer from
+ * the list
+   */
+  const handleRespondToTransfer = async (transfer: StartSnapTransferRequestWithDetails, accept: boolean) => {
+    setRespondingTo(transfer.id);
+    try {
+      const answered = await membersApi.respondToTransfer(transfer.id, accept);
+      setTransfers(prev => prev.filter(item => item.id !== transfer.id));
+      const projectName = transfer.startsnap?.name || 'The project';
+      if (answered.status === 'cancelled') {
+        toast.info('Transfer No Longer Valid', {
+          description: `${transfer.from_username || 'The sender'} no longer owns ${transfer.startsnap?.name || 'the project'}, so it was not transferred.`
+        });
+      } else if (accept) {
+        toast.success('Project Transferred', {
+          description: `${projectName} is now yours.`
+        });
+      } else {
+        toast.success('Transfer Declined');
+      }
+    } catch (error) {
+      await reportApiError(error, 'Response Failed', 'Could not answer the transfer. Please try again.');
+    } finally {
+      setRespondingTo(null);
+    }
+  };
+
+  if (invitations.length === 0 && transfers.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-8 bg-startsnap-white rounded-xl overflow-hidden border-[3px] border-solid border-gray-800 shadow-[5px_5px_0px_#1f2937]">
+      {/* Header strip */}
+      <div className="h-4 bg-startsnap-persian-blue border-b-4 border-black"></div>
+
+      <CardContent className="p-8">
+        <div className="flex items-center gap-3 mb-6">
+          <span className="material-icons text-startsnap-ebony-clay">group_add</span>
+          <h3 className="font-heading text-startsnap-ebony-clay text-2xl">Project Invitations</h3>
+        </div>
+
+        <ul className="flex flex-col gap-4">
+          {transfers.map(transfer => (
+            <li
+              key={transfer.id}
+              className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between p-4 rounded-lg border-2 border-gray-800 bg-startsnap-candlelight"
+            >
+              <div>
+                {transfer.startsnap ? (
+                  <Link
+                    to={`/projects/${transfer.startsnap.slug}`}
+                    className="font-ui text-startsnap-ebony-clay hover:text-startsnap-french-rose transition-colors"
+                  >
+                    {transfer.startsnap.name}
+                  </Link>
+                ) : (
+                  <span className="font-ui text-startsnap-ebony-clay">Untitled project</span>
+                )}
+                <p className="font-body text-sm text-startsnap-shuttle-gray">
+                  {transfer.from_username || 'The owner'} wants to hand this project to you ({formatDate(transfer.created_at)})
+                </p>
+              </div>
+              <div className="flex gap-3">
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleRespondToTransfer(transfer, false)}
+                  disabled={respondingTo === transfer.id}
+                >
+                  Decline
+                </Button>
+                <Button
+                  type="button"
+                  variant="primary"
+                  size="sm"
+                  onClick={() => handleRespondToTransfer(transfer, true)}
+                  disabled={respondingTo === transfer.id}
+                >
+                  Take Over
+                </Button>
+              </div>
+            </li>
+          ))}
+          {invitations.map(invitation => (
+            <li
+              key={invitation.startsnap_id}
+              className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between p-4 rounded-lg border-2 border-gray-800 bg-startsnap-candlelight"
+            >
+              <div>
+                {invitation.startsnap ? (
+                  <Link
+                    to={`/projects/${invitation.startsnap.slug}`}
+                    className="font-ui text-startsnap-ebony-clay hover:text-startsnap-french-rose transition-colors"
+                  >
+                    {invitation.startsnap.name}
+                  </Link>
+                ) : (
+                  <span className="font-ui text-startsnap-ebony-clay">Untitled project</span>
+                )}
+                <p className="font-body text-sm text-startsnap-shuttle-gray">
+                  Invited as editor on {formatDate(invitation.created_at)}
+                </p>
+              </div>
+              <div className="flex gap-3">
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleRespond(invitation, false)}
+                  disabled={respondingTo === invitation.startsnap_id}
+                >
+                  Decline
+                </Button>
+                <Button
+                  type="button"
+                  variant="primary"
+                  size="sm"
+                  onClick={() => handleRespond(invitation, true)}
+                  disabled={respondingTo === invitation.startsnap_id}
+                >
+                  Accept
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
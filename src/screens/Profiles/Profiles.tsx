@@ -5,7 +5,7 @@
 
 import React, { useEffect, useState, useCallback } from "react";
 import { Link } from "react-router-dom";
-import { supabase } from "../../lib/supabase";
+import { profilesApi } from "../../lib/api";
 import { getUserStatusOptions } from "../../config/categories";
 import { UserAvatar, getAvatarName } from "../../components/ui/user-avatar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../components/ui/select";
@@ -60,7 +60,7 @@ export const Profiles = (): JSX.Element => {
   const [isFilterPopoverOpen, setIsFilterPopoverOpen] = useState<boolean>(false);
 
   /**
-   * @description Fetches paginated profiles from Supabase with search, filtering, and sorting
+   * @description Fetches paginated profiles with search, filtering, and sorting
    * @async
    * @param {PaginatedProfileDiscoveryState} currentDiscoveryState - Current discovery state including pagination
    * @sideEffects Updates profiles, totalProfilesCount, and loading state
@@ -69,43 +69,16 @@ export const Profiles = (): JSX.Element => {
     try {
       setLoading(true);
 
-      // Calculate range for pagination (zero-based indices)
-      const startIndex = (currentDiscoveryState.page - 1) * currentDiscoveryState.pageSize;
-      const endIndex = startIndex + currentDiscoveryState.pageSize - 1;
-
-      let query = supabase
-        .from('profiles')
-        .select('user_id, username, bio, status, github_url, twitter_url, linkedin_url, website_url, created_at', { count: 'exact' })
-        .range(startIndex, endIndex);
-
-      // Apply search filter
-      if (currentDiscoveryState.searchTerm.trim()) {
-        query = query.or(`username.ilike.%${currentDiscoveryState.searchTerm}%,bio.ilike.%${currentDiscoveryState.searchTerm}%`);
-      }
-
-      // Apply status filter
-      if (currentDiscoveryState.filters.status && currentDiscoveryState.filters.status !== "all") {
-        query = query.eq('status', currentDiscoveryState.filters.status);
-      }
-
-      // Apply sorting
-      query = query.order(currentDiscoveryState.sort.field, { ascending: currentDiscoveryState.sort.direction === 'asc' });
-      if (currentDiscoveryState.sort.field !== 'created_at') {
-        query = query.order('created_at', { ascending: false });
-      }
-
-      const { data, error, count } = await query;
-
-      if (error) throw error;
+      const { profiles: data, totalCount } = await profilesApi.fetchPaginatedProfiles(currentDiscoveryState);
 
       // Update total count
-      setTotalProfilesCount(count || 0);
+      setTotalProfilesCount(totalCount);
 
       // For page 1, replace the array; for subsequent pages, append
       if (currentDiscoveryState.page === 1) {
-        setProfiles(data || []);
+        setProfiles(data);
       } else {
-        setProfiles(prevProfiles => [...prevProfiles, ...(data || [])]);
+        setProfiles(prevProfiles => [...prevProfiles, ...data]);
       }
     } catch (error) {
       console.error("Error fetching profiles:", error);
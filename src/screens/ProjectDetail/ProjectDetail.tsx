@@ -4,22 +4,29 @@
  */
 
 import React, { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, Link } from "react-router-dom";
 import { Card, CardContent } from "../../components/ui/card";
 import { Button } from "../../components/ui/button";
-import { supabase } from "../../lib/supabase";
+import { profilesApi, projectImagesApi, startsnapsApi, supportersApi, vibeLogsApi, feedbackApi, membersApi } from "../../lib/api";
 import { useAuth } from "../../context/AuthContext";
+import { useApiErrorHandler } from "../../hooks/useApiErrorHandler";
 import { ProjectInfoSection } from "./components/ProjectInfoSection";
 import { VibeLogSection } from "./components/VibeLogSection";
 import { FeedbackSection } from "./components/FeedbackSection";
+import { FeedbackScorecard } from "./components/FeedbackScorecard";
 import { ScreenshotGallery } from "./components/ScreenshotGallery";
+import { ProjectMembersSection } from "./components/ProjectMembersSection";
 import { ConfirmationDialog } from "../../components/ui/confirmation-dialog";
+import { getProjectCoverUrl } from "../../components/ui/project-thumbnail";
+import { parseVideoUrl } from "../../lib/videoEmbed";
+import { formatPublishAt } from "../../lib/publishing";
 import { TippingDialog } from "../../components/ui/tipping-dialog";
 import type { User } from '@supabase/supabase-js';
-import type { StartSnapProject } from "../../types/startsnap"; // Import centralized type
+import type { ProjectImage, StartSnapProject } from "../../types/startsnap"; // Import centralized type
 import type { UserProfileData } from "../../types/user"; // Import UserProfileData
-import type { FeedbackEntry, FeedbackReply } from "../../types/feedback"; // Import feedback types
+import type { FeedbackComment } from "../../types/feedback"; // Import feedback types
 import type { VibeLog } from "../../types/vibeLog"; // Import VibeLog type
+import type { StartSnapMember } from "../../types/member";
 import { toast } from "sonner";
 import { Helmet } from "react-helmet-async";
 import { SITE_URL, DEFAULT_OG_IMAGE } from "../../config/site";
@@ -37,9 +44,13 @@ export const ProjectDetail = (): JSX.Element => {
   const [loading, setLoading] = useState(true);
   const [startsnap, setStartsnap] = useState<StartSnapProject | null>(null);
   const [creator, setCreator] = useState<UserProfileData | null>(null);
+  const [projectImages, setProjectImages] = useState<ProjectImage[]>([]);
+  const [members, setMembers] = useState<StartSnapMember[]>([]);
   const [vibeLogEntries, setVibeLogEntries] = useState<VibeLog[]>([]);
-  const [feedbackEntries, setFeedbackEntries] = useState<FeedbackEntry[]>([]);
+  const [feedbackEntries, setFeedbackEntries] = useState<FeedbackComment[]>([]);
+  const [feedbackAreaFilter, setFeedbackAreaFilter] = useState<string | null>(null);
   const { user: currentUser } = useAuth();
+  const { reportApiError } = useApiErrorHandler();
   const [currentUserProfile, setCurrentUserProfile] = useState<Pick<UserProfileData, 'username'> | null>(null);
   const [isSupportedByCurrentUser, setIsSupportedByCurrentUser] = useState(false);
   const [currentSupportCount, setCurrentSupportCount] = useState(0);
@@ -48,6 +59,7 @@ export const ProjectDetail = (): JSX.Element => {
   const [projectToDeleteName, setProjectToDeleteName] = useState('');
   const [isDeletingProject, setIsDeletingProject] = useState(false);
   const [isTippingDialogOpen, setIsTippingDialogOpen] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
 
   const VIBE_LOG_PAGE_SIZE = 3; // Number of vibe logs to show per page
   const [visibleVibeLogCount, setVisibleVibeLogCount] = useState(VIBE_LOG_PAGE_SIZE);
@@ -62,18 +74,8 @@ export const ProjectDetail = (): JSX.Element => {
     if (currentUser) {
       const fetchCurrentUserProfile = async () => {
         try {
-          const { data, error } = await supabase
-            .from('profiles')
-            .select('username')
-            .eq('user_id', currentUser.id)
-            .single();
-
-          if (error && error.code !== 'PGRST116') {
-            console.error('Error fetching current user profile for feedback section:', error);
-            setCurrentUserProfile(null);
-            return;
-          }
-          setCurrentUserProfile(data);
+          const profile = await profilesApi.fetchProfileByUserId(currentUser.id);
+          setCurrentUserProfile(profile ? { username: profile.username } : null);
         } catch (error) {
           console.error('Error fetching current user profile:', error);
           setCurrentUserProfile(null);
@@ -102,20 +104,14 @@ export const ProjectDetail = (): JSX.Element => {
       setLoading(true);
 
 
-      const { data: projectData, error: projectError } = await supabase
-        .from('startsnaps')
-        .select('*, support_count, screenshot_urls')
-        .eq('slug', slug)
-        .maybeSingle();
-
-      if (projectError) throw projectError;
+      const projectData = await startsnapsApi.fetchStartSnapBySlug(slug);
       if (!projectData) {
         throw new Error('Project not found');
       }
 
 
 
-      setStartsnap(projectData as StartSnapProject);
+      setStartsnap(projectData);
 
       // Initialize support count
       setCurrentSupportCount(projectData.support_count || 0);
@@ -125,35 +121,28 @@ export const ProjectDetail = (): JSX.Element => {
 
       // Check if current user has supported this project
       if (currentUser) {
-        const { data: supportData } = await supabase
-          .from('project_supporters')
-          .select('*')
-          .eq('startsnap_id', projectId)
-          .eq('user_id', currentUser.id)
-          .maybeSingle();
-
-        setIsSupportedByCurrentUser(!!supportData);
+        setIsSupportedByCurrentUser(await supportersApi.hasUserSupported(projectId, currentUser.id));
       }
 
       // Fetch creator (already uses projectData.user_id, which is fine)
-      const { data: creatorData, error: creatorError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('user_id', projectData.user_id);
-      if (creatorError && creatorError.code !== 'PGRST116') {
+      try {
+        setCreator(await profilesApi.fetchProfileByUserId(projectData.user_id));
+      } catch (creatorError) {
         console.error('Error fetching creator:', creatorError);
-      } else {
-        setCreator(creatorData?.[0] as UserProfileData || null);
+      }
+
+      // Fetch collaborators (pending invitations are only visible to the owner and invitee)
+      await fetchMembers(projectId);
+
+      // Fetch screenshots with their captions and alt text
+      try {
+        setProjectImages(await projectImagesApi.fetchProjectImages(projectId));
+      } catch (imagesError) {
+        console.error('Error fetching project images:', imagesError);
       }
 
       // Fetch vibe logs
-      const { data: vibeLogsData, error: vibeLogsError } = await supabase
-        .from('vibelogs')
-        .select('*')
-        .eq('startsnap_id', projectId)
-        .order('created_at', { ascending: false });
-      if (vibeLogsError) throw vibeLogsError;
-      setVibeLogEntries((vibeLogsData as VibeLog[]) || []);
+      setVibeLogEntries(await vibeLogsApi.fetchVibeLogs(projectId));
       setVisibleVibeLogCount(VIBE_LOG_PAGE_SIZE); // Reset visible count on new data fetch
 
       // REMOVED: await fetchFeedbacks(); // No longer called directly here
@@ -165,8 +154,22 @@ export const ProjectDetail = (): JSX.Element => {
   };
 
   /**
-   * @description Optimized function to fetch feedback entries with their profiles and replies using batched queries.
-   * Eliminates N+1 problem by batching profile lookups instead of making individual queries.
+   * @description Fetches the project's owner, editors and pending invitations.
+   * @async
+   * @param {string} projectId - Project ID
+   * @sideEffects Sets members state
+   */
+  const fetchMembers = async (projectId: string) => {
+    try {
+      setMembers(await membersApi.fetchMembers(projectId));
+    } catch (error) {
+      console.error('Error fetching project members:', error);
+      setMembers([]);
+    }
+  };
+
+  /**
+   * @description Fetches feedback entries with their profiles and replies (batched in the feedback repository).
    * @async
    * @sideEffects Sets feedbackEntries state with complete nested data
    */
@@ -177,78 +180,7 @@ export const ProjectDetail = (): JSX.Element => {
     }
 
     try {
-      // 1. Fetch all feedbacks
-      const { data: feedbackData, error: feedbackError } = await supabase
-        .from('feedbacks')
-        .select('*')
-        .eq('startsnap_id', startsnap.id)
-        .order('created_at', { ascending: true });
-
-      if (feedbackError) throw feedbackError;
-
-      if (!feedbackData || feedbackData.length === 0) {
-        setFeedbackEntries([]);
-        return;
-      }
-
-      // 2. Fetch all feedback replies in one query
-      const feedbackIds = feedbackData.map(f => f.id);
-      const { data: repliesData, error: repliesError } = await supabase
-        .from('feedback_replies')
-        .select('*')
-        .in('parent_feedback_id', feedbackIds)
-        .order('created_at', { ascending: false });
-
-      if (repliesError) {
-        console.error('Error fetching replies:', repliesError);
-        // Continue without replies rather than failing completely
-      }
-
-      // 3. Batch fetch all unique user profiles (feedback authors + reply authors)
-      const feedbackUserIds = feedbackData.map(f => f.user_id);
-      const replyUserIds = repliesData ? repliesData.map(r => r.user_id) : [];
-      const allUserIds = [...new Set([...feedbackUserIds, ...replyUserIds])]; // Remove duplicates
-
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('profiles')
-        .select('user_id, username')
-        .in('user_id', allUserIds);
-
-      if (profilesError) {
-        console.error('Error fetching profiles:', profilesError);
-        // Continue with anonymous profiles rather than failing
-      }
-
-      // 4. Create lookup maps for O(1) profile access
-      const profileMap = new Map();
-      if (profilesData) {
-        profilesData.forEach(profile => {
-          profileMap.set(profile.user_id, { username: profile.username });
-        });
-      }
-
-      // 5. Group replies by feedback ID for O(1) lookup
-      const repliesByFeedbackId = new Map();
-      if (repliesData) {
-        repliesData.forEach(reply => {
-          if (!repliesByFeedbackId.has(reply.parent_feedback_id)) {
-            repliesByFeedbackId.set(reply.parent_feedback_id, []);
-          }
-          repliesByFeedbackId.get(reply.parent_feedback_id).push({
-            ...reply,
-            profile: profileMap.get(reply.user_id) || { username: 'Anonymous' }
-          });
-        });
-      }
-
-      // 6. Combine all data
-      const transformedFeedbacks: FeedbackEntry[] = feedbackData.map(feedback => ({
-        ...feedback,
-        profile: profileMap.get(feedback.user_id) || { username: 'Anonymous' },
-        replies: repliesByFeedbackId.get(feedback.id) || []
-      }));
-
-      setFeedbackEntries(transformedFeedbacks);
+      setFeedbackEntries(await feedbackApi.fetchFeedbackEntries(startsnap.id, currentUser?.id ?? null));
     } catch (error) {
       console.error('Error fetching feedback with batched queries:', error);
       setFeedbackEntries([]);
@@ -269,62 +201,37 @@ export const ProjectDetail = (): JSX.Element => {
     try {
       if (!isSupportedByCurrentUser) {
         // Add support - database trigger will automatically increment count
-        const { error: supportError } = await supabase
-          .from('project_supporters')
-          .insert({ startsnap_id: currentProjectId, user_id: currentUser.id });
-
-        if (supportError) throw supportError;
+        await supportersApi.addSupport(currentProjectId, currentUser.id);
 
         // Update local state
         setIsSupportedByCurrentUser(true);
 
         // Fetch updated support count from database (set by trigger)
-        const { data: updatedProject, error: fetchError } = await supabase
-          .from('startsnaps')
-          .select('support_count')
-          .eq('id', currentProjectId)
-          .single();
-
-        if (fetchError) {
+        try {
+          setCurrentSupportCount(await startsnapsApi.fetchSupportCount(currentProjectId));
+        } catch (fetchError) {
           console.warn('Could not fetch updated support count:', fetchError);
           // Fallback to optimistic update
           setCurrentSupportCount(prev => prev + 1);
-        } else {
-          setCurrentSupportCount(updatedProject.support_count || 0);
         }
       } else {
         // Remove support - database trigger will automatically decrement count
-        const { error: supportError } = await supabase
-          .from('project_supporters')
-          .delete()
-          .eq('startsnap_id', currentProjectId)
-          .eq('user_id', currentUser.id);
-
-        if (supportError) throw supportError;
+        await supportersApi.removeSupport(currentProjectId, currentUser.id);
 
         // Update local state
         setIsSupportedByCurrentUser(false);
 
         // Fetch updated support count from database (set by trigger)
-        const { data: updatedProject, error: fetchError } = await supabase
-          .from('startsnaps')
-          .select('support_count')
-          .eq('id', currentProjectId)
-          .single();
-
-        if (fetchError) {
+        try {
+          setCurrentSupportCount(await startsnapsApi.fetchSupportCount(currentProjectId));
+        } catch (fetchError) {
           console.warn('Could not fetch updated support count:', fetchError);
           // Fallback to optimistic update
           setCurrentSupportCount(prev => Math.max(0, prev - 1));
-        } else {
-          setCurrentSupportCount(updatedProject.support_count || 0);
         }
       }
     } catch (error) {
-      console.error('Error toggling project support:', error);
-      toast.error('Support Update Failed', {
-        description: 'Failed to update project support. Please try again.'
-      });
+      await reportApiError(error, 'Support Update Failed', 'Failed to update project support. Please try again.');
     } finally {
       setIsSupportActionLoading(false);
     }
@@ -352,6 +259,28 @@ export const ProjectDetail = (): JSX.Element => {
     setIsTippingDialogOpen(true);
   };
 
+  /**
+   * @description Publishes a draft or scheduled project right away
+   * @async
+   * @sideEffects Updates the project's status and the local project state
+   */
+  const handlePublishNow = async () => {
+    if (!startsnap) return;
+
+    setIsPublishing(true);
+    try {
+      await startsnapsApi.publishStartSnap(startsnap.id);
+      toast.success('StartSnap Published!', {
+        description: 'Your project is now live on startsnap.fun'
+      });
+      setStartsnap(prev => prev ? { ...prev, status: 'published', publish_at: null, created_at: new Date().toISOString() } : prev);
+    } catch (error) {
+      await reportApiError(error, 'Publish Failed', 'Failed to publish the project. Please try again.');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
   const handleConfirmDelete = async () => {
     if (!startsnap || !startsnap.id) {
       console.error("Project data or ID is missing, cannot delete.");
@@ -366,27 +295,16 @@ export const ProjectDetail = (): JSX.Element => {
     try {
       // With ON DELETE CASCADE set up in the database,
       // only need to delete the main project record.
-      const { error: projectDeleteError } = await supabase
-        .from('startsnaps')
-        .delete()
-        .eq('id', startsnap.id);
-
-      if (projectDeleteError) {
-        // It's good to provide more specific error info if available
-        console.error('Error deleting project:', projectDeleteError);
-        throw new Error(`Error deleting project: ${projectDeleteError.message} (Code: ${projectDeleteError.code})`);
-      }
+      // Its screenshots are queued for removal from storage by a delete trigger.
+      await startsnapsApi.deleteStartSnap(startsnap.id);
 
       toast.success('Project Deleted Successfully!', {
         description: `"${projectToDeleteName}" has been permanently removed.`
       });
       setIsDeleteConfirmOpen(false);
       navigate('/'); // Navigate to profile page after deletion
-    } catch (error: any) {
-      console.error("Error during project deletion process:", error);
-      toast.error('Delete Failed', {
-        description: `Failed to delete project: ${error.message}`
-      });
+    } catch (error) {
+      await reportApiError(error, 'Delete Failed', 'Failed to delete project. Please try again.');
     } finally {
       setIsDeletingProject(false);
     }
@@ -413,8 +331,15 @@ export const ProjectDetail = (): JSX.Element => {
   }
 
   const isOwner = !!(currentUser && currentUser.id === startsnap.user_id);
+  const canEdit = isOwner || members.some(member =>
+    member.user_id === currentUser?.id && member.role === 'editor' && member.accepted_at !== null
+  );
 
   /* ------------------------- SEO META GENERATION ------------------------- */
+  const isPublished = (startsnap.status ?? 'published') === 'published';
+  // Drafts need the fields the form requires before they can go live
+  const canPublishNow = !!(startsnap.description?.trim() && startsnap.category);
+
   const title = startsnap ? `${startsnap.name} | StartSnap` : "StartSnap – Build in Public";
 
   const rawDescription = startsnap?.description ||
@@ -423,9 +348,9 @@ export const ProjectDetail = (): JSX.Element => {
     ? `${rawDescription.slice(0, 157).trimEnd()}…`
     : rawDescription;
 
-  const firstScreenshot = startsnap?.screenshot_urls?.[0] ?? "";
-  const imageUrl = firstScreenshot
-    ? (firstScreenshot.startsWith("http") ? firstScreenshot : `${SITE_URL}${firstScreenshot}`)
+  const coverImage = startsnap ? getProjectCoverUrl(startsnap) : null;
+  const imageUrl = coverImage
+    ? (coverImage.startsWith("http") ? coverImage : `${SITE_URL}${coverImage}`)
     : DEFAULT_OG_IMAGE;
 
   const canonicalUrl = startsnap?.slug
@@ -451,18 +376,55 @@ export const ProjectDetail = (): JSX.Element => {
         <meta name="twitter:title" content={title} />
         <meta name="twitter:description" content={description} />
         <meta name="twitter:image" content={imageUrl} />
+        {(!isPublished || startsnap.hidden_at) && <meta name="robots" content="noindex" />}
       </Helmet>
       {/* Hero Background with Gradient */}
       <div className="w-full bg-startsnap-candlelight">
         <div className="flex flex-col w-full items-center pt-12 pb-8 px-4 md:px-8">
           {/* Project Showcase Zone */}
           <div className="w-full max-w-4xl">
+            {startsnap.hidden_at && (
+              <div className="mb-6 flex items-center gap-3 p-4 rounded-xl border-[3px] border-gray-800 bg-startsnap-white shadow-[3px_3px_0px_#1f2937]">
+                <span className="material-icons text-startsnap-french-rose">visibility_off</span>
+                <p className="font-body text-startsnap-river-bed">
+                  Hidden by the StartSnap admins after a report. Only you, your collaborators and the admins can see
+                  this project.
+                </p>
+              </div>
+            )}
+            {!isPublished && (
+              <div className="mb-6 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between p-4 rounded-xl border-[3px] border-gray-800 bg-startsnap-white shadow-[3px_3px_0px_#1f2937]">
+                <div className="flex items-center gap-3">
+                  <span className="material-icons text-startsnap-french-rose">
+                    {startsnap.status === 'scheduled' ? 'schedule' : 'edit_note'}
+                  </span>
+                  <p className="font-body text-startsnap-river-bed">
+                    {startsnap.status === 'scheduled' && startsnap.publish_at
+                      ? `Scheduled to go live on ${formatPublishAt(startsnap.publish_at)}.`
+                      : 'Draft.'}
+                    {' '}Only you and your collaborators can see this project.
+                  </p>
+                </div>
+                {canEdit && (
+                  canPublishNow ? (
+                    <Button type="button" variant="primary" size="sm" onClick={handlePublishNow} disabled={isPublishing}>
+                      {isPublishing ? 'Publishing...' : 'Publish Now'}
+                    </Button>
+                  ) : (
+                    <Button asChild variant="secondary" size="sm">
+                      <Link to={`/edit/${startsnap.id}`}>Finish Editing</Link>
+                    </Button>
+                  )
+                )}
+              </div>
+            )}
             <Card className="w-full bg-startsnap-white rounded-xl overflow-hidden border-[3px] border-solid border-gray-800 shadow-[5px_5px_0px_#1f2937]">
               <CardContent className="p-0">
                 <ProjectInfoSection
                   startsnap={startsnap}
                   creator={creator}
                   isOwner={isOwner}
+                  canEdit={canEdit}
                   currentUser={currentUser as User | null}
                   isSupportedByCurrentUser={isSupportedByCurrentUser}
                   currentSupportCount={currentSupportCount}
@@ -471,7 +433,20 @@ export const ProjectDetail = (): JSX.Element => {
                   onDeleteProjectRequest={openDeleteConfirmation}
                   onTipCreator={handleTipCreator}
                 />
-                <ScreenshotGallery urls={startsnap.screenshot_urls || []} />
+                <ScreenshotGallery
+                  images={projectImages}
+                  video={startsnap.demo_video_url ? parseVideoUrl(startsnap.demo_video_url) : null}
+                  projectName={startsnap.name}
+                />
+                {canEdit && currentUser && (
+                  <ProjectMembersSection
+                    startsnapId={startsnap.id}
+                    members={members}
+                    isOwner={isOwner}
+                    currentUserId={currentUser.id}
+                    onMembersChange={() => fetchMembers(startsnap.id)}
+                  />
+                )}
               </CardContent>
             </Card>
           </div>
@@ -501,7 +476,7 @@ export const ProjectDetail = (): JSX.Element => {
                 <VibeLogSection
                   startsnapId={startsnap.id}
                   initialVibeLogEntries={vibeLogEntries.slice(0, visibleVibeLogCount)}
-                  isOwner={isOwner}
+                  canEdit={canEdit}
                   projectName={startsnap.name}
                   isHackathonEntry={startsnap.is_hackathon_entry}
                   currentUserId={currentUser?.id}
@@ -529,12 +504,23 @@ export const ProjectDetail = (): JSX.Element => {
                     )}
                   </div>
                 )}
+                <FeedbackScorecard
+                  areas={startsnap.feedback_tags || []}
+                  feedbackEntries={feedbackEntries}
+                  selectedArea={feedbackAreaFilter}
+                  onSelectArea={setFeedbackAreaFilter}
+                />
                 <FeedbackSection
                   startsnapId={startsnap.id}
                   initialFeedbackEntries={feedbackEntries}
                   currentUser={currentUser as User | null}
                   currentUserProfile={currentUserProfile}
                   onFeedbackChange={fetchFeedbacks}
+                  feedbackAreas={startsnap.feedback_tags || []}
+                  areaFilter={feedbackAreaFilter}
+                  onAreaFilterChange={setFeedbackAreaFilter}
+                  isProjectOwner={isOwner}
+                  vibeLogs={vibeLogEntries}
                 />
               </CardContent>
             </Card>
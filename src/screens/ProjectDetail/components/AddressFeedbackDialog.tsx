@@ -0,0 +1,153 @@
+/**
+ * src/screens/ProjectDetail/components/AddressFeedbackDialog.tsx
+ * @description Dialog that lets a project owner mark feedback as addressed, optionally linking the vibe log entry
+ * that addressed it.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '../../../components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../../components/ui/select';
+import { X } from 'lucide-react';
+import { formatDetailedDate } from '../../../lib/utils';
+import type { FeedbackComment } from '../../../types/feedback';
+import type { VibeLog } from '../../../types/vibeLog';
+
+// Select items cannot have an empty value
+const NO_VIBE_LOG = 'none';
+
+/**
+ * @description Props for the AddressFeedbackDialog component.
+ * @param {FeedbackComment | null} feedback - The feedback being marked; the dialog is closed when null.
+ * @param {VibeLog[]} vibeLogs - The project's vibe log entries to choose from.
+ * @param {() => void} onClose - Closes the dialog.
+ * @param {(vibeLogId: string | null) => Promise<void>} onConfirm - Marks the feedback addressed with the chosen entry.
+ * @param {boolean} isSubmitting - Whether the change is being saved.
+ */
+interface AddressFeedbackDialogProps {
+  feedback: FeedbackComment | null;
+  vibeLogs: VibeLog[];
+  onClose: () => void;
+  onConfirm: (vibeLogId: string | null) => Promise<void>;
+  isSubmitting: boolean;
+}
+
+/**
+ * @description Dialog for marking feedback as addressed
+ * @param {AddressFeedbackDialogProps} props - Component props
+ * @returns {JSX.Element | null} Dialog or null if no feedback is selected
+ */
+export const AddressFeedbackDialog: React.FC<AddressFeedbackDialogProps> = ({
+  feedback,
+  vibeLogs,
+  onClose,
+  onConfirm,
+  isSubmitting,
+}) => {
+  const [selectedVibeLogId, setSelectedVibeLogId] = useState<string>(NO_VIBE_LOG);
+
+  useEffect(() => {
+    setSelectedVibeLogId(feedback?.addressed_vibelog_id ?? NO_VIBE_LOG);
+  }, [feedback]);
+
+  if (!feedback) return null;
+
+  // Only entries readers can see are worth linking
+  const publishedVibeLogs = vibeLogs.filter(entry => (entry.status ?? 'published') === 'published');
+
+  /**
+   * @description Handles backdrop click to close dialog
+   * @param {React.MouseEvent} e - Mouse event
+   */
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget && !isSubmitting) {
+      onClose();
+    }
+  };
+
+  /**
+   * @description Handles escape key press to close dialog
+   * @param {React.KeyboardEvent} e - Keyboard event
+   */
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && !isSubmitting) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+    >
+      <div
+        className="bg-startsnap-white border-2 border-startsnap-ebony-clay rounded-xl shadow-[4px_4px_0px_#1f2937] max-w-md w-full animate-in zoom-in-95 duration-200"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="address-feedback-title"
+      >
+        {/* Header Section */}
+        <div className="border-b-2 border-startsnap-ebony-clay p-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-8 h-8 bg-startsnap-mountain-meadow rounded-lg border-2 border-startsnap-ebony-clay flex items-center justify-center shadow-[2px_2px_0px_#1f2937]">
+                <span className="material-icons text-base text-startsnap-ebony-clay">task_alt</span>
+              </div>
+              <h2
+                id="address-feedback-title"
+                className="font-heading text-startsnap-ebony-clay text-xl uppercase tracking-wider"
+              >
+                Mark Addressed
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="w-8 h-8 bg-startsnap-beige border-2 border-startsnap-ebony-clay rounded-lg hover:bg-startsnap-beige/90 active:scale-95 transition-all duration-150 flex items-center justify-center shadow-[2px_2px_0px_#1f2937] hover:shadow-[3px_3px_0px_#1f2937] hover:translate-x-[-1px] hover:translate-y-[-1px]"
+              aria-label="Close dialog"
+            >
+              <X className="h-4 w-4 text-startsnap-ebony-clay" />
+            </button>
+          </div>
+          <p className="text-startsnap-ebony-clay/70 mt-3 font-medium text-sm">
+            Let <strong className="text-startsnap-ebony-clay">{feedback.profile?.username || 'Anonymous'}</strong> and
+            other readers know you acted on this feedback.
+          </p>
+        </div>
+
+        {/* Main Content Section */}
+        <div className="p-6 space-y-6">
+          <div className="startsnap-form-group">
+            <label className="startsnap-form-label">
+              Addressed In <span className="font-normal text-gray-500">(optional)</span>
+            </label>
+            <Select value={selectedVibeLogId} onValueChange={setSelectedVibeLogId}>
+              <SelectTrigger className="startsnap-form-input">
+                <SelectValue placeholder="Select a vibe log entry" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_VIBE_LOG}>No vibe log entry</SelectItem>
+                {publishedVibeLogs.map(entry => (
+                  <SelectItem key={entry.id} value={entry.id}>
+                    {entry.title} · {formatDetailedDate(entry.created_at)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button
+            onClick={() => onConfirm(selectedVibeLogId === NO_VIBE_LOG ? null : selectedVibeLogId)}
+            disabled={isSubmitting}
+            variant="success"
+            size="lg"
+            className="w-full"
+          >
+            {isSubmitting ? 'SAVING...' : 'MARK ADDRESSED'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+/**
+ * src/screens/ProjectDetail/components/FeedbackScorecard.tsx
+ * @description Average rating per feedback area of a project, aggregated from its feedback. Selecting an area
+ * filters the feedback list to entries that rated it.
+ */
+
+import React, { useMemo } from 'react';
+import { RatingInput } from '../../../components/ui/rating-input';
+import { buildFeedbackScorecard } from '../../../lib/feedbackScorecard';
+import type { FeedbackComment } from '../../../types/feedback';
+
+/**
+ * @description Props for the FeedbackScorecard component.
+ * @param {string[]} areas - The project's feedback areas.
+ * @param {FeedbackComment[]} feedbackEntries - The project's feedback with its ratings.
+ * @param {string | null} selectedArea - Area the feedback list is filtered by, if any.
+ * @param {(area: string | null) => void} onSelectArea - Filters the feedback list by an area, or clears the filter.
+ */
+interface FeedbackScorecardProps {
+  areas: string[];
+  feedbackEntries: FeedbackComment[];
+  selectedArea: string | null;
+  onSelectArea: (area: string | null) => void;
+}
+
+/**
+ * @description Scorecard of a project's feedback areas
+ * @param {FeedbackScorecardProps} props - Component props
+ * @returns {JSX.Element | null} The scorecard, or null when the project has no feedback areas
+ */
+export const FeedbackScorecard: React.FC<FeedbackScorecardProps> = ({
+  areas,
+  feedbackEntries,
+  selectedArea,
+  onSelectArea,
+}) => {
+  const scores = useMemo(() => buildFeedbackScorecard(areas, feedbackEntries), [areas, feedbackEntries]);
+
+  if (scores.length === 0) return null;
+
+  return (
+    <div className="p-4 pb-0 md:p-8 md:pb-0">
+      <div className="flex items-center mb-2">
+        <h2 className="font-heading text-startsnap-ebony-clay text-2xl leading-8">
+          Feedback Scorecard
+        </h2>
+        <span className="ml-1 text-startsnap-corn text-2xl material-icons">
+          insights
+        </span>
+      </div>
+      <p className="font-body text-startsnap-pale-sky text-sm mb-4">
+        How the community rates the areas this builder asked about. Select an area to read its feedback.
+      </p>
+      <ul className="grid gap-3 sm:grid-cols-2">
+        {scores.map(score => {
+          const isSelected = selectedArea === score.area;
+          return (
+            <li key={score.area}>
+              <button
+                type="button"
+                onClick={() => onSelectArea(isSelected ? null : score.area)}
+                aria-pressed={isSelected}
+                className={`w-full text-left p-4 rounded-lg border-2 border-gray-800 transition-all duration-150 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-startsnap-french-rose ${
+                  isSelected
+                    ? 'bg-startsnap-candlelight shadow-[3px_3px_0px_#1f2937]'
+                    : 'bg-startsnap-white hover:shadow-[3px_3px_0px_#1f2937] hover:translate-x-[-1px] hover:translate-y-[-1px]'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-ui text-startsnap-ebony-clay text-base truncate">{score.area}</span>
+                  <span className="font-heading text-startsnap-ebony-clay text-lg">
+                    {score.average !== null ? score.average.toFixed(1) : '–'}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between gap-2 mt-1">
+                  <RatingInput value={score.average !== null ? Math.round(score.average) : null} label={score.area} />
+                  <span className="font-body text-startsnap-pale-sky text-xs">
+                    {score.ratingCount === 0
+                      ? 'No ratings yet'
+                      : `${score.ratingCount} ${score.ratingCount === 1 ? 'rating' : 'ratings'}`}
+                  </span>
+                </div>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
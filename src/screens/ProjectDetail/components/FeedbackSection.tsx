@@ -1,42 +1,96 @@
 /**
  * src/screens/ProjectDetail/components/FeedbackSection.tsx
- * @description Component for displaying and managing community feedback and replies for a StartSnap project.
+ * @description Component for displaying and managing community feedback for a StartSnap project: threads of
+ * replies at any depth, collapsible when long, with emoji reactions on every comment and optional ratings of the
+ * project's feedback areas on top-level feedback. The project owner can pin, mark addressed and hide comments.
  */
-import React, { useState, useEffect } from 'react';
-import { supabase } from '../../../lib/supabase';
+import React, { useState, useEffect, useRef } from 'react';
+import { feedbackApi, getApiErrorMessage } from '../../../lib/api';
+import { useApiErrorHandler } from '../../../hooks/useApiErrorHandler';
 import { formatDetailedDate } from '../../../lib/utils';
+import { FEEDBACK_REACTIONS } from '../../../config/reactions';
+import type { FeedbackReactionEmoji } from '../../../config/reactions';
 import { Button } from '../../../components/ui/button';
 import { Card, CardContent } from '../../../components/ui/card';
 import { Textarea } from '../../../components/ui/textarea';
+import { RatingInput } from '../../../components/ui/rating-input';
 import { UserAvatar, getAvatarName } from '../../../components/ui/user-avatar';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '../../../components/ui/dropdown-menu';
-import { MoreHorizontal, MessageSquare, Edit, Trash2 } from 'lucide-react';
+import { MoreHorizontal, MessageSquare, Edit, Trash2, SmilePlus, ChevronDown, ChevronRight } from 'lucide-react';
 import type { User } from '@supabase/supabase-js';
 import type { UserProfileData } from '../../../types/user';
-import type { FeedbackEntry, FeedbackReply } from '../../../types/feedback'; // Import feedback types
-import { Link } from 'react-router-dom';
+import type { FeedbackComment, FeedbackRatings } from '../../../types/feedback'; // Import feedback types
+import type { VibeLog } from '../../../types/vibeLog';
+import { Link, useLocation } from 'react-router-dom';
 import { toast } from "sonner";
 import { ConfirmationDialog } from "../../../components/ui/confirmation-dialog";
+import { AddressFeedbackDialog } from "./AddressFeedbackDialog";
+import { ReportDialog } from "../../../components/ui/report-dialog";
+import type { ReportTarget } from "../../../types/report";
+
+/** Threads with more replies than this start collapsed */
+const COLLAPSE_REPLY_THRESHOLD = 3;
+/** Replies deeper than this are no longer indented further, so deep threads stay readable on small screens */
+const MAX_INDENT_DEPTH = 4;
+
+/**
+ * @description Counts all replies below a comment, at any depth
+ * @param {FeedbackComment} comment - Comment to count replies of
+ * @returns {number} Number of replies in the subtree
+ */
+const countReplies = (comment: FeedbackComment): number => {
+  return comment.replies.reduce((total, reply) => total + 1 + countReplies(reply), 0);
+};
+
+/**
+ * @description Returns the comment trees with one comment replaced
+ * @param {FeedbackComment[]} comments - Comment trees
+ * @param {string} id - ID of the comment to replace
+ * @param {(comment: FeedbackComment) => FeedbackComment} update - Builds the replacement
+ * @returns {FeedbackComment[]} Updated comment trees
+ */
+const updateComment = (
+  comments: FeedbackComment[],
+  id: string,
+  update: (comment: FeedbackComment) => FeedbackComment
+): FeedbackComment[] => {
+  return comments.map(comment =>
+    comment.id === id
+      ? update(comment)
+      : { ...comment, replies: updateComment(comment.replies, id, update) }
+  );
+};
 
 /**
  * @description Props for the FeedbackSection component.
  * @param startsnapId - The ID of the current StartSnap project.
- * @param initialFeedbackEntries - The initial list of feedback entries.
+ * @param initialFeedbackEntries - The initial list of feedback threads.
  * @param currentUser - The currently authenticated Supabase user object, or null.
  * @param currentUserProfile - The profile of the current user (username), or null.
  * @param onFeedbackChange - Callback to refresh feedback data in the parent component.
+ * @param feedbackAreas - The areas the owner wants feedback on (startsnaps.feedback_tags).
+ * @param areaFilter - Area the list is filtered to, showing only feedback that rated it; null shows all feedback.
+ * @param onAreaFilterChange - Changes the area filter.
+ * @param isProjectOwner - Whether the current user owns the project and may moderate its feedback.
+ * @param vibeLogs - The project's vibe log entries, to link feedback to the entry that addressed it.
  */
 interface FeedbackSectionProps {
   startsnapId: string;
-  initialFeedbackEntries: FeedbackEntry[];
+  initialFeedbackEntries: FeedbackComment[];
   currentUser: User | null;
   currentUserProfile: Pick<UserProfileData, 'username'> | null; // Use Pick<UserProfileData, 'username'>
   onFeedbackChange: () => Promise<void>;
+  feedbackAreas: string[];
+  areaFilter: string | null;
+  onAreaFilterChange: (area: string | null) => void;
+  isProjectOwner: boolean;
+  vibeLogs: VibeLog[];
 }
 
 /**
@@ -50,38 +104,106 @@ export const FeedbackSection: React.FC<FeedbackSectionProps> = ({
   currentUser,
   currentUserProfile,
   onFeedbackChange,
+  feedbackAreas,
+  areaFilter,
+  onAreaFilterChange,
+  isProjectOwner,
+  vibeLogs,
 }) => {
-  const [feedbackEntries, setFeedbackEntries] = useState<FeedbackEntry[]>(initialFeedbackEntries);
+  const { handleApiError, reportApiError } = useApiErrorHandler();
+  const [feedbackEntries, setFeedbackEntries] = useState<FeedbackComment[]>(initialFeedbackEntries);
   const [feedbackContent, setFeedbackContent] = useState('');
+  const [feedbackRatings, setFeedbackRatings] = useState<FeedbackRatings>({});
   const [submissionError, setSubmissionError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const [editingFeedback, setEditingFeedback] = useState<FeedbackEntry | null>(null);
-  const [inlineEditFeedbackContent, setInlineEditFeedbackContent] = useState('');
+  const [editingComment, setEditingComment] = useState<FeedbackComment | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [editRatings, setEditRatings] = useState<FeedbackRatings>({});
+  const [editError, setEditError] = useState<string | null>(null);
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
 
-  const [replyingToFeedbackId, setReplyingToFeedbackId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<FeedbackComment | null>(null);
   const [replyContent, setReplyContent] = useState('');
-  const [editingReply, setEditingReply] = useState<FeedbackReply | null>(null);
   const [replySubmitting, setReplySubmitting] = useState(false);
   const [replyError, setReplyError] = useState<string | null>(null);
 
-  // Confirmation dialog states
-  const [deletingFeedbackId, setDeletingFeedbackId] = useState<string | null>(null);
-  const [deletingReplyId, setDeletingReplyId] = useState<string | null>(null);
-  const [isDeletingFeedback, setIsDeletingFeedback] = useState(false);
-  const [isDeletingReply, setIsDeletingReply] = useState(false);
+  // Threads the user opened or closed; the rest follow COLLAPSE_REPLY_THRESHOLD
+  const [expandedOverrides, setExpandedOverrides] = useState<Record<string, boolean>>({});
+  const [pendingReactions, setPendingReactions] = useState<Set<string>>(new Set());
+
+  // Confirmation dialog state
+  const [deletingComment, setDeletingComment] = useState<FeedbackComment | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  // Owner moderation state
+  const [addressingComment, setAddressingComment] = useState<FeedbackComment | null>(null);
+  const [isModerating, setIsModerating] = useState(false);
+
+  // Report dialog state
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+
+  // Deep links from notification emails point at #feedback-<id>
+  const { hash } = useLocation();
+  const [highlightedFeedbackId, setHighlightedFeedbackId] = useState<string | null>(null);
+  const handledHashRef = useRef<string | null>(null); // Reactions update the entries too; scroll only once per link
 
   useEffect(() => {
     setFeedbackEntries(initialFeedbackEntries);
   }, [initialFeedbackEntries]);
 
+  /**
+   * @description Scrolls to and briefly highlights the feedback thread named in the URL hash once it is rendered,
+   * expanding it so the reply the email was about is visible
+   * @sideEffects Scrolls the window, expands the thread and sets highlightedFeedbackId for a few seconds
+   */
+  useEffect(() => {
+    if (!hash.startsWith('#feedback-')) return;
+
+    const feedbackId = hash.slice('#feedback-'.length);
+    if (handledHashRef.current === hash || !feedbackEntries.some(feedback => feedback.id === feedbackId)) return;
+
+    handledHashRef.current = hash;
+    const frame = requestAnimationFrame(() => {
+      document.getElementById(`feedback-${feedbackId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    });
+    setExpandedOverrides(overrides => ({ ...overrides, [feedbackId]: true }));
+    setHighlightedFeedbackId(feedbackId);
+
+    return () => cancelAnimationFrame(frame);
+  }, [hash, feedbackEntries]);
+
+  useEffect(() => {
+    if (!highlightedFeedbackId) return;
+
+    const timeout = setTimeout(() => setHighlightedFeedbackId(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [highlightedFeedbackId]);
+
+  /**
+   * @description Whether the replies below a comment are shown
+   * @param {FeedbackComment} comment - Comment with replies
+   * @returns {boolean} True when expanded
+   */
+  const isExpanded = (comment: FeedbackComment): boolean => {
+    return expandedOverrides[comment.id] ?? countReplies(comment) <= COLLAPSE_REPLY_THRESHOLD;
+  };
+
+  /**
+   * @description Shows or hides the replies below a comment
+   * @param {FeedbackComment} comment - Comment with replies
+   */
+  const toggleExpanded = (comment: FeedbackComment) => {
+    setExpandedOverrides(overrides => ({ ...overrides, [comment.id]: !isExpanded(comment) }));
+  };
+
   /**
    * @description Handles submission of new feedback.
    * @async
-   * @param data - Object containing the feedback content.
-   * @sideEffects Makes a Supabase insert call, then calls onFeedbackChange.
+   * @param data - Object containing the feedback content and the area ratings.
+   * @sideEffects Creates the entry through the feedback repository, then calls onFeedbackChange.
    */
-  const handleFeedbackSubmit = async (data: { content: string }) => {
+  const handleFeedbackSubmit = async (data: { content: string; ratings: FeedbackRatings }) => {
     if (!currentUser) {
       toast.error('Authentication Required', {
         description: 'You need to be logged in to submit feedback.'
@@ -91,139 +213,130 @@ export const FeedbackSection: React.FC<FeedbackSectionProps> = ({
     if (!startsnapId) return;
 
     try {
-      const { error } = await supabase
-        .from('feedbacks')
-        .insert({
-          startsnap_id: startsnapId,
-          user_id: currentUser.id,
-          content: data.content,
-        });
-      if (error) throw error;
+      await feedbackApi.createFeedback(startsnapId, currentUser.id, data.content, data.ratings);
       toast.success('Feedback Submitted!', {
         description: 'Thank you for your feedback on this project.'
       });
       await onFeedbackChange();
       setFeedbackContent(''); // Clear main submission form
+      setFeedbackRatings({});
       setSubmissionError(null);
     } catch (error) {
-      console.error('Error submitting feedback:', error);
       setSubmissionError('Failed to submit feedback. Please try again.');
-      toast.error('Submission Failed', {
-        description: 'Failed to submit feedback. Please try again.'
-      });
+      await reportApiError(error, 'Submission Failed', 'Failed to submit feedback. Please try again.');
       // Re-throw to allow caller to handle UI updates if needed
       throw error;
     }
   };
 
   /**
-   * @description Initiates editing of a feedback entry.
-   * @param {FeedbackEntry} feedback - The feedback entry to edit.
+   * @description Initiates inline editing of a feedback entry or reply.
+   * @param {FeedbackComment} comment - The comment to edit.
    */
-  const handleEditFeedback = (feedback: FeedbackEntry) => {
-    setEditingFeedback(feedback);
-    setInlineEditFeedbackContent(feedback.content);
-    // Close reply form if it was open for this feedback
-    if (replyingToFeedbackId === feedback.id) {
-        handleCancelReply();
-    }
+  const handleEditComment = (comment: FeedbackComment) => {
+    handleCancelReply();
+    setEditingComment(comment);
+    setEditContent(comment.content);
+    setEditRatings(comment.ratings);
+    setEditError(null);
   };
 
   /**
-   * @description Handles updating an existing feedback entry.
+   * @description Cancels the current inline edit.
+   */
+  const handleCancelEdit = () => {
+    setEditingComment(null);
+    setEditContent('');
+    setEditRatings({});
+    setEditError(null);
+  };
+
+  /**
+   * @description Saves the inline edit of a feedback entry or reply.
    * @async
-   * @sideEffects Makes a Supabase update call, then calls onFeedbackChange.
+   * @sideEffects Saves the changes through the feedback repository, then calls onFeedbackChange.
    */
-  const handleUpdateFeedback = async () => {
-    if (!editingFeedback || !currentUser) return;
-    if (!inlineEditFeedbackContent.trim()) {
-      toast.error('Missing Content', {
-        description: 'Feedback content cannot be empty.'
-      });
+  const handleUpdateComment = async () => {
+    if (!editingComment || !currentUser) return;
+    if (!editContent.trim()) {
+      setEditError(editingComment.kind === 'feedback' ? 'Feedback content cannot be empty.' : 'Please enter a reply.');
       return;
     }
-    setIsSubmitting(true);
+    setIsSavingEdit(true);
+    setEditError(null);
     try {
-      const { error } = await supabase
-        .from('feedbacks')
-        .update({
-          content: inlineEditFeedbackContent,
-          updated_at: new Date(),
-        })
-        .eq('id', editingFeedback.id);
-      if (error) throw error;
-      toast.success('Feedback Updated!', {
-        description: 'Your changes have been saved successfully.'
-      });
+      if (editingComment.kind === 'feedback') {
+        await feedbackApi.updateFeedback(editingComment.id, editContent, currentAreaRatings(editRatings));
+        toast.success('Feedback Updated!', {
+          description: 'Your changes have been saved successfully.'
+        });
+      } else {
+        await feedbackApi.updateReply(editingComment.id, editContent);
+      }
       await onFeedbackChange();
-      setEditingFeedback(null);
-      setInlineEditFeedbackContent('');
+      handleCancelEdit();
     } catch (error) {
-      console.error('Error updating feedback:', error);
-      toast.error('Update Failed', {
-        description: 'Failed to update feedback. Please try again.'
-      });
+      console.error('Error updating comment:', error);
+      if (!(await handleApiError(error, 'FeedbackSection.updateComment'))) {
+        setEditError(getApiErrorMessage(error, 'Failed to save your changes. Please try again.'));
+      }
     } finally {
-      setIsSubmitting(false);
+      setIsSavingEdit(false);
     }
   };
 
   /**
-   * @description Shows confirmation dialog for feedback deletion
-   * @param {string} feedbackId - The ID of the feedback to delete
-   */
-  const handleDeleteFeedback = (feedbackId: string) => {
-    setDeletingFeedbackId(feedbackId);
-  };
-
-  /**
-   * @description Confirms and executes feedback deletion
+   * @description Confirms and executes deletion of a feedback entry or reply, with everything below it
    * @async
-   * @sideEffects Makes a Supabase delete call, then calls onFeedbackChange
+   * @sideEffects Deletes through the feedback repository, then calls onFeedbackChange
    */
-  const confirmDeleteFeedback = async () => {
-    if (!deletingFeedbackId) return;
+  const confirmDeleteComment = async () => {
+    if (!deletingComment) return;
 
-    setIsDeletingFeedback(true);
+    setIsDeleting(true);
     try {
-      // Also delete associated replies first (or set up cascade delete in DB)
-      const { error: repliesError } = await supabase
-          .from('feedback_replies')
-          .delete()
-          .eq('parent_feedback_id', deletingFeedbackId);
-      if (repliesError) {
-          console.error('Error deleting associated replies:', repliesError);
-          // Decide if you want to proceed or alert user
+      if (deletingComment.kind === 'feedback') {
+        await feedbackApi.deleteFeedback(deletingComment.id);
+        toast.success('Feedback Deleted', {
+          description: 'The feedback has been permanently removed.'
+        });
+      } else {
+        await feedbackApi.deleteReply(deletingComment.id);
+        toast.success('Reply Deleted', {
+          description: 'The reply has been permanently removed.'
+        });
       }
-
-      const { error } = await supabase
-        .from('feedbacks')
-        .delete()
-        .eq('id', deletingFeedbackId);
-      if (error) throw error;
-
-      toast.success('Feedback Deleted', {
-        description: 'The feedback has been permanently removed.'
-      });
       await onFeedbackChange();
-      setDeletingFeedbackId(null);
+      setDeletingComment(null);
     } catch (error) {
-      console.error('Error deleting feedback:', error);
-      toast.error('Delete Failed', {
-        description: 'Failed to delete feedback. Please try again.'
-      });
+      await reportApiError(error, 'Delete Failed', 'Failed to delete. Please try again.');
     } finally {
-      setIsDeletingFeedback(false);
+      setIsDeleting(false);
     }
   };
 
   /**
-   * @description Handles submission of a new reply to feedback.
+   * @description Opens the reply form below a comment, or closes it when it is already open there.
+   * @param {FeedbackComment} comment - The feedback entry or reply to answer.
+   */
+  const handleToggleReply = (comment: FeedbackComment) => {
+    if (replyingTo?.id === comment.id) {
+      handleCancelReply();
+      return;
+    }
+    handleCancelEdit();
+    setReplyingTo(comment);
+    setReplyContent('');
+    setReplyError(null);
+  };
+
+  /**
+   * @description Handles submission of a new reply to a feedback entry or reply.
    * @async
-   * @sideEffects Makes a Supabase insert call, then calls onFeedbackChange.
+   * @sideEffects Creates the entry through the feedback repository, then calls onFeedbackChange.
    */
   const handleReplySubmit = async () => {
-    if (!currentUser || !replyingToFeedbackId) {
+    if (!currentUser || !replyingTo) {
       setReplyError('You need to be logged in to reply.');
       return;
     }
@@ -234,125 +347,584 @@ export const FeedbackSection: React.FC<FeedbackSectionProps> = ({
     setReplySubmitting(true);
     setReplyError(null);
     try {
-      const { error } = await supabase
-        .from('feedback_replies')
-        .insert({
-          parent_feedback_id: replyingToFeedbackId,
-          user_id: currentUser.id,
-          content: replyContent,
-        });
-      if (error) throw error;
+      await feedbackApi.createReply(
+        replyingTo.feedback_id,
+        currentUser.id,
+        replyContent,
+        replyingTo.kind === 'reply' ? replyingTo.id : null
+      );
+      // Make sure the new reply is visible even when the thread was collapsed
+      setExpandedOverrides(overrides => ({ ...overrides, [replyingTo.id]: true }));
       await onFeedbackChange();
-      setReplyContent('');
-      // Keep replyingToFeedbackId to show replies, or set to null to close form
-      // For now, let's keep it open to see the new reply.
-      // If you want to close the reply box after submission: setReplyingToFeedbackId(null);
+      handleCancelReply();
     } catch (error) {
       console.error('Error submitting reply:', error);
-      setReplyError('Failed to submit reply. Please try again.');
+      if (!(await handleApiError(error, 'FeedbackSection.submitReply'))) {
+        setReplyError(getApiErrorMessage(error, 'Failed to submit reply. Please try again.'));
+      }
     } finally {
       setReplySubmitting(false);
     }
   };
 
   /**
-   * @description Initiates editing of a feedback reply.
-   * @param {FeedbackReply} reply - The reply to edit.
+   * @description Cancels the current reply.
    */
-  const handleEditReply = (reply: FeedbackReply) => {
-    setEditingFeedback(null); // Ensure main feedback edit is closed
-    setEditingReply(reply);
-    setReplyingToFeedbackId(reply.parent_feedback_id); // Keep reply area open
-    setReplyContent(reply.content);
-    setReplyError(null); // Clear any previous errors
+  const handleCancelReply = () => {
+    setReplyingTo(null);
+    setReplyContent('');
+    setReplyError(null);
   };
 
   /**
-   * @description Cancels the current inline reply edit action.
+   * @description Adds or removes the current user's reaction, updating the counts right away
+   * @async
+   * @param {FeedbackComment} comment - Comment reacted to
+   * @param {FeedbackReactionEmoji} emoji - The reaction
+   * @sideEffects Writes through the feedback repository; refetches feedback when that fails
    */
-  const handleCancelEditReply = () => {
-    setEditingReply(null);
-    setReplyContent(''); // Clear content for safety, new reply form will re-init if opened
-    setReplyError(null);
-  };
-
-  const handleUpdateReply = async () => {
-    if (!currentUser || !editingReply) return;
-    if (!replyContent.trim()) {
-      setReplyError('Please enter a reply.');
+  const handleToggleReaction = async (comment: FeedbackComment, emoji: FeedbackReactionEmoji) => {
+    if (!currentUser) {
+      toast.error('Authentication Required', {
+        description: 'You need to be logged in to react to feedback.'
+      });
       return;
     }
-    setReplySubmitting(true);
-    setReplyError(null);
+
+    const pendingKey = `${comment.id}:${emoji}`;
+    if (pendingReactions.has(pendingKey)) return;
+
+    const reacted = comment.reactions.some(reaction => reaction.emoji === emoji && reaction.reacted);
+
+    setPendingReactions(pending => new Set(pending).add(pendingKey));
+    setFeedbackEntries(entries => updateComment(entries, comment.id, current => {
+      const others = current.reactions.filter(reaction => reaction.emoji !== emoji);
+      const existing = current.reactions.find(reaction => reaction.emoji === emoji);
+      const count = (existing?.count ?? 0) + (reacted ? -1 : 1);
+      const reactions = count > 0 ? [...others, { emoji, count, reacted: !reacted }] : others;
+      const order = FEEDBACK_REACTIONS.map(reaction => reaction.emoji as FeedbackReactionEmoji);
+      return {
+        ...current,
+        reactions: reactions.sort((a, b) => order.indexOf(a.emoji) - order.indexOf(b.emoji)),
+      };
+    }));
+
     try {
-      const { error } = await supabase
-        .from('feedback_replies')
-        .update({
-          content: replyContent,
-          updated_at: new Date(),
-        })
-        .eq('id', editingReply.id);
-      if (error) throw error;
-      await onFeedbackChange(); // This should re-fetch and re-render
-      setEditingReply(null); // Exit inline edit mode
-      setReplyContent(''); // Clear the reply content to prevent showing old content in new reply form
+      if (reacted) {
+        await feedbackApi.removeReaction(comment, currentUser.id, emoji);
+      } else {
+        await feedbackApi.addReaction(comment, currentUser.id, emoji);
+      }
     } catch (error) {
-      console.error('Error updating reply:', error);
-      setReplyError('Failed to update reply. Please try again.');
+      await reportApiError(error, 'Reaction Failed', 'Failed to save your reaction. Please try again.');
+      await onFeedbackChange();
     } finally {
-      setReplySubmitting(false);
+      setPendingReactions(pending => {
+        const next = new Set(pending);
+        next.delete(pendingKey);
+        return next;
+      });
     }
   };
 
   /**
-   * @description Shows confirmation dialog for reply deletion
-   * @param {string} replyId - The ID of the reply to delete
-   */
-  const handleDeleteReply = (replyId: string) => {
-    setDeletingReplyId(replyId);
-  };
-
-  /**
-   * @description Confirms and executes reply deletion
+   * @description Runs an owner moderation action, then refreshes the feedback
    * @async
-   * @sideEffects Makes a Supabase delete call, then calls onFeedbackChange
+   * @param {() => Promise<void>} action - The moderation call
+   * @param {string} successTitle - Title of the success toast
+   * @returns {Promise<boolean>} True when the action succeeded
+   * @sideEffects Writes through the feedback repository, then calls onFeedbackChange
    */
-  const confirmDeleteReply = async () => {
-    if (!deletingReplyId) return;
-
-    setIsDeletingReply(true);
+  const runModeration = async (action: () => Promise<void>, successTitle: string): Promise<boolean> => {
+    setIsModerating(true);
     try {
-      const { error } = await supabase
-        .from('feedback_replies')
-        .delete()
-        .eq('id', deletingReplyId);
-      if (error) throw error;
-
-      toast.success('Reply Deleted', {
-        description: 'The reply has been permanently removed.'
-      });
+      await action();
+      toast.success(successTitle);
       await onFeedbackChange();
-      setDeletingReplyId(null);
+      return true;
     } catch (error) {
-      console.error('Error deleting reply:', error);
-      toast.error('Delete Failed', {
-        description: 'Failed to delete reply. Please try again.'
-      });
+      await reportApiError(error, 'Moderation Failed', 'Failed to update this comment. Please try again.');
+      return false;
     } finally {
-      setIsDeletingReply(false);
+      setIsModerating(false);
     }
   };
 
   /**
-   * @description Cancels the current reply or edit reply action.
+   * @description Pins a feedback entry to the top of the list, or unpins it
+   * @param {FeedbackComment} comment - Feedback entry
    */
-  const handleCancelReply = () => {
-    setReplyingToFeedbackId(null);
-    setReplyContent('');
-    setEditingReply(null);
-    setReplyError(null);
+  const handleTogglePinned = (comment: FeedbackComment) => {
+    runModeration(
+      () => feedbackApi.setFeedbackPinned(comment.id, !comment.pinned_at),
+      comment.pinned_at ? 'Feedback Unpinned' : 'Feedback Pinned'
+    );
+  };
+
+  /**
+   * @description Hides a comment from other readers, or shows it again
+   * @param {FeedbackComment} comment - Feedback entry or reply
+   */
+  const handleToggleHidden = (comment: FeedbackComment) => {
+    runModeration(
+      () => feedbackApi.setCommentHidden(comment, !comment.hidden_at),
+      comment.hidden_at ? 'Comment Visible Again' : 'Comment Hidden'
+    );
+  };
+
+  /**
+   * @description Clears the addressed mark of a feedback entry
+   * @param {FeedbackComment} comment - Feedback entry
+   */
+  const handleClearAddressed = (comment: FeedbackComment) => {
+    runModeration(() => feedbackApi.setFeedbackAddressed(comment.id, false), 'Marked Not Addressed');
+  };
+
+  /**
+   * @description Marks the feedback chosen in the dialog as addressed
+   * @async
+   * @param {string | null} vibeLogId - Vibe log entry that addressed it, if any
+   */
+  const confirmAddressed = async (vibeLogId: string | null) => {
+    if (!addressingComment) return;
+
+    const succeeded = await runModeration(
+      () => feedbackApi.setFeedbackAddressed(addressingComment.id, true, vibeLogId),
+      'Feedback Addressed'
+    );
+    if (succeeded) setAddressingComment(null);
+  };
+
+  /**
+   * @description Keeps only ratings of areas the project still lists, so edits never resubmit removed areas
+   * @param {FeedbackRatings} ratings - Ratings of a feedback entry
+   * @returns {FeedbackRatings} Ratings of current feedback areas
+   */
+  const currentAreaRatings = (ratings: FeedbackRatings): FeedbackRatings => {
+    return Object.fromEntries(feedbackAreas.filter(area => ratings[area]).map(area => [area, ratings[area]]));
+  };
+
+  /**
+   * @description Renders a rating input per feedback area of the project
+   * @param {FeedbackRatings} ratings - Ratings entered so far
+   * @param {(ratings: FeedbackRatings) => void} onChange - Receives the updated ratings
+   * @param {boolean} disabled - Whether the inputs are disabled
+   * @returns {JSX.Element | null} The rating fields, or null when the project has no feedback areas
+   */
+  const renderRatingFields = (
+    ratings: FeedbackRatings,
+    onChange: (ratings: FeedbackRatings) => void,
+    disabled: boolean
+  ): JSX.Element | null => {
+    if (feedbackAreas.length === 0) return null;
+
+    return (
+      <fieldset className="mb-3" disabled={disabled}>
+        <legend className="font-body text-startsnap-river-bed text-sm mb-2">
+          Rate the areas the builder asked about <span className="text-startsnap-pale-sky">(optional)</span>
+        </legend>
+        <div className="grid gap-x-6 gap-y-1 sm:grid-cols-2">
+          {feedbackAreas.map(area => (
+            <div key={area} className="flex items-center justify-between gap-3">
+              <span className="font-ui text-startsnap-oxford-blue text-sm truncate">{area}</span>
+              <RatingInput
+                value={ratings[area] ?? null}
+                label={area}
+                disabled={disabled}
+                onChange={(value) => {
+                  const { [area]: _removed, ...others } = ratings;
+                  onChange(value === null ? others : { ...others, [area]: value });
+                }}
+              />
+            </div>
+          ))}
+        </div>
+      </fieldset>
+    );
+  };
+
+  /**
+   * @description Renders a comment with its reactions, its reply form and, recursively, its replies
+   * @param {FeedbackComment} comment - Feedback entry or reply
+   * @param {number} depth - Nesting depth; 0 for feedback
+   * @returns {JSX.Element} The comment and its thread
+   */
+  const renderComment = (comment: FeedbackComment, depth: number): JSX.Element => {
+    const isFeedback = comment.kind === 'feedback';
+    const isEditing = editingComment?.id === comment.id;
+    const replyCount = countReplies(comment);
+    const expanded = isExpanded(comment);
+    const username = comment.profile?.username || 'Anonymous';
+    const avatarSize = isFeedback ? 40 : 32;
+    const avatarClass = isFeedback ? 'w-10 h-10' : 'w-8 h-8';
+    const isAuthor = !!currentUser && currentUser.id === comment.user_id;
+    const canReport = !!currentUser && !isAuthor;
+    const addressedVibeLog = comment.addressed_vibelog_id
+      ? vibeLogs.find(entry => entry.id === comment.addressed_vibelog_id)
+      : undefined;
+
+    const body = (
+      <div className="flex items-start justify-between">
+        <div className="flex items-start flex-1 min-w-0">
+          {/* AUTHOR AVATAR LINK */}
+          {username !== 'Anonymous' ? (
+            <Link to={`/profiles/${username}`} className={`${avatarClass} flex-shrink-0 hover:opacity-80 transition-opacity duration-150 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-startsnap-french-rose rounded-full`}>
+              <UserAvatar
+                name={getAvatarName(null, username)}
+                size={avatarSize}
+                className="w-full h-full"
+              />
+            </Link>
+          ) : (
+            <div className={`${avatarClass} flex-shrink-0`}>
+              <UserAvatar
+                name={getAvatarName(null, username)}
+                size={avatarSize}
+                className="w-full h-full"
+              />
+            </div>
+          )}
+          <div className={`${isFeedback ? 'ml-4' : 'ml-3'} flex-1 min-w-0`}>
+            <div className="flex items-center gap-2">
+              <p className={`font-ui text-startsnap-oxford-blue ${isFeedback ? 'text-base leading-6' : 'text-sm leading-5'}`}>
+                {username}
+              </p>
+              <p className="font-body text-startsnap-pale-sky text-xs leading-4">
+                {formatDetailedDate(comment.created_at)}{isEditing ? ' (Editing)' : ''}
+              </p>
+            </div>
+            {(comment.pinned_at || comment.addressed_at || comment.hidden_at) && (
+              <div className="flex flex-wrap items-center gap-2 mt-1">
+                {comment.pinned_at && (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border border-gray-800 bg-startsnap-candlelight text-xs font-ui text-startsnap-ebony-clay">
+                    <span className="material-icons text-sm">push_pin</span>
+                    Pinned
+                  </span>
+                )}
+                {comment.addressed_at && (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border border-startsnap-mountain-meadow bg-startsnap-mountain-meadow/10 text-xs font-ui text-startsnap-ebony-clay">
+                    <span className="material-icons text-sm text-startsnap-mountain-meadow">task_alt</span>
+                    Addressed
+                    {addressedVibeLog && (
+                      <>
+                        {' in '}
+                        <a
+                          href={`#vibelog-${addressedVibeLog.id}`}
+                          className="underline hover:text-startsnap-french-rose"
+                        >
+                          {addressedVibeLog.title}
+                        </a>
+                      </>
+                    )}
+                  </span>
+                )}
+                {comment.hidden_at && (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border border-gray-400 bg-gray-100 text-xs font-ui text-gray-600">
+                    <span className="material-icons text-sm">visibility_off</span>
+                    Hidden · only {isProjectOwner && isAuthor ? 'you' : isProjectOwner ? 'you and the author' : 'you and the project owner'} can see this
+                  </span>
+                )}
+              </div>
+            )}
+            {isEditing ? (
+              <div className="mt-2">
+                {isFeedback && renderRatingFields(editRatings, setEditRatings, isSavingEdit)}
+                <Textarea
+                  placeholder={isFeedback ? 'Edit your feedback...' : 'Edit your reply...'}
+                  className={isFeedback ? 'startsnap-form-textarea' : 'startsnap-reply-textarea'}
+                  value={editContent}
+                  onChange={(e) => {
+                    setEditContent(e.target.value);
+                    setEditError(null);
+                  }}
+                  disabled={isSavingEdit}
+                />
+                {editError && (
+                  <p className="text-red-500 text-sm mb-2">{editError}</p>
+                )}
+                <div className="startsnap-form-actions">
+                  <Button variant="secondary" onClick={handleCancelEdit} disabled={isSavingEdit}>
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="primary"
+                    onClick={handleUpdateComment}
+                    disabled={!editContent.trim() || isSavingEdit}
+                  >
+                    {isSavingEdit ? 'Saving...' : 'Save Changes'}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <>
+                {isFeedback && Object.keys(currentAreaRatings(comment.ratings)).length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {Object.entries(currentAreaRatings(comment.ratings)).map(([area, rating]) => (
+                      <span
+                        key={area}
+                        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border border-gray-800 bg-startsnap-athens-gray text-xs font-ui text-startsnap-ebony-clay"
+                      >
+                        {area}
+                        <RatingInput value={rating} label={area} />
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <p className={`font-body text-startsnap-river-bed text-sm leading-5 whitespace-pre-line break-words ${isFeedback ? 'mt-2' : 'mt-1'} ${comment.hidden_at ? 'opacity-60' : ''}`}>
+                  {comment.content}
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+        {(isAuthor || isProjectOwner || canReport) && !isEditing && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" className="h-8 w-8 p-0" disabled={isModerating}>
+                <span className="sr-only">Open menu</span>
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {isAuthor && (
+                <>
+                  <DropdownMenuItem
+                    onClick={() => handleEditComment(comment)}
+                    className="text-startsnap-oxford-blue hover:bg-startsnap-french-rose/10"
+                  >
+                    <Edit className="mr-2 h-4 w-4" />
+                    Edit
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => setDeletingComment(comment)}
+                    className="text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete
+                  </DropdownMenuItem>
+                </>
+              )}
+              {isAuthor && isProjectOwner && <DropdownMenuSeparator />}
+              {isProjectOwner && isFeedback && (
+                <>
+                  <DropdownMenuItem
+                    onClick={() => handleTogglePinned(comment)}
+                    className="text-startsnap-oxford-blue hover:bg-startsnap-french-rose/10"
+                  >
+                    <span className="material-icons mr-2 text-base">push_pin</span>
+                    {comment.pinned_at ? 'Unpin' : 'Pin to Top'}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => comment.addressed_at ? handleClearAddressed(comment) : setAddressingComment(comment)}
+                    className="text-startsnap-oxford-blue hover:bg-startsnap-french-rose/10"
+                  >
+                    <span className="material-icons mr-2 text-base">task_alt</span>
+                    {comment.addressed_at ? 'Mark Not Addressed' : 'Mark Addressed'}
+                  </DropdownMenuItem>
+                </>
+              )}
+              {isProjectOwner && (
+                <DropdownMenuItem
+                  onClick={() => handleToggleHidden(comment)}
+                  className="text-startsnap-oxford-blue hover:bg-startsnap-french-rose/10"
+                >
+                  <span className="material-icons mr-2 text-base">
+                    {comment.hidden_at ? 'visibility' : 'visibility_off'}
+                  </span>
+                  {comment.hidden_at ? 'Unhide' : 'Hide'}
+                </DropdownMenuItem>
+              )}
+              {canReport && (
+                <>
+                  {isProjectOwner && <DropdownMenuSeparator />}
+                  <DropdownMenuItem
+                    onClick={() => setReportTarget({
+                      type: isFeedback ? 'feedback' : 'feedback_reply',
+                      id: comment.id,
+                      label: `${isFeedback ? 'feedback' : 'a reply'} by ${username}`,
+                    })}
+                    className="text-red-600 hover:bg-red-50"
+                  >
+                    <span className="material-icons mr-2 text-base">outlined_flag</span>
+                    Report
+                  </DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    );
+
+    const actions = !isEditing && (
+      <div className={`mt-3 flex flex-wrap items-center gap-2 ${isFeedback ? 'md:ml-14' : 'ml-11'}`}>
+        {/* Reaction counts; clicking one toggles the current user's reaction */}
+        {comment.reactions.map(reaction => (
+          <button
+            key={reaction.emoji}
+            type="button"
+            onClick={() => handleToggleReaction(comment, reaction.emoji)}
+            disabled={!currentUser}
+            className={`flex items-center gap-1 px-2 py-0.5 rounded-full border text-sm transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-startsnap-french-rose ${
+              reaction.reacted
+                ? 'bg-startsnap-french-rose/10 border-startsnap-french-rose text-startsnap-french-rose'
+                : 'bg-transparent border-gray-300 text-gray-600 hover:bg-gray-100'
+            } disabled:cursor-default`}
+            aria-pressed={reaction.reacted}
+            aria-label={`${FEEDBACK_REACTIONS.find(option => option.emoji === reaction.emoji)?.label}: ${reaction.count}`}
+          >
+            <span aria-hidden="true">{reaction.emoji}</span>
+            <span>{reaction.count}</span>
+          </button>
+        ))}
+        {currentUser && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                type="button"
+                className="flex items-center text-gray-600 hover:text-startsnap-french-rose p-1 rounded-md hover:bg-gray-100 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-startsnap-french-rose"
+                aria-label={`React to ${isFeedback ? 'feedback' : 'reply'} from ${username}`}
+              >
+                <SmilePlus size={16} />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="flex gap-1 p-1">
+              {FEEDBACK_REACTIONS.map(option => (
+                <DropdownMenuItem
+                  key={option.emoji}
+                  onClick={() => handleToggleReaction(comment, option.emoji)}
+                  className="text-lg px-2 cursor-pointer"
+                  aria-label={option.label}
+                >
+                  {option.emoji}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        {currentUser && (
+          <button
+            type="button"
+            onClick={() => handleToggleReply(comment)}
+            className="flex items-center gap-1 text-sm text-gray-600 hover:text-startsnap-french-rose cursor-pointer p-1 rounded-md hover:bg-gray-100 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-startsnap-french-rose"
+            aria-label={`Reply to ${isFeedback ? 'feedback' : 'reply'} from ${username}`}
+          >
+            <MessageSquare size={16} />
+            <span>{isFeedback ? comment.replies.length : 'Reply'}</span>
+          </button>
+        )}
+        {replyCount > 0 && (
+          <button
+            type="button"
+            onClick={() => toggleExpanded(comment)}
+            className="flex items-center gap-1 text-sm text-gray-600 hover:text-startsnap-french-rose cursor-pointer p-1 rounded-md hover:bg-gray-100 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-startsnap-french-rose"
+            aria-expanded={expanded}
+          >
+            {expanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+            <span>
+              {expanded ? 'Hide replies' : `Show ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}`}
+            </span>
+          </button>
+        )}
+      </div>
+    );
+
+    const thread = (replyingTo?.id === comment.id || (expanded && comment.replies.length > 0)) && (
+      <div className={`${depth < MAX_INDENT_DEPTH ? 'ml-8 lg:ml-12' : ''} my-4 relative`}>
+        {depth < MAX_INDENT_DEPTH && (
+          <div className="absolute left-[-20px] top-0 bottom-0 w-0.5 bg-gray-300 lg:left-[-28px]"></div>
+        )}
+
+        {/* Form for ADDING a NEW reply to this comment */}
+        {currentUser && replyingTo?.id === comment.id && (
+          <div className={`pb-3 mb-3 ${expanded && comment.replies.length > 0 ? 'border-b border-gray-200' : ''}`}>
+            <div className="flex items-start gap-3 p-0 bg-transparent md:p-3 md:bg-gray-50 md:rounded-lg md:border md:border-gray-200">
+              <div className="w-8 h-8 flex-shrink-0">
+                <UserAvatar
+                  name={getAvatarName(currentUser, currentUserProfile?.username)}
+                  size={32}
+                  className="w-full h-full"
+                />
+              </div>
+              <div className="flex-1">
+                <Textarea
+                  placeholder={isFeedback ? 'Write your reply...' : `Reply to ${username}...`}
+                  className="startsnap-reply-textarea"
+                  value={replyContent}
+                  onChange={(e) => {
+                    setReplyContent(e.target.value);
+                    setReplyError(null);
+                  }}
+                  disabled={replySubmitting}
+                />
+                {replyError && (
+                  <p className="text-red-500 text-sm mb-2">{replyError}</p>
+                )}
+                <div className="startsnap-form-actions">
+                  <Button variant="secondary" onClick={handleCancelReply} disabled={replySubmitting}>
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="primary"
+                    onClick={handleReplySubmit}
+                    disabled={replySubmitting || !replyContent.trim()}
+                  >
+                    {replySubmitting ? 'Replying...' : 'Reply'}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Replies to this comment */}
+        {expanded && comment.replies.map((reply, replyIndex) => (
+          <div key={reply.id} className={`pt-3 ${replyIndex > 0 ? 'mt-3 border-t border-gray-200' : ''}`}>
+            {renderComment(reply, depth + 1)}
+          </div>
+        ))}
+      </div>
+    );
+
+    if (!isFeedback) {
+      return (
+        <div id={`reply-${comment.id}`}>
+          <div className={isEditing ? 'p-0 md:p-3 md:bg-gray-100 md:rounded-lg md:border-2 md:border-gray-800' : ''}>
+            {body}
+          </div>
+          {actions}
+          {thread}
+        </div>
+      );
+    }
+
+    return (
+      <div
+        key={comment.id}
+        id={`feedback-${comment.id}`}
+        className={`mb-4 md:mb-6 scroll-mt-32 rounded-lg transition-shadow duration-500 ${
+          highlightedFeedbackId === comment.id ? 'ring-4 ring-startsnap-french-rose/40' : ''
+        }`}
+      >
+        <Card
+          className={isEditing
+            ? 'startsnap-form-card'
+            : 'bg-transparent border-0 shadow-none rounded-none p-0 md:bg-startsnap-white md:rounded-xl md:overflow-hidden md:border-2 md:border-solid md:border-gray-800 md:shadow-[3px_3px_0px_#1f2937]'}
+        >
+          <CardContent className={isEditing ? 'p-0' : 'p-0 md:p-5'}>
+            {body}
+            {actions}
+          </CardContent>
+        </Card>
+        {thread}
+      </div>
+    );
   };
 
+  const visibleFeedbackEntries = areaFilter
+    ? feedbackEntries.filter(feedback => feedback.ratings[areaFilter])
+    : feedbackEntries;
+
   return (
     <div className="p-4 md:p-8">
       <div className="flex items-center mb-4 md:mb-6">
@@ -363,503 +935,37 @@ export const FeedbackSection: React.FC<FeedbackSectionProps> = ({
           groups
         </span>
       </div>
-      {feedbackEntries.length > 0 ? (
-        feedbackEntries.map((feedback) => (
-          <div key={feedback.id} className="mb-4 md:mb-6">
-            {editingFeedback && editingFeedback.id === feedback.id ? (
-              <Card className="startsnap-form-card">
-                <CardContent className="p-0">
-                  <div className="flex items-start justify-between mb-4">
-                    <div className="flex items-start">
-                      {/* FEEDBACK AVATAR LINK */}
-                      {(feedback.profile?.username && feedback.profile.username !== 'Anonymous') ? (
-                        <Link to={`/profiles/${feedback.profile.username}`} className="w-10 h-10 flex-shrink-0 hover:opacity-80 transition-opacity duration-150 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-blue-500 rounded-full">
-                          <UserAvatar
-                            name={getAvatarName(null, feedback.profile.username)}
-                            size={40}
-                            className="w-full h-full"
-                          />
-                        </Link>
-                      ) : (
-                        <div className="w-10 h-10 flex-shrink-0">
-                          <UserAvatar
-                            name={getAvatarName(null, feedback.profile?.username || 'Anonymous')}
-                            size={40}
-                            className="w-full h-full"
-                          />
-                        </div>
-                      )}
-                      <div className="ml-4 flex-1">
-                        <div className="flex items-center gap-2">
-                          <p className="font-ui text-gray-900 text-base leading-6">
-                            {feedback.profile?.username || 'Anonymous'}
-                          </p>
-                          <p className="font-body text-gray-500 text-xs leading-4">
-                            {formatDetailedDate(feedback.created_at)} (Editing)
-                          </p>
-                        </div>
-                      </div>
-                    </div>
-                    {currentUser && currentUser.id === feedback.user_id && (
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button variant="ghost" className="h-8 w-8 p-0">
-                            <span className="sr-only">Open menu</span>
-                            <MoreHorizontal className="h-4 w-4" />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuItem
-                            onClick={() => handleEditFeedback(feedback)}
-                            className="text-startsnap-oxford-blue hover:bg-startsnap-french-rose/10"
-                          >
-                            <Edit className="mr-2 h-4 w-4" />
-                            Edit
-                          </DropdownMenuItem>
-                          <DropdownMenuItem
-                            onClick={() => handleDeleteFeedback(feedback.id)}
-                            className="text-red-600 hover:bg-red-50"
-                          >
-                            <Trash2 className="mr-2 h-4 w-4" />
-                            Delete
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
-                    )}
-                  </div>
-                  <Textarea
-                    placeholder="Edit your feedback..."
-                    className="startsnap-form-textarea"
-                    value={inlineEditFeedbackContent}
-                    onChange={(e) => setInlineEditFeedbackContent(e.target.value)}
-                  />
-                  <div className="startsnap-form-actions">
-                    <Button
-                      variant="secondary"
-                      onClick={() => {
-                        setEditingFeedback(null);
-                        setInlineEditFeedbackContent('');
-                      }}
-                    >
-                      Cancel
-                    </Button>
-                    <Button
-                      variant="primary"
-                      onClick={handleUpdateFeedback}
-                      disabled={!inlineEditFeedbackContent.trim() || isSubmitting}
-                    >
-                      {isSubmitting ? 'Saving...' : 'Save Changes'}
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ) : (
-              <Card
-                className="bg-transparent border-0 shadow-none rounded-none p-0 md:bg-startsnap-white md:rounded-xl md:overflow-hidden md:border-2 md:border-solid md:border-gray-800 md:shadow-[3px_3px_0px_#1f2937]"
+      {feedbackAreas.length > 0 && feedbackEntries.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4 md:mb-6" role="group" aria-label="Filter feedback by area">
+          {[null, ...feedbackAreas].map(area => {
+            const isSelected = areaFilter === area;
+            const count = area === null
+              ? feedbackEntries.length
+              : feedbackEntries.filter(feedback => feedback.ratings[area]).length;
+            return (
+              <button
+                key={area ?? 'all'}
+                type="button"
+                onClick={() => onAreaFilterChange(area)}
+                aria-pressed={isSelected}
+                className={`px-3 py-1 rounded-full border-2 border-gray-800 font-ui text-sm transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-startsnap-french-rose ${
+                  isSelected
+                    ? 'bg-startsnap-ebony-clay text-startsnap-white'
+                    : 'bg-startsnap-white text-startsnap-ebony-clay hover:bg-startsnap-athens-gray'
+                }`}
               >
-                <CardContent className="p-0 md:p-5">
-                  <div className="flex items-start justify-between">
-                    <div className="flex items-start">
-                      {/* FEEDBACK AVATAR LINK */}
-                      {(feedback.profile?.username && feedback.profile.username !== 'Anonymous') ? (
-                        <Link to={`/profiles/${feedback.profile.username}`} className="w-10 h-10 flex-shrink-0 hover:opacity-80 transition-opacity duration-150 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-startsnap-french-rose rounded-full">
-                          <UserAvatar
-                            name={getAvatarName(null, feedback.profile.username)}
-                            size={40}
-                            className="w-full h-full"
-                          />
-                        </Link>
-                      ) : (
-                        <div className="w-10 h-10 flex-shrink-0">
-                          <UserAvatar
-                            name={getAvatarName(null, feedback.profile?.username || 'Anonymous')}
-                            size={40}
-                            className="w-full h-full"
-                          />
-                        </div>
-                      )}
-                      <div className="ml-4 flex-1">
-                        <div className="flex items-center gap-2">
-                          <p className="font-ui text-startsnap-oxford-blue text-base leading-6">
-                            {feedback.profile?.username || 'Anonymous'}
-                          </p>
-                          <p className="font-body text-startsnap-pale-sky text-xs leading-4">
-                            {formatDetailedDate(feedback.created_at)}{editingFeedback && editingFeedback.id === feedback.id ? ' (Editing)' : ''}
-                          </p>
-                        </div>
-                        <p className="font-body text-startsnap-river-bed text-sm leading-5 mt-2">
-                          {feedback.content}
-                        </p>
-                      </div>
-                    </div>
-                    {currentUser && currentUser.id === feedback.user_id && (
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button variant="ghost" className="h-8 w-8 p-0">
-                            <span className="sr-only">Open menu</span>
-                            <MoreHorizontal className="h-4 w-4" />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuItem
-                            onClick={() => handleEditFeedback(feedback)}
-                            className="text-startsnap-oxford-blue hover:bg-startsnap-french-rose/10"
-                          >
-                            <Edit className="mr-2 h-4 w-4" />
-                            Edit
-                          </DropdownMenuItem>
-                          <DropdownMenuItem
-                            onClick={() => handleDeleteFeedback(feedback.id)}
-                            className="text-red-600 hover:bg-red-50"
-                          >
-                            <Trash2 className="mr-2 h-4 w-4" />
-                            Delete
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
-                    )}
-                  </div>
-                  {currentUser && (
-                    <div className="mt-3 flex">
-                      <button
-                        type="button"
-                        onClick={() => {
-                          if (editingFeedback && editingFeedback.id === feedback.id) return; // Don't allow reply if editing main feedback
-                          if (replyingToFeedbackId === feedback.id) {
-                            handleCancelReply();
-                          } else {
-                            setReplyingToFeedbackId(feedback.id);
-                            setReplyContent('');
-                            setEditingReply(null); // Ensure not in edit mode for a new reply
-                          }
-                        }}
-                        className="flex items-center gap-1 text-sm text-gray-600 hover:text-startsnap-french-rose cursor-pointer p-1 rounded-md hover:bg-gray-100 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-startsnap-french-rose"
-                        aria-label={`Reply to feedback from ${feedback.profile?.username || 'Anonymous'}`}
-                      >
-                        <MessageSquare size={16} />
-                        <span>{feedback.replies?.length || 0}</span>
-                      </button>
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-            )}
-            {replyingToFeedbackId === feedback.id && !editingFeedback && (
-              <div className="ml-8 lg:ml-12 my-4 relative">
-                <div className="absolute left-[-20px] top-0 bottom-0 w-0.5 bg-gray-300 lg:left-[-28px]"></div>
-
-                {/* Form for ADDING a NEW reply - only show if not editing an existing reply inline */}
-                {currentUser && !editingReply && (
-                  <div className={`pb-3 mb-3 ${feedback.replies && feedback.replies.length > 0 ? 'border-b border-gray-200' : ''}`}>
-                    <div className="flex items-start gap-3 p-0 bg-transparent md:p-3 md:bg-gray-50 md:rounded-lg md:border md:border-gray-200">
-                      <div className="w-8 h-8 flex-shrink-0">
-                        <UserAvatar
-                          name={getAvatarName(currentUser, currentUserProfile?.username)}
-                          size={32}
-                          className="w-full h-full"
-                        />
-                      </div>
-                      <div className="flex-1">
-                        <Textarea
-                          placeholder={'Write your reply...'} // Placeholder for new reply
-                          className="startsnap-reply-textarea"
-                          value={replyContent} // This replyContent is for the NEW reply
-                          onChange={(e) => {
-                            setReplyContent(e.target.value);
-                            setReplyError(null);
-                          }}
-                          disabled={replySubmitting}
-                        />
-                        {replyError && (
-                          <p className="text-red-500 text-sm mb-2">{replyError}</p>
-                        )}
-                        <div className="startsnap-form-actions">
-                          <Button
-                            variant="secondary"
-                            onClick={handleCancelReply} // This closes the entire reply section
-                            disabled={replySubmitting}
-                          >
-                            Cancel
-                          </Button>
-                          <Button
-                            variant="primary"
-                            onClick={handleReplySubmit} // Submits a NEW reply
-                            disabled={replySubmitting || !replyContent.trim()}
-                          >
-                            {replySubmitting ? 'Replying...' : 'Reply'}
-                          </Button>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                )}
-
-                {/* List of existing replies */}
-                {feedback.replies && feedback.replies.length > 0 && (
-                  <div className={`space-y-3 ${currentUser && !editingReply ? '' : 'pt-3'}`}> {/* Add padding-top if new reply form is hidden */}
-                    {feedback.replies.map((reply, replyIndex) => (
-                      // Check if THIS reply is being edited inline
-                      editingReply && editingReply.id === reply.id ? (
-                        <div key={reply.id} className={` ${replyIndex > 0 ? 'mt-3 border-t border-gray-200' : ''} pt-3`}>
-                          <div className="flex items-start gap-3 p-0 bg-transparent md:p-3 md:bg-gray-100 md:rounded-lg md:border-2 md:border-gray-800"> {/* Edit form styling */}
-                            {/* REPLY AVATAR/NAME LINK */}
-                            {(reply.profile?.username && reply.profile.username !== 'Anonymous') ? (
-                              <div className="flex items-start">
-                                <Link to={`/profiles/${reply.profile.username}`} className="w-8 h-8 flex-shrink-0 group hover:text-startsnap-french-rose transition-colors duration-150 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-startsnap-french-rose">
-                                  <UserAvatar
-                                    name={getAvatarName(null, reply.profile.username)}
-                                    size={32}
-                                    className="w-full h-full"
-                                  />
-                                </Link>
-                                <div className="ml-3 flex-1">
-                                  <div className="flex items-center">
-                                    <div className="flex items-center">
-                                      <p className="font-ui text-startsnap-oxford-blue text-sm leading-5 group-hover:text-startsnap-french-rose">
-                                        {reply.profile.username}
-                                      </p>
-                                      <p className="ml-2 font-body text-startsnap-pale-sky text-xs leading-4 group-hover:text-startsnap-french-rose">
-                                        {formatDetailedDate(reply.created_at)}
-                                      </p>
-                                    </div>
-                                    {currentUser && currentUser.id === reply.user_id && (
-                                      <div className="ml-auto">
-                                        <DropdownMenu>
-                                          <DropdownMenuTrigger asChild>
-                                            <Button variant="ghost" className="h-8 w-8 p-0">
-                                              <span className="sr-only">Open menu</span>
-                                              <MoreHorizontal className="h-4 w-4" />
-                                            </Button>
-                                          </DropdownMenuTrigger>
-                                          <DropdownMenuContent align="end">
-                                            <DropdownMenuItem
-                                              onClick={() => handleEditReply(reply)}
-                                              className="text-startsnap-oxford-blue hover:bg-startsnap-french-rose/10"
-                                            >
-                                              <Edit className="mr-2 h-4 w-4" />
-                                              Edit
-                                            </DropdownMenuItem>
-                                            <DropdownMenuItem
-                                              onClick={() => handleDeleteReply(reply.id)}
-                                              className="text-red-600 hover:bg-red-50"
-                                            >
-                                              <Trash2 className="mr-2 h-4 w-4" />
-                                              Delete
-                                            </DropdownMenuItem>
-                                          </DropdownMenuContent>
-                                        </DropdownMenu>
-                                      </div>
-                                    )}
-                                  </div>
-                                </div>
-                              </div>
-                            ) : (
-                              <div className="flex items-start">
-                                <div className="w-8 h-8 flex-shrink-0">
-                                  <UserAvatar
-                                    name={getAvatarName(null, reply.profile?.username || 'Anonymous')}
-                                    size={32}
-                                    className="w-full h-full"
-                                  />
-                                </div>
-                                <div className="ml-3 flex-1">
-                                  <div className="flex items-center">
-                                    <div className="flex items-center">
-                                      <p className="font-ui text-startsnap-oxford-blue text-sm leading-5 group-hover:text-startsnap-french-rose">
-                                        {reply.profile?.username || 'Anonymous'}
-                                      </p>
-                                      <p className="ml-2 font-body text-startsnap-pale-sky text-xs leading-4 group-hover:text-startsnap-french-rose">
-                                        {formatDetailedDate(reply.created_at)}
-                                      </p>
-                                    </div>
-                                    {currentUser && currentUser.id === reply.user_id && (
-                                      <div className="ml-auto">
-                                        <DropdownMenu>
-                                          <DropdownMenuTrigger asChild>
-                                            <Button variant="ghost" className="h-8 w-8 p-0">
-                                              <span className="sr-only">Open menu</span>
-                                              <MoreHorizontal className="h-4 w-4" />
-                                            </Button>
-                                          </DropdownMenuTrigger>
-                                          <DropdownMenuContent align="end">
-                                            <DropdownMenuItem
-                                              onClick={() => handleEditReply(reply)}
-                                              className="text-startsnap-oxford-blue hover:bg-startsnap-french-rose/10"
-                                            >
-                                              <Edit className="mr-2 h-4 w-4" />
-                                              Edit
-                                            </DropdownMenuItem>
-                                            <DropdownMenuItem
-                                              onClick={() => handleDeleteReply(reply.id)}
-                                              className="text-red-600 hover:bg-red-50"
-                                            >
-                                              <Trash2 className="mr-2 h-4 w-4" />
-                                              Delete
-                                            </DropdownMenuItem>
-                                          </DropdownMenuContent>
-                                        </DropdownMenu>
-                                      </div>
-                                    )}
-                                  </div>
-                                </div>
-                              </div>
-                            )}
-                            <div className="ml-3 flex-1"> {/* Ensure ml-3 if avatar is present */}
-                              <Textarea
-                                placeholder="Edit your reply..."
-                                className="startsnap-reply-textarea"
-                                value={replyContent} // Bound to the content of the reply being edited
-                                onChange={(e) => {
-                                  setReplyContent(e.target.value);
-                                  setReplyError(null); // Clear error specific to this form
-                                }}
-                                disabled={replySubmitting}
-                              />
-                              {replyError && ( // Show specific reply error if any
-                                <p className="text-red-500 text-sm mb-2">{replyError}</p>
-                              )}
-                              <div className="startsnap-form-actions mt-2">
-                                <Button
-                                  variant="secondary"
-                                  onClick={handleCancelEditReply} // Cancel for INLINE EDIT
-                                  disabled={replySubmitting}
-                                >
-                                  Cancel
-                                </Button>
-                                <Button
-                                  variant="primary"
-                                  onClick={handleUpdateReply} // Update for INLINE EDIT
-                                  disabled={replySubmitting || !replyContent.trim()}
-                                >
-                                  {replySubmitting ? 'Updating...' : 'Update Reply'}
-                                </Button>
-                              </div>
-                            </div>
-                          </div>
-                        </div>
-                      ) : (
-                        // Normal display of the reply
-                        <div
-                          key={reply.id}
-                          className={`pt-3 ${replyIndex > 0 ? 'mt-3 border-t border-gray-200' : '' }`}
-                        >
-                          {/* REPLY AVATAR/NAME LINK */}
-                          {(reply.profile?.username && reply.profile.username !== 'Anonymous') ? (
-                            <div className="flex items-start">
-                              <Link to={`/profiles/${reply.profile.username}`} className="w-8 h-8 flex-shrink-0 group hover:text-startsnap-french-rose transition-colors duration-150 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-startsnap-french-rose">
-                                <UserAvatar
-                                  name={getAvatarName(null, reply.profile.username)}
-                                  size={32}
-                                  className="w-full h-full"
-                                />
-                              </Link>
-                              <div className="ml-3 flex-1">
-                                <div className="flex items-center">
-                                  <div className="flex items-center">
-                                    <p className="font-ui text-startsnap-oxford-blue text-sm leading-5 group-hover:text-startsnap-french-rose">
-                                      {reply.profile.username}
-                                    </p>
-                                    <p className="ml-2 font-body text-startsnap-pale-sky text-xs leading-4 group-hover:text-startsnap-french-rose">
-                                      {formatDetailedDate(reply.created_at)}
-                                    </p>
-                                  </div>
-                                  {currentUser && currentUser.id === reply.user_id && (
-                                    <div className="ml-auto">
-                                      <DropdownMenu>
-                                        <DropdownMenuTrigger asChild>
-                                          <Button variant="ghost" className="h-8 w-8 p-0">
-                                            <span className="sr-only">Open menu</span>
-                                            <MoreHorizontal className="h-4 w-4" />
-                                          </Button>
-                                        </DropdownMenuTrigger>
-                                        <DropdownMenuContent align="end">
-                                          <DropdownMenuItem
-                                            onClick={() => handleEditReply(reply)}
-                                            className="text-startsnap-oxford-blue hover:bg-startsnap-french-rose/10"
-                                          >
-                                            <Edit className="mr-2 h-4 w-4" />
-                                            Edit
-                                          </DropdownMenuItem>
-                                          <DropdownMenuItem
-                                            onClick={() => handleDeleteReply(reply.id)}
-                                            className="text-red-600 hover:bg-red-50"
-                                          >
-                                            <Trash2 className="mr-2 h-4 w-4" />
-                                            Delete
-                                          </DropdownMenuItem>
-                                        </DropdownMenuContent>
-                                      </DropdownMenu>
-                                    </div>
-                                  )}
-                                </div>
-                                <p className="font-body text-startsnap-river-bed text-sm leading-5 mt-1 group-hover:text-startsnap-french-rose">
-                                  {reply.content}
-                                </p>
-                              </div>
-                            </div>
-                          ) : (
-                            <div className="flex items-start">
-                              <div className="w-8 h-8 flex-shrink-0">
-                                <UserAvatar
-                                  name={getAvatarName(null, reply.profile?.username || 'Anonymous')}
-                                  size={32}
-                                  className="w-full h-full"
-                                />
-                              </div>
-                              <div className="ml-3 flex-1">
-                                <div className="flex items-center">
-                                  <div className="flex items-center">
-                                    <p className="font-ui text-startsnap-oxford-blue text-sm leading-5 group-hover:text-startsnap-french-rose">
-                                      {reply.profile?.username || 'Anonymous'}
-                                    </p>
-                                    <p className="ml-2 font-body text-startsnap-pale-sky text-xs leading-4 group-hover:text-startsnap-french-rose">
-                                      {formatDetailedDate(reply.created_at)}
-                                    </p>
-                                  </div>
-                                  {currentUser && currentUser.id === reply.user_id && (
-                                    <div className="ml-auto">
-                                      <DropdownMenu>
-                                        <DropdownMenuTrigger asChild>
-                                          <Button variant="ghost" className="h-8 w-8 p-0">
-                                            <span className="sr-only">Open menu</span>
-                                            <MoreHorizontal className="h-4 w-4" />
-                                          </Button>
-                                        </DropdownMenuTrigger>
-                                        <DropdownMenuContent align="end">
-                                          <DropdownMenuItem
-                                            onClick={() => handleEditReply(reply)}
-                                            className="text-startsnap-oxford-blue hover:bg-startsnap-french-rose/10"
-                                          >
-                                            <Edit className="mr-2 h-4 w-4" />
-                                            Edit
-                                          </DropdownMenuItem>
-                                          <DropdownMenuItem
-                                            onClick={() => handleDeleteReply(reply.id)}
-                                            className="text-red-600 hover:bg-red-50"
-                                          >
-                                            <Trash2 className="mr-2 h-4 w-4" />
-                                            Delete
-                                          </DropdownMenuItem>
-                                        </DropdownMenuContent>
-                                      </DropdownMenu>
-                                    </div>
-                                  )}
-                                </div>
-                                <p className="font-body text-startsnap-river-bed text-sm leading-5 mt-1 group-hover:text-startsnap-french-rose">
-                                  {reply.content}
-                                </p>
-                              </div>
-                            </div>
-                          )}
-                        </div>
-                      )
-                    ))}
-                  </div>
-                )}
-              </div>
-            )}
-          </div>
-        ))
+                {area ?? 'All feedback'} ({count})
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {visibleFeedbackEntries.length > 0 ? (
+        visibleFeedbackEntries.map((feedback) => renderComment(feedback, 0))
+      ) : areaFilter && feedbackEntries.length > 0 ? (
+        <p className="font-body text-startsnap-pale-sky text-base leading-6">
+          No feedback has rated {areaFilter} yet.
+        </p>
       ) : (
         <>
           <p className="font-body text-startsnap-pale-sky text-base leading-6">
@@ -895,6 +1001,7 @@ export const FeedbackSection: React.FC<FeedbackSectionProps> = ({
               {submissionError && (
                 <p className="text-red-500 text-sm mb-3">{submissionError}</p>
               )}
+              {currentUser && renderRatingFields(feedbackRatings, setFeedbackRatings, isSubmitting)}
               <div className="flex justify-end mt-3">
                 <Button
                   variant="primary"
@@ -910,7 +1017,7 @@ export const FeedbackSection: React.FC<FeedbackSectionProps> = ({
                     }
                     setIsSubmitting(true);
                     try {
-                      await handleFeedbackSubmit({ content: feedbackContent });
+                      await handleFeedbackSubmit({ content: feedbackContent, ratings: currentAreaRatings(feedbackRatings) });
                       // feedbackContent is cleared within handleFeedbackSubmit on success
                     } catch (error) {
                       // submissionError is set within handleFeedbackSubmit on error
@@ -929,26 +1036,27 @@ export const FeedbackSection: React.FC<FeedbackSectionProps> = ({
         </div>
       </div>
 
-      {/* Confirmation Dialogs */}
-      <ConfirmationDialog
-        isOpen={deletingFeedbackId !== null}
-        onClose={() => setDeletingFeedbackId(null)}
-        onConfirm={confirmDeleteFeedback}
-        title="Delete Feedback"
-        description="Are you sure you want to delete this feedback? This action cannot be undone and will also delete all replies to this feedback."
-        confirmText="Delete Feedback"
-        isLoading={isDeletingFeedback}
-        type="danger"
+      <AddressFeedbackDialog
+        feedback={addressingComment}
+        vibeLogs={vibeLogs}
+        onClose={() => setAddressingComment(null)}
+        onConfirm={confirmAddressed}
+        isSubmitting={isModerating}
       />
 
+      <ReportDialog target={reportTarget} onClose={() => setReportTarget(null)} />
+
+      {/* Confirmation Dialog */}
       <ConfirmationDialog
-        isOpen={deletingReplyId !== null}
-        onClose={() => setDeletingReplyId(null)}
-        onConfirm={confirmDeleteReply}
-        title="Delete Reply"
-        description="Are you sure you want to delete this reply? This action cannot be undone."
-        confirmText="Delete Reply"
-        isLoading={isDeletingReply}
+        isOpen={deletingComment !== null}
+        onClose={() => setDeletingComment(null)}
+        onConfirm={confirmDeleteComment}
+        title={deletingComment?.kind === 'reply' ? 'Delete Reply' : 'Delete Feedback'}
+        description={deletingComment?.kind === 'reply'
+          ? 'Are you sure you want to delete this reply? This action cannot be undone and will also delete all replies to it.'
+          : 'Are you sure you want to delete this feedback? This action cannot be undone and will also delete all replies to this feedback.'}
+        confirmText={deletingComment?.kind === 'reply' ? 'Delete Reply' : 'Delete Feedback'}
+        isLoading={isDeleting}
         type="danger"
       />
     </div>
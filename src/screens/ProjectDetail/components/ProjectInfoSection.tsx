@@ -7,6 +7,7 @@ import { Link } from 'react-router-dom';
 import { Button } from '../../../components/ui/button';
 import { Badge } from '../../../components/ui/badge';
 import { UserAvatar } from '../../../components/ui/user-avatar';
+import { FollowButton } from '../../../components/ui/FollowButton';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../../../components/ui/tooltip';
 import { getCategoryDisplay } from '../../../config/categories';
 import { formatDetailedDate } from '../../../lib/utils';
@@ -28,6 +29,7 @@ import type { UserProfileData } from '../../../types/user'; // Import UserProfil
  * @param {StartSnapProject} startsnap - The main data object for the StartSnap project.
  * @param {UserProfileData | null} creator - The profile data of the project creator.
  * @param {boolean} isOwner - Boolean indicating if the current user owns the project.
+ * @param {boolean} canEdit - Boolean indicating if the current user owns or is an editor of the project.
  * @param {User | null} currentUser - The currently authenticated Supabase user object.
  * @param {boolean} isSupportedByCurrentUser - Boolean indicating if the current user supports the project.
  * @param {number} currentSupportCount - The current count of supports for the project.
@@ -39,6 +41,7 @@ interface ProjectInfoSectionProps {
   startsnap: StartSnapProject; // Use StartSnapProject
   creator: UserProfileData | null; // Use UserProfileData
   isOwner: boolean;
+  canEdit: boolean;
   currentUser: User | null;
   isSupportedByCurrentUser: boolean;
   currentSupportCount: number;
@@ -57,6 +60,7 @@ export const ProjectInfoSection: React.FC<ProjectInfoSectionProps> = ({
   startsnap,
   creator,
   isOwner,
+  canEdit,
   currentUser,
   isSupportedByCurrentUser,
   currentSupportCount,
@@ -67,6 +71,7 @@ export const ProjectInfoSection: React.FC<ProjectInfoSectionProps> = ({
 }) => {
   const categoryDisplay = getCategoryDisplay(startsnap.category);
   const isScouted = creator?.username === 'VibeScout';
+  const coCreators = startsnap.co_creators ?? [];
 
   const handleDeleteClick = () => {
     // Call the handler passed from the parent (ProjectDetail.tsx)
@@ -89,7 +94,7 @@ export const ProjectInfoSection: React.FC<ProjectInfoSectionProps> = ({
 
             {/* Actions - Always in separate visual block for long titles */}
             <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:gap-3 lg:shrink-0 lg:min-w-fit">
-              {isOwner ? (
+              {canEdit ? (
                 <div className="flex items-center justify-between lg:justify-end lg:gap-3">
                   {/* Support Count for Owner */}
                   <div className="flex items-center gap-2 text-base text-startsnap-french-rose lg:text-sm lg:gap-1">
@@ -97,7 +102,7 @@ export const ProjectInfoSection: React.FC<ProjectInfoSectionProps> = ({
                     <span className="font-medium">{currentSupportCount}</span>
                   </div>
 
-                  {/* Owner Actions */}
+                  {/* Owner and Editor Actions */}
                   <DropdownMenu>
                     <DropdownMenuTrigger asChild>
                       <button
@@ -118,14 +123,16 @@ export const ProjectInfoSection: React.FC<ProjectInfoSectionProps> = ({
                           Edit Project
                         </Link>
                       </DropdownMenuItem>
-                      <DropdownMenuItem
-                        onClick={handleDeleteClick}
-                        className="text-red-600 hover:bg-red-50"
-                        aria-label="Delete project"
-                      >
-                        <Trash2 className="mr-2 h-4 w-4" />
-                        Delete Project
-                      </DropdownMenuItem>
+                      {isOwner && (
+                        <DropdownMenuItem
+                          onClick={handleDeleteClick}
+                          className="text-red-600 hover:bg-red-50"
+                          aria-label="Delete project"
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete Project
+                        </DropdownMenuItem>
+                      )}
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </div>
@@ -149,6 +156,12 @@ export const ProjectInfoSection: React.FC<ProjectInfoSectionProps> = ({
                       </Button>
                     )}
 
+                    {/* Follow Project Button */}
+                    <FollowButton
+                      target={{ type: 'startsnap', id: startsnap.id }}
+                      className="flex-1 lg:flex-none tap-target h-12 lg:h-auto lg:px-3 lg:py-1.5"
+                    />
+
                     {/* Support Project Button */}
                     <Button
                       onClick={onSupportToggle}
@@ -334,6 +347,23 @@ export const ProjectInfoSection: React.FC<ProjectInfoSectionProps> = ({
             )}
           </div>
         )}
+        {coCreators.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3 -mt-2 mb-6">
+            <span className="font-ui text-startsnap-shuttle-gray text-sm">Built with</span>
+            {coCreators.map(username => (
+              <Link
+                key={username}
+                to={`/profiles/${username}`}
+                className="flex items-center gap-2 group focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-startsnap-french-rose rounded-full"
+              >
+                <UserAvatar name={username} size={28} className="w-7 h-7" />
+                <span className="font-ui text-sm text-startsnap-ebony-clay group-hover:text-startsnap-french-rose transition-colors">
+                  {username}
+                </span>
+              </Link>
+            ))}
+          </div>
+        )}
       </div>
     </>
   );
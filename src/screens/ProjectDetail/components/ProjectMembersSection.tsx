@@ -0,0 +1,274 @@
+/**
+ * src/screens/ProjectDetail/components/ProjectMembersSection.tsx
+ * @description Collaborator management for a StartSnap project: the owner invites editors by username, removes them
+ * and can offer the project to a new owner; editors can leave the project. Only rendered for the owner and editors.
+ */
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+import { UserAvatar } from '../../../components/ui/user-avatar';
+import { membersApi } from '../../../lib/api';
+import { useApiErrorHandler } from '../../../hooks/useApiErrorHandler';
+import { toast } from 'sonner';
+import type { StartSnapMember, StartSnapTransferRequestWithDetails } from '../../../types/member';
+
+/**
+ * @description Props for the ProjectMembersSection component.
+ * @param {string} startsnapId - The ID of the current StartSnap project.
+ * @param {StartSnapMember[]} members - Members of the project, owner first.
+ * @param {boolean} isOwner - Boolean indicating if the current user owns the project.
+ * @param {string} currentUserId - The ID of the current authenticated user.
+ * @param {() => Promise<void>} onMembersChange - Callback to refresh members after a change.
+ */
+interface ProjectMembersSectionProps {
+  startsnapId: string;
+  members: StartSnapMember[];
+  isOwner: boolean;
+  currentUserId: string;
+  onMembersChange: () => Promise<void>;
+}
+
+/**
+ * @description Lists the project's owner, editors and pending invitations with invite and remove actions.
+ * @param {ProjectMembersSectionProps} props - The props for the component.
+ * @returns {JSX.Element} The collaborators section.
+ */
+export const ProjectMembersSection: React.FC<ProjectMembersSectionProps> = ({
+  startsnapId,
+  members,
+  isOwner,
+  currentUserId,
+  onMembersChange,
+}) => {
+  const { reportApiError } = useApiErrorHandler();
+  const [inviteUsername, setInviteUsername] = useState('');
+  const [isInviting, setIsInviting] = useState(false);
+  const [removingUserId, setRemovingUserId] = useState<string | null>(null);
+  const [pendingTransfer, setPendingTransfer] = useState<StartSnapTransferRequestWithDetails | null>(null);
+  const [transferUsername, setTransferUsername] = useState('');
+  const [isTransferring, setIsTransferring] = useState(false);
+
+  useEffect(() => {
+    if (!isOwner) return;
+
+    /**
+     * @description Loads the project's open ownership transfer, if any
+     * @async
+     * @sideEffects Updates pendingTransfer state
+     */
+    const fetchPendingTransfer = async () => {
+      try {
+        setPendingTransfer(await membersApi.fetchPendingTransfer(startsnapId));
+      } catch (error) {
+        console.error('Error fetching pending transfer:', error);
+        setPendingTransfer(null);
+      }
+    };
+
+    fetchPendingTransfer();
+  }, [startsnapId, isOwner]);
+
+  /**
+   * @description Invites the entered username as an editor.
+   * @async
+   * @param {React.FormEvent} e - Form submit event.
+   * @sideEffects Creates a pending invitation and refreshes the member list.
+   */
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const username = inviteUsername.trim().replace(/^@/, '');
+    if (!username) return;
+
+    setIsInviting(true);
+    try {
+      await membersApi.inviteMember(startsnapId, username);
+      toast.success('Invitation Sent', {
+        description: `${username} can accept the invitation from their profile.`
+      });
+      setInviteUsername('');
+      await onMembersChange();
+    } catch (error) {
+      await reportApiError(error, 'Invitation Failed', 'Could not invite this builder. Please try again.');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  /**
+   * @description Removes an editor, cancels an invitation, or leaves the project.
+   * @async
+   * @param {StartSnapMember} member - Member to remove.
+   * @sideEffects Deletes the membership and refreshes the member list.
+   */
+  const handleRemove = async (member: StartSnapMember) => {
+    const isSelf = member.user_id === currentUserId;
+    setRemovingUserId(member.user_id);
+    try {
+      await membersApi.removeMember(startsnapId, member.user_id);
+      toast.success(isSelf ? 'You Left the Project' : member.accepted_at ? 'Collaborator Removed' : 'Invitation Cancelled');
+      await onMembersChange();
+    } catch (error) {
+      await reportApiError(error, 'Remove Failed', 'Could not update collaborators. Please try again.');
+    } finally {
+      setRemovingUserId(null);
+    }
+  };
+
+  /**
+   * @description Offers the project to the entered username.
+   * @async
+   * @param {React.FormEvent} e - Form submit event.
+   * @sideEffects Creates a pending transfer request.
+   */
+  const handleRequestTransfer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const username = transferUsername.trim().replace(/^@/, '');
+    if (!username) return;
+
+    setIsTransferring(true);
+    try {
+      await membersApi.requestTransfer(startsnapId, username);
+      toast.success('Transfer Requested', {
+        description: `The project moves to ${username} once they accept from their profile.`
+      });
+      setTransferUsername('');
+      setPendingTransfer(await membersApi.fetchPendingTransfer(startsnapId));
+    } catch (error) {
+      await reportApiError(error, 'Transfer Failed', 'Could not request the transfer. Please try again.');
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  /**
+   * @description Withdraws the pending ownership transfer.
+   * @async
+   * @sideEffects Cancels the transfer request.
+   */
+  const handleCancelTransfer = async () => {
+    if (!pendingTransfer) return;
+
+    setIsTransferring(true);
+    try {
+      await membersApi.cancelTransfer(pendingTransfer.id);
+      toast.success('Transfer Cancelled');
+      setPendingTransfer(null);
+    } catch (error) {
+      await reportApiError(error, 'Cancel Failed', 'Could not cancel the transfer. Please try again.');
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  return (
+    <div className="px-5 py-6 border-t-2 border-gray-800 md:px-8">
+      <h2 className="font-heading text-xl text-startsnap-ebony-clay mb-1 flex items-center gap-2">
+        <span className="material-icons text-startsnap-persian-blue">group</span>
+        Collaborators
+      </h2>
+      <p className="font-body text-sm text-startsnap-shuttle-gray mb-4">
+        Editors can update the project and post vibe logs. Only the owner can delete the project or manage collaborators.
+      </p>
+
+      <ul className="flex flex-col gap-3 mb-4">
+        {members.map(member => {
+          const name = member.username || 'Anonymous';
+          const canRemove = member.role !== 'owner' && (isOwner || member.user_id === currentUserId);
+
+          return (
+            <li key={member.user_id} className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3 min-w-0">
+                <UserAvatar name={name} size={32} className="w-8 h-8 shrink-0" />
+                {member.username ? (
+                  <Link
+                    to={`/profiles/${member.username}`}
+                    className="font-ui text-startsnap-ebony-clay truncate hover:text-startsnap-french-rose transition-colors"
+                  >
+                    {name}
+                  </Link>
+                ) : (
+                  <span className="font-ui text-startsnap-ebony-clay truncate">{name}</span>
+                )}
+                <span className="font-mono text-xs rounded-full border border-gray-800 px-2 py-0.5 bg-startsnap-athens-gray text-startsnap-ebony-clay">
+                  {member.role === 'owner' ? 'Owner' : member.accepted_at ? 'Editor' : 'Invited'}
+                </span>
+              </div>
+              {canRemove && (
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleRemove(member)}
+                  disabled={removingUserId === member.user_id}
+                >
+                  {member.user_id === currentUserId ? 'Leave' : member.accepted_at ? 'Remove' : 'Cancel Invite'}
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {isOwner && (
+        <form onSubmit={handleInvite} className="flex flex-col gap-3 sm:flex-row">
+          <Input
+            value={inviteUsername}
+            onChange={(e) => setInviteUsername(e.target.value)}
+            placeholder="Invite a builder by username"
+            className="startsnap-form-input sm:flex-1"
+            aria-label="Username to invite"
+          />
+          <Button type="submit" variant="primary" disabled={isInviting || !inviteUsername.trim()}>
+            {isInviting ? 'Inviting...' : 'Invite Editor'}
+          </Button>
+        </form>
+      )}
+
+      {isOwner && (
+        <div className="mt-6 pt-6 border-t border-gray-200/80">
+          <h3 className="font-ui text-startsnap-ebony-clay mb-1 flex items-center gap-2">
+            <span className="material-icons text-base text-startsnap-french-rose">swap_horiz</span>
+            Transfer Ownership
+          </h3>
+          {pendingTransfer ? (
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+              <p className="font-body text-sm text-startsnap-river-bed">
+                Waiting for <span className="font-semibold">{pendingTransfer.to_username || 'the recipient'}</span> to accept.
+                You will stay on as an editor once they do.
+              </p>
+              <Button
+                type="button"
+                variant="secondary"
+                size="sm"
+                onClick={handleCancelTransfer}
+                disabled={isTransferring}
+              >
+                Cancel Transfer
+              </Button>
+            </div>
+          ) : (
+            <>
+              <p className="font-body text-sm text-startsnap-shuttle-gray mb-3">
+                Hand this project to another builder. They become the owner, including the creator byline and tips,
+                once they accept. You stay on as an editor.
+              </p>
+              <form onSubmit={handleRequestTransfer} className="flex flex-col gap-3 sm:flex-row">
+                <Input
+                  value={transferUsername}
+                  onChange={(e) => setTransferUsername(e.target.value)}
+                  placeholder="New owner's username"
+                  className="startsnap-form-input sm:flex-1"
+                  aria-label="Username of the new owner"
+                />
+                <Button type="submit" variant="danger" disabled={isTransferring || !transferUsername.trim()}>
+                  {isTransferring ? 'Requesting...' : 'Request Transfer'}
+                </Button>
+              </form>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
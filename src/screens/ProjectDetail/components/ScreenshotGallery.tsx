@@ -1,42 +1,67 @@
 /**
  * src/screens/ProjectDetail/components/ScreenshotGallery.tsx
- * @description Component for displaying project screenshots in a responsive grid with lightbox functionality
+ * @description Component for displaying the project demo video and screenshots with their captions in a responsive grid
+ * with lightbox functionality
  */
 
 import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { getTransformedImageUrl } from '../../../lib/utils';
 import { Button } from '../../../components/ui/button';
+import { DemoVideoPlayer } from '../../../components/ui/DemoVideoPlayer';
 import { X, ChevronLeft, ChevronRight } from 'lucide-react';
+import type { ProjectImage } from '../../../types/startsnap';
+import type { VideoEmbed } from '../../../types/video';
 
 /**
  * @description Props for the ScreenshotGallery component
- * @param {string[]} urls - Array of screenshot URLs to display
+ * @param {ProjectImage[]} images - Project images to display, in order
+ * @param {VideoEmbed | null} [video] - Embeddable demo video, shown as the first slide
+ * @param {string} [projectName] - Project name, used to title the video player
  */
 interface ScreenshotGalleryProps {
-  urls: string[];
+  images: ProjectImage[];
+  video?: VideoEmbed | null;
+  projectName?: string;
 }
 
 /**
  * @description Gallery component for displaying project screenshots with lightbox functionality
  * @param {ScreenshotGalleryProps} props - Component props
- * @returns {JSX.Element | null} Screenshot gallery or null if no URLs provided
+ * @returns {JSX.Element | null} Screenshot gallery or null if there is neither a video nor images
  */
-export const ScreenshotGallery: React.FC<ScreenshotGalleryProps> = ({ urls }) => {
+export const ScreenshotGallery: React.FC<ScreenshotGalleryProps> = ({ images, video = null, projectName = 'Project' }) => {
   const [lightboxOpen, setLightboxOpen] = useState(false);
-  const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
+  const [isVideoRequested, setIsVideoRequested] = useState(false);
 
-  // Don't render anything if no URLs provided
-  if (!urls || urls.length === 0) {
+  // Don't render anything if there is nothing to show
+  if ((!images || images.length === 0) && !video) {
     return null;
   }
 
+  // Slides are the video (if any) followed by the images
+  const videoSlideCount = video ? 1 : 0;
+  const slideCount = videoSlideCount + images.length;
+  const isVideoSlide = video !== null && currentSlideIndex === 0;
+
   /**
-   * @description Opens the lightbox with the specified image
-   * @param {number} index - Index of the image to display
+   * @description Alt text for an image, falling back to its position
+   * @param {ProjectImage} image - Project image
+   * @param {number} index - Position of the image
+   * @returns {string} Alt text
+   */
+  const getAltText = (image: ProjectImage, index: number): string =>
+    image.alt_text || image.caption || `Screenshot ${index + 1}`;
+
+  const currentImage = isVideoSlide ? undefined : images[currentSlideIndex - videoSlideCount];
+
+  /**
+   * @description Opens the lightbox with the specified slide
+   * @param {number} index - Index of the slide to display (the video, if any, is slide 0)
    */
   const openLightbox = (index: number) => {
-    setCurrentImageIndex(index);
+    setCurrentSlideIndex(index);
     setLightboxOpen(true);
   };
 
@@ -48,17 +73,25 @@ export const ScreenshotGallery: React.FC<ScreenshotGalleryProps> = ({ urls }) =>
   };
 
   /**
-   * @description Navigates to the previous image in the lightbox
+   * @description Opens the lightbox on the video and loads the player, since the visitor asked to play it
+   */
+  const playVideo = () => {
+    setIsVideoRequested(true);
+    openLightbox(0);
+  };
+
+  /**
+   * @description Navigates to the previous slide in the lightbox
    */
   const previousImage = () => {
-    setCurrentImageIndex((prev) => (prev === 0 ? urls.length - 1 : prev - 1));
+    setCurrentSlideIndex((prev) => (prev === 0 ? slideCount - 1 : prev - 1));
   };
 
   /**
-   * @description Navigates to the next image in the lightbox
+   * @description Navigates to the next slide in the lightbox
    */
   const nextImage = () => {
-    setCurrentImageIndex((prev) => (prev === urls.length - 1 ? 0 : prev + 1));
+    setCurrentSlideIndex((prev) => (prev === slideCount - 1 ? 0 : prev + 1));
   };
 
   /**
@@ -87,7 +120,7 @@ export const ScreenshotGallery: React.FC<ScreenshotGalleryProps> = ({ urls }) =>
         document.removeEventListener('keydown', handleKeyDown);
       };
     }
-  }, [lightboxOpen, currentImageIndex]); // Include currentImageIndex to ensure navigation works properly
+  }, [lightboxOpen, currentSlideIndex]); // Include currentSlideIndex to ensure navigation works properly
 
   // Fallback image URL for when images fail to load
   const fallbackImageUrl = "https://placehold.co/400x300/e2e8f0/1f2937?text=Image+Unavailable";
@@ -98,7 +131,7 @@ export const ScreenshotGallery: React.FC<ScreenshotGalleryProps> = ({ urls }) =>
       <div className="px-4 py-6 border-b-2 border-gray-800 md:px-8">
         <div className="flex items-center mb-6">
           <h2 className="font-heading text-startsnap-ebony-clay text-2xl leading-8">
-            Screenshots
+            {video ? (images.length > 0 ? 'Demo & Screenshots' : 'Demo') : 'Screenshots'}
           </h2>
           <span className="ml-1 text-startsnap-persian-blue text-2xl material-icons">
             photo_library
@@ -106,14 +139,44 @@ export const ScreenshotGallery: React.FC<ScreenshotGalleryProps> = ({ urls }) =>
         </div>
 
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-          {urls.map((url, index) => {
+          {/* Demo video poster; nothing loads from the provider until it is played */}
+          {video && (
+            <div
+              className="startsnap-gallery-item"
+              onClick={playVideo}
+              role="button"
+              aria-label="Play demo video"
+            >
+              <div className="relative w-full h-48 overflow-hidden bg-gradient-to-br from-startsnap-ebony-clay to-startsnap-persian-blue">
+                {video.thumbnailUrl && (
+                  <img
+                    src={video.thumbnailUrl}
+                    alt=""
+                    className="w-full h-full object-cover"
+                    loading="lazy"
+                    onError={(e) => {
+                      (e.target as HTMLImageElement).style.display = 'none';
+                    }}
+                  />
+                )}
+                <div className="absolute inset-0 bg-black/30 flex flex-col items-center justify-center gap-2">
+                  <span className="w-14 h-14 rounded-full bg-startsnap-french-rose border-2 border-gray-800 shadow-[3px_3px_0px_#1f2937] flex items-center justify-center">
+                    <span className="material-icons text-white text-3xl">play_arrow</span>
+                  </span>
+                  <span className="font-ui text-xs text-white bg-black/50 rounded-full px-3 py-1">Demo video</span>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {images.map((image, index) => {
             // Determine if this is a Supabase URL that needs transformation
-            let imageUrl = url;
+            let imageUrl = image.url;
 
             try {
-              if (url.includes('supabase.co/storage')) {
+              if (image.url.includes('supabase.co/storage')) {
                 // Optimize for thumbnail display: 400x300 with cover resize and quality 75
-                imageUrl = getTransformedImageUrl(url, {
+                imageUrl = getTransformedImageUrl(image.url, {
                   width: 400,
                   height: 300,
                   quality: 75,
@@ -123,22 +186,25 @@ export const ScreenshotGallery: React.FC<ScreenshotGalleryProps> = ({ urls }) =>
               }
             } catch (error) {
               console.error(`Error transforming URL for image ${index + 1}:`, error);
-              imageUrl = url; // Fallback to original URL
+              imageUrl = image.url; // Fallback to original URL
             }
 
 
 
             return (
               <div
-                key={index}
+                key={image.id}
                 className="startsnap-gallery-item"
-                onClick={() => openLightbox(index)}
+                onClick={() => openLightbox(index + videoSlideCount)}
               >
-                {/* Simplified image container */}
-                <div className="relative w-full h-48 overflow-hidden">
+                {/* Simplified image container; the blurred placeholder shows until the image has loaded */}
+                <div
+                  className="relative w-full h-48 overflow-hidden bg-gray-100 bg-cover bg-center"
+                  style={image.placeholder ? { backgroundImage: `url(${image.placeholder})` } : undefined}
+                >
                   <img
                     src={imageUrl}
-                    alt={`Screenshot ${index + 1}`}
+                    alt={getAltText(image, index)}
                     className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-200 md:duration-300"
                     loading="lazy"
                     onError={(e) => {
@@ -157,6 +223,12 @@ export const ScreenshotGallery: React.FC<ScreenshotGalleryProps> = ({ urls }) =>
                     </div>
                   </div>
                 </div>
+
+                {image.caption && (
+                  <p className="px-3 py-2 font-body text-sm text-startsnap-river-bed border-t-2 border-gray-800 line-clamp-2">
+                    {image.caption}
+                  </p>
+                )}
               </div>
             );
           })}
@@ -194,7 +266,7 @@ export const ScreenshotGallery: React.FC<ScreenshotGalleryProps> = ({ urls }) =>
           </Button>
 
           {/* Enhanced Navigation Buttons */}
-          {urls.length > 1 && (
+          {slideCount > 1 && (
             <>
               <Button
                 variant="ghost"
@@ -239,18 +311,18 @@ export const ScreenshotGallery: React.FC<ScreenshotGalleryProps> = ({ urls }) =>
             <div className="bg-startsnap-candlelight border-b-2 border-gray-800 px-6 py-3 flex items-center justify-between">
               <div className="flex items-center gap-3">
                 <span className="material-icons text-startsnap-persian-blue text-xl">
-                  photo_camera
+                  {isVideoSlide ? 'videocam' : 'photo_camera'}
                 </span>
                 <h3 className="font-subheading text-startsnap-ebony-clay text-lg">
-                  Screenshot Preview
+                  {isVideoSlide ? 'Demo Video' : 'Screenshot Preview'}
                 </h3>
               </div>
 
               {/* Image Counter in header */}
-              {urls.length > 1 && (
+              {slideCount > 1 && (
                 <div className="bg-startsnap-wisp-pink border-2 border-gray-800 rounded-full px-3 py-1 shadow-[2px_2px_0px_#1f2937]">
                   <span className="font-ui text-startsnap-ebony-clay text-sm">
-                    {currentImageIndex + 1} of {urls.length}
+                    {currentSlideIndex + 1} of {slideCount}
                   </span>
                 </div>
               )}
@@ -258,25 +330,34 @@ export const ScreenshotGallery: React.FC<ScreenshotGalleryProps> = ({ urls }) =>
 
             {/* Image Container */}
             <div className="relative bg-gray-100 flex items-center justify-center min-h-[60vh]">
-              {urls[currentImageIndex] && (
+              {isVideoSlide && video && (
+                <div className="w-[min(85vw,1100px)]">
+                  <DemoVideoPlayer
+                    video={video}
+                    title={`${projectName} demo video`}
+                    loadImmediately={isVideoRequested}
+                  />
+                </div>
+              )}
+              {currentImage && (
                 <img
                   src={(() => {
                     try {
                       // Only transform Supabase URLs
-                      if (urls[currentImageIndex].includes('supabase.co/storage')) {
+                      if (currentImage.url.includes('supabase.co/storage')) {
                         // Optimize for lightbox display: 1200px max width with contain resize and higher quality
-                        return getTransformedImageUrl(urls[currentImageIndex], {
+                        return getTransformedImageUrl(currentImage.url, {
                           width: 1200,
                           quality: 85,
                           resize: 'contain'
                         });
                       }
-                      return urls[currentImageIndex];
+                      return currentImage.url;
                     } catch (error) {
-                      return urls[currentImageIndex];
+                      return currentImage.url;
                     }
                   })()}
-                  alt={`Screenshot ${currentImageIndex + 1}`}
+                  alt={getAltText(currentImage, currentSlideIndex - videoSlideCount)}
                   className="max-w-full max-h-[75vh] object-contain shadow-lg transition-all duration-300"
                   style={{
                     filter: 'drop-shadow(0 10px 25px rgba(0, 0, 0, 0.2))',
@@ -289,11 +370,14 @@ export const ScreenshotGallery: React.FC<ScreenshotGalleryProps> = ({ urls }) =>
                   }}
                 />
               )}
-
-
             </div>
 
-
+            {/* Caption */}
+            {currentImage?.caption && (
+              <div className="bg-white border-t-2 border-gray-800 px-6 py-3">
+                <p className="font-body text-startsnap-river-bed text-base">{currentImage.caption}</p>
+              </div>
+            )}
           </div>
 
           {/* Add custom animations via inline styles */}
@@ -0,0 +1,304 @@
+/**
+ * src/screens/ProjectDetail/components/VibeLogHistoryDialog.tsx
+ * @description Dialog listing the versions of an edited vibe log entry, with a line diff of what each edit changed
+ * and, for the project's owner and editors, restoring an earlier version.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '../../../components/ui/button';
+import { X } from 'lucide-react';
+import { profilesApi, vibeLogsApi } from '../../../lib/api';
+import type { UsernameMap } from '../../../lib/api';
+import { useApiErrorHandler } from '../../../hooks/useApiErrorHandler';
+import { getVibeLogDisplay } from '../../../config/categories';
+import { formatDetailedDate } from '../../../lib/utils';
+import { diffLines } from '../../../lib/lineDiff';
+import { toast } from 'sonner';
+import type { VibeLog, VibeLogRevision } from '../../../types/vibeLog';
+
+/**
+ * @description One version of an entry: the current one or an earlier revision
+ */
+interface VibeLogVersion {
+  id: string;
+  log_type: string;
+  title: string;
+  content: string;
+  writtenAt: string;
+  writtenBy: string | null; // Whose edit produced this version; unknown for the original
+  isCurrent: boolean;
+}
+
+/**
+ * @description Props for the VibeLogHistoryDialog component.
+ * @param {VibeLog | null} entry - The entry whose history is shown; the dialog is closed when null.
+ * @param {boolean} canEdit - Whether the current user may restore earlier versions.
+ * @param {() => void} onClose - Closes the dialog.
+ * @param {() => Promise<void>} onRestored - Called after a version was restored, to refresh the entries.
+ */
+interface VibeLogHistoryDialogProps {
+  entry: VibeLog | null;
+  canEdit: boolean;
+  onClose: () => void;
+  onRestored: () => Promise<void>;
+}
+
+/**
+ * @description Version history of a vibe log entry with diffs and restore
+ * @param {VibeLogHistoryDialogProps} props - Component props
+ * @returns {JSX.Element | null} History dialog or null if no entry is selected
+ */
+export const VibeLogHistoryDialog: React.FC<VibeLogHistoryDialogProps> = ({
+  entry,
+  canEdit,
+  onClose,
+  onRestored,
+}) => {
+  const { reportApiError } = useApiErrorHandler();
+  const [revisions, setRevisions] = useState<VibeLogRevision[]>([]);
+  const [editors, setEditors] = useState<UsernameMap>({});
+  const [loading, setLoading] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!entry) return;
+
+    /**
+     * @description Loads the entry's revisions and the usernames of whoever made each edit
+     * @async
+     * @sideEffects Updates revisions, editors, selectedIndex and loading state
+     */
+    const fetchHistory = async () => {
+      setLoading(true);
+      setSelectedIndex(0);
+      try {
+        const entryRevisions = await vibeLogsApi.fetchVibeLogRevisions(entry.id);
+        setRevisions(entryRevisions);
+        setEditors(await profilesApi.fetchUsernameMap(
+          entryRevisions.map(revision => revision.replaced_by).filter((id): id is string => !!id)
+        ));
+      } catch (error) {
+        await reportApiError(error, 'History Unavailable', 'Could not load the edit history. Please try again.');
+        setRevisions([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [entry]);
+
+  // Newest first: the current entry, then each version an edit replaced
+  const versions = useMemo<VibeLogVersion[]>(() => {
+    if (!entry) return [];
+
+    const current: VibeLogVersion = {
+      id: entry.id,
+      log_type: entry.log_type,
+      title: entry.title,
+      content: entry.content || '',
+      writtenAt: entry.edited_at || entry.created_at,
+      writtenBy: revisions[0]?.replaced_by ?? null,
+      isCurrent: true,
+    };
+
+    return [
+      current,
+      ...revisions.map((revision, index): VibeLogVersion => ({
+        id: revision.id,
+        log_type: revision.log_type,
+        title: revision.title,
+        content: revision.content || '',
+        writtenAt: revision.created_at,
+        writtenBy: revisions[index + 1]?.replaced_by ?? null,
+        isCurrent: false,
+      })),
+    ];
+  }, [entry, revisions]);
+
+  if (!entry) return null;
+
+  const selected = versions[selectedIndex];
+  const previous = versions[selectedIndex + 1];
+  const diff = selected ? diffLines(previous ? previous.content : '', selected.content) : [];
+
+  /**
+   * @description Handles backdrop click to close dialog
+   * @param {React.MouseEvent} e - Mouse event
+   */
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget && !isRestoring) {
+      onClose();
+    }
+  };
+
+  /**
+   * @description Handles escape key press to close dialog
+   * @param {React.KeyboardEvent} e - Keyboard event
+   */
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && !isRestoring) {
+      onClose();
+    }
+  };
+
+  /**
+   * @description Makes the selected earlier version the current one
+   * @async
+   * @sideEffects Updates the entry, which records the replaced version as a new revision, then refreshes and closes
+   */
+  const handleRestore = async () => {
+    if (!selected || selected.isCurrent) return;
+
+    setIsRestoring(true);
+    try {
+      await vibeLogsApi.updateVibeLog(entry.id, {
+        log_type: selected.log_type,
+        title: selected.title,
+        content: selected.content,
+      });
+      toast.success('Version Restored', {
+        description: `The entry now shows the version from ${formatDetailedDate(selected.writtenAt)}.`
+      });
+      await onRestored();
+      onClose();
+    } catch (error) {
+      await reportApiError(error, 'Restore Failed', 'Failed to restore this version. Please try again.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+    >
+      <div
+        className="bg-startsnap-white border-2 border-startsnap-ebony-clay rounded-xl shadow-[4px_4px_0px_#1f2937] max-w-3xl w-full max-h-[90vh] flex flex-col animate-in zoom-in-95 duration-200"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="vibe-log-history-title"
+      >
+        {/* Header Section */}
+        <div className="border-b-2 border-startsnap-ebony-clay p-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-8 h-8 bg-startsnap-corn rounded-lg border-2 border-startsnap-ebony-clay flex items-center justify-center shadow-[2px_2px_0px_#1f2937]">
+                <span className="material-icons text-base text-startsnap-ebony-clay">history</span>
+              </div>
+              <h2
+                id="vibe-log-history-title"
+                className="font-heading text-startsnap-ebony-clay text-xl uppercase tracking-wider"
+              >
+                Edit History
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isRestoring}
+              className="w-8 h-8 bg-startsnap-beige border-2 border-startsnap-ebony-clay rounded-lg hover:bg-startsnap-beige/90 active:scale-95 transition-all duration-150 flex items-center justify-center shadow-[2px_2px_0px_#1f2937] hover:shadow-[3px_3px_0px_#1f2937] hover:translate-x-[-1px] hover:translate-y-[-1px]"
+              aria-label="Close dialog"
+            >
+              <X className="h-4 w-4 text-startsnap-ebony-clay" />
+            </button>
+          </div>
+          <p className="text-startsnap-ebony-clay/70 mt-3 font-medium text-sm">
+            Every published version of <strong className="text-startsnap-ebony-clay">{entry.title}</strong>
+          </p>
+        </div>
+
+        {/* Main Content Section */}
+        {loading ? (
+          <p className="p-6 text-sm text-startsnap-pale-sky">Loading history...</p>
+        ) : (
+          <div className="flex flex-col md:flex-row min-h-0 flex-1">
+            {/* Versions */}
+            <ol className="md:w-60 shrink-0 border-b-2 md:border-b-0 md:border-r-2 border-startsnap-ebony-clay overflow-y-auto max-h-40 md:max-h-none">
+              {versions.map((version, index) => (
+                <li key={version.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedIndex(index)}
+                    className={`w-full text-left px-4 py-3 border-b border-gray-200 transition-colors ${
+                      index === selectedIndex ? 'bg-startsnap-candlelight' : 'hover:bg-startsnap-athens-gray'
+                    }`}
+                  >
+                    <span className="block font-ui text-sm text-startsnap-ebony-clay">
+                      {version.isCurrent ? 'Current version' : index === versions.length - 1 ? 'Original' : `Version ${versions.length - index}`}
+                    </span>
+                    <span className="block font-body text-xs text-startsnap-pale-sky">
+                      {formatDetailedDate(version.writtenAt)}
+                    </span>
+                    {version.writtenBy && editors[version.writtenBy] && (
+                      <span className="block font-body text-xs text-startsnap-pale-sky">
+                        edited by {editors[version.writtenBy]}
+                      </span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ol>
+
+            {/* Diff of the selected version against the one before it */}
+            {selected && (
+              <div className="flex-1 min-w-0 overflow-y-auto p-6 space-y-4">
+                {previous && previous.title !== selected.title && (
+                  <p className="font-body text-sm text-startsnap-river-bed">
+                    Title changed from <span className="line-through">{previous.title}</span> to{' '}
+                    <strong className="text-startsnap-ebony-clay">{selected.title}</strong>
+                  </p>
+                )}
+                {previous && previous.log_type !== selected.log_type && (
+                  <p className="font-body text-sm text-startsnap-river-bed">
+                    Entry type changed from {getVibeLogDisplay(previous.log_type).label} to{' '}
+                    <strong className="text-startsnap-ebony-clay">{getVibeLogDisplay(selected.log_type).label}</strong>
+                  </p>
+                )}
+                {!previous && (
+                  <p className="font-body text-sm text-startsnap-river-bed">
+                    The entry as it was first published.
+                  </p>
+                )}
+
+                <pre className="border-2 border-gray-800 rounded-lg overflow-x-auto text-xs font-mono leading-5">
+                  {diff.length === 0 ? (
+                    <span className="block px-3 py-2 text-startsnap-pale-sky">No content</span>
+                  ) : diff.map((line, index) => (
+                    <span
+                      key={index}
+                      className={`block px-3 whitespace-pre-wrap break-words ${
+                        line.type === 'added'
+                          ? 'bg-startsnap-mountain-meadow/15 text-startsnap-ebony-clay'
+                          : line.type === 'removed'
+                            ? 'bg-startsnap-french-rose/15 text-startsnap-ebony-clay line-through decoration-startsnap-french-rose/60'
+                            : 'text-startsnap-river-bed'
+                      }`}
+                    >
+                      <span className="select-none inline-block w-4 text-startsnap-pale-sky" aria-hidden="true">
+                        {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+                      </span>
+                      {line.text || ' '}
+                    </span>
+                  ))}
+                </pre>
+
+                {canEdit && !selected.isCurrent && (
+                  <div className="flex justify-end">
+                    <Button type="button" variant="primary" size="sm" onClick={handleRestore} disabled={isRestoring}>
+                      <span className="material-icons text-base mr-2">restore</span>
+                      {isRestoring ? 'Restoring...' : 'Restore This Version'}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
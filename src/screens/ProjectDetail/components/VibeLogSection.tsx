@@ -3,11 +3,15 @@
  * @description Component for displaying and managing Vibe Log entries for a StartSnap project.
  */
 import React, { useState, useEffect } from "react";
+import { useLocation } from "react-router-dom";
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { supabase } from "../../../lib/supabase";
+import { vibeLogsApi } from "../../../lib/api";
+import { useApiErrorHandler } from "../../../hooks/useApiErrorHandler";
+import { clearAutosavedChanges, getAutosaveKey, hasAutosavedChanges } from "../../../hooks/useFormAutosave";
 import { getVibeLogDisplay } from "../../../config/categories";
 import { formatDetailedDate } from "../../../lib/utils";
+import { formatPublishAt, resolvePublishStatus } from "../../../lib/publishing";
 import { Button } from "../../../components/ui/button";
 import { Card, CardContent } from "../../../components/ui/card";
 import { VibeLogEntry as VibeLogEntryComponent } from '../../../components/ui/vibe-log-entry';
@@ -18,23 +22,26 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger
 } from "../../../components/ui/dropdown-menu";
-import { MoreHorizontal, Edit, Trash2 } from "lucide-react";
+import { MoreHorizontal, Edit, Trash2, Send } from "lucide-react";
 import type { VibeLog, VibeLogFormData } from "../../../types/vibeLog";
 import { toast } from "sonner";
 import { ConfirmationDialog } from "../../../components/ui/confirmation-dialog";
+import { VibeLogHistoryDialog } from "./VibeLogHistoryDialog";
+
+const EMPTY_VIBE_LOG: VibeLogFormData = { log_type: 'update', title: '', content: '', publish_at: null };
 
 /**
  * @description Props for the VibeLogSection component.
  * @param startsnapId - The ID of the current StartSnap project.
  * @param initialVibeLogEntries - The initial list of Vibe Log entries.
- * @param isOwner - Boolean indicating if the current user owns the project.
+ * @param canEdit - Boolean indicating if the current user owns or is an editor of the project.
  * @param currentUserId - The ID of the current authenticated user, if any.
  * @param onVibeLogChange - Callback function to be invoked when Vibe Log data changes, to trigger a refresh in the parent.
  */
 interface VibeLogSectionProps {
   startsnapId: string;
   initialVibeLogEntries: VibeLog[];
-  isOwner: boolean;
+  canEdit: boolean;
   projectName: string;
   isHackathonEntry: boolean;
   currentUserId?: string;
@@ -49,21 +56,22 @@ interface VibeLogSectionProps {
 export const VibeLogSection: React.FC<VibeLogSectionProps> = ({
   startsnapId,
   initialVibeLogEntries,
-  isOwner,
+  canEdit,
   projectName,
   isHackathonEntry,
   currentUserId,
   onVibeLogChange,
 }) => {
+  const { reportApiError } = useApiErrorHandler();
+  const location = useLocation();
   const [vibeLogEntries, setVibeLogEntries] = useState<VibeLog[]>(initialVibeLogEntries);
   const [isAddingVibeLog, setIsAddingVibeLog] = useState(false);
   const [editingVibeLogInline, setEditingVibeLogInline] = useState<VibeLog | null>(null);
-  const [newVibeLogData, setNewVibeLogData] = useState<VibeLogFormData>({
-    log_type: 'update',
-    title: '',
-    content: '',
-  });
+  const [newVibeLogData, setNewVibeLogData] = useState<VibeLogFormData>(EMPTY_VIBE_LOG);
   const [currentEditVibeLogData, setCurrentEditVibeLogData] = useState<VibeLogFormData | null>(null);
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
+  const [publishingVibeLogId, setPublishingVibeLogId] = useState<string | null>(null);
+  const [historyEntry, setHistoryEntry] = useState<VibeLog | null>(null);
 
   // Confirmation dialog state
   const [deletingVibeLogId, setDeletingVibeLogId] = useState<string | null>(null);
@@ -74,77 +82,141 @@ export const VibeLogSection: React.FC<VibeLogSectionProps> = ({
   }, [initialVibeLogEntries]);
 
   /**
-   * @description Handles submission of a new Vibe Log entry.
+   * @description Builds the autosave key of the add form ("new") or of an entry being edited
+   * @param {string} entryId - Vibe Log ID, or "new"
+   * @returns {string | null} Storage key, or null when nobody is signed in
+   */
+  const getVibeLogAutosaveKey = (entryId: string): string | null => {
+    return currentUserId ? getAutosaveKey(currentUserId, location.pathname, `${startsnapId}:vibe-log:${entryId}`) : null;
+  };
+
+  // Reopen the add form when an unsaved new entry was left behind
+  useEffect(() => {
+    if (canEdit && hasAutosavedChanges(getVibeLogAutosaveKey('new'))) {
+      setIsAddingVibeLog(true);
+    }
+  }, [canEdit, currentUserId, startsnapId]);
+
+  /**
+   * @description Shows the success toast for a saved entry according to its new status.
+   * @param {VibeLogFormData} data - The saved entry data, including its status.
+   * @param {string} publishedTitle - Toast title when the entry went live.
+   * @param {string} publishedDescription - Toast description when the entry went live.
+   */
+  const notifySaved = (data: VibeLogFormData, publishedTitle: string, publishedDescription: string) => {
+    if (data.status === 'draft') {
+      toast.success('Draft Saved', {
+        description: 'Only you and your collaborators can see this entry until you publish it.'
+      });
+    } else if (data.status === 'scheduled' && data.publish_at) {
+      toast.success('Vibe Log Scheduled', {
+        description: `The entry goes live on ${formatPublishAt(data.publish_at)}.`
+      });
+    } else {
+      toast.success(publishedTitle, { description: publishedDescription });
+    }
+  };
+
+  /**
+   * @description Handles submission of a new Vibe Log entry, or saving it as a draft.
    * @async
-   * @sideEffects Makes a Supabase insert call and then calls onVibeLogChange.
+   * @param {boolean} [asDraft=false] - Save the entry as a draft instead of publishing or scheduling it.
+   * @sideEffects Creates the entry through the vibe log repository and then calls onVibeLogChange.
    */
-  const handleVibeLogSubmit = async () => {
+  const handleVibeLogSubmit = async (asDraft = false) => {
     if (!startsnapId) return;
-    if (!newVibeLogData.title.trim() || !newVibeLogData.content.trim()) {
+    if (!newVibeLogData.title.trim() || (!asDraft && !newVibeLogData.content.trim())) {
       toast.error('Missing Information', {
-        description: 'Please provide a title and content for the Vibe Log entry.'
+        description: asDraft
+          ? 'Please give the draft a title.'
+          : 'Please provide a title and content for the Vibe Log entry.'
       });
       return;
     }
+    const data: VibeLogFormData = {
+      ...newVibeLogData,
+      status: asDraft ? 'draft' : resolvePublishStatus(newVibeLogData.publish_at)
+    };
+    if (data.status === 'published') data.publish_at = null;
+
+    if (asDraft) setIsSavingDraft(true);
     try {
-      const { error } = await supabase
-        .from('vibelogs')
-        .insert({
-          startsnap_id: startsnapId,
-          log_type: newVibeLogData.log_type,
-          title: newVibeLogData.title,
-          content: newVibeLogData.content
-        });
-      if (error) throw error;
-      toast.success('Vibe Log Added!', {
-        description: 'Your new entry has been added to the project.'
-      });
+      await vibeLogsApi.createVibeLog(startsnapId, data);
+      clearAutosavedChanges(getVibeLogAutosaveKey('new'));
+      notifySaved(data, 'Vibe Log Added!', 'Your new entry has been added to the project.');
       await onVibeLogChange();
       setIsAddingVibeLog(false);
-      setNewVibeLogData({ log_type: 'update', title: '', content: '' });
+      setNewVibeLogData(EMPTY_VIBE_LOG);
     } catch (error) {
-      console.error('Error adding vibe log entry:', error);
-      toast.error('Add Failed', {
-        description: 'Failed to add vibe log entry. Please try again.'
-      });
+      await reportApiError(error, 'Add Failed', 'Failed to add vibe log entry. Please try again.');
+    } finally {
+      setIsSavingDraft(false);
     }
   };
 
   /**
-   * @description Handles updating an existing Vibe Log entry.
+   * @description Handles updating an existing Vibe Log entry. Entries that are not published yet can be kept as a
+   * draft, scheduled or published; published entries keep their status.
    * @async
-   * @sideEffects Makes a Supabase update call and then calls onVibeLogChange.
+   * @param {boolean} [asDraft=false] - Keep an unpublished entry as a draft.
+   * @sideEffects Saves the changes through the vibe log repository and then calls onVibeLogChange.
    */
-  const handleUpdateVibeLog = async () => {
+  const handleUpdateVibeLog = async (asDraft = false) => {
     if (!editingVibeLogInline || !currentEditVibeLogData) return;
-    if (!currentEditVibeLogData.title.trim() || !currentEditVibeLogData.content.trim()) {
+    if (!currentEditVibeLogData.title.trim() || (!asDraft && !currentEditVibeLogData.content.trim())) {
       toast.error('Missing Information', {
-        description: 'Please provide a title and content for the Vibe Log entry.'
+        description: asDraft
+          ? 'Please give the draft a title.'
+          : 'Please provide a title and content for the Vibe Log entry.'
       });
       return;
     }
+    const isPublished = (editingVibeLogInline.status ?? 'published') === 'published';
+    const data: VibeLogFormData = isPublished
+      ? { log_type: currentEditVibeLogData.log_type, title: currentEditVibeLogData.title, content: currentEditVibeLogData.content }
+      : {
+        ...currentEditVibeLogData,
+        status: asDraft ? 'draft' : resolvePublishStatus(currentEditVibeLogData.publish_at)
+      };
+    if (data.status === 'published') data.publish_at = null;
+
+    if (asDraft) setIsSavingDraft(true);
     try {
-      const { error } = await supabase
-        .from('vibelogs')
-        .update({
-          log_type: currentEditVibeLogData.log_type,
-          title: currentEditVibeLogData.title,
-          content: currentEditVibeLogData.content,
-          updated_at: new Date()
-        })
-        .eq('id', editingVibeLogInline.id);
-      if (error) throw error;
-      toast.success('Vibe Log Updated!', {
-        description: 'Your changes have been saved successfully.'
-      });
+      await vibeLogsApi.updateVibeLog(editingVibeLogInline.id, data);
+      clearAutosavedChanges(getVibeLogAutosaveKey(editingVibeLogInline.id));
+      notifySaved(
+        data,
+        isPublished ? 'Vibe Log Updated!' : 'Vibe Log Published!',
+        isPublished ? 'Your changes have been saved successfully.' : 'Your entry is now live on the project.'
+      );
       await onVibeLogChange();
       setEditingVibeLogInline(null);
       setCurrentEditVibeLogData(null);
     } catch (error) {
-      console.error('Error updating vibe log entry:', error);
-      toast.error('Update Failed', {
-        description: 'Failed to update vibe log entry. Please try again.'
+      await reportApiError(error, 'Update Failed', 'Failed to update vibe log entry. Please try again.');
+    } finally {
+      setIsSavingDraft(false);
+    }
+  };
+
+  /**
+   * @description Publishes a draft or scheduled Vibe Log entry right away.
+   * @async
+   * @param {string} entryId - The ID of the Vibe Log entry to publish.
+   * @sideEffects Updates the entry through the vibe log repository and then calls onVibeLogChange.
+   */
+  const handlePublishVibeLog = async (entryId: string) => {
+    setPublishingVibeLogId(entryId);
+    try {
+      await vibeLogsApi.publishVibeLog(entryId);
+      toast.success('Vibe Log Published!', {
+        description: 'Your entry is now live on the project.'
       });
+      await onVibeLogChange();
+    } catch (error) {
+      await reportApiError(error, 'Publish Failed', 'Failed to publish vibe log entry. Please try again.');
+    } finally {
+      setPublishingVibeLogId(null);
     }
   };
 
@@ -158,6 +230,7 @@ export const VibeLogSection: React.FC<VibeLogSectionProps> = ({
       log_type: entry.log_type,
       title: entry.title,
       content: entry.content,
+      publish_at: entry.publish_at ?? null,
     });
     setIsAddingVibeLog(false); // Close add form if open
   };
@@ -173,18 +246,14 @@ export const VibeLogSection: React.FC<VibeLogSectionProps> = ({
   /**
    * @description Confirms and executes vibe log deletion
    * @async
-   * @sideEffects Makes a Supabase delete call and then calls onVibeLogChange
+   * @sideEffects Deletes through the vibe log repository and then calls onVibeLogChange
    */
   const confirmDeleteVibeLog = async () => {
     if (!deletingVibeLogId) return;
 
     setIsDeletingVibeLog(true);
     try {
-      const { error } = await supabase
-        .from('vibelogs')
-        .delete()
-        .eq('id', deletingVibeLogId);
-      if (error) throw error;
+      await vibeLogsApi.deleteVibeLog(deletingVibeLogId);
 
       toast.success('Vibe Log Deleted', {
         description: 'The entry has been permanently removed.'
@@ -192,10 +261,7 @@ export const VibeLogSection: React.FC<VibeLogSectionProps> = ({
       await onVibeLogChange();
       setDeletingVibeLogId(null);
     } catch (error) {
-      console.error('Error deleting vibe log entry:', error);
-      toast.error('Delete Failed', {
-        description: 'Failed to delete vibe log entry. Please try again.'
-      });
+      await reportApiError(error, 'Delete Failed', 'Failed to delete vibe log entry. Please try again.');
     } finally {
       setIsDeletingVibeLog(false);
     }
@@ -233,12 +299,12 @@ export const VibeLogSection: React.FC<VibeLogSectionProps> = ({
             insights
           </span>
         </div>
-        {isOwner && (
+        {canEdit && (
           <Button
             onClick={() => {
               setIsAddingVibeLog(true);
               setEditingVibeLogInline(null); // Close edit form if open
-              setNewVibeLogData({ log_type: 'update', title: '', content: '' });
+              setNewVibeLogData(EMPTY_VIBE_LOG);
             }}
             variant="primary"
             size="sm"
@@ -249,7 +315,7 @@ export const VibeLogSection: React.FC<VibeLogSectionProps> = ({
         )}
       </div>
 
-      {isOwner && isAddingVibeLog && (
+      {canEdit && isAddingVibeLog && (
         <div className="startsnap-form-card">
           <div className="py-2 md:p-0">
             <h3 className="font-subheading text-gray-900 text-xl mb-6 px-1 md:px-0 md:mb-4">
@@ -263,23 +329,30 @@ export const VibeLogSection: React.FC<VibeLogSectionProps> = ({
               onTitleChange={(title: string) => setNewVibeLogData(prev => ({ ...prev, title }))}
               onContentChange={(content: string) => setNewVibeLogData(prev => ({ ...prev, content }))}
               showAllTypes={true}
+              publishAt={newVibeLogData.publish_at}
+              onPublishAtChange={(publish_at: string | null) => setNewVibeLogData(prev => ({ ...prev, publish_at }))}
+              onSaveDraft={() => handleVibeLogSubmit(true)}
+              isSavingDraft={isSavingDraft}
+              autosaveKey={getVibeLogAutosaveKey('new')}
+              isDirty={!!(newVibeLogData.title.trim() || newVibeLogData.content.trim())}
             />
             <div className="startsnap-form-actions">
               <Button
                 variant="secondary"
                 onClick={() => {
+                  clearAutosavedChanges(getVibeLogAutosaveKey('new'));
                   setIsAddingVibeLog(false);
-                  setNewVibeLogData({ log_type: 'update', title: '', content: '' });
+                  setNewVibeLogData(EMPTY_VIBE_LOG);
                 }}
               >
                 Cancel
               </Button>
               <Button
                 variant="primary"
-                onClick={handleVibeLogSubmit}
+                onClick={() => handleVibeLogSubmit()}
                 disabled={!newVibeLogData.title.trim() || !newVibeLogData.content.trim()}
               >
-                Submit Entry
+                {resolvePublishStatus(newVibeLogData.publish_at) === 'scheduled' ? 'Schedule Entry' : 'Submit Entry'}
               </Button>
             </div>
           </div>
@@ -290,7 +363,8 @@ export const VibeLogSection: React.FC<VibeLogSectionProps> = ({
         vibeLogEntries.map((entry: VibeLog) => {
           const logType = entry.log_type || 'update';
           const iconData = getVibeLogDisplay(logType);
-          if (isOwner && editingVibeLogInline && editingVibeLogInline.id === entry.id && currentEditVibeLogData) {
+          const isPublished = (entry.status ?? 'published') === 'published';
+          if (canEdit && editingVibeLogInline && editingVibeLogInline.id === entry.id && currentEditVibeLogData) {
             return (
               <div key={`${entry.id}-edit`} className="startsnap-form-card">
                 <div className="py-2 md:p-0">
@@ -305,11 +379,24 @@ export const VibeLogSection: React.FC<VibeLogSectionProps> = ({
                     onTitleChange={(title: string) => setCurrentEditVibeLogData(prev => prev ? ({ ...prev, title }) : null)}
                     onContentChange={(content: string) => setCurrentEditVibeLogData(prev => prev ? ({ ...prev, content }) : null)}
                     showAllTypes={true}
+                    {...(!isPublished && {
+                      publishAt: currentEditVibeLogData.publish_at,
+                      onPublishAtChange: (publish_at: string | null) => setCurrentEditVibeLogData(prev => prev ? ({ ...prev, publish_at }) : null),
+                      onSaveDraft: () => handleUpdateVibeLog(true),
+                      isSavingDraft
+                    })}
+                    autosaveKey={getVibeLogAutosaveKey(entry.id)}
+                    isDirty={
+                      currentEditVibeLogData.log_type !== entry.log_type
+                      || currentEditVibeLogData.title !== entry.title
+                      || currentEditVibeLogData.content !== entry.content
+                    }
                   />
                   <div className="startsnap-form-actions">
                     <Button
                       variant="secondary"
                       onClick={() => {
+                        clearAutosavedChanges(getVibeLogAutosaveKey(entry.id));
                         setEditingVibeLogInline(null);
                         setCurrentEditVibeLogData(null);
                       }}
@@ -318,10 +405,12 @@ export const VibeLogSection: React.FC<VibeLogSectionProps> = ({
                     </Button>
                     <Button
                       variant="primary"
-                      onClick={handleUpdateVibeLog}
+                      onClick={() => handleUpdateVibeLog()}
                       disabled={!currentEditVibeLogData.title.trim() || !currentEditVibeLogData.content.trim()}
                     >
-                      Save Changes
+                      {isPublished
+                        ? 'Save Changes'
+                        : resolvePublishStatus(currentEditVibeLogData.publish_at) === 'scheduled' ? 'Schedule Entry' : 'Publish Entry'}
                     </Button>
                   </div>
                 </div>
@@ -329,7 +418,7 @@ export const VibeLogSection: React.FC<VibeLogSectionProps> = ({
             );
           }
           return (
-            <div key={entry.id} className="mb-8 last:mb-0">
+            <div key={entry.id} id={`vibelog-${entry.id}`} className="mb-8 last:mb-0 scroll-mt-32">
               <div className="flex items-start">
                 <div
                   className={`p-2.5 ${iconData.iconBg} rounded-full border-2 border-solid ${iconData.iconBorder} ${iconData.iconColor} text-3xl flex items-center justify-center flex-shrink-0`}
@@ -338,10 +427,33 @@ export const VibeLogSection: React.FC<VibeLogSectionProps> = ({
                 </div>
                 <div className="ml-4 flex-1 min-w-0">
                   <div className="flex items-center justify-between mb-2">
-                    <p className="font-body text-startsnap-pale-sky text-xs leading-4">
-                      {formatDetailedDate(entry.created_at)}
-                    </p>
-                    {isOwner && (
+                    <div className="flex items-center gap-2">
+                      {isPublished ? (
+                        <p className="font-body text-startsnap-pale-sky text-xs leading-4">
+                          {formatDetailedDate(entry.created_at)}
+                          {entry.edited_at && (
+                            <>
+                              {' · '}
+                              <button
+                                type="button"
+                                onClick={() => setHistoryEntry(entry)}
+                                className="underline decoration-dotted underline-offset-2 hover:text-startsnap-french-rose transition-colors"
+                                title={`Edited ${formatDetailedDate(entry.edited_at)}. Show edit history`}
+                              >
+                                edited
+                              </button>
+                            </>
+                          )}
+                        </p>
+                      ) : (
+                        <span className="font-mono text-xs rounded-full border border-gray-800 px-2 py-0.5 bg-startsnap-candlelight text-startsnap-ebony-clay">
+                          {entry.status === 'scheduled' && entry.publish_at
+                            ? `Scheduled for ${formatPublishAt(entry.publish_at)}`
+                            : 'Draft'}
+                        </span>
+                      )}
+                    </div>
+                    {canEdit && (
                       <div className="flex-shrink-0 ml-4">
                         <DropdownMenu>
                           <DropdownMenuTrigger asChild>
@@ -351,15 +463,26 @@ export const VibeLogSection: React.FC<VibeLogSectionProps> = ({
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end">
-                            <DropdownMenuItem
-                              onClick={() => handleShareOnX(entry.title)}
-                              className="text-startsnap-oxford-blue hover:bg-startsnap-french-rose/10"
-                            >
-                              <span className="mr-2 flex items-center justify-center">
-                                {React.createElement(FaXTwitter as any, { className: "text-sm" })}
-                              </span>
-                              Share
-                            </DropdownMenuItem>
+                            {isPublished ? (
+                              <DropdownMenuItem
+                                onClick={() => handleShareOnX(entry.title)}
+                                className="text-startsnap-oxford-blue hover:bg-startsnap-french-rose/10"
+                              >
+                                <span className="mr-2 flex items-center justify-center">
+                                  {React.createElement(FaXTwitter as any, { className: "text-sm" })}
+                                </span>
+                                Share
+                              </DropdownMenuItem>
+                            ) : (
+                              <DropdownMenuItem
+                                onClick={() => handlePublishVibeLog(entry.id)}
+                                disabled={publishingVibeLogId === entry.id || !entry.content?.trim()}
+                                className="text-startsnap-oxford-blue hover:bg-startsnap-french-rose/10"
+                              >
+                                <Send className="mr-2 h-4 w-4" />
+                                Publish Now
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuItem
                               onClick={() => handleEditVibeLogInline(entry)}
                               className="text-startsnap-oxford-blue hover:bg-startsnap-french-rose/10"
@@ -451,6 +574,13 @@ export const VibeLogSection: React.FC<VibeLogSectionProps> = ({
         </p>
       )}
 
+      <VibeLogHistoryDialog
+        entry={historyEntry}
+        canEdit={canEdit}
+        onClose={() => setHistoryEntry(null)}
+        onRestored={onVibeLogChange}
+      />
+
       {/* Confirmation Dialog */}
       <ConfirmationDialog
         isOpen={deletingVibeLogId !== null}
@@ -8,7 +8,7 @@ import { SearchAndFilterBar } from "../../components/ui/SearchAndFilterBar";
 import { StartSnapCard } from "../../components/ui/StartSnapCard";
 import { Button } from "../../components/ui/button";
 import { Link } from "react-router-dom";
-import { supabase } from "../../lib/supabase";
+import { profilesApi, startsnapsApi } from "../../lib/api";
 import { CATEGORY_CONFIG, getCategoryDisplay } from "../../config/categories";
 import { formatDate } from "../../lib/utils";
 import { TrendingSection } from "./components/TrendingSection";
@@ -53,7 +53,7 @@ export const Projects = (): JSX.Element => {
   const [totalProjectsCount, setTotalProjectsCount] = useState<number>(0);
 
   /**
-   * @description Fetches paginated StartSnaps from Supabase with search, filtering, and sorting
+   * @description Fetches paginated StartSnaps with search, filtering, and sorting
    * @async
    * @param {PaginatedProjectDiscoveryState} currentDiscoveryState - Current discovery state including pagination
    * @sideEffects Updates startSnaps, creators, totalProjectsCount, and loading state
@@ -62,70 +62,21 @@ export const Projects = (): JSX.Element => {
     try {
       setLoading(true);
 
-      // Calculate range for pagination (zero-based indices)
-      const startIndex = (currentDiscoveryState.page - 1) * currentDiscoveryState.pageSize;
-      const endIndex = startIndex + currentDiscoveryState.pageSize - 1;
-
-      let query = supabase
-        .from('startsnaps')
-        .select('*, support_count, screenshot_urls', { count: 'exact' })
-        .range(startIndex, endIndex);
-
-      if (currentDiscoveryState.searchTerm) {
-        const searchTerm = `%${currentDiscoveryState.searchTerm}%`;
-        query = query.or(
-          `name.ilike.${searchTerm},description.ilike.${searchTerm},tags.cs.{${currentDiscoveryState.searchTerm}},tools_used.cs.{${currentDiscoveryState.searchTerm}}`
-        );
-      }
-
-      if (currentDiscoveryState.filters.category) {
-        const categoryKey = Object.keys(CATEGORY_CONFIG).find(
-          key => CATEGORY_CONFIG[key as keyof typeof CATEGORY_CONFIG].label === currentDiscoveryState.filters.category
-        );
-        if (categoryKey) {
-          query = query.eq('category', categoryKey);
-        }
-      }
-      if (currentDiscoveryState.filters.type && currentDiscoveryState.filters.type !== 'all') {
-        query = query.eq('type', currentDiscoveryState.filters.type);
-      }
-      if (currentDiscoveryState.filters.isHackathonEntry) {
-        query = query.eq('is_hackathon_entry', true);
-      }
-
-      query = query.order(currentDiscoveryState.sort.field, { ascending: currentDiscoveryState.sort.direction === 'asc' });
-      if (currentDiscoveryState.sort.field !== 'created_at') {
-          query = query.order('created_at', { ascending: false });
-      }
-
-      const { data, error, count } = await query;
-
-      if (error) throw error;
+      const { startsnaps: data, totalCount } = await startsnapsApi.fetchPaginatedStartSnaps(currentDiscoveryState);
 
       // Update total count
-      setTotalProjectsCount(count || 0);
+      setTotalProjectsCount(totalCount);
 
       // For page 1, replace the array; for subsequent pages, append
       if (currentDiscoveryState.page === 1) {
-        setStartSnaps(data || []);
+        setStartSnaps(data);
       } else {
-        setStartSnaps(prevStartSnaps => [...prevStartSnaps, ...(data || [])]);
+        setStartSnaps(prevStartSnaps => [...prevStartSnaps, ...data]);
       }
 
-      if (data && data.length > 0) {
+      if (data.length > 0) {
         // Get user IDs from new data only
-        const newUserIds = [...new Set(data.map(snap => snap.user_id))];
-        const { data: profilesData, error: profilesError } = await supabase
-          .from('profiles')
-          .select('user_id, username')
-          .in('user_id', newUserIds);
-
-        if (profilesError) throw profilesError;
-
-        const newCreatorsMap: Record<UserProfileData['user_id'], UserProfileData['username']> = {};
-        profilesData?.forEach(profile => {
-          newCreatorsMap[profile.user_id] = profile.username;
-        });
+        const newCreatorsMap = await profilesApi.fetchUsernameMap(data.map(snap => snap.user_id));
 
         // For page 1, replace creators; for subsequent pages, merge
         if (currentDiscoveryState.page === 1) {
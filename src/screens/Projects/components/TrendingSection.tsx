@@ -1,28 +1,33 @@
 /**
  * src/screens/Projects/components/TrendingSection.tsx
- * @description Component for displaying the top 3 trending StartSnap projects based on support count
+ * @description Component for displaying the top 3 trending StartSnap projects based on recent, time-decayed activity
  */
 
 import React, { useState, useEffect } from "react";
-import { supabase } from "../../../lib/supabase";
+import { profilesApi, startsnapsApi } from "../../../lib/api";
 import { StartSnapCard } from "../../../components/ui/StartSnapCard";
-import { getCategoryDisplay } from "../../../config/categories";
+import { Button } from "../../../components/ui/button";
+import { getCategoryDisplay, getTrendingWindowOptions } from "../../../config/categories";
 import { formatDate } from "../../../lib/utils";
 import type { StartSnapProject } from "../../../types/startsnap";
+import type { TrendingWindow } from "../../../types/projectDiscovery";
 import type { UserProfileData } from "../../../types/user";
 
+const trendingWindowOptions = getTrendingWindowOptions();
+
 /**
- * @description Component that fetches and displays the top 3 trending projects by support count
- * @returns {JSX.Element} Trending section with top 3 projects in a grid layout
+ * @description Component that fetches and displays the top 3 trending projects for a selectable time window
+ * @returns {JSX.Element} Trending section with a window toggle and the top 3 projects in a grid layout
  */
 export const TrendingSection = (): JSX.Element => {
   const [trendingProjects, setTrendingProjects] = useState<StartSnapProject[]>([]);
   const [loading, setLoading] = useState(true);
   const [creators, setCreators] = useState<Record<UserProfileData['user_id'], UserProfileData['username']>>({});
+  const [trendingWindow, setTrendingWindow] = useState<TrendingWindow>(startsnapsApi.DEFAULT_TRENDING_WINDOW);
 
   useEffect(() => {
     /**
-     * @description Fetches the top 3 projects by support count and their creators' usernames
+     * @description Fetches the top 3 projects by trending score and their creators' usernames
      * @async
      * @sideEffects Updates trendingProjects and creators state
      */
@@ -30,36 +35,12 @@ export const TrendingSection = (): JSX.Element => {
       try {
         setLoading(true);
 
-        // Fetch top 3 projects by support count
-        const { data: projectsData, error: projectsError } = await supabase
-          .from('startsnaps')
-          .select('*, support_count, screenshot_urls')
-          .order('support_count', { ascending: false })
-          .limit(3);
-
-        if (projectsError) throw projectsError;
-
-        setTrendingProjects(projectsData || []);
-
-        // Fetch creators' usernames if we have projects
-        if (projectsData && projectsData.length > 0) {
-          const userIds = [...new Set(projectsData.map(project => project.user_id))];
-          const { data: profilesData, error: profilesError } = await supabase
-            .from('profiles')
-            .select('user_id, username')
-            .in('user_id', userIds);
-
-          if (profilesError) throw profilesError;
-
-          const creatorsMap: Record<UserProfileData['user_id'], UserProfileData['username']> = {};
-          profilesData?.forEach(profile => {
-            creatorsMap[profile.user_id] = profile.username;
-          });
+        // Fetch top 3 projects by time-decayed activity in the selected window
+        const projectsData = await startsnapsApi.fetchTrendingStartSnaps(trendingWindow, 3);
+        setTrendingProjects(projectsData);
 
-          setCreators(creatorsMap);
-        } else {
-          setCreators({});
-        }
+        // Fetch creators' usernames (resolves to an empty map when there are no projects)
+        setCreators(await profilesApi.fetchUsernameMap(projectsData.map(project => project.user_id)));
       } catch (error) {
         console.error('Error fetching trending projects:', error);
         setTrendingProjects([]);
@@ -70,43 +51,75 @@ export const TrendingSection = (): JSX.Element => {
     };
 
     fetchTrendingProjects();
-  }, []);
+  }, [trendingWindow]);
 
-  if (loading) {
-    return (
-      <div className="text-center py-8">
-        <p className="text-lg text-startsnap-pale-sky">Loading trending projects...</p>
-      </div>
-    );
-  }
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <div className="text-center py-8">
+          <p className="text-lg text-startsnap-pale-sky">Loading trending projects...</p>
+        </div>
+      );
+    }
+
+    if (trendingProjects.length === 0) {
+      return (
+        <div className="text-center py-8">
+          <p className="text-lg text-startsnap-pale-sky">No trending projects yet.</p>
+        </div>
+      );
+    }
 
-  if (trendingProjects.length === 0) {
     return (
-      <div className="text-center py-8">
-        <p className="text-lg text-startsnap-pale-sky">No trending projects yet.</p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+        {trendingProjects.map((project, index) => {
+          const creatorName = creators[project.user_id] || 'Anonymous';
+          const rank = index + 1; // 1, 2, 3
+
+          return (
+            <StartSnapCard
+              key={project.id}
+              startsnap={project}
+              showCreator={true}
+              creatorName={creatorName}
+              variant="main-page"
+              formatDate={formatDate}
+              getCategoryDisplay={getCategoryDisplay}
+              rank={rank}
+            />
+          );
+        })}
       </div>
     );
-  }
+  };
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-      {trendingProjects.map((project, index) => {
-        const creatorName = creators[project.user_id] || 'Anonymous';
-        const rank = index + 1; // 1, 2, 3
+    <div>
+      {/* Trending Window Toggle */}
+      <div className="flex justify-center gap-2 mb-8" role="group" aria-label="Trending time window">
+        {trendingWindowOptions.map(option => {
+          const isSelected = option.value === trendingWindow;
+          return (
+            <Button
+              key={option.value}
+              variant="unstyled"
+              size="sm"
+              title={option.description}
+              aria-pressed={isSelected}
+              onClick={() => setTrendingWindow(option.value)}
+              className={`rounded-full border-2 px-4 font-bold transition-colors duration-200 ${
+                isSelected
+                  ? 'bg-startsnap-french-rose border-startsnap-french-rose text-startsnap-white'
+                  : 'bg-transparent border-startsnap-beige/60 text-startsnap-beige hover:border-startsnap-beige'
+              }`}
+            >
+              {option.label}
+            </Button>
+          );
+        })}
+      </div>
 
-        return (
-          <StartSnapCard
-            key={project.id}
-            startsnap={project}
-            showCreator={true}
-            creatorName={creatorName}
-            variant="main-page"
-            formatDate={formatDate}
-            getCategoryDisplay={getCategoryDisplay}
-            rank={rank}
-          />
-        );
-      })}
+      {renderContent()}
     </div>
   );
-};
\ No newline at end of file
+};
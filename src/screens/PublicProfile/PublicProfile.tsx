@@ -7,13 +7,19 @@ import React, { useEffect, useState } from "react";
 import { useParams, Link } from "react-router-dom";
 import { Card, CardContent } from "../../components/ui/card";
 import { Badge } from "../../components/ui/badge";
-import { supabase } from "../../lib/supabase";
+import { profilesApi, startsnapsApi } from "../../lib/api";
 import { FaGithub, FaXTwitter, FaLinkedinIn } from "react-icons/fa6";
 import { StartSnapCard } from "../../components/ui/StartSnapCard";
 import { getCategoryDisplay, getUserStatusOptions } from "../../config/categories";
 import { formatDate } from "../../lib/utils";
 import { UserAvatar, getAvatarName } from "../../components/ui/user-avatar";
+import { FollowButton } from "../../components/ui/FollowButton";
+import { BadgeShelf } from "../../components/ui/BadgeShelf";
+import { ReportDialog } from "../../components/ui/report-dialog";
+import { useAuth } from "../../context/AuthContext";
+import type { ReportTarget } from "../../types/report";
 import type { UserProfileData } from "../../types/user";
+import type { StartSnapProject } from "../../types/startsnap";
 import { Helmet } from "react-helmet-async";
 import { SITE_URL, DEFAULT_OG_IMAGE } from "../../config/site";
 
@@ -25,7 +31,9 @@ export const PublicProfile = (): JSX.Element => {
   const { username } = useParams<{ username: string }>();
   const [loading, setLoading] = useState(true);
   const [profile, setProfile] = useState<UserProfileData | null>(null);
-  const [userStartSnaps, setUserStartSnaps] = useState<any[]>([]);
+  const [userStartSnaps, setUserStartSnaps] = useState<StartSnapProject[]>([]);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+  const { user } = useAuth();
 
   useEffect(() => {
     if (!username) return;
@@ -34,24 +42,12 @@ export const PublicProfile = (): JSX.Element => {
       setLoading(true);
       try {
         // Fetch profile by unique username
-        const { data: profileData, error: profileError } = await supabase
-          .from('profiles')
-          .select('*')
-          .eq('username', username)
-          .single();
-
-        if (profileError) throw profileError;
+        const profileData = await profilesApi.fetchProfileByUsername(username);
         setProfile(profileData);
+        if (!profileData) return;
 
         // Fetch this user's StartSnaps
-        const { data: snapsData, error: snapsError } = await supabase
-          .from('startsnaps')
-          .select('*')
-          .eq('user_id', profileData.user_id)
-          .order('created_at', { ascending: false });
-
-        if (snapsError) throw snapsError;
-        setUserStartSnaps(snapsData || []);
+        setUserStartSnaps(await startsnapsApi.fetchStartSnapsByUser(profileData.user_id));
 
       } catch (error) {
         console.error("Error fetching public profile:", error);
@@ -148,6 +144,19 @@ export const PublicProfile = (): JSX.Element => {
                       <span className="material-icons text-sm mr-1">{getStatusIcon(profile.status || 'brainstorming')}</span>
                       {getUserStatusOptions().find(opt => opt.value === profile.status)?.label || 'Vibing'}
                     </Badge>
+                    <div className="mt-4">
+                      <FollowButton target={{ type: 'user', id: profile.user_id }} />
+                    </div>
+                    {user && user.id !== profile.user_id && (
+                      <button
+                        type="button"
+                        onClick={() => setReportTarget({ type: 'profile', id: profile.user_id, label: profile.username })}
+                        className="mt-3 inline-flex items-center gap-1 font-ui text-xs text-startsnap-pale-sky hover:text-startsnap-french-rose transition-colors"
+                      >
+                        <span className="material-icons text-sm">outlined_flag</span>
+                        Report profile
+                      </button>
+                    )}
                   </div>
                 </div>
                 <div className="flex-1">
@@ -172,6 +181,9 @@ export const PublicProfile = (): JSX.Element => {
               </div>
             </CardContent>
           </Card>
+
+          {/* Badges */}
+          <BadgeShelf userId={profile.user_id} />
         </div>
       </div>
 
@@ -215,6 +227,8 @@ export const PublicProfile = (): JSX.Element => {
           </div>
         </div>
       </div>
+
+      <ReportDialog target={reportTarget} onClose={() => setReportTarget(null)} />
     </div>
   );
 };
\ No newline at end of file
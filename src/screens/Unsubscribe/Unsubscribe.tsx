@@ -0,0 +1,125 @@
+/**
+ * src/screens/Unsubscribe/Unsubscribe.tsx
+ * @description Confirmation page opened by the unsubscribe link in notification emails. Opening it changes nothing;
+ * the button sends the signed link parameters (?u=&e=&s=) to the unsubscribe Edge Function, so mail scanners that
+ * open every link never unsubscribe anyone.
+ */
+
+import React, { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Button } from "../../components/ui/button";
+import { notificationsApi } from "../../lib/api";
+import { useApiErrorHandler } from "../../hooks/useApiErrorHandler";
+import { NOTIFICATION_EMAIL_EVENT_CONFIG } from "../../config/categories";
+import type { UnsubscribeScope } from "../../types/notification";
+
+type UnsubscribeState = 'confirm' | 'submitting' | 'done';
+
+/**
+ * @description Describes what a scope turns off, e.g. "emails about replies"
+ * @param {UnsubscribeScope} scope - Scope from the link
+ * @returns {string} Lowercase description for the page text
+ */
+const describeScope = (scope: UnsubscribeScope): string =>
+  scope === 'all'
+    ? 'StartSnap notification emails'
+    : `emails about ${NOTIFICATION_EMAIL_EVENT_CONFIG[scope].label.toLowerCase()}`;
+
+/**
+ * @description Checks a scope parameter against the known email events
+ * @param {string | null} scope - Raw "e" query parameter
+ * @returns {boolean} True for "all" and every configured email event
+ */
+const isUnsubscribeScope = (scope: string | null): scope is UnsubscribeScope =>
+  scope === 'all' || (scope !== null && Object.keys(NOTIFICATION_EMAIL_EVENT_CONFIG).includes(scope));
+
+/**
+ * @description Unsubscribe confirmation page
+ * @returns {JSX.Element} Confirmation, result or invalid link message
+ */
+export const Unsubscribe = (): JSX.Element => {
+  const [searchParams] = useSearchParams();
+  const { reportApiError } = useApiErrorHandler();
+  const [state, setState] = useState<UnsubscribeState>('confirm');
+
+  const userId = searchParams.get('u');
+  const scope = searchParams.get('e');
+  const signature = searchParams.get('s');
+  const isValidLink = Boolean(userId && signature) && isUnsubscribeScope(scope);
+
+  /**
+   * @description Sends the signed link parameters to the unsubscribe function
+   * @async
+   * @sideEffects Turns the matching email preferences off
+   */
+  const handleUnsubscribe = async () => {
+    if (!userId || !signature || !isUnsubscribeScope(scope)) return;
+
+    setState('submitting');
+    try {
+      await notificationsApi.unsubscribeWithSignedLink(userId, scope, signature);
+      setState('done');
+    } catch (error) {
+      await reportApiError(
+        error,
+        'Unsubscribe Failed',
+        'This link is invalid, or unsubscribing is temporarily unavailable. Please try again later.'
+      );
+      setState('confirm');
+    }
+  };
+
+  /**
+   * @description Renders the page body for the current state
+   * @returns {JSX.Element} Title, text and actions
+   */
+  const renderContent = () => {
+    if (!isValidLink) {
+      return (
+        <>
+          <h1 className="text-4xl font-heading text-startsnap-ebony-clay mb-4">Invalid link</h1>
+          <p className="text-lg text-startsnap-river-bed font-body">
+            This unsubscribe link is incomplete or has been altered. You can change your email settings on your
+            profile instead.
+          </p>
+        </>
+      );
+    }
+
+    if (state === 'done') {
+      return (
+        <>
+          <h1 className="text-4xl font-heading text-startsnap-ebony-clay mb-4">You're unsubscribed</h1>
+          <p className="text-lg text-startsnap-river-bed font-body">
+            You will no longer receive {describeScope(scope as UnsubscribeScope)}. In-app notifications are not affected.
+          </p>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <h1 className="text-4xl font-heading text-startsnap-ebony-clay mb-4">Unsubscribe?</h1>
+        <p className="text-lg text-startsnap-river-bed font-body mb-6">
+          Stop receiving {describeScope(scope as UnsubscribeScope)}? In-app notifications are not affected.
+        </p>
+        <Button variant="primary" onClick={handleUnsubscribe} disabled={state === 'submitting'}>
+          {state === 'submitting' ? 'Unsubscribing...' : 'Unsubscribe'}
+        </Button>
+      </>
+    );
+  };
+
+  return (
+    <div className="flex flex-col w-full items-center bg-white">
+      <div className="w-full max-w-xl px-8 py-16">
+        {renderContent()}
+        <p className="mt-8 font-body text-startsnap-river-bed">
+          <Link to="/profile" className="underline hover:text-startsnap-french-rose transition-colors">
+            Manage email settings
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+};
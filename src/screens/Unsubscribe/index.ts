@@ -0,0 +1,6 @@
+/**
+ * src/screens/Unsubscribe/index.ts
+ * @description Barrel file that exports the Unsubscribe component
+ */
+
+export { Unsubscribe } from "./Unsubscribe";
@@ -0,0 +1,434 @@
+/**
+ * src/screens/VibeRequests/VibeRequests.tsx
+ * @description Vibe Requests board where the community posts ideas and challenges and builders answer them with StartSnaps.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { vibeRequestsApi } from "../../lib/api";
+import { useAuth } from "../../context/AuthContext";
+import { useApiErrorHandler } from "../../hooks/useApiErrorHandler";
+import { Button } from "../../components/ui/button";
+import { AuthDialog } from "../../components/ui/auth-dialog";
+import { ConfirmationDialog } from "../../components/ui/confirmation-dialog";
+import { getVibeRequestStatusOptions, getVibeRequestTypeOptions } from "../../config/categories";
+import { VibeRequestCard } from "./components/VibeRequestCard";
+import { VibeRequestFormDialog } from "./components/VibeRequestFormDialog";
+import { AnswerRequestDialog } from "./components/AnswerRequestDialog";
+import type {
+  VibeRequest,
+  VibeRequestFilters,
+  VibeRequestFormData,
+  VibeRequestStatus,
+  VibeRequestWithDetails,
+} from "../../types/vibeRequest";
+
+const PAGE_SIZE = 9;
+
+const DEFAULT_FILTERS: VibeRequestFilters = { status: 'all', type: 'all' };
+
+const statusFilterOptions = [{ value: 'all', label: 'All', icon: 'apps' }, ...getVibeRequestStatusOptions()];
+const typeFilterOptions = [{ value: 'all', label: 'All Types', icon: 'apps' }, ...getVibeRequestTypeOptions()];
+
+/**
+ * @description Vibe Requests board page with filtering, create/edit, status transitions and answering
+ * @returns {JSX.Element} Vibe Requests page
+ */
+export const VibeRequests = (): JSX.Element => {
+  const { user } = useAuth();
+  const { reportApiError } = useApiErrorHandler();
+  const [requests, setRequests] = useState<VibeRequestWithDetails[]>([]);
+  const [totalCount, setTotalCount] = useState<number>(0);
+  const [filters, setFilters] = useState<VibeRequestFilters>(DEFAULT_FILTERS);
+  const [page, setPage] = useState<number>(1);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const [isFormOpen, setIsFormOpen] = useState<boolean>(false);
+  const [editingRequest, setEditingRequest] = useState<VibeRequestWithDetails | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [answeringRequest, setAnsweringRequest] = useState<VibeRequestWithDetails | null>(null);
+  const [requestToDelete, setRequestToDelete] = useState<VibeRequestWithDetails | null>(null);
+  const [isDeleting, setIsDeleting] = useState<boolean>(false);
+  const [updatingRequestId, setUpdatingRequestId] = useState<string | null>(null);
+  const [isAuthDialogOpen, setIsAuthDialogOpen] = useState<boolean>(false);
+
+  /**
+   * @description Fetches a page of vibe requests matching the current filters
+   * @async
+   * @param {VibeRequestFilters} currentFilters - Active status/type filters
+   * @param {number} currentPage - 1-based page number to fetch
+   * @sideEffects Updates requests, totalCount and loading state
+   */
+  const fetchVibeRequests = useCallback(async (currentFilters: VibeRequestFilters, currentPage: number) => {
+    try {
+      setLoading(true);
+
+      const { requests: pageRequests, totalCount: count } = await vibeRequestsApi.fetchVibeRequests(
+        currentFilters,
+        currentPage,
+        PAGE_SIZE
+      );
+
+      setTotalCount(count);
+      setRequests(prev => (currentPage === 1 ? pageRequests : [...prev, ...pageRequests]));
+    } catch (error) {
+      await reportApiError(error, 'Unable to load vibe requests', 'Please refresh the page and try again.');
+      if (currentPage === 1) {
+        setRequests([]);
+        setTotalCount(0);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchVibeRequests(filters, page);
+  }, [filters, page, fetchVibeRequests]);
+
+  /**
+   * @description Re-fetches a single request and swaps it into the list
+   * @async
+   * @param {string} requestId - ID of the request to refresh
+   * @sideEffects Updates the matching entry in requests
+   */
+  const refreshRequest = async (requestId: string) => {
+    const refreshed = await vibeRequestsApi.fetchVibeRequestById(requestId);
+    if (!refreshed) {
+      setRequests(prev => prev.filter(request => request.id !== requestId));
+      return;
+    }
+    setRequests(prev => prev.map(request => (request.id === requestId ? refreshed : request)));
+  };
+
+  /**
+   * @description Updates a filter and restarts pagination
+   * @param {Partial<VibeRequestFilters>} changes - Filter values to change
+   * @sideEffects Updates filters and resets page to 1
+   */
+  const handleFilterChange = (changes: Partial<VibeRequestFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(1);
+  };
+
+  /**
+   * @description Opens the create form, or the auth dialog for signed-out visitors
+   * @sideEffects Opens either the form dialog or the auth dialog
+   */
+  const handleNewRequestClick = () => {
+    if (!user) {
+      setIsAuthDialogOpen(true);
+      return;
+    }
+    setEditingRequest(null);
+    setIsFormOpen(true);
+  };
+
+  /**
+   * @description Opens the edit form for an existing request
+   * @param {VibeRequestWithDetails} request - Request to edit
+   */
+  const handleEditRequest = (request: VibeRequestWithDetails) => {
+    setEditingRequest(request);
+    setIsFormOpen(true);
+  };
+
+  /**
+   * @description Creates a new request or saves changes to the one being edited
+   * @async
+   * @param {VibeRequestFormData} formData - Values from the form dialog
+   * @sideEffects Writes to vibe_requests, refreshes the list and closes the dialog
+   */
+  const handleFormSubmit = async (formData: VibeRequestFormData) => {
+    if (!user) return;
+
+    setIsSubmitting(true);
+    try {
+      if (editingRequest) {
+        await vibeRequestsApi.updateVibeRequest(editingRequest.id, {
+          title: formData.title,
+          description: formData.description,
+          type: formData.type,
+          tags: formData.tags,
+        });
+
+        await refreshRequest(editingRequest.id);
+        toast.success('Vibe request updated');
+      } else {
+        await vibeRequestsApi.createVibeRequest(user.id, formData);
+
+        toast.success('Vibe request posted!', {
+          description: 'Builders can now pick it up and answer it with a StartSnap.'
+        });
+        // A fresh filters object always re-runs the fetch effect, so the new request shows up on top
+        handleFilterChange(DEFAULT_FILTERS);
+      }
+
+      setIsFormOpen(false);
+      setEditingRequest(null);
+    } catch (error) {
+      await reportApiError(error, 'Failed to save vibe request', 'Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * @description Moves a request owned by the current user to a new status
+   * @async
+   * @param {VibeRequestWithDetails} request - Request to update
+   * @param {VibeRequestStatus} status - Target status
+   * @sideEffects Updates vibe_requests; reopening a completed request clears its linked answer
+   */
+  const handleStatusChange = async (request: VibeRequestWithDetails, status: VibeRequestStatus) => {
+    setUpdatingRequestId(request.id);
+    try {
+      const updates: Partial<VibeRequest> = { status };
+      if (request.status === 'completed' && status !== 'completed') {
+        updates.linked_startsnap_id = null;
+        updates.answered_by = null;
+      }
+
+      await vibeRequestsApi.updateVibeRequest(request.id, updates);
+
+      await refreshRequest(request.id);
+    } catch (error) {
+      await reportApiError(error, 'Failed to update status', 'Please try again.');
+    } finally {
+      setUpdatingRequestId(null);
+    }
+  };
+
+  /**
+   * @description Answers the selected request with one of the current user's StartSnaps
+   * @async
+   * @param {string} startsnapId - ID of the StartSnap that answers the request
+   * @sideEffects Calls the answer_vibe_request RPC, which completes the request and logs the activity
+   */
+  const handleAnswerConfirm = async (startsnapId: string) => {
+    if (!answeringRequest) return;
+
+    setIsSubmitting(true);
+    try {
+      await vibeRequestsApi.answerVibeRequest(answeringRequest.id, startsnapId);
+
+      await refreshRequest(answeringRequest.id);
+      toast.success('Request answered! 🚀', {
+        description: 'Your StartSnap is now linked to this request.'
+      });
+      setAnsweringRequest(null);
+    } catch (error) {
+      await reportApiError(error, 'Failed to answer request', 'Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * @description Deletes the request pending confirmation
+   * @async
+   * @sideEffects Deletes from vibe_requests and removes it from the list
+   */
+  const handleConfirmDelete = async () => {
+    if (!requestToDelete) return;
+
+    setIsDeleting(true);
+    try {
+      await vibeRequestsApi.deleteVibeRequest(requestToDelete.id);
+
+      setRequests(prev => prev.filter(request => request.id !== requestToDelete.id));
+      setTotalCount(prev => Math.max(prev - 1, 0));
+      toast.success('Vibe request deleted');
+      setRequestToDelete(null);
+    } catch (error) {
+      await reportApiError(error, 'Failed to delete vibe request', 'Please try again.');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const editingFormData = useMemo<VibeRequestFormData | undefined>(() => (
+    editingRequest ? {
+      title: editingRequest.title,
+      description: editingRequest.description,
+      type: editingRequest.type,
+      tags: editingRequest.tags || [],
+    } : undefined
+  ), [editingRequest]);
+
+  const hasMoreRequests = requests.length < totalCount;
+  const isFiltered = filters.status !== 'all' || filters.type !== 'all';
+
+  return (
+    <div className="flex flex-col w-full items-center bg-white">
+      {/* Hero Section */}
+      <div className="w-full bg-startsnap-candlelight">
+        <div className="w-full max-w-6xl px-8 py-16 mx-auto">
+          <div className="text-center">
+            <h1 className="text-5xl font-heading text-startsnap-ebony-clay mb-4">
+              Vibe Requests
+            </h1>
+            <p className="text-xl text-startsnap-river-bed font-body mb-8">
+              Wish something existed? Ask the community. Builders answer with a StartSnap.
+            </p>
+            <Button variant="primary" size="lg" onClick={handleNewRequestClick}>
+              <span className="material-icons text-xl">add</span>
+              Post a Request
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Dynamic Separator */}
+      <div className="w-full bg-startsnap-beige relative">
+        <div className="absolute inset-0 bg-[repeating-linear-gradient(45deg,transparent,transparent_10px,rgba(0,0,0,0.03)_10px,rgba(0,0,0,0.03)_20px)]"></div>
+        <div className="w-full max-w-6xl px-8 py-8 mx-auto relative">
+          <div className="flex items-center justify-center">
+            <div className="flex-1 h-2 bg-startsnap-french-rose transform -skew-x-12"></div>
+            <div className="px-6 py-2 bg-startsnap-ebony-clay text-startsnap-beige font-heading font-bold text-sm rounded-full border-2 border-startsnap-french-rose">
+              BUILD WHAT'S WANTED
+            </div>
+            <div className="flex-1 h-2 bg-startsnap-french-rose transform skew-x-12"></div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Zone - White Background */}
+      <div className="w-full bg-white pb-24 pt-8">
+        <div className="flex flex-col w-full items-center px-8">
+          <div className="w-full max-w-6xl">
+            {/* Filter Bar */}
+            <div className="mb-12 bg-startsnap-ebony-clay p-6 rounded-xl border-2 border-startsnap-french-rose shadow-[3px_3px_0px_#ef4444] flex flex-col lg:flex-row gap-4 lg:items-center lg:justify-between">
+              <div className="flex flex-wrap gap-2">
+                {statusFilterOptions.map(option => (
+                  <Button
+                    key={option.value}
+                    size="sm"
+                    variant={filters.status === option.value ? 'filterOptionSelected' : 'filterOption'}
+                    onClick={() => handleFilterChange({ status: option.value as VibeRequestFilters['status'] })}
+                    className={filters.status === option.value ? 'bg-startsnap-french-rose border-startsnap-french-rose' : 'bg-startsnap-beige'}
+                  >
+                    <span className="material-icons text-base">{option.icon}</span>
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {typeFilterOptions.map(option => (
+                  <Button
+                    key={option.value}
+                    size="sm"
+                    variant={filters.type === option.value ? 'filterOptionSelected' : 'filterOption'}
+                    onClick={() => handleFilterChange({ type: option.value as VibeRequestFilters['type'] })}
+                    className={filters.type === option.value ? 'bg-startsnap-french-rose border-startsnap-french-rose' : 'bg-startsnap-beige'}
+                  >
+                    <span className="material-icons text-base">{option.icon}</span>
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {/* Results Section */}
+            {loading && page === 1 ? (
+              <div className="text-center py-20 bg-startsnap-candlelight/20 rounded-lg border-2 border-dashed border-gray-300">
+                <p className="text-xl font-bold text-startsnap-ebony-clay">Loading Vibe Requests...</p>
+              </div>
+            ) : requests.length > 0 ? (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {requests.map(request => (
+                    <VibeRequestCard
+                      key={request.id}
+                      request={request}
+                      isOwner={user?.id === request.user_id}
+                      canAnswer={!!user}
+                      isUpdating={updatingRequestId === request.id}
+                      onEdit={handleEditRequest}
+                      onDelete={setRequestToDelete}
+                      onStatusChange={handleStatusChange}
+                      onAnswer={setAnsweringRequest}
+                    />
+                  ))}
+                </div>
+
+                {/* Load More Button */}
+                {hasMoreRequests && (
+                  <div className="text-center mt-12">
+                    <Button
+                      onClick={() => setPage(prev => prev + 1)}
+                      disabled={loading}
+                      variant="secondary"
+                      size="lg"
+                    >
+                      {loading ? 'Loading More...' : 'Load More Requests'}
+                    </Button>
+                  </div>
+                )}
+              </>
+            ) : isFiltered ? (
+              <div className="text-center py-20 bg-startsnap-candlelight/20 rounded-lg border-2 border-dashed border-gray-300">
+                <p className="text-xl text-startsnap-pale-sky">No vibe requests match these filters.</p>
+                <Button
+                  onClick={() => handleFilterChange(DEFAULT_FILTERS)}
+                  variant="primary"
+                  size="lg"
+                  className="mt-4"
+                >
+                  Clear Filters
+                </Button>
+              </div>
+            ) : (
+              <div className="text-center py-20 bg-startsnap-candlelight/20 rounded-lg border-2 border-dashed border-gray-300">
+                <p className="text-xl text-startsnap-pale-sky mb-4">No vibe requests yet. Be the first to ask!</p>
+                <Button onClick={handleNewRequestClick} variant="primary" size="lg">
+                  Post a Request
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <VibeRequestFormDialog
+        isOpen={isFormOpen}
+        onClose={() => {
+          setIsFormOpen(false);
+          setEditingRequest(null);
+        }}
+        mode={editingRequest ? 'edit' : 'create'}
+        initialData={editingFormData}
+        onSubmit={handleFormSubmit}
+        isSubmitting={isSubmitting}
+      />
+
+      {user && (
+        <AnswerRequestDialog
+          request={answeringRequest}
+          currentUserId={user.id}
+          onClose={() => setAnsweringRequest(null)}
+          onConfirm={handleAnswerConfirm}
+          isSubmitting={isSubmitting}
+        />
+      )}
+
+      <ConfirmationDialog
+        isOpen={!!requestToDelete}
+        onClose={() => setRequestToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        title="Delete Request"
+        description="Are you sure you want to delete this vibe request? This action cannot be undone."
+        confirmText="Delete"
+        isLoading={isDeleting}
+        type="danger"
+      />
+
+      <AuthDialog
+        isOpen={isAuthDialogOpen}
+        onClose={() => setIsAuthDialogOpen(false)}
+        mode="login"
+        onSuccess={() => setIsAuthDialogOpen(false)}
+      />
+    </div>
+  );
+};
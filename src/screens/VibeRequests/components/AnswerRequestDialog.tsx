@@ -0,0 +1,183 @@
+/**
+ * src/screens/VibeRequests/components/AnswerRequestDialog.tsx
+ * @description Dialog that lets a builder answer a vibe request by linking one of their own StartSnaps.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '../../../components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../../components/ui/select';
+import { X } from 'lucide-react';
+import { startsnapsApi } from '../../../lib/api';
+import type { VibeRequestWithDetails } from '../../../types/vibeRequest';
+
+interface OwnStartSnapOption {
+  id: string;
+  name: string;
+}
+
+/**
+ * @description Props for the AnswerRequestDialog component.
+ * @param {VibeRequestWithDetails | null} request - The request being answered; the dialog is closed when null.
+ * @param {string} currentUserId - ID of the builder answering the request.
+ * @param {() => void} onClose - Closes the dialog.
+ * @param {(startsnapId: string) => Promise<void>} onConfirm - Links the selected StartSnap to the request.
+ * @param {boolean} isSubmitting - Whether the answer is being saved.
+ */
+interface AnswerRequestDialogProps {
+  request: VibeRequestWithDetails | null;
+  currentUserId: string;
+  onClose: () => void;
+  onConfirm: (startsnapId: string) => Promise<void>;
+  isSubmitting: boolean;
+}
+
+/**
+ * @description Dialog for answering a vibe request with one of the current user's StartSnaps
+ * @param {AnswerRequestDialogProps} props - Component props
+ * @returns {JSX.Element | null} Answer dialog or null if no request is selected
+ */
+export const AnswerRequestDialog: React.FC<AnswerRequestDialogProps> = ({
+  request,
+  currentUserId,
+  onClose,
+  onConfirm,
+  isSubmitting,
+}) => {
+  const [ownStartSnaps, setOwnStartSnaps] = useState<OwnStartSnapOption[]>([]);
+  const [selectedStartSnapId, setSelectedStartSnapId] = useState<string>('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!request) return;
+
+    /**
+     * @description Fetches the current user's StartSnaps to choose an answer from
+     * @async
+     * @sideEffects Updates ownStartSnaps and loading state
+     */
+    const fetchOwnStartSnaps = async () => {
+      setLoading(true);
+      setSelectedStartSnapId('');
+      try {
+        const startsnaps = await startsnapsApi.fetchStartSnapsByUser(currentUserId);
+        setOwnStartSnaps(startsnaps.map(({ id, name }) => ({ id, name })));
+      } catch (error) {
+        console.error('Error fetching your StartSnaps:', error);
+        setOwnStartSnaps([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchOwnStartSnaps();
+  }, [request, currentUserId]);
+
+  if (!request) return null;
+
+  /**
+   * @description Handles backdrop click to close dialog
+   * @param {React.MouseEvent} e - Mouse event
+   */
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget && !isSubmitting) {
+      onClose();
+    }
+  };
+
+  /**
+   * @description Handles escape key press to close dialog
+   * @param {React.KeyboardEvent} e - Keyboard event
+   */
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && !isSubmitting) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+    >
+      <div
+        className="bg-startsnap-white border-2 border-startsnap-ebony-clay rounded-xl shadow-[4px_4px_0px_#1f2937] max-w-md w-full animate-in zoom-in-95 duration-200"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="answer-request-title"
+      >
+        {/* Header Section */}
+        <div className="border-b-2 border-startsnap-ebony-clay p-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-8 h-8 bg-startsnap-mountain-meadow rounded-lg border-2 border-startsnap-ebony-clay flex items-center justify-center shadow-[2px_2px_0px_#1f2937]">
+                <span className="material-icons text-base text-startsnap-ebony-clay">rocket_launch</span>
+              </div>
+              <h2
+                id="answer-request-title"
+                className="font-heading text-startsnap-ebony-clay text-xl uppercase tracking-wider"
+              >
+                Answer Request
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="w-8 h-8 bg-startsnap-beige border-2 border-startsnap-ebony-clay rounded-lg hover:bg-startsnap-beige/90 active:scale-95 transition-all duration-150 flex items-center justify-center shadow-[2px_2px_0px_#1f2937] hover:shadow-[3px_3px_0px_#1f2937] hover:translate-x-[-1px] hover:translate-y-[-1px]"
+              aria-label="Close dialog"
+            >
+              <X className="h-4 w-4 text-startsnap-ebony-clay" />
+            </button>
+          </div>
+          <p className="text-startsnap-ebony-clay/70 mt-3 font-medium text-sm">
+            Link the StartSnap that answers <strong className="text-startsnap-ebony-clay">{request.title}</strong>
+          </p>
+        </div>
+
+        {/* Main Content Section */}
+        <div className="p-6 space-y-6">
+          {loading ? (
+            <p className="text-sm text-startsnap-pale-sky">Loading your StartSnaps...</p>
+          ) : ownStartSnaps.length === 0 ? (
+            <div className="bg-startsnap-candlelight/20 border-2 border-startsnap-ebony-clay rounded-lg p-4 shadow-[2px_2px_0px_#1f2937]">
+              <p className="font-medium text-startsnap-ebony-clay text-sm mb-3">
+                You need a StartSnap to answer a request. Ship one first!
+              </p>
+              <Button asChild variant="primary" size="sm">
+                <Link to="/create">Create StartSnap</Link>
+              </Button>
+            </div>
+          ) : (
+            <div className="startsnap-form-group">
+              <label className="startsnap-form-label">Your StartSnap</label>
+              <Select value={selectedStartSnapId} onValueChange={setSelectedStartSnapId}>
+                <SelectTrigger className="startsnap-form-input">
+                  <SelectValue placeholder="Select a StartSnap" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ownStartSnaps.map(startsnap => (
+                    <SelectItem key={startsnap.id} value={startsnap.id}>
+                      {startsnap.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <Button
+            onClick={() => onConfirm(selectedStartSnapId)}
+            disabled={!selectedStartSnapId || isSubmitting}
+            variant="success"
+            size="lg"
+            className="w-full"
+          >
+            {isSubmitting ? 'LINKING...' : 'LINK & COMPLETE'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+/**
+ * src/screens/VibeRequests/components/VibeRequestCard.tsx
+ * @description Card displaying a single vibe request with owner status controls and the builder "answer" action.
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { UserAvatar, getAvatarName } from '../../../components/ui/user-avatar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../../../components/ui/dropdown-menu';
+import { MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
+import {
+  getVibeRequestStatusDisplay,
+  getVibeRequestStatusOptions,
+  getVibeRequestTypeDisplay,
+} from '../../../config/categories';
+import { formatDetailedDate } from '../../../lib/utils';
+import type { VibeRequestStatus, VibeRequestWithDetails } from '../../../types/vibeRequest';
+
+/**
+ * @description Props for the VibeRequestCard component.
+ * @param {VibeRequestWithDetails} request - The vibe request to display.
+ * @param {boolean} isOwner - Whether the current user authored the request.
+ * @param {boolean} canAnswer - Whether the current user may answer the request with a StartSnap.
+ * @param {boolean} isUpdating - Whether an action on this request is in progress.
+ * @param {(request: VibeRequestWithDetails) => void} onEdit - Opens the edit form for the request.
+ * @param {(request: VibeRequestWithDetails) => void} onDelete - Requests deletion of the request.
+ * @param {(request: VibeRequestWithDetails, status: VibeRequestStatus) => void} onStatusChange - Moves the request to a new status.
+ * @param {(request: VibeRequestWithDetails) => void} onAnswer - Opens the answer dialog for the request.
+ */
+interface VibeRequestCardProps {
+  request: VibeRequestWithDetails;
+  isOwner: boolean;
+  canAnswer: boolean;
+  isUpdating: boolean;
+  onEdit: (request: VibeRequestWithDetails) => void;
+  onDelete: (request: VibeRequestWithDetails) => void;
+  onStatusChange: (request: VibeRequestWithDetails, status: VibeRequestStatus) => void;
+  onAnswer: (request: VibeRequestWithDetails) => void;
+}
+
+/**
+ * @description Renders a vibe request card with status badge, tags, linked answer and actions
+ * @param {VibeRequestCardProps} props - Component props
+ * @returns {JSX.Element} Vibe request card
+ */
+export const VibeRequestCard: React.FC<VibeRequestCardProps> = ({
+  request,
+  isOwner,
+  canAnswer,
+  isUpdating,
+  onEdit,
+  onDelete,
+  onStatusChange,
+  onAnswer,
+}) => {
+  const statusDisplay = getVibeRequestStatusDisplay(request.status);
+  const typeDisplay = getVibeRequestTypeDisplay(request.type);
+  const isCompleted = request.status === 'completed';
+
+  return (
+    <Card className="h-full bg-startsnap-white rounded-xl overflow-hidden border-[3px] border-solid border-gray-800 shadow-[5px_5px_0px_#1f2937] flex flex-col">
+      {/* Header strip */}
+      <div className={`h-3 border-b-4 border-black ${request.type === 'challenge' ? 'bg-startsnap-corn' : 'bg-startsnap-french-rose'}`}></div>
+
+      <CardContent className="p-6 flex flex-col flex-1">
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={`inline-flex items-center gap-1 px-3 py-1 rounded-full border-2 border-gray-800 text-xs font-bold uppercase tracking-wide ${statusDisplay.bgColor} ${statusDisplay.textColor}`}>
+              <span className="material-icons text-sm">{statusDisplay.icon}</span>
+              {statusDisplay.label}
+            </span>
+            <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full border-2 border-gray-800 bg-startsnap-athens-gray text-startsnap-ebony-clay text-xs font-bold uppercase tracking-wide">
+              <span className="material-icons text-sm">{typeDisplay.icon}</span>
+              {typeDisplay.label}
+            </span>
+          </div>
+
+          {isOwner && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" disabled={isUpdating}>
+                  <MoreHorizontal className="h-4 w-4" />
+                  <span className="sr-only">Request options</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => onEdit(request)}>
+                  <Pencil className="mr-2 h-4 w-4" /> Edit
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Move to</DropdownMenuLabel>
+                {getVibeRequestStatusOptions()
+                  .filter(option => option.value !== request.status)
+                  .map(option => (
+                    <DropdownMenuItem key={option.value} onClick={() => onStatusChange(request, option.value)}>
+                      <span className="material-icons text-base mr-2">{option.icon}</span> {option.label}
+                    </DropdownMenuItem>
+                  ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => onDelete(request)} className="text-red-600 focus:text-red-600">
+                  <Trash2 className="mr-2 h-4 w-4" /> Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+
+        <h3 className="text-xl font-ui text-startsnap-ebony-clay mb-2">{request.title}</h3>
+        <p className="text-sm text-startsnap-river-bed font-body leading-relaxed mb-4 whitespace-pre-line line-clamp-6">
+          {request.description}
+        </p>
+
+        {request.tags && request.tags.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {request.tags.map(tag => (
+              <span
+                key={tag}
+                className="bg-startsnap-athens-gray text-startsnap-ebony-clay font-mono text-xs rounded-full border border-solid border-gray-800 px-3 py-1"
+              >
+                #{tag}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Linked answer */}
+        {isCompleted && request.linked_startsnap && (
+          <div className="mb-4 p-3 bg-startsnap-ice-cold rounded-lg border-2 border-gray-800 shadow-[2px_2px_0px_#1f2937]">
+            <p className="text-xs font-bold uppercase tracking-wide text-startsnap-jewel mb-1">
+              Answered{request.answerer_username ? ` by ${request.answerer_username}` : ''}
+            </p>
+            <Link
+              to={`/projects/${request.linked_startsnap.slug}`}
+              className="font-ui text-startsnap-ebony-clay hover:text-startsnap-french-rose transition-colors inline-flex items-center gap-1"
+            >
+              <span className="material-icons text-base">rocket_launch</span>
+              {request.linked_startsnap.name}
+            </Link>
+          </div>
+        )}
+
+        <div className="mt-auto flex items-center justify-between gap-3 pt-4 border-t-2 border-dashed border-gray-200">
+          <Link
+            to={`/profiles/${request.requester_username}`}
+            className="flex items-center gap-2 min-w-0 hover:opacity-75 transition-opacity"
+          >
+            <UserAvatar name={getAvatarName(null, request.requester_username)} size={28} className="w-7 h-7 shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-ui text-startsnap-ebony-clay truncate">{request.requester_username || 'Unknown'}</p>
+              <p className="text-xs text-startsnap-pale-sky font-body">{formatDetailedDate(request.created_at)}</p>
+            </div>
+          </Link>
+
+          {canAnswer && !isCompleted && (
+            <Button
+              variant="success"
+              size="sm"
+              onClick={() => onAnswer(request)}
+              disabled={isUpdating}
+              className="shrink-0"
+            >
+              <span className="material-icons text-base">rocket_launch</span>
+              Answer
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,278 @@
+/**
+ * src/screens/VibeRequests/components/VibeRequestFormDialog.tsx
+ * @description Dialog with the create/edit form for vibe requests, styled like the other neobrutalist dialogs.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+import { Textarea } from '../../../components/ui/textarea';
+import { Badge } from '../../../components/ui/badge';
+import { X } from 'lucide-react';
+import { getVibeRequestTypeOptions } from '../../../config/categories';
+import type { VibeRequestFormData } from '../../../types/vibeRequest';
+
+const EMPTY_FORM: VibeRequestFormData = {
+  title: '',
+  description: '',
+  type: 'request',
+  tags: [],
+};
+
+/**
+ * @description Props for the VibeRequestFormDialog component.
+ * @param {boolean} isOpen - Whether the dialog is open.
+ * @param {() => void} onClose - Closes the dialog.
+ * @param {'create' | 'edit'} mode - Whether a new request is being created or an existing one edited.
+ * @param {VibeRequestFormData} [initialData] - Values to prefill in edit mode.
+ * @param {(formData: VibeRequestFormData) => Promise<void>} onSubmit - Persists the form data.
+ * @param {boolean} isSubmitting - Whether the submit request is in progress.
+ */
+interface VibeRequestFormDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  mode: 'create' | 'edit';
+  initialData?: VibeRequestFormData;
+  onSubmit: (formData: VibeRequestFormData) => Promise<void>;
+  isSubmitting: boolean;
+}
+
+/**
+ * @description Dialog for creating or editing a vibe request
+ * @param {VibeRequestFormDialogProps} props - Component props
+ * @returns {JSX.Element | null} Form dialog or null if not open
+ */
+export const VibeRequestFormDialog: React.FC<VibeRequestFormDialogProps> = ({
+  isOpen,
+  onClose,
+  mode,
+  initialData,
+  onSubmit,
+  isSubmitting,
+}) => {
+  const [formData, setFormData] = useState<VibeRequestFormData>(EMPTY_FORM);
+  const [tagsInput, setTagsInput] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(initialData ? { ...initialData, tags: [...initialData.tags] } : EMPTY_FORM);
+      setTagsInput('');
+      setErrors({});
+    }
+  }, [isOpen, initialData]);
+
+  if (!isOpen) return null;
+
+  /**
+   * @description Handles backdrop click to close dialog
+   * @param {React.MouseEvent} e - Mouse event
+   */
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget && !isSubmitting) {
+      onClose();
+    }
+  };
+
+  /**
+   * @description Handles escape key press to close dialog
+   * @param {React.KeyboardEvent} e - Keyboard event
+   */
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && !isSubmitting) {
+      onClose();
+    }
+  };
+
+  /**
+   * @description Adds the current tag input as a tag if it is not already present
+   * @sideEffects Updates formData tags and clears the tag input
+   */
+  const addTag = () => {
+    const tag = tagsInput.trim().replace(/^#/, '').toLowerCase();
+    if (tag && !formData.tags.includes(tag)) {
+      setFormData(prev => ({ ...prev, tags: [...prev.tags, tag] }));
+    }
+    setTagsInput('');
+  };
+
+  /**
+   * @description Removes a tag from the form
+   * @param {string} tagToRemove - Tag to remove
+   */
+  const removeTag = (tagToRemove: string) => {
+    setFormData(prev => ({ ...prev, tags: prev.tags.filter(tag => tag !== tagToRemove) }));
+  };
+
+  /**
+   * @description Validates the form and submits it
+   * @async
+   * @param {React.FormEvent} e - Form submit event
+   * @sideEffects Sets validation errors or calls onSubmit
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors: Record<string, string> = {};
+    if (!formData.title.trim()) {
+      newErrors.title = 'Title is required';
+    }
+    if (!formData.description.trim()) {
+      newErrors.description = 'Description is required';
+    }
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    await onSubmit({
+      ...formData,
+      title: formData.title.trim(),
+      description: formData.description.trim(),
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+    >
+      <div
+        className="bg-startsnap-white border-2 border-startsnap-ebony-clay rounded-xl shadow-[4px_4px_0px_#1f2937] max-w-lg w-full max-h-[90vh] overflow-y-auto animate-in zoom-in-95 duration-200"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="vibe-request-form-title"
+      >
+        {/* Header Section */}
+        <div className="border-b-2 border-startsnap-ebony-clay p-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-8 h-8 bg-startsnap-candlelight rounded-lg border-2 border-startsnap-ebony-clay flex items-center justify-center shadow-[2px_2px_0px_#1f2937]">
+                <span className="material-icons text-base text-startsnap-ebony-clay">lightbulb</span>
+              </div>
+              <h2
+                id="vibe-request-form-title"
+                className="font-heading text-startsnap-ebony-clay text-xl uppercase tracking-wider"
+              >
+                {mode === 'create' ? 'New Vibe Request' : 'Edit Vibe Request'}
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="w-8 h-8 bg-startsnap-beige border-2 border-startsnap-ebony-clay rounded-lg hover:bg-startsnap-beige/90 active:scale-95 transition-all duration-150 flex items-center justify-center shadow-[2px_2px_0px_#1f2937] hover:shadow-[3px_3px_0px_#1f2937] hover:translate-x-[-1px] hover:translate-y-[-1px]"
+              aria-label="Close dialog"
+            >
+              <X className="h-4 w-4 text-startsnap-ebony-clay" />
+            </button>
+          </div>
+        </div>
+
+        {/* Form Section */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          <div className="startsnap-form-group">
+            <label className="startsnap-form-label">Type</label>
+            <div className="grid grid-cols-2 gap-2">
+              {getVibeRequestTypeOptions().map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setFormData(prev => ({ ...prev, type: option.value }))}
+                  className={`p-3 border-2 border-startsnap-ebony-clay rounded-lg font-ui text-sm transition-all duration-150 shadow-[2px_2px_0px_#1f2937] hover:shadow-[3px_3px_0px_#1f2937] hover:translate-x-[-1px] hover:translate-y-[-1px] flex items-center justify-center gap-2 ${
+                    formData.type === option.value
+                      ? 'bg-startsnap-ebony-clay text-startsnap-beige'
+                      : 'bg-startsnap-beige text-startsnap-ebony-clay'
+                  }`}
+                  title={option.description}
+                >
+                  <span className="material-icons text-base">{option.icon}</span>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="startsnap-form-group">
+            <label htmlFor="vibeRequestTitle" className="startsnap-form-label">
+              Title *
+            </label>
+            <Input
+              id="vibeRequestTitle"
+              value={formData.title}
+              onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+              placeholder="What should someone build?"
+              className="startsnap-form-input"
+            />
+            {errors.title && (
+              <p className="text-red-500 text-sm">{errors.title}</p>
+            )}
+          </div>
+
+          <div className="startsnap-form-group">
+            <label htmlFor="vibeRequestDescription" className="startsnap-form-label">
+              Description *
+            </label>
+            <Textarea
+              id="vibeRequestDescription"
+              value={formData.description}
+              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              placeholder="Describe the problem, who it is for and what a great answer looks like..."
+              className="startsnap-form-textarea"
+            />
+            {errors.description && (
+              <p className="text-red-500 text-sm">{errors.description}</p>
+            )}
+          </div>
+
+          <div className="startsnap-form-group">
+            <label className="startsnap-form-label">Tags</label>
+            <div className="space-y-3">
+              <Input
+                value={tagsInput}
+                onChange={(e) => setTagsInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addTag();
+                  }
+                }}
+                placeholder="Add tags (press Enter to add)"
+                className="startsnap-form-input"
+              />
+              {formData.tags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {formData.tags.map(tag => (
+                    <Badge
+                      key={tag}
+                      variant="outline"
+                      className="bg-startsnap-athens-gray text-startsnap-ebony-clay font-mono text-sm rounded-full border border-solid border-gray-800 px-3 py-1 flex items-center gap-2"
+                    >
+                      #{tag}
+                      <button
+                        type="button"
+                        onClick={() => removeTag(tag)}
+                        className="hover:text-red-500"
+                      >
+                        <X size={14} />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="startsnap-form-actions">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : mode === 'create' ? 'Post Request' : 'Save Changes'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
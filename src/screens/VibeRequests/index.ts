@@ -0,0 +1,6 @@
+/**
+ * src/screens/VibeRequests/index.ts
+ * @description Barrel file that exports the VibeRequests component
+ */
+
+export { VibeRequests } from "./VibeRequests";
@@ -39,4 +39,9 @@ export interface ActivityFeedItem {
   target_user_id?: string;
   target_username?: string;
   target_user_status?: string;
-}
\ No newline at end of file
+}
+
+/**
+ * @description Which part of the public feed to show, mirrors the scopes accepted by get_activity_feed()
+ */
+export type ActivityFeedScope = 'everyone' | 'following' | 'mine';
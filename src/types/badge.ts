@@ -0,0 +1,27 @@
+/**
+ * src/types/badge.ts
+ * @description Type definitions for badges (achievements)
+ */
+
+/**
+ * @description A badge from the badges catalogue
+ */
+export interface AchievementBadge {
+  id: string;
+  slug: string;
+  name: string;
+  description: string;
+  icon: string; // Material icon name
+  sort_order: number;
+}
+
+/**
+ * @description A badge earned by a user, joined with the badge and the project that earned it
+ */
+export interface UserBadge {
+  badge_id: string;
+  earned_at: string; // ISO date string
+  startsnap_id: string | null;
+  badge: AchievementBadge;
+  startsnap?: { name: string; slug: string } | null;
+}
@@ -0,0 +1,19 @@
+/**
+ * src/types/diff.ts
+ * @description Type definitions for line diffs between two texts
+ */
+
+/**
+ * @description How a line differs between the old and the new text
+ */
+export type DiffLineType = 'unchanged' | 'added' | 'removed';
+
+/**
+ * @description One line of a line diff
+ */
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldLineNumber: number | null; // Line number in the old text; null for added lines
+  newLineNumber: number | null; // Line number in the new text; null for removed lines
+}
@@ -3,31 +3,55 @@
  * @description Type definitions for the feedback system.
  */
 import type { UserProfileData } from "./user";
+import type { FeedbackReactionEmoji } from "../config/reactions";
 
 /**
- * @description Interface for feedback reply data.
- * Contains the content of a reply and metadata about its author and creation time.
+ * @description Where a comment is stored: top-level feedback lives in feedbacks, everything below it in feedback_replies
  */
-export interface FeedbackReply {
-  id: string;
-  parent_feedback_id: string;
-  user_id: string;
-  content: string;
-  created_at: string; // ISO date string
-  updated_at: string; // ISO date string
-  profile?: Pick<UserProfileData, 'username'>; // User who made the reply
+export type FeedbackCommentKind = 'feedback' | 'reply';
+
+/**
+ * @description Count of one emoji reaction on a comment
+ */
+export interface FeedbackReactionSummary {
+  emoji: FeedbackReactionEmoji;
+  count: number;
+  reacted: boolean; // Whether the current user is one of the reactors
 }
 
 /**
- * @description Interface for a feedback entry.
- * Contains the main feedback content, associated replies, and author information.
+ * @description Ratings a feedback entry gives the project's feedback areas: area name → rating from 1 to 5
  */
-export interface FeedbackEntry {
+export type FeedbackRatings = Record<string, number>;
+
+/**
+ * @description Aggregated ratings of one feedback area, shown on the project's feedback scorecard
+ */
+export interface FeedbackAreaScore {
+  area: string;
+  average: number | null; // null until someone rated the area
+  ratingCount: number;
+}
+
+/**
+ * @description A feedback entry or a reply, with the replies that answer it.
+ * Top-level feedback and replies at any depth share this shape, so a thread renders recursively.
+ */
+export interface FeedbackComment {
   id: string;
+  kind: FeedbackCommentKind;
+  feedback_id: string; // The top-level feedback of the thread; equals id for feedback
+  parent_reply_id: string | null; // The reply this one answers; null for feedback and direct replies to it
   user_id: string;
   content: string;
   created_at: string; // ISO date string
   updated_at: string; // ISO date string
-  profile?: Pick<UserProfileData, 'username'>; // User who gave the feedback
-  replies?: FeedbackReply[];
-}
\ No newline at end of file
+  profile?: Pick<UserProfileData, 'username'>; // User who wrote the comment
+  reactions: FeedbackReactionSummary[];
+  ratings: FeedbackRatings; // Ratings per feedback area; always empty for replies
+  pinned_at: string | null; // ISO date string; set by the project owner, feedback only
+  addressed_at: string | null; // ISO date string; set by the project owner, feedback only
+  addressed_vibelog_id: string | null; // Vibe log that addressed the feedback, if the owner linked one
+  hidden_at: string | null; // ISO date string; hidden comments are only visible to their author and the project owner
+  replies: FeedbackComment[];
+}
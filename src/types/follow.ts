@@ -0,0 +1,22 @@
+/**
+ * src/types/follow.ts
+ * @description Type definitions for following builders and projects
+ */
+
+/**
+ * @description Something a user can follow: a builder (by user ID) or a project (by startsnap ID)
+ */
+export type FollowTarget =
+  | { type: 'user'; id: string }
+  | { type: 'startsnap'; id: string };
+
+/**
+ * @description A row of the follows table; exactly one of the followed_* columns is set
+ */
+export interface Follow {
+  id: string;
+  follower_user_id: string;
+  followed_user_id: string | null;
+  followed_startsnap_id: string | null;
+  created_at: string;
+}
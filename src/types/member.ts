@@ -0,0 +1,57 @@
+/**
+ * src/types/member.ts
+ * @description Type definitions for project collaborators (startsnap_members) and ownership transfers
+ */
+
+/**
+ * @description Role of a project member: the owner of record, or an invited editor
+ */
+export type StartSnapMemberRole = 'owner' | 'editor';
+
+/**
+ * @description A member of a project with their username, as returned by get_startsnap_members()
+ */
+export interface StartSnapMember {
+  user_id: string;
+  username: string | null;
+  role: StartSnapMemberRole;
+  accepted_at: string | null; // ISO date string; null while the invitation is pending
+  created_at: string; // ISO date string
+}
+
+/**
+ * @description A pending invitation of the signed-in user, joined with the project
+ */
+export interface StartSnapInvitation {
+  startsnap_id: string;
+  role: StartSnapMemberRole;
+  created_at: string; // ISO date string
+  startsnap: { name: string; slug: string } | null;
+}
+
+/**
+ * @description Lifecycle of an ownership transfer request
+ */
+export type StartSnapTransferStatus = 'pending' | 'accepted' | 'declined' | 'cancelled';
+
+/**
+ * @description A row of startsnap_transfer_requests
+ */
+export interface StartSnapTransferRequest {
+  id: string;
+  startsnap_id: string;
+  from_user_id: string;
+  to_user_id: string;
+  status: StartSnapTransferStatus;
+  created_at: string; // ISO date string
+  responded_at: string | null; // ISO date string
+}
+
+/**
+ * @description A transfer request with the project and the usernames of both sides, for display
+ */
+export interface StartSnapTransferRequestWithDetails extends StartSnapTransferRequest {
+  startsnap: { name: string; slug: string } | null;
+  from_username: string | null;
+  to_username: string | null;
+}
@@ -0,0 +1,62 @@
+/**
+ * src/types/notification.ts
+ * @description Type definitions for the in-app notification center
+ */
+
+/**
+ * @description Kinds of activity that notify a user, mirrors the notifications_notification_type_check constraint
+ */
+export type NotificationType =
+  | 'project_supported'
+  | 'support_milestone_reached'
+  | 'feedback_added'
+  | 'feedback_reply_added'
+  | 'tip_sent'
+  | 'vibe_request_completed';
+
+/**
+ * @description A notification row joined with the project it links to
+ */
+export interface AppNotification {
+  id: string;
+  recipient_user_id: string;
+  actor_user_id: string | null;
+  activity_id: string | null;
+  notification_type: NotificationType;
+  startsnap_id: string | null;
+  feedback_id: string | null;
+  vibe_request_id: string | null;
+  message: string;
+  metadata: Record<string, any>;
+  read_at: string | null; // ISO date string, null while unread
+  created_at: string; // ISO date string
+
+  // Linked project, embedded from the startsnaps table
+  startsnap?: {
+    name: string;
+    slug: string;
+  } | null;
+}
+
+/**
+ * @description Email event a user can configure, mirrors the notification_preferences_event_type_check constraint
+ */
+export type EmailEventType = 'feedback' | 'reply' | 'support_milestone' | 'tip';
+
+/**
+ * @description What a signed unsubscribe link turns off: one email event, or all of them (digest emails)
+ */
+export type UnsubscribeScope = EmailEventType | 'all';
+
+/**
+ * @description How a user wants to be emailed about an event
+ */
+export type EmailDelivery = 'immediate' | 'daily_digest' | 'off';
+
+/**
+ * @description Effective email preference for one event, defaults included
+ */
+export interface NotificationPreference {
+  event_type: EmailEventType;
+  delivery: EmailDelivery;
+}
@@ -15,8 +15,15 @@ export interface FilterOptions {
 
 /**
  * @description Available fields to sort projects by.
+ * 'relevance' is not a column: it keeps the full-text search ranking and falls back to newest first without a search term.
+ * 'trending' orders by the time-decayed trending score of the default trending window.
  */
-export type SortableField = 'created_at' | 'support_count' | 'name';
+export type SortableField = 'created_at' | 'support_count' | 'name' | 'relevance' | 'trending';
+
+/**
+ * @description Time windows the trending score can be computed over.
+ */
+export type TrendingWindow = '24h' | '7d' | '30d';
 
 /**
  * @description Sort direction.
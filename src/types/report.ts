@@ -0,0 +1,80 @@
+/**
+ * src/types/report.ts
+ * @description Type definitions for content reports, the admin report queue and the moderation audit trail
+ */
+
+/**
+ * @description Kind of content a report points at; for profiles the target ID is the user's ID
+ */
+export type ReportTargetType = 'startsnap' | 'feedback' | 'feedback_reply' | 'profile';
+
+/**
+ * @description Why something was reported. Keep in step with the reason CHECK constraint on public.reports.
+ */
+export type ReportReason = 'spam' | 'harassment' | 'inappropriate' | 'impersonation' | 'other';
+
+/**
+ * @description Lifecycle of a report: open until an admin dismisses it or acts on it
+ */
+export type ReportStatus = 'open' | 'dismissed' | 'actioned';
+
+/**
+ * @description What an admin did about a report
+ */
+export type ModerationAction = 'dismiss' | 'hide_content' | 'suspend_user';
+
+/**
+ * @description How an admin undoes an earlier decision: unhide the content or lift its author's suspension
+ */
+export type ModerationReversal = 'unhide_content' | 'unsuspend_user';
+
+/**
+ * @description The content being reported, with a label shown in the report dialog
+ */
+export interface ReportTarget {
+  type: ReportTargetType;
+  id: string;
+  label: string; // e.g. the project name or "feedback by alice"
+}
+
+/**
+ * @description A report in the admin queue, joined with usernames and a preview of the reported content, as
+ * returned by get_report_queue()
+ */
+export interface ReportQueueItem {
+  id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  target_user_id: string | null;
+  reason: ReportReason;
+  details: string | null;
+  status: ReportStatus;
+  resolution_note: string | null;
+  resolved_at: string | null; // ISO date string
+  created_at: string; // ISO date string
+  reporter_username: string | null;
+  target_username: string | null;
+  resolved_by_username: string | null;
+  target_excerpt: string | null; // Project name, comment text or profile bio; null when the content is gone
+  target_slug: string | null; // Project slug, for projects and their feedback
+  target_hidden: boolean;
+  target_user_suspended: boolean;
+}
+
+/**
+ * @description A row of moderation_actions, the audit trail of admin decisions and their reversals, with the admin's
+ * username
+ */
+export interface ModerationActionEntry {
+  id: string;
+  admin_id: string | null;
+  report_id: string | null;
+  action: ModerationAction | ModerationReversal;
+  target_type: ReportTargetType;
+  target_id: string;
+  target_user_id: string | null;
+  note: string | null;
+  created_at: string; // ISO date string
+  admin_username: string | null;
+  target_username: string | null;
+}
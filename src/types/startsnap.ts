@@ -3,6 +3,12 @@
  * @description Type definition for a StartSnap project.
  */
 
+/**
+ * @description Visibility of a project or vibe log: drafts and scheduled items are only visible to the project's
+ * owner and editors until they are published
+ */
+export type PublishStatus = 'draft' | 'scheduled' | 'published';
+
 /**
  * @description Represents the structure of a StartSnap project.
  */
@@ -23,6 +29,42 @@ export interface StartSnapProject {
   live_demo_url?: string;
   demo_video_url?: string;
   feedback_tags?: string[]; // Tags specifically for feedback areas
-  screenshot_urls?: string[]; // Array of screenshot URLs
+  screenshot_urls?: string[]; // Ordered image URLs, kept in sync with startsnap_images by a database trigger
+  cover_image_url?: string | null; // Chosen cover image, kept in sync with startsnap_images by a database trigger
+  trending_score?: number; // Time-decayed activity score, only present on trending queries
+  co_creators?: string[]; // Usernames of accepted editors, computed by the co_creators() database function
+  status?: PublishStatus; // Defaults to 'published' in the database
+  publish_at?: string | null; // ISO date string, when a scheduled project goes live
+  hidden_at?: string | null; // ISO date string, set when an admin hides the project after a report
   // Add any other fields directly from the 'startsnaps' table as needed
-}
\ No newline at end of file
+}
+
+/**
+ * @description Fields written when creating or updating a StartSnap project.
+ * Server-managed columns (id, timestamps, support_count, image columns) and computed fields are excluded.
+ */
+export type StartSnapInput = Omit<
+  StartSnapProject,
+  'id' | 'created_at' | 'updated_at' | 'support_count' | 'trending_score' | 'screenshot_urls' | 'cover_image_url'
+  | 'co_creators' | 'hidden_at'
+>;
+
+/**
+ * @description An image of a StartSnap project from the startsnap_images table
+ */
+export interface ProjectImage {
+  id: string;
+  startsnap_id: string;
+  url: string;
+  caption: string | null;
+  alt_text: string | null;
+  placeholder: string | null; // Tiny data URL preview shown blurred while the image loads
+  position: number;
+  is_cover: boolean;
+  created_at: string; // ISO date string
+}
+
+/**
+ * @description An image as edited in the project form; list order becomes its position when saved
+ */
+export type ProjectImageInput = Pick<ProjectImage, 'url' | 'caption' | 'alt_text' | 'placeholder' | 'is_cover'>;
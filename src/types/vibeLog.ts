@@ -3,6 +3,8 @@
  * @description Type definitions for the Vibe Log system.
  */
 
+import type { PublishStatus } from './startsnap';
+
 /**
  * @description Interface for a VibeLog entry data from the database.
  */
@@ -15,6 +17,9 @@ export interface VibeLog {
   created_at: string; // ISO date string
   updated_at: string; // ISO date string
   user_id?: string; // ID of the user who created the log, usually the project owner
+  status?: PublishStatus; // Defaults to 'published' in the database
+  publish_at?: string | null; // ISO date string, when a scheduled entry goes live
+  edited_at?: string | null; // ISO date string, set when the entry was changed after publishing
 }
 
 /**
@@ -24,4 +29,27 @@ export interface VibeLogFormData {
   log_type: string;
   title: string;
   content: string;
-}
\ No newline at end of file
+  status?: PublishStatus; // Omitted to keep the entry's current status
+  publish_at?: string | null; // ISO date string, required when status is 'scheduled'
+}
+
+/**
+ * @description A draft or scheduled Vibe Log entry together with the project it belongs to
+ */
+export interface DraftVibeLog extends VibeLog {
+  startsnap: { name: string; slug: string } | null;
+}
+
+/**
+ * @description An earlier version of a published Vibe Log entry, recorded by a database trigger when it was edited
+ */
+export interface VibeLogRevision {
+  id: string;
+  vibelog_id: string;
+  log_type: string;
+  title: string;
+  content: string | null;
+  created_at: string; // ISO date string, when this version was written
+  replaced_at: string; // ISO date string, when an edit replaced this version
+  replaced_by: string | null; // ID of the user whose edit replaced this version
+}
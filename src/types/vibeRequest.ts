@@ -0,0 +1,61 @@
+/**
+ * src/types/vibeRequest.ts
+ * @description Type definitions for the Vibe Requests board.
+ */
+
+/**
+ * @description Lifecycle status of a vibe request, mirrors the vibe_requests_status_check constraint.
+ */
+export type VibeRequestStatus = 'open' | 'in progress' | 'completed';
+
+/**
+ * @description Kind of vibe request, mirrors the vibe_requests_type_check constraint.
+ */
+export type VibeRequestType = 'request' | 'challenge';
+
+/**
+ * @description Interface for a vibe request row from the database.
+ */
+export interface VibeRequest {
+  id: string;
+  created_at: string; // ISO date string
+  user_id: string;
+  title: string;
+  description: string;
+  tags: string[] | null;
+  status: VibeRequestStatus;
+  type: VibeRequestType;
+  linked_startsnap_id: string | null;
+  answered_by: string | null;
+}
+
+/**
+ * @description Vibe request enriched with the usernames and linked project needed for display.
+ */
+export interface VibeRequestWithDetails extends VibeRequest {
+  requester_username?: string;
+  answerer_username?: string;
+  linked_startsnap?: {
+    id: string;
+    name: string;
+    slug: string;
+  } | null;
+}
+
+/**
+ * @description Interface for vibe request form data used for creating or editing requests.
+ */
+export interface VibeRequestFormData {
+  title: string;
+  description: string;
+  type: VibeRequestType;
+  tags: string[];
+}
+
+/**
+ * @description Filters available on the Vibe Requests board.
+ */
+export interface VibeRequestFilters {
+  status: VibeRequestStatus | 'all';
+  type: VibeRequestType | 'all';
+}
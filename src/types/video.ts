@@ -0,0 +1,19 @@
+/**
+ * src/types/video.ts
+ * @description Type definitions for embeddable demo videos
+ */
+
+/**
+ * @description Where an embeddable video is hosted; 'file' is a direct link to a video file
+ */
+export type VideoProvider = 'youtube' | 'loom' | 'vimeo' | 'file';
+
+/**
+ * @description A demo video URL resolved into what is needed to embed it
+ */
+export interface VideoEmbed {
+  provider: VideoProvider;
+  sourceUrl: string; // The URL as entered by the user
+  embedUrl: string; // Player iframe URL, or the file URL for direct links
+  thumbnailUrl: string | null; // Poster shown before the player is loaded, when the provider offers one without an API call
+}
@@ -0,0 +1,90 @@
+/**
+ * supabase/functions/_shared/email.ts
+ * Shared Resend email sending for notification Edge Functions
+ * Reads RESEND_API_KEY from the environment and adds one-click unsubscribe headers when a link is given
+ */
+
+const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+
+export const SITE_URL = "https://startsnap.fun";
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  html: string;
+  unsubscribeUrl?: string;
+};
+
+/**
+ * @description Sends one email through the Resend API
+ * @param {EmailMessage} message - Recipient, subject, HTML body and optional signed unsubscribe page link
+ * @returns {Promise<unknown>} Resend API response
+ * @throws {Error} When RESEND_API_KEY is missing or Resend rejects the request
+ */
+export async function sendEmail({ to, subject, html, unsubscribeUrl }: EmailMessage): Promise<unknown> {
+  if (!RESEND_API_KEY) {
+    throw new Error("RESEND_API_KEY not set");
+  }
+
+  // RFC 8058 one-click unsubscribe: mail clients POST the signed query of the page link straight to the
+  // unsubscribe Edge Function without opening anything
+  const headers = unsubscribeUrl
+    ? {
+      "List-Unsubscribe": `<${SUPABASE_URL}/functions/v1/unsubscribe${new URL(unsubscribeUrl).search}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    }
+    : undefined;
+
+  const resp = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${RESEND_API_KEY}`,
+    },
+    body: JSON.stringify({
+      from: "StartSnap <no-reply@startsnap.fun>",
+      to: [to],
+      subject,
+      html,
+      headers,
+    }),
+  });
+
+  if (!resp.ok) {
+    const err = await resp.text();
+    throw new Error(`Resend error (${resp.status}): ${err}`);
+  }
+
+  return resp.json();
+}
+
+/**
+ * @description Escapes text for safe interpolation into email HTML
+ * @param {string} value - Untrusted text
+ * @returns {string} HTML-escaped text
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * @description Footer shared by notification emails, with the unsubscribe link
+ * @param {string} reason - Why the recipient gets this email
+ * @param {string} unsubscribeUrl - Signed unsubscribe link
+ * @returns {string} HTML footer
+ */
+export function emailFooter(reason: string, unsubscribeUrl: string): string {
+  return `
+      <p style="font-size:12px; color:#6b7280;">
+        ${reason}
+        <a href="${unsubscribeUrl}" style="color:#6b7280;">Unsubscribe</a> or change your email settings on
+        <a href="${SITE_URL}/profile" style="color:#6b7280;">your profile</a>.
+      </p>
+  `;
+}
@@ -0,0 +1,38 @@
+/**
+ * supabase/functions/_shared/hmac.ts
+ * Shared HMAC-SHA256 helpers for signed links and signed function calls
+ */
+
+/**
+ * @description Computes a hex HMAC-SHA256 of a payload
+ * @param {string} secret - Signing key
+ * @param {string} payload - Data to sign
+ * @returns {Promise<string>} Lowercase hex signature
+ */
+export async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(signature)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * @description Compares two strings in constant time for equal lengths
+ * @param {string} a - First value
+ * @param {string} b - Second value
+ * @returns {boolean} True when both are identical
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
@@ -0,0 +1,70 @@
+/**
+ * supabase/functions/_shared/notificationPreferences.ts
+ * Shared helpers for per-user email preferences and signed one-click unsubscribe links
+ * Unsubscribe tokens are an HMAC-SHA256 of "<userId>:<eventType>" keyed with UNSUBSCRIBE_SECRET
+ */
+
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import { SITE_URL } from "./email.ts";
+import { hmacSha256Hex, timingSafeEqual } from "./hmac.ts";
+
+const UNSUBSCRIBE_SECRET = Deno.env.get("UNSUBSCRIBE_SECRET");
+
+export const EMAIL_EVENT_TYPES = ["feedback", "reply", "support_milestone", "tip"] as const;
+
+export type EmailEventType = typeof EMAIL_EVENT_TYPES[number];
+export type EmailDelivery = "immediate" | "daily_digest" | "off";
+
+/** Unsubscribe scope: one event type, or every event type at once (used by the digest) */
+export type UnsubscribeScope = EmailEventType | "all";
+
+/**
+ * @description Reads a user's effective delivery mode for an event (defaults applied in the database)
+ * @param {SupabaseClient} supabase - Service-role client
+ * @param {string} userId - Recipient's user ID
+ * @param {EmailEventType} eventType - Email event
+ * @returns {Promise<EmailDelivery>} Delivery mode
+ */
+export async function getEmailDelivery(
+  supabase: SupabaseClient,
+  userId: string,
+  eventType: EmailEventType,
+): Promise<EmailDelivery> {
+  const { data, error } = await supabase.rpc("notification_email_delivery", {
+    p_user_id: userId,
+    p_event_type: eventType,
+  });
+  if (error) throw new Error(`Failed to read notification preferences: ${error.message}`);
+  return data as EmailDelivery;
+}
+
+async function signScope(userId: string, scope: string): Promise<string> {
+  if (!UNSUBSCRIBE_SECRET) {
+    throw new Error("UNSUBSCRIBE_SECRET not set");
+  }
+  return hmacSha256Hex(UNSUBSCRIBE_SECRET, `${userId}:${scope}`);
+}
+
+/**
+ * @description Builds a signed link that turns off email for a user and scope without signing in
+ * @param {string} userId - Recipient's user ID
+ * @param {UnsubscribeScope} scope - Event type to turn off, or "all"
+ * @returns {Promise<string>} Unsubscribe URL pointing at the site's /unsubscribe confirmation page
+ */
+export async function buildUnsubscribeUrl(userId: string, scope: UnsubscribeScope): Promise<string> {
+  const signature = await signScope(userId, scope);
+  const params = new URLSearchParams({ u: userId, e: scope, s: signature });
+  return `${SITE_URL}/unsubscribe?${params.toString()}`;
+}
+
+/**
+ * @description Checks an unsubscribe signature in constant time
+ * @param {string} userId - User ID from the link
+ * @param {string} scope - Scope from the link
+ * @param {string} signature - Hex signature from the link
+ * @returns {Promise<boolean>} True when the link was issued by us
+ */
+export async function verifyUnsubscribeSignature(userId: string, scope: string, signature: string): Promise<boolean> {
+  const expected = await signScope(userId, scope);
+  return timingSafeEqual(expected, signature);
+}
@@ -0,0 +1,67 @@
+/**
+ * supabase/functions/_shared/signedRequest.ts
+ * Verifies calls made by public.call_edge_function(): an HMAC-SHA256 of "<timestamp>.<raw body>" in
+ * X-Function-Signature, a Unix timestamp in X-Function-Timestamp, and each signature accepted only once
+ * FUNCTION_SIGNING_SECRET_PREVIOUS is also accepted so the secret can be rotated without dropping calls
+ */
+
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import { hmacSha256Hex, timingSafeEqual } from "./hmac.ts";
+
+const FUNCTION_SIGNING_SECRET = Deno.env.get("FUNCTION_SIGNING_SECRET");
+const FUNCTION_SIGNING_SECRET_PREVIOUS = Deno.env.get("FUNCTION_SIGNING_SECRET_PREVIOUS");
+
+/** Requests older (or further in the future) than this are rejected as replays */
+const MAX_CLOCK_SKEW_SECONDS = 300;
+
+export type SignedRequestResult =
+  | { ok: true; body: string }
+  | { ok: false; status: number; error: string };
+
+/**
+ * @description Checks the signature and timestamp of a request and records the signature to block replays
+ * @param {Request} req - Incoming request; its body is consumed
+ * @param {SupabaseClient} supabase - Service-role client used for the replay guard table
+ * @returns {Promise<SignedRequestResult>} The raw body when valid, otherwise an HTTP status and error
+ */
+export async function verifySignedRequest(req: Request, supabase: SupabaseClient): Promise<SignedRequestResult> {
+  const secrets = [FUNCTION_SIGNING_SECRET, FUNCTION_SIGNING_SECRET_PREVIOUS].filter(Boolean) as string[];
+  if (secrets.length === 0) {
+    return { ok: false, status: 500, error: "Server misconfigured: missing FUNCTION_SIGNING_SECRET" };
+  }
+
+  const timestamp = req.headers.get("x-function-timestamp") ?? "";
+  const signature = (req.headers.get("x-function-signature") ?? "").toLowerCase();
+  if (!/^\d+$/.test(timestamp) || !signature) {
+    return { ok: false, status: 401, error: "Unauthorized" };
+  }
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (age > MAX_CLOCK_SKEW_SECONDS) {
+    return { ok: false, status: 401, error: "Request expired" };
+  }
+
+  const body = await req.text();
+  let valid = false;
+  for (const secret of secrets) {
+    const expected = await hmacSha256Hex(secret, `${timestamp}.${body}`);
+    if (timingSafeEqual(expected, signature)) valid = true;
+  }
+  if (!valid) {
+    return { ok: false, status: 401, error: "Unauthorized" };
+  }
+
+  // Forget signatures that can no longer pass the timestamp check, then claim this one
+  const cutoff = new Date(Date.now() - 2 * MAX_CLOCK_SKEW_SECONDS * 1000).toISOString();
+  await supabase.from("edge_function_request_signatures").delete().lt("received_at", cutoff);
+
+  const { error } = await supabase.from("edge_function_request_signatures").insert({ signature });
+  if (error) {
+    // 23505 = unique_violation: this exact request was already processed
+    return error.code === "23505"
+      ? { ok: false, status: 409, error: "Replayed request" }
+      : { ok: false, status: 500, error: `Replay check failed: ${error.message}` };
+  }
+
+  return { ok: true, body };
+}
@@ -0,0 +1,242 @@
+/**
+ * supabase/functions/collect-orphaned-screenshots/index.ts
+ * @description Removes screenshots from the project-screenshots bucket that no project references any more.
+ * Runs daily via pg_cron, which calls it through the signed public.call_edge_function().
+ * Accepts POST JSON: { dry_run?: boolean, grace_hours?: number }
+ * - Empties storage_deletion_queue, filled by the startsnaps delete trigger
+ * - Lists the bucket and deletes objects that are not in referenced_screenshot_paths() and are older than the
+ *   grace period (default 24 hours, so images uploaded in a form that has not been saved yet survive)
+ * - Aborts before deleting anything if the paged reference list does not match count_referenced_screenshot_paths()
+ * With dry_run the function only reports what it would delete.
+ */
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { verifySignedRequest } from "../_shared/signedRequest.ts";
+
+import { createClient, type SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const SCREENSHOTS_BUCKET = "project-screenshots";
+const DEFAULT_GRACE_HOURS = 24;
+const MIN_GRACE_HOURS = 1;
+const LIST_PAGE_SIZE = 1000;
+/** Stays at or below PostgREST's max_rows, which would otherwise cut pages short */
+const REFERENCE_PAGE_SIZE = 1000;
+const REMOVE_BATCH_SIZE = 100;
+/** Upper bound on orphan deletions per run, so a bad reference lookup cannot wipe the bucket in one go */
+const MAX_ORPHAN_DELETIONS_PER_RUN = 500;
+/** How many paths a dry run lists in its response */
+const MAX_REPORTED_PATHS = 200;
+
+type QueuedDeletion = {
+  id: string;
+  object_path: string;
+  attempts: number;
+};
+
+type BucketObject = {
+  path: string;
+  createdAt: string | null;
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+  );
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Loads every referenced path page by page, since PostgREST caps a response at max_rows.
+ * Throws unless the result matches the row count, because a partial set would mark live screenshots as orphans.
+ */
+async function fetchReferencedPaths(supabase: SupabaseClient): Promise<Set<string>> {
+  const { data: expected, error: countError } = await supabase.rpc("count_referenced_screenshot_paths");
+  if (countError) throw new Error(`Failed to count referenced screenshots: ${countError.message}`);
+
+  const referenced = new Set<string>();
+  for (let from = 0; ; from += REFERENCE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc("referenced_screenshot_paths")
+      .range(from, from + REFERENCE_PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load referenced screenshots: ${error.message}`);
+
+    const page = (data ?? []) as string[];
+    for (const path of page) referenced.add(path);
+    if (page.length < REFERENCE_PAGE_SIZE) break;
+  }
+
+  if (referenced.size !== Number(expected)) {
+    throw new Error(
+      `Loaded ${referenced.size} referenced screenshots but expected ${expected}; aborting without deleting anything`,
+    );
+  }
+  return referenced;
+}
+
+/** Lists one folder level of the bucket, following pagination */
+async function listFolder(supabase: SupabaseClient, prefix: string) {
+  const entries = [];
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(SCREENSHOTS_BUCKET)
+      .list(prefix, { limit: LIST_PAGE_SIZE, offset, sortBy: { column: "name", order: "asc" } });
+    if (error) throw new Error(`Failed to list "${prefix || "/"}": ${error.message}`);
+
+    entries.push(...(data ?? []));
+    if (!data || data.length < LIST_PAGE_SIZE) return entries;
+  }
+}
+
+/** Lists every object in the bucket; uploads live in one folder per user ("<userId>/<fileName>") */
+async function listBucketObjects(supabase: SupabaseClient): Promise<BucketObject[]> {
+  const objects: BucketObject[] = [];
+
+  for (const entry of await listFolder(supabase, "")) {
+    // Folders come back without an id
+    if (entry.id) {
+      objects.push({ path: entry.name, createdAt: entry.created_at ?? null });
+      continue;
+    }
+
+    for (const file of await listFolder(supabase, entry.name)) {
+      if (!file.id || file.name === ".emptyFolderPlaceholder") continue;
+      objects.push({ path: `${entry.name}/${file.name}`, createdAt: file.created_at ?? null });
+    }
+  }
+
+  return objects;
+}
+
+async function removePaths(supabase: SupabaseClient, paths: string[]): Promise<void> {
+  for (const batch of chunk(paths, REMOVE_BATCH_SIZE)) {
+    const { error } = await supabase.storage.from(SCREENSHOTS_BUCKET).remove(batch);
+    if (error) throw new Error(`Failed to remove screenshots: ${error.message}`);
+  }
+}
+
+/** Deletes queued screenshots of deleted projects; paths that became referenced again are only dequeued */
+async function processDeletionQueue(supabase: SupabaseClient, referenced: Set<string>, dryRun: boolean) {
+  const { data, error } = await supabase
+    .from("storage_deletion_queue")
+    .select("id, object_path, attempts")
+    .eq("bucket_id", SCREENSHOTS_BUCKET)
+    .order("queued_at", { ascending: true })
+    .limit(LIST_PAGE_SIZE);
+  if (error) throw new Error(`Failed to load the deletion queue: ${error.message}`);
+
+  const queued = (data ?? []) as QueuedDeletion[];
+  const stillReferenced = queued.filter((row) => referenced.has(row.object_path));
+  const toDelete = queued.filter((row) => !referenced.has(row.object_path));
+
+  if (dryRun) {
+    return { queued: queued.length, deleted: 0, skipped: stillReferenced.length, failed: 0 };
+  }
+
+  let deleted = 0;
+  let failed = 0;
+  for (const batch of chunk(toDelete, REMOVE_BATCH_SIZE)) {
+    try {
+      await removePaths(supabase, batch.map((row) => row.object_path));
+      deleted += batch.length;
+    } catch (removeError) {
+      failed += batch.length;
+      for (const row of batch) {
+        await supabase
+          .from("storage_deletion_queue")
+          .update({ attempts: row.attempts + 1, last_error: (removeError as Error).message })
+          .eq("id", row.id);
+      }
+      continue;
+    }
+
+    const { error: dequeueError } = await supabase
+      .from("storage_deletion_queue")
+      .delete()
+      .in("id", batch.map((row) => row.id));
+    if (dequeueError) throw new Error(`Failed to dequeue deleted screenshots: ${dequeueError.message}`);
+  }
+
+  if (stillReferenced.length > 0) {
+    await supabase
+      .from("storage_deletion_queue")
+      .delete()
+      .in("id", stillReferenced.map((row) => row.id));
+  }
+
+  return { queued: queued.length, deleted, skipped: stillReferenced.length, failed };
+}
+
+/** Deletes bucket objects that nothing references and that are older than the grace period */
+async function collectOrphans(supabase: SupabaseClient, referenced: Set<string>, graceHours: number, dryRun: boolean) {
+  const cutoff = Date.now() - graceHours * 60 * 60 * 1000;
+  const objects = await listBucketObjects(supabase);
+
+  const orphans = objects
+    .filter((object) => !referenced.has(object.path))
+    .filter((object) => object.createdAt !== null && new Date(object.createdAt).getTime() < cutoff)
+    .map((object) => object.path);
+  const toDelete = orphans.slice(0, MAX_ORPHAN_DELETIONS_PER_RUN);
+
+  if (!dryRun) {
+    await removePaths(supabase, toDelete);
+  }
+
+  return {
+    scanned: objects.length,
+    orphaned: orphans.length,
+    deleted: dryRun ? 0 : toDelete.length,
+    paths: dryRun ? orphans.slice(0, MAX_REPORTED_PATHS) : undefined,
+  };
+}
+
+async function handler(req: Request): Promise<Response> {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return jsonResponse({ error: "Server misconfigured: missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" }, 500);
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // Verify the HMAC signature and timestamp to prevent public abuse and replays
+    const verification = await verifySignedRequest(req, supabase);
+    if (!verification.ok) {
+      return jsonResponse({ error: verification.error }, verification.status);
+    }
+
+    const payload = JSON.parse(verification.body || "{}");
+    const dryRun = payload.dry_run === true;
+    const graceHours = Math.max(
+      MIN_GRACE_HOURS,
+      Number.isFinite(payload.grace_hours) ? Number(payload.grace_hours) : DEFAULT_GRACE_HOURS,
+    );
+
+    const referenced = await fetchReferencedPaths(supabase);
+    const queue = await processDeletionQueue(supabase, referenced, dryRun);
+    const orphans = await collectOrphans(supabase, referenced, graceHours, dryRun);
+
+    return jsonResponse({ ok: true, dryRun, graceHours, referenced: referenced.size, queue, orphans });
+  } catch (error) {
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+}
+
+Deno.serve(handler);
@@ -1,20 +1,23 @@
 /**
  * supabase/functions/notify-new-feedback/index.ts
  * @description Sends an email to the project owner when new feedback is created.
- * Accepts POST JSON: { feedback_id: string }
+ * Accepts POST JSON: { feedback_id: string }, signed by public.call_edge_function()
+ * (X-Function-Timestamp + HMAC X-Function-Signature; stale or replayed requests are rejected).
  * Server-side enriches data using Supabase service role (to fetch owner email) and
- * sends via Resend with the server-side RESEND_API_KEY secret.
+ * sends via Resend with the server-side RESEND_API_KEY secret. Owners whose "feedback" email
+ * preference is daily_digest or off are skipped; the digest function picks up digest users.
  */
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { corsHeaders } from "../_shared/cors.ts";
+import { emailFooter, escapeHtml, sendEmail, SITE_URL } from "../_shared/email.ts";
+import { buildUnsubscribeUrl, getEmailDelivery } from "../_shared/notificationPreferences.ts";
+import { verifySignedRequest } from "../_shared/signedRequest.ts";
 
 // Import Supabase client for Deno via ESM
 import { createClient } from "jsr:@supabase/supabase-js@2";
 
-const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-const FUNCTION_SIGNATURE = Deno.env.get("FUNCTION_SIGNATURE");
 
 type FeedbackRecord = {
   id: string;
@@ -31,46 +34,31 @@ type StartSnapRecord = {
   slug: string | null;
 };
 
-async function sendEmail(to: string, projectTitle: string, projectSlug: string | null, feedbackId: string) {
-  if (!RESEND_API_KEY) {
-    throw new Error("RESEND_API_KEY not set");
-  }
+async function sendFeedbackEmail(
+  to: string,
+  ownerId: string,
+  projectTitle: string,
+  projectSlug: string | null,
+  feedbackId: string,
+) {
   const subject = `New feedback on “${projectTitle || "your project"}” on StartSnap`;
   const projectUrl = projectSlug
-    ? `https://startsnap.fun/projects/${projectSlug}#feedback-${feedbackId}`
-    : `https://startsnap.fun/projects`;
+    ? `${SITE_URL}/projects/${projectSlug}#feedback-${feedbackId}`
+    : `${SITE_URL}/projects`;
+  const unsubscribeUrl = await buildUnsubscribeUrl(ownerId, "feedback");
   const html = `
     <div style="font-family: system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif; line-height:1.6; color:#111827;">
       <h2 style="margin:0 0 12px;">You have new feedback</h2>
-      <p style="margin:0 0 12px;">Someone just left feedback on <strong>${projectTitle || "your project"}</strong>.</p>
+      <p style="margin:0 0 12px;">Someone just left feedback on <strong>${escapeHtml(projectTitle || "your project")}</strong>.</p>
       <blockquote style="margin:0 0 16px; padding:12px 16px; background:#f9fafb; border-left:4px solid #111827;">A new comment was posted. Click below to view it.</blockquote>
       <p style="margin:0 0 16px;">
         <a href="${projectUrl}" style="display:inline-block; padding:10px 16px; background:#111827; color:#ffffff; text-decoration:none; border-radius:6px;">View feedback</a>
       </p>
-      <p style="font-size:12px; color:#6b7280;">You’re receiving this because you own this project on StartSnap.</p>
+      ${emailFooter("You’re receiving this because you own this project on StartSnap.", unsubscribeUrl)}
     </div>
   `;
 
-  const resp = await fetch("https://api.resend.com/emails", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${RESEND_API_KEY}`,
-    },
-    body: JSON.stringify({
-      from: "StartSnap <no-reply@startsnap.fun>",
-      to: [to],
-      subject,
-      html,
-    }),
-  });
-
-  if (!resp.ok) {
-    const err = await resp.text();
-    throw new Error(`Resend error (${resp.status}): ${err}`);
-  }
-
-  return resp.json();
+  return sendEmail({ to, subject, html, unsubscribeUrl });
 }
 
 async function handler(req: Request): Promise<Response> {
@@ -86,15 +74,6 @@ async function handler(req: Request): Promise<Response> {
     );
   }
 
-  // Verify shared signature header to prevent public abuse
-  const signatureHeader = req.headers.get("x-function-signature");
-  if (!FUNCTION_SIGNATURE || !signatureHeader || signatureHeader !== FUNCTION_SIGNATURE) {
-    return new Response(
-      JSON.stringify({ error: "Unauthorized" }),
-      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-    );
-  }
-
   if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
     return new Response(
       JSON.stringify({ error: "Server misconfigured: missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" }),
@@ -103,7 +82,18 @@ async function handler(req: Request): Promise<Response> {
   }
 
   try {
-    const payload = await req.json();
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // Verify the HMAC signature and timestamp to prevent public abuse and replays
+    const verification = await verifySignedRequest(req, supabase);
+    if (!verification.ok) {
+      return new Response(
+        JSON.stringify({ error: verification.error }),
+        { status: verification.status, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    const payload = JSON.parse(verification.body || "{}");
     const feedbackId = String(payload?.feedback_id || "").trim();
     if (!feedbackId) {
       return new Response(
@@ -112,8 +102,6 @@ async function handler(req: Request): Promise<Response> {
       );
     }
 
-    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
-
     // 1) Fetch feedback
     const { data: feedback, error: feedbackErr } = await supabase
       .from<FeedbackRecord>("feedbacks")
@@ -140,7 +128,16 @@ async function handler(req: Request): Promise<Response> {
       );
     }
 
-    // 3) Lookup owner email via Auth Admin API
+    // 3) Respect the owner's email preference
+    const delivery = await getEmailDelivery(supabase, snap.user_id, "feedback");
+    if (delivery !== "immediate") {
+      return new Response(
+        JSON.stringify({ ok: true, skipped: delivery }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    // 4) Lookup owner email via Auth Admin API
     const { data: ownerUser } = await supabase.auth.admin.getUserById(snap.user_id);
     const ownerEmail = ownerUser?.user?.email;
     if (!ownerEmail) {
@@ -150,8 +147,17 @@ async function handler(req: Request): Promise<Response> {
       );
     }
 
-    // 4) Send email
-    const emailResult = await sendEmail(ownerEmail, snap.name ?? "your project", snap.slug ?? null, feedback.id);
+    // 5) Send email
+    const emailResult = await sendFeedbackEmail(ownerEmail, snap.user_id, snap.name ?? "your project", snap.slug ?? null, feedback.id);
+
+    // 6) Keep the digest from emailing the same feedback again
+    await supabase
+      .from("notifications")
+      .update({ emailed_at: new Date().toISOString() })
+      .eq("recipient_user_id", snap.user_id)
+      .eq("feedback_id", feedback.id)
+      .eq("notification_type", "feedback_added")
+      .is("emailed_at", null);
 
     return new Response(
       JSON.stringify({ ok: true, emailResult }),
@@ -0,0 +1,211 @@
+/**
+ * supabase/functions/notify-new-reply/index.ts
+ * @description Emails the parent feedback's author and everyone else in the thread when a reply is posted.
+ * Accepts POST JSON: { reply_id: string }
+ * Modeled on notify-new-feedback: accepts only HMAC-signed calls from public.call_edge_function(),
+ * enriched with the service role and sent via Resend. The replier never gets an email, and recipients whose "reply" email preference
+ * is daily_digest or off are skipped (the digest function picks up digest users).
+ */
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { emailFooter, escapeHtml, sendEmail, SITE_URL } from "../_shared/email.ts";
+import { buildUnsubscribeUrl, getEmailDelivery } from "../_shared/notificationPreferences.ts";
+import { verifySignedRequest } from "../_shared/signedRequest.ts";
+
+// Import Supabase client for Deno via ESM
+import { createClient } from "jsr:@supabase/supabase-js@2";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+type ReplyRecord = {
+  id: string;
+  parent_feedback_id: string;
+  user_id: string;
+  content: string;
+};
+
+type FeedbackRecord = {
+  id: string;
+  startsnap_id: string;
+  user_id: string;
+};
+
+type StartSnapRecord = {
+  id: string;
+  name: string | null;
+  slug: string | null;
+};
+
+async function sendReplyEmail(
+  to: string,
+  recipientId: string,
+  isFeedbackAuthor: boolean,
+  replierName: string,
+  projectTitle: string,
+  projectSlug: string | null,
+  feedbackId: string,
+) {
+  const subject = isFeedbackAuthor
+    ? `${replierName} replied to your feedback on “${projectTitle}”`
+    : `New reply in a feedback thread on “${projectTitle}”`;
+  const threadUrl = projectSlug
+    ? `${SITE_URL}/projects/${projectSlug}#feedback-${feedbackId}`
+    : `${SITE_URL}/projects`;
+  const unsubscribeUrl = await buildUnsubscribeUrl(recipientId, "reply");
+  const html = `
+    <div style="font-family: system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif; line-height:1.6; color:#111827;">
+      <h2 style="margin:0 0 12px;">${isFeedbackAuthor ? "You have a new reply" : "The conversation continues"}</h2>
+      <p style="margin:0 0 12px;">
+        <strong>${escapeHtml(replierName)}</strong> replied to ${isFeedbackAuthor ? "your feedback" : "a feedback thread you’re part of"}
+        on <strong>${escapeHtml(projectTitle)}</strong>.
+      </p>
+      <p style="margin:0 0 16px;">
+        <a href="${threadUrl}" style="display:inline-block; padding:10px 16px; background:#111827; color:#ffffff; text-decoration:none; border-radius:6px;">View reply</a>
+      </p>
+      ${emailFooter("You’re receiving this because you took part in this feedback thread on StartSnap.", unsubscribeUrl)}
+    </div>
+  `;
+
+  return sendEmail({ to, subject, html, unsubscribeUrl });
+}
+
+async function handler(req: Request): Promise<Response> {
+  // CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(
+      JSON.stringify({ error: "Method not allowed" }),
+      { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return new Response(
+      JSON.stringify({ error: "Server misconfigured: missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // Verify the HMAC signature and timestamp to prevent public abuse and replays
+    const verification = await verifySignedRequest(req, supabase);
+    if (!verification.ok) {
+      return new Response(
+        JSON.stringify({ error: verification.error }),
+        { status: verification.status, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    const payload = JSON.parse(verification.body || "{}");
+    const replyId = String(payload?.reply_id || "").trim();
+    if (!replyId) {
+      return new Response(
+        JSON.stringify({ error: "reply_id is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    // 1) Fetch reply
+    const { data: reply, error: replyErr } = await supabase
+      .from<ReplyRecord>("feedback_replies")
+      .select("id, parent_feedback_id, user_id, content")
+      .eq("id", replyId)
+      .single();
+    if (replyErr || !reply) {
+      return new Response(
+        JSON.stringify({ error: "Reply not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    // 2) Fetch parent feedback and project
+    const { data: feedback, error: feedbackErr } = await supabase
+      .from<FeedbackRecord>("feedbacks")
+      .select("id, startsnap_id, user_id")
+      .eq("id", reply.parent_feedback_id)
+      .single();
+    if (feedbackErr || !feedback) {
+      return new Response(
+        JSON.stringify({ error: "Parent feedback not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    const { data: snap } = await supabase
+      .from<StartSnapRecord>("startsnaps")
+      .select("id, name, slug")
+      .eq("id", feedback.startsnap_id)
+      .single();
+
+    const { data: replierProfile } = await supabase
+      .from("profiles")
+      .select("username")
+      .eq("user_id", reply.user_id)
+      .maybeSingle();
+    const replierName = replierProfile?.username ?? "Someone";
+
+    // 3) Thread participants: feedback author plus everyone who replied, minus the replier
+    const { data: threadReplies } = await supabase
+      .from("feedback_replies")
+      .select("user_id")
+      .eq("parent_feedback_id", feedback.id);
+    const recipientIds = [...new Set([feedback.user_id, ...(threadReplies ?? []).map((r: { user_id: string }) => r.user_id)])]
+      .filter((userId) => userId !== reply.user_id);
+
+    const results: { userId: string; status: string }[] = [];
+
+    for (const recipientId of recipientIds) {
+      // 4) Respect each recipient's email preference
+      const delivery = await getEmailDelivery(supabase, recipientId, "reply");
+      if (delivery !== "immediate") {
+        results.push({ userId: recipientId, status: `skipped:${delivery}` });
+        continue;
+      }
+
+      // 5) Lookup recipient email via Auth Admin API
+      const { data: recipientUser } = await supabase.auth.admin.getUserById(recipientId);
+      const recipientEmail = recipientUser?.user?.email;
+      if (!recipientEmail) {
+        results.push({ userId: recipientId, status: "no_email" });
+        continue;
+      }
+
+      // 6) Send email and keep the digest from emailing the same reply again
+      await sendReplyEmail(
+        recipientEmail,
+        recipientId,
+        recipientId === feedback.user_id,
+        replierName,
+        snap?.name ?? "your project",
+        snap?.slug ?? null,
+        feedback.id,
+      );
+      await supabase
+        .from("notifications")
+        .update({ emailed_at: new Date().toISOString() })
+        .eq("recipient_user_id", recipientId)
+        .eq("feedback_id", feedback.id)
+        .eq("notification_type", "feedback_reply_added")
+        .is("emailed_at", null);
+      results.push({ userId: recipientId, status: "sent" });
+    }
+
+    return new Response(
+      JSON.stringify({ ok: true, results }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+}
+
+Deno.serve(handler);
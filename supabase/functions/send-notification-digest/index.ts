@@ -0,0 +1,189 @@
+/**
+ * supabase/functions/send-notification-digest/index.ts
+ * @description Sends pending notification emails according to each user's email preferences.
+ * Runs every 15 minutes via pg_cron, which calls it through the signed public.call_edge_function():
+ * - "immediate" notifications without a dedicated sender go out one email each (feedback and
+ *   replies are emailed on insert by notify-new-feedback and notify-new-reply)
+ * - "daily_digest" notifications are batched into one email per user, at most once a day
+ * Sent notifications get emailed_at so they are never emailed twice.
+ */
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { emailFooter, escapeHtml, sendEmail, SITE_URL } from "../_shared/email.ts";
+import { buildUnsubscribeUrl, type EmailEventType } from "../_shared/notificationPreferences.ts";
+import { verifySignedRequest } from "../_shared/signedRequest.ts";
+
+import { createClient, type SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// Events with their own trigger-driven sender; their immediate emails are not sent from here
+const EVENTS_WITH_DEDICATED_SENDER: EmailEventType[] = ["feedback", "reply"];
+
+type PendingEmail = {
+  notification_id: string;
+  recipient_user_id: string;
+  event_type: EmailEventType;
+  message: string;
+  created_at: string;
+  startsnap_slug: string | null;
+  feedback_id: string | null;
+};
+
+const EVENT_SUBJECTS: Record<EmailEventType, string> = {
+  feedback: "New feedback on your project",
+  reply: "New reply to your feedback",
+  support_milestone: "Your project reached a support milestone",
+  tip: "You received a tip",
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+  );
+}
+
+function notificationUrl(pending: PendingEmail): string {
+  if (!pending.startsnap_slug) return `${SITE_URL}/notifications`;
+  const anchor = pending.feedback_id ? `#feedback-${pending.feedback_id}` : "";
+  return `${SITE_URL}/projects/${pending.startsnap_slug}${anchor}`;
+}
+
+function groupByRecipient(rows: PendingEmail[]): Map<string, PendingEmail[]> {
+  const groups = new Map<string, PendingEmail[]>();
+  for (const row of rows) {
+    const group = groups.get(row.recipient_user_id) ?? [];
+    group.push(row);
+    groups.set(row.recipient_user_id, group);
+  }
+  return groups;
+}
+
+async function fetchPending(supabase: SupabaseClient, delivery: "immediate" | "daily_digest"): Promise<PendingEmail[]> {
+  const { data, error } = await supabase.rpc("pending_notification_emails", { p_delivery: delivery });
+  if (error) throw new Error(`Failed to load pending ${delivery} emails: ${error.message}`);
+  return (data ?? []) as PendingEmail[];
+}
+
+async function lookupEmail(supabase: SupabaseClient, userId: string): Promise<string | null> {
+  const { data } = await supabase.auth.admin.getUserById(userId);
+  return data?.user?.email ?? null;
+}
+
+async function markEmailed(supabase: SupabaseClient, notificationIds: string[]): Promise<void> {
+  const { error } = await supabase
+    .from("notifications")
+    .update({ emailed_at: new Date().toISOString() })
+    .in("id", notificationIds);
+  if (error) throw new Error(`Failed to mark notifications as emailed: ${error.message}`);
+}
+
+async function sendImmediateEmails(supabase: SupabaseClient): Promise<number> {
+  const pending = (await fetchPending(supabase, "immediate"))
+    .filter((row) => !EVENTS_WITH_DEDICATED_SENDER.includes(row.event_type));
+  let sent = 0;
+
+  for (const [userId, rows] of groupByRecipient(pending)) {
+    const email = await lookupEmail(supabase, userId);
+    if (!email) {
+      await markEmailed(supabase, rows.map((row) => row.notification_id));
+      continue;
+    }
+
+    for (const row of rows) {
+      const unsubscribeUrl = await buildUnsubscribeUrl(userId, row.event_type);
+      const html = `
+    <div style="font-family: system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif; line-height:1.6; color:#111827;">
+      <h2 style="margin:0 0 12px;">${EVENT_SUBJECTS[row.event_type]}</h2>
+      <p style="margin:0 0 16px;">${escapeHtml(row.message)}</p>
+      <p style="margin:0 0 16px;">
+        <a href="${notificationUrl(row)}" style="display:inline-block; padding:10px 16px; background:#111827; color:#ffffff; text-decoration:none; border-radius:6px;">View on StartSnap</a>
+      </p>
+      ${emailFooter("You’re receiving this because of your StartSnap email settings.", unsubscribeUrl)}
+    </div>
+  `;
+
+      await sendEmail({ to: email, subject: `${EVENT_SUBJECTS[row.event_type]} on StartSnap`, html, unsubscribeUrl });
+      await markEmailed(supabase, [row.notification_id]);
+      sent++;
+    }
+  }
+
+  return sent;
+}
+
+async function sendDigests(supabase: SupabaseClient): Promise<number> {
+  const pending = await fetchPending(supabase, "daily_digest");
+  let sent = 0;
+
+  for (const [userId, rows] of groupByRecipient(pending)) {
+    const email = await lookupEmail(supabase, userId);
+
+    if (email) {
+      const unsubscribeUrl = await buildUnsubscribeUrl(userId, "all");
+      const items = rows.map((row) => `
+        <li style="margin:0 0 8px;">
+          <a href="${notificationUrl(row)}" style="color:#111827;">${escapeHtml(row.message)}</a>
+        </li>`).join("");
+      const html = `
+    <div style="font-family: system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif; line-height:1.6; color:#111827;">
+      <h2 style="margin:0 0 12px;">Your daily StartSnap digest</h2>
+      <p style="margin:0 0 12px;">Here’s what happened since your last digest:</p>
+      <ul style="margin:0 0 16px; padding-left:20px;">${items}
+      </ul>
+      <p style="margin:0 0 16px;">
+        <a href="${SITE_URL}/notifications" style="display:inline-block; padding:10px 16px; background:#111827; color:#ffffff; text-decoration:none; border-radius:6px;">Open notifications</a>
+      </p>
+      ${emailFooter("You’re receiving this because you chose a daily digest in your StartSnap email settings.", unsubscribeUrl)}
+    </div>
+  `;
+      const subject = `Your StartSnap digest: ${rows.length} update${rows.length === 1 ? "" : "s"}`;
+
+      await sendEmail({ to: email, subject, html, unsubscribeUrl });
+      sent++;
+    }
+
+    await markEmailed(supabase, rows.map((row) => row.notification_id));
+    const { error } = await supabase
+      .from("notification_digest_state")
+      .upsert({ user_id: userId, last_digest_sent_at: new Date().toISOString() });
+    if (error) throw new Error(`Failed to record digest: ${error.message}`);
+  }
+
+  return sent;
+}
+
+async function handler(req: Request): Promise<Response> {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return jsonResponse({ error: "Server misconfigured: missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" }, 500);
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // Verify the HMAC signature and timestamp to prevent public abuse and replays
+    const verification = await verifySignedRequest(req, supabase);
+    if (!verification.ok) {
+      return jsonResponse({ error: verification.error }, verification.status);
+    }
+
+    const immediateSent = await sendImmediateEmails(supabase);
+    const digestsSent = await sendDigests(supabase);
+
+    return jsonResponse({ ok: true, immediateSent, digestsSent });
+  } catch (error) {
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+}
+
+Deno.serve(handler);
@@ -0,0 +1,101 @@
+/**
+ * supabase/functions/unsubscribe/index.ts
+ * @description Email unsubscribe for links sent by the notification email functions. POST only:
+ * - The link in the email opens the /unsubscribe page on the site, which asks for confirmation and then POSTs
+ *   JSON { u: <userId>, e: <eventType|all>, s: <signature> } here; the answer is JSON
+ * - Mail clients POST the same signed query (?u=&e=&s=) for RFC 8058 one-click unsubscribe
+ *   (body "List-Unsubscribe=One-Click") and get an empty response
+ * Opening a link never unsubscribes, because mail scanners and link previews open every link in an email.
+ * The HMAC signature stands in for a session, so deploy with --no-verify-jwt.
+ */
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { EMAIL_EVENT_TYPES, type EmailEventType, verifyUnsubscribeSignature } from "../_shared/notificationPreferences.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+type UnsubscribeParams = {
+  userId: string;
+  scope: string;
+  signature: string;
+  oneClick: boolean;
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+  );
+}
+
+/** Reads the signed parameters from the site's JSON body or from the one-click query string */
+async function readParams(req: Request): Promise<UnsubscribeParams> {
+  if ((req.headers.get("content-type") ?? "").includes("application/json")) {
+    const body = await req.json().catch(() => ({}));
+    return {
+      userId: typeof body.u === "string" ? body.u : "",
+      scope: typeof body.e === "string" ? body.e : "",
+      signature: typeof body.s === "string" ? body.s : "",
+      oneClick: false,
+    };
+  }
+
+  const url = new URL(req.url);
+  const body = await req.text();
+  return {
+    userId: url.searchParams.get("u") ?? "",
+    scope: url.searchParams.get("e") ?? "",
+    signature: url.searchParams.get("s") ?? "",
+    oneClick: new URLSearchParams(body).get("List-Unsubscribe") === "One-Click",
+  };
+}
+
+async function handler(req: Request): Promise<Response> {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return jsonResponse({ error: "Server misconfigured: missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" }, 500);
+  }
+
+  const { userId, scope, signature, oneClick } = await readParams(req);
+
+  const isKnownScope = scope === "all" || (EMAIL_EVENT_TYPES as readonly string[]).includes(scope);
+  if (!userId || !isKnownScope || !signature || !(await verifyUnsubscribeSignature(userId, scope, signature))) {
+    return jsonResponse({ error: "This unsubscribe link is invalid or has been altered." }, 400);
+  }
+
+  const eventTypes: EmailEventType[] = scope === "all" ? [...EMAIL_EVENT_TYPES] : [scope as EmailEventType];
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+  const { error } = await supabase
+    .from("notification_preferences")
+    .upsert(eventTypes.map((eventType) => ({ user_id: userId, event_type: eventType, delivery: "off" })));
+
+  if (error) {
+    return jsonResponse({ error: `Failed to update email settings: ${error.message}` }, 500);
+  }
+
+  // RFC 8058 one-click requests come from the mail client, which does not show a response
+  if (oneClick) {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  return jsonResponse({ ok: true, scope });
+}
+
+Deno.serve(async (req) => {
+  try {
+    return await handler(req);
+  } catch (error) {
+    // e.g. UNSUBSCRIBE_SECRET is not set, so signatures cannot be checked
+    console.error("Unsubscribe failed:", error);
+    return jsonResponse({ error: "Unsubscribing is temporarily unavailable. Please try again later." }, 500);
+  }
+});
@@ -0,0 +1,131 @@
+/**
+ * supabase/migrations/20250626100000_vibe_request_completion.sql
+ *
+ * Feature: Vibe Requests board
+ *
+ * Problem: 'vibe_request_completed' is a known activity type but nothing ever logs it, and RLS only
+ *          lets the request author update a row, so builders have no way to answer a request
+ * Solution: Track which builder answered a request, expose an answer_vibe_request() RPC that links
+ *           the builder's own StartSnap, and log the completion from an AFTER UPDATE trigger. A guard trigger
+ *           keeps the author's own updates from crediting a builder or project, so only answer_vibe_request()
+ *           can log "X answered this request".
+ */
+
+-- Who answered the request (NULL when the author closed it themselves)
+ALTER TABLE public.vibe_requests
+    ADD COLUMN IF NOT EXISTS answered_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_vibe_requests_status_created_at
+    ON public.vibe_requests (status, created_at DESC);
+
+-- Builders answer a request by linking one of their own StartSnaps
+CREATE OR REPLACE FUNCTION public.answer_vibe_request(
+    p_vibe_request_id uuid,
+    p_startsnap_id uuid
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    current_status text;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to answer a vibe request'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.startsnaps
+        WHERE id = p_startsnap_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'You can only answer a vibe request with one of your own StartSnaps'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT status INTO current_status
+    FROM public.vibe_requests
+    WHERE id = p_vibe_request_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Vibe request not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF current_status = 'completed' THEN
+        RAISE EXCEPTION 'This vibe request has already been answered' USING ERRCODE = 'P0001';
+    END IF;
+
+    PERFORM set_config('vibe_request.answer_in_progress', 'on', true);
+    UPDATE public.vibe_requests
+    SET status = 'completed',
+        linked_startsnap_id = p_startsnap_id,
+        answered_by = auth.uid()
+    WHERE id = p_vibe_request_id;
+    PERFORM set_config('vibe_request.answer_in_progress', 'off', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.answer_vibe_request(uuid, uuid) TO authenticated;
+
+-- Trigger: the author may close or reopen their request, but only answer_vibe_request() can set who answered it
+CREATE OR REPLACE FUNCTION public.guard_vibe_request_answer() RETURNS trigger
+LANGUAGE plpgsql SET search_path = public
+AS $$
+BEGIN
+    -- auth.uid() is NULL for the service role and the SQL editor
+    IF auth.uid() IS NULL
+       OR COALESCE(current_setting('vibe_request.answer_in_progress', true), '') = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Reopening clears the answer; anything else that sets one must go through answer_vibe_request()
+    IF (NEW.answered_by IS NOT NULL AND NEW.answered_by IS DISTINCT FROM OLD.answered_by)
+       OR (NEW.linked_startsnap_id IS NOT NULL AND NEW.linked_startsnap_id IS DISTINCT FROM OLD.linked_startsnap_id) THEN
+        RAISE EXCEPTION 'A vibe request can only be answered through answer_vibe_request()'
+            USING ERRCODE = '42501';
+    END IF;
+
+    -- Closing a request yourself completes it without crediting anyone
+    IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed'
+       AND (NEW.answered_by IS NOT NULL OR NEW.linked_startsnap_id IS NOT NULL) THEN
+        RAISE EXCEPTION 'A vibe request can only be answered through answer_vibe_request()'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_guard_vibe_request_answer ON public.vibe_requests;
+CREATE TRIGGER trigger_guard_vibe_request_answer
+    BEFORE UPDATE ON public.vibe_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_vibe_request_answer();
+
+-- Log completion whenever a request transitions into 'completed'
+CREATE OR REPLACE FUNCTION public.log_vibe_request_completed() RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+        PERFORM public.create_activity_log(
+            'vibe_request_completed',
+            COALESCE(NEW.answered_by, NEW.user_id),
+            NEW.linked_startsnap_id,
+            NULL,
+            NEW.id,
+            NULL, NULL,
+            jsonb_build_object(
+                'type', NEW.type,
+                'requester_user_id', NEW.user_id
+            )
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_log_vibe_request_completed ON public.vibe_requests;
+CREATE TRIGGER trigger_log_vibe_request_completed
+    AFTER UPDATE OF status ON public.vibe_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION public.log_vibe_request_completed();
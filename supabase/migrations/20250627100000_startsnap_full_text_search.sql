@@ -0,0 +1,123 @@
+/**
+ * supabase/migrations/20250627100000_startsnap_full_text_search.sql
+ *
+ * Feature: Full-text project search
+ *
+ * Problem: The gallery search chains name/description ilike and exact tags/tools containment filters,
+ *          which has no ranking, breaks on commas and braces in the search term and only matches whole tags
+ * Solution: Maintain a weighted search_vector on startsnaps (name > tags/tools > description > vibe log titles)
+ *           and expose a search_startsnaps() RPC that ranks matches and treats every search word as a prefix
+ */
+
+ALTER TABLE public.startsnaps
+    ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+-- Builds the weighted search document for a project
+CREATE OR REPLACE FUNCTION public.build_startsnap_search_vector(
+    p_startsnap_id uuid,
+    p_name text,
+    p_description text,
+    p_tags text[],
+    p_tools_used text[]
+) RETURNS tsvector
+LANGUAGE sql STABLE SET search_path = public
+AS $$
+    SELECT
+        setweight(to_tsvector('english', coalesce(p_name, '')), 'A') ||
+        setweight(to_tsvector('english',
+            coalesce(array_to_string(p_tags, ' '), '') || ' ' || coalesce(array_to_string(p_tools_used, ' '), '')
+        ), 'B') ||
+        setweight(to_tsvector('english', coalesce(p_description, '')), 'C') ||
+        setweight(to_tsvector('english', coalesce(
+            (SELECT string_agg(v.title, ' ') FROM public.vibelogs v WHERE v.startsnap_id = p_startsnap_id),
+            ''
+        )), 'D');
+$$;
+
+-- Keep the vector current when the project's own searchable fields change
+CREATE OR REPLACE FUNCTION public.update_startsnap_search_vector()
+RETURNS trigger
+LANGUAGE plpgsql SET search_path = public
+AS $$
+BEGIN
+    NEW.search_vector := public.build_startsnap_search_vector(
+        NEW.id, NEW.name, NEW.description, NEW.tags, NEW.tools_used
+    );
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_update_startsnap_search_vector ON public.startsnaps;
+CREATE TRIGGER trigger_update_startsnap_search_vector
+    BEFORE INSERT OR UPDATE OF name, description, tags, tools_used ON public.startsnaps
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_startsnap_search_vector();
+
+-- Vibe log titles are part of the parent project's document
+CREATE OR REPLACE FUNCTION public.refresh_startsnap_search_vector_from_vibelog()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.startsnaps s
+    SET search_vector = public.build_startsnap_search_vector(s.id, s.name, s.description, s.tags, s.tools_used)
+    WHERE s.id = COALESCE(NEW.startsnap_id, OLD.startsnap_id);
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_refresh_startsnap_search_vector ON public.vibelogs;
+CREATE TRIGGER trigger_refresh_startsnap_search_vector
+    AFTER INSERT OR DELETE OR UPDATE OF title ON public.vibelogs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.refresh_startsnap_search_vector_from_vibelog();
+
+-- A search-vector refresh caused by a vibe log is not an edit of the project itself
+DROP TRIGGER IF EXISTS update_startsnaps_updated_at ON public.startsnaps;
+CREATE TRIGGER update_startsnaps_updated_at
+    BEFORE UPDATE ON public.startsnaps
+    FOR EACH ROW
+    WHEN ((to_jsonb(OLD) - 'search_vector' - 'updated_at') IS DISTINCT FROM (to_jsonb(NEW) - 'search_vector' - 'updated_at'))
+    EXECUTE FUNCTION public.update_updated_at();
+
+-- Backfill existing projects
+UPDATE public.startsnaps s
+SET search_vector = public.build_startsnap_search_vector(s.id, s.name, s.description, s.tags, s.tools_used);
+
+CREATE INDEX IF NOT EXISTS idx_startsnaps_search_vector
+    ON public.startsnaps USING gin (search_vector);
+
+-- Turns free text into a prefix tsquery: "react gam" -> 'react':* & 'gam':*
+-- Splitting on anything that is not a letter or digit makes commas, braces and quotes harmless
+CREATE OR REPLACE FUNCTION public.build_prefix_tsquery(p_query text)
+RETURNS tsquery
+LANGUAGE sql IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN count(*) = 0 THEN NULL
+        ELSE to_tsquery('english', string_agg(quote_literal(term) || ':*', ' & '))
+    END
+    FROM regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') AS term
+    WHERE term <> '';
+$$;
+
+-- Ranked project search. Runs with the caller's privileges so RLS still applies, and returns
+-- startsnaps rows so callers can keep adding PostgREST filters, counts and ranges on top.
+-- Rows come back best match first (newest first among equal ranks).
+CREATE OR REPLACE FUNCTION public.search_startsnaps(p_query text)
+RETURNS SETOF public.startsnaps
+LANGUAGE sql STABLE SET search_path = public
+AS $$
+    WITH q AS (
+        SELECT public.build_prefix_tsquery(p_query) AS query
+    )
+    SELECT s.*
+    FROM public.startsnaps s, q
+    WHERE q.query IS NULL OR s.search_vector @@ q.query
+    ORDER BY
+        CASE WHEN q.query IS NULL THEN 0 ELSE ts_rank(s.search_vector, q.query) END DESC,
+        s.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_startsnaps(text) TO anon, authenticated;
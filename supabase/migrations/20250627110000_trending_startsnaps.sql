@@ -0,0 +1,106 @@
+/**
+ * supabase/migrations/20250627110000_trending_startsnaps.sql
+ *
+ * Feature: Time-decayed trending projects
+ *
+ * Problem: Trending is all-time support_count, so the same early projects stay on top forever
+ * Solution: Score projects from recent supports, feedback, vibe logs and tips with a half-life decay
+ *           over a selectable window (24h / 7d / 30d). The score is exposed as PostgREST computed
+ *           fields (trending_score_24h/7d/30d) so any startsnaps query can select or order by it,
+ *           and trending_startsnaps() returns the top projects for a window.
+ */
+
+-- Each event is worth its weight when it happens and half as much every window/4:
+--   support 3, feedback from others 2, vibe log 1, tip 4
+-- SECURITY DEFINER because project_supporters is only readable by signed-in users, while the
+-- aggregate score is public.
+CREATE OR REPLACE FUNCTION public.startsnap_trending_score(
+    p_startsnap_id uuid,
+    p_window text DEFAULT '7d'
+) RETURNS double precision
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+    WITH params AS (
+        SELECT CASE p_window
+            WHEN '24h' THEN interval '24 hours'
+            WHEN '30d' THEN interval '30 days'
+            ELSE interval '7 days'
+        END AS window_length
+    ),
+    events AS (
+        SELECT 3.0 AS weight, ps.created_at
+        FROM public.project_supporters ps
+        WHERE ps.startsnap_id = p_startsnap_id
+
+        UNION ALL
+        SELECT 2.0, f.created_at
+        FROM public.feedbacks f
+        JOIN public.startsnaps s ON s.id = f.startsnap_id
+        WHERE f.startsnap_id = p_startsnap_id
+          AND f.user_id <> s.user_id
+
+        UNION ALL
+        SELECT 1.0, v.created_at
+        FROM public.vibelogs v
+        WHERE v.startsnap_id = p_startsnap_id
+
+        UNION ALL
+        SELECT 4.0, a.created_at
+        FROM public.activity_log a
+        WHERE a.activity_type = 'tip_sent'
+          AND a.target_startsnap_id = p_startsnap_id
+    )
+    SELECT COALESCE(SUM(
+        e.weight * exp(
+            -ln(2) * extract(epoch FROM now() - e.created_at) / extract(epoch FROM p.window_length / 4)
+        )
+    ), 0)::double precision
+    FROM events e, params p
+    WHERE e.created_at >= now() - p.window_length;
+$$;
+
+-- Computed fields: select as `trending_score:trending_score_7d`, or order by them directly
+CREATE OR REPLACE FUNCTION public.trending_score_24h(s public.startsnaps)
+RETURNS double precision
+LANGUAGE sql STABLE SET search_path = public
+AS $$ SELECT public.startsnap_trending_score(s.id, '24h'); $$;
+
+CREATE OR REPLACE FUNCTION public.trending_score_7d(s public.startsnaps)
+RETURNS double precision
+LANGUAGE sql STABLE SET search_path = public
+AS $$ SELECT public.startsnap_trending_score(s.id, '7d'); $$;
+
+CREATE OR REPLACE FUNCTION public.trending_score_30d(s public.startsnaps)
+RETURNS double precision
+LANGUAGE sql STABLE SET search_path = public
+AS $$ SELECT public.startsnap_trending_score(s.id, '30d'); $$;
+
+-- Top projects for a window. Projects without recent activity fall back to all-time support so
+-- the section is never empty on a quiet day.
+CREATE OR REPLACE FUNCTION public.trending_startsnaps(
+    p_window text DEFAULT '7d',
+    p_limit integer DEFAULT 3
+) RETURNS SETOF public.startsnaps
+LANGUAGE sql STABLE SET search_path = public
+AS $$
+    SELECT s.*
+    FROM public.startsnaps s
+    ORDER BY public.startsnap_trending_score(s.id, p_window) DESC,
+             s.support_count DESC,
+             s.created_at DESC
+    LIMIT GREATEST(p_limit, 0);
+$$;
+
+-- Supporting indexes for the per-project event lookups
+CREATE INDEX IF NOT EXISTS idx_project_supporters_startsnap_created_at
+    ON public.project_supporters (startsnap_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_feedbacks_startsnap_created_at
+    ON public.feedbacks (startsnap_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_vibelogs_startsnap_created_at
+    ON public.vibelogs (startsnap_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_log_tips
+    ON public.activity_log (target_startsnap_id, created_at DESC)
+    WHERE activity_type = 'tip_sent';
+
+GRANT EXECUTE ON FUNCTION public.startsnap_trending_score(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.trending_startsnaps(text, integer) TO anon, authenticated;
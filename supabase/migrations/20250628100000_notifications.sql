@@ -0,0 +1,222 @@
+/**
+ * supabase/migrations/20250628100000_notifications.sql
+ *
+ * Feature: In-app notification center
+ *
+ * Problem: The only owner notification is the notify-new-feedback email. Supports, replies to your
+ *          feedback, tips, milestones and answered vibe requests are only visible in Community Pulse
+ * Solution: Fan every new activity_log entry out into per-user notifications rows (project owner,
+ *           author of the parent feedback, requester of a vibe request). Reading the activity log keeps
+ *           the existing spam prevention: hidden entries never notify anyone.
+ */
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+
+    -- Who receives the notification and who caused it
+    recipient_user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    actor_user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+
+    -- Source activity; deleting it (e.g. a removed reply) removes the notification too
+    activity_id uuid REFERENCES public.activity_log(id) ON DELETE CASCADE,
+    notification_type text NOT NULL CHECK (notification_type IN (
+        'project_supported',
+        'support_milestone_reached',
+        'feedback_added',
+        'feedback_reply_added',
+        'tip_sent',
+        'vibe_request_completed'
+    )),
+
+    -- What the notification links to
+    startsnap_id uuid REFERENCES public.startsnaps(id) ON DELETE CASCADE,
+    feedback_id uuid REFERENCES public.feedbacks(id) ON DELETE CASCADE,
+    vibe_request_id uuid REFERENCES public.vibe_requests(id) ON DELETE CASCADE,
+
+    -- Pre-rendered text written from the recipient's point of view
+    message text NOT NULL,
+    metadata jsonb DEFAULT '{}' NOT NULL,
+
+    read_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient_created_at
+    ON public.notifications (recipient_user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient_unread
+    ON public.notifications (recipient_user_id)
+    WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Recipients can read their notifications and mark them as read; rows are only written by triggers
+DROP POLICY IF EXISTS "Users can read their own notifications" ON public.notifications;
+CREATE POLICY "Users can read their own notifications"
+ON public.notifications
+FOR SELECT
+TO authenticated
+USING (recipient_user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can mark their own notifications as read" ON public.notifications;
+CREATE POLICY "Users can mark their own notifications as read"
+ON public.notifications
+FOR UPDATE
+TO authenticated
+USING (recipient_user_id = auth.uid())
+WITH CHECK (recipient_user_id = auth.uid());
+
+REVOKE ALL ON public.notifications FROM anon, authenticated;
+GRANT SELECT ON public.notifications TO authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+-- Inserts one notification unless the recipient caused the activity themselves
+CREATE OR REPLACE FUNCTION public.create_notification(
+    p_recipient_user_id uuid,
+    p_activity public.activity_log,
+    p_message text,
+    p_allow_self boolean DEFAULT false
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    IF p_recipient_user_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    IF p_recipient_user_id = p_activity.actor_user_id AND NOT p_allow_self THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.notifications (
+        recipient_user_id,
+        actor_user_id,
+        activity_id,
+        notification_type,
+        startsnap_id,
+        feedback_id,
+        vibe_request_id,
+        message,
+        metadata
+    ) VALUES (
+        p_recipient_user_id,
+        p_activity.actor_user_id,
+        p_activity.id,
+        p_activity.activity_type,
+        p_activity.target_startsnap_id,
+        p_activity.target_feedback_id,
+        p_activity.target_vibe_request_id,
+        p_message,
+        COALESCE(p_activity.metadata, '{}'::jsonb)
+    );
+END;
+$$;
+
+-- Only the trigger below may create notifications
+REVOKE EXECUTE ON FUNCTION public.create_notification(uuid, public.activity_log, text, boolean) FROM PUBLIC, anon, authenticated;
+
+-- Trigger: fan a new activity out to the users it concerns
+CREATE OR REPLACE FUNCTION public.notify_activity_recipients() RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    actor_username text;
+    project_name text;
+    project_owner_id uuid;
+    feedback_author_id uuid;
+    requester_id uuid;
+    request_title text;
+BEGIN
+    -- Spam-prevented and other hidden entries never notify
+    IF NEW.visibility = 'hidden' THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.activity_type NOT IN (
+        'project_supported',
+        'support_milestone_reached',
+        'feedback_added',
+        'feedback_reply_added',
+        'tip_sent',
+        'vibe_request_completed'
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT username INTO actor_username
+    FROM public.profiles
+    WHERE user_id = NEW.actor_user_id;
+    actor_username := COALESCE(actor_username, 'Someone');
+
+    IF NEW.target_startsnap_id IS NOT NULL THEN
+        SELECT name, user_id INTO project_name, project_owner_id
+        FROM public.startsnaps
+        WHERE id = NEW.target_startsnap_id;
+    END IF;
+
+    CASE NEW.activity_type
+        WHEN 'project_supported' THEN
+            PERFORM public.create_notification(
+                project_owner_id, NEW,
+                actor_username || ' supported your project ' || project_name
+            );
+
+        WHEN 'support_milestone_reached' THEN
+            -- Milestones are logged with the owner as actor, so they are allowed to notify themselves
+            PERFORM public.create_notification(
+                project_owner_id, NEW,
+                project_name || ' just reached ' || (NEW.metadata->>'milestone_count') || ' supporters! 🎉',
+                true
+            );
+
+        WHEN 'feedback_added' THEN
+            PERFORM public.create_notification(
+                project_owner_id, NEW,
+                actor_username || ' left feedback on ' || project_name
+            );
+
+        WHEN 'feedback_reply_added' THEN
+            SELECT user_id INTO feedback_author_id
+            FROM public.feedbacks
+            WHERE id = NEW.target_feedback_id;
+
+            PERFORM public.create_notification(
+                feedback_author_id, NEW,
+                actor_username || ' replied to your feedback on ' || project_name
+            );
+
+            -- The project owner hears about the conversation too, unless they wrote the feedback
+            IF project_owner_id IS DISTINCT FROM feedback_author_id THEN
+                PERFORM public.create_notification(
+                    project_owner_id, NEW,
+                    actor_username || ' replied to feedback on ' || project_name
+                );
+            END IF;
+
+        WHEN 'tip_sent' THEN
+            PERFORM public.create_notification(
+                project_owner_id, NEW,
+                actor_username || ' tipped ' || COALESCE(NEW.metadata->>'tip_amount', '') || ' '
+                    || COALESCE(NEW.metadata->>'currency', 'ALGO') || ' to ' || project_name || ' 💰'
+            );
+
+        WHEN 'vibe_request_completed' THEN
+            SELECT user_id, title INTO requester_id, request_title
+            FROM public.vibe_requests
+            WHERE id = NEW.target_vibe_request_id;
+
+            PERFORM public.create_notification(
+                requester_id, NEW,
+                actor_username || ' answered your vibe request "' || request_title || '"'
+                    || CASE WHEN project_name IS NOT NULL THEN ' with ' || project_name ELSE '' END
+            );
+    END CASE;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_notify_activity_recipients ON public.activity_log;
+CREATE TRIGGER trigger_notify_activity_recipients
+    AFTER INSERT ON public.activity_log
+    FOR EACH ROW
+    EXECUTE FUNCTION public.notify_activity_recipients();
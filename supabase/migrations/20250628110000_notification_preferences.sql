@@ -0,0 +1,152 @@
+/**
+ * supabase/migrations/20250628110000_notification_preferences.sql
+ *
+ * Feature: Per-user email notification preferences and daily digest
+ *
+ * Problem: notify-new-feedback emails the owner on every feedback insert with no opt-out, and no other
+ *          event is ever emailed
+ * Solution: Store an immediate / daily_digest / off choice per email event (feedback, reply, support
+ *           milestone, tip). Missing rows fall back to defaults in notification_email_delivery(), so only
+ *           users who change a setting get rows. Pending emails are read from the notifications table:
+ *           emailed_at marks what was already sent, and notification_digest_state remembers each user's
+ *           last digest so the send-notification-digest function sends at most one digest a day.
+ */
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    event_type text NOT NULL CHECK (event_type IN ('feedback', 'reply', 'support_milestone', 'tip')),
+    delivery text NOT NULL CHECK (delivery IN ('immediate', 'daily_digest', 'off')),
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    PRIMARY KEY (user_id, event_type)
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can read their own notification preferences"
+ON public.notification_preferences
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can insert their own notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can insert their own notification preferences"
+ON public.notification_preferences
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their own notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can update their own notification preferences"
+ON public.notification_preferences
+FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON public.notification_preferences;
+CREATE TRIGGER update_notification_preferences_updated_at
+    BEFORE UPDATE ON public.notification_preferences
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at();
+
+-- Email bookkeeping, only touched by edge functions with the service role
+ALTER TABLE public.notifications
+    ADD COLUMN IF NOT EXISTS emailed_at timestamp with time zone;
+
+CREATE TABLE IF NOT EXISTS public.notification_digest_state (
+    user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    last_digest_sent_at timestamp with time zone NOT NULL
+);
+
+-- RLS without policies: invisible to anon and authenticated users
+ALTER TABLE public.notification_digest_state ENABLE ROW LEVEL SECURITY;
+
+-- Maps a notification to the email event it belongs to (NULL = never emailed)
+CREATE OR REPLACE FUNCTION public.notification_email_event(p_notification_type text)
+RETURNS text
+LANGUAGE sql IMMUTABLE
+AS $$
+    SELECT CASE p_notification_type
+        WHEN 'feedback_added' THEN 'feedback'
+        WHEN 'feedback_reply_added' THEN 'reply'
+        WHEN 'support_milestone_reached' THEN 'support_milestone'
+        WHEN 'tip_sent' THEN 'tip'
+        ELSE NULL
+    END;
+$$;
+
+-- Effective delivery for a user and event. Feedback stays immediate by default so existing owners keep
+-- getting the emails they get today; milestones default to the digest.
+CREATE OR REPLACE FUNCTION public.notification_email_delivery(p_user_id uuid, p_event_type text)
+RETURNS text
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT COALESCE(
+        (SELECT np.delivery
+         FROM public.notification_preferences np
+         WHERE np.user_id = p_user_id AND np.event_type = p_event_type),
+        CASE p_event_type
+            WHEN 'support_milestone' THEN 'daily_digest'
+            ELSE 'immediate'
+        END
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notification_email_delivery(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.notification_email_delivery(uuid, text) TO service_role;
+
+-- The signed-in user's effective preferences, defaults included
+CREATE OR REPLACE FUNCTION public.get_my_notification_preferences()
+RETURNS TABLE (event_type text, delivery text)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT e.event_type, public.notification_email_delivery(auth.uid(), e.event_type)
+    FROM unnest(ARRAY['feedback', 'reply', 'support_milestone', 'tip']) AS e(event_type)
+    WHERE auth.uid() IS NOT NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_notification_preferences() TO authenticated;
+
+-- Notifications waiting for an email with the given delivery mode. Digest rows are only returned for
+-- users whose last digest is at least 23 hours old, and only since that digest.
+CREATE OR REPLACE FUNCTION public.pending_notification_emails(p_delivery text)
+RETURNS TABLE (
+    notification_id uuid,
+    recipient_user_id uuid,
+    event_type text,
+    message text,
+    created_at timestamp with time zone,
+    startsnap_slug text,
+    feedback_id uuid
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT
+        n.id,
+        n.recipient_user_id,
+        public.notification_email_event(n.notification_type),
+        n.message,
+        n.created_at,
+        s.slug,
+        n.feedback_id
+    FROM public.notifications n
+    LEFT JOIN public.startsnaps s ON s.id = n.startsnap_id
+    LEFT JOIN public.notification_digest_state d ON d.user_id = n.recipient_user_id
+    WHERE n.emailed_at IS NULL
+      AND public.notification_email_event(n.notification_type) IS NOT NULL
+      AND public.notification_email_delivery(
+              n.recipient_user_id, public.notification_email_event(n.notification_type)
+          ) = p_delivery
+      AND CASE p_delivery
+              WHEN 'daily_digest' THEN
+                  (d.last_digest_sent_at IS NULL OR d.last_digest_sent_at <= now() - interval '23 hours')
+                  AND n.created_at > COALESCE(d.last_digest_sent_at, now() - interval '1 day')
+              -- Never send stale one-off emails, e.g. after switching from digest to immediate
+              ELSE n.created_at > now() - interval '1 day'
+          END
+    ORDER BY n.recipient_user_id, n.created_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.pending_notification_emails(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.pending_notification_emails(text) TO service_role;
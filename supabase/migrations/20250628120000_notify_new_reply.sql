@@ -0,0 +1,176 @@
+/**
+ * supabase/migrations/20250628120000_notify_new_reply.sql
+ *
+ * Feature: Reply-to-feedback email notifications
+ *
+ * Problem: When someone replies to feedback, the feedback author and the others in the thread never find out
+ * Solution: Call the notify-new-reply Edge Function on every feedback_replies insert (same pg_net call and
+ *           X-Function-Signature guard as notify-new-feedback), and include earlier repliers in the in-app
+ *           notifications for the thread so digest users hear about replies too. The endpoint, anon key and
+ *           signature are read from Supabase Vault at call time, so no credentials live in this migration.
+ *
+ * One-time setup (SQL editor, as postgres) - values never live in migrations:
+ *   select vault.create_secret('https://<ref>.functions.supabase.co', 'edge_functions_base_url');
+ *   select vault.create_secret('<anon key>', 'edge_functions_anon_key');
+ *   select vault.create_secret('<FUNCTION_SIGNATURE of the Edge Functions>', 'edge_function_signature');
+ */
+
+create extension if not exists pg_net;
+create extension if not exists supabase_vault;
+
+-- Thread participants join the feedback author and project owner as reply recipients
+CREATE OR REPLACE FUNCTION public.notify_activity_recipients() RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    actor_username text;
+    project_name text;
+    project_owner_id uuid;
+    feedback_author_id uuid;
+    requester_id uuid;
+    request_title text;
+    participant_id uuid;
+BEGIN
+    -- Spam-prevented and other hidden entries never notify
+    IF NEW.visibility = 'hidden' THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.activity_type NOT IN (
+        'project_supported',
+        'support_milestone_reached',
+        'feedback_added',
+        'feedback_reply_added',
+        'tip_sent',
+        'vibe_request_completed'
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT username INTO actor_username
+    FROM public.profiles
+    WHERE user_id = NEW.actor_user_id;
+    actor_username := COALESCE(actor_username, 'Someone');
+
+    IF NEW.target_startsnap_id IS NOT NULL THEN
+        SELECT name, user_id INTO project_name, project_owner_id
+        FROM public.startsnaps
+        WHERE id = NEW.target_startsnap_id;
+    END IF;
+
+    CASE NEW.activity_type
+        WHEN 'project_supported' THEN
+            PERFORM public.create_notification(
+                project_owner_id, NEW,
+                actor_username || ' supported your project ' || project_name
+            );
+
+        WHEN 'support_milestone_reached' THEN
+            -- Milestones are logged with the owner as actor, so they are allowed to notify themselves
+            PERFORM public.create_notification(
+                project_owner_id, NEW,
+                project_name || ' just reached ' || (NEW.metadata->>'milestone_count') || ' supporters! 🎉',
+                true
+            );
+
+        WHEN 'feedback_added' THEN
+            PERFORM public.create_notification(
+                project_owner_id, NEW,
+                actor_username || ' left feedback on ' || project_name
+            );
+
+        WHEN 'feedback_reply_added' THEN
+            SELECT user_id INTO feedback_author_id
+            FROM public.feedbacks
+            WHERE id = NEW.target_feedback_id;
+
+            PERFORM public.create_notification(
+                feedback_author_id, NEW,
+                actor_username || ' replied to your feedback on ' || project_name
+            );
+
+            -- The project owner hears about the conversation too, unless they wrote the feedback
+            IF project_owner_id IS DISTINCT FROM feedback_author_id THEN
+                PERFORM public.create_notification(
+                    project_owner_id, NEW,
+                    actor_username || ' replied to feedback on ' || project_name
+                );
+            END IF;
+
+            -- Everyone else who replied in the thread follows the conversation
+            FOR participant_id IN
+                SELECT DISTINCT fr.user_id
+                FROM public.feedback_replies fr
+                WHERE fr.parent_feedback_id = NEW.target_feedback_id
+                  AND fr.user_id IS DISTINCT FROM feedback_author_id
+                  AND fr.user_id IS DISTINCT FROM project_owner_id
+            LOOP
+                PERFORM public.create_notification(
+                    participant_id, NEW,
+                    actor_username || ' also replied to feedback on ' || project_name
+                );
+            END LOOP;
+
+        WHEN 'tip_sent' THEN
+            PERFORM public.create_notification(
+                project_owner_id, NEW,
+                actor_username || ' tipped ' || COALESCE(NEW.metadata->>'tip_amount', '') || ' '
+                    || COALESCE(NEW.metadata->>'currency', 'ALGO') || ' to ' || project_name || ' 💰'
+            );
+
+        WHEN 'vibe_request_completed' THEN
+            SELECT user_id, title INTO requester_id, request_title
+            FROM public.vibe_requests
+            WHERE id = NEW.target_vibe_request_id;
+
+            PERFORM public.create_notification(
+                requester_id, NEW,
+                actor_username || ' answered your vibe request "' || request_title || '"'
+                    || CASE WHEN project_name IS NOT NULL THEN ' with ' || project_name ELSE '' END
+            );
+    END CASE;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Missing configuration is a warning, not an error, so the reply itself is still saved
+create or replace function public.trigger_call_notify_new_reply()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  base_url   text;
+  auth_token text;
+  sig_header text;
+begin
+  select decrypted_secret into base_url from vault.decrypted_secrets where name = 'edge_functions_base_url';
+  select decrypted_secret into auth_token from vault.decrypted_secrets where name = 'edge_functions_anon_key';
+  select decrypted_secret into sig_header from vault.decrypted_secrets where name = 'edge_function_signature';
+
+  if coalesce(base_url, '') = '' or coalesce(auth_token, '') = '' or coalesce(sig_header, '') = '' then
+    raise warning 'Edge function secrets are not configured in Vault; skipping notify-new-reply call';
+    return NEW;
+  end if;
+
+  perform net.http_post(
+    url := rtrim(base_url, '/') || '/notify-new-reply',
+    body := jsonb_build_object('reply_id', NEW.id),
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || auth_token,
+      'X-Function-Signature', sig_header
+    ),
+    timeout_milliseconds := 5000
+  );
+  return NEW;
+end;
+$$;
+
+drop trigger if exists trg_feedback_replies_notify_new on public.feedback_replies;
+create trigger trg_feedback_replies_notify_new
+after insert on public.feedback_replies
+for each row
+execute function public.trigger_call_notify_new_reply();
@@ -0,0 +1,159 @@
+/**
+ * supabase/migrations/20250628130000_vault_signed_edge_function_calls.sql
+ *
+ * Security Fix: Webhook secrets out of migrations, signed requests with replay protection
+ *
+ * Problem: trigger_call_notify_new_feedback() hardcodes the functions endpoint, the anon JWT and a static
+ *          X-Function-Signature token, so rotating anything needs a new migration. Both it and
+ *          trigger_call_notify_new_reply() send that static token, so a captured request can be replayed forever.
+ * Solution: Read the endpoint, anon key and signing secret from Supabase Vault at call time, and sign
+ *           "<timestamp>.<body>" with HMAC-SHA256. The Edge Functions reject stale timestamps and
+ *           signatures they have already seen.
+ *
+ * One-time setup (SQL editor, as postgres) - values never live in migrations:
+ *   select public.set_edge_function_secret('edge_functions_base_url', 'https://<ref>.functions.supabase.co');
+ *   select public.set_edge_function_secret('edge_functions_anon_key', '<anon key>');
+ *   select public.set_edge_function_secret('edge_function_signing_secret', '<random 64+ chars>');
+ * and set the same signing secret as FUNCTION_SIGNING_SECRET for the Edge Functions.
+ *
+ * Rotating the signing secret (no migration, no downtime):
+ *   1. Edge Functions: FUNCTION_SIGNING_SECRET_PREVIOUS = current secret, FUNCTION_SIGNING_SECRET = new secret
+ *   2. select public.set_edge_function_secret('edge_function_signing_secret', '<new secret>');
+ *   3. Once in-flight calls have drained (a few minutes), unset FUNCTION_SIGNING_SECRET_PREVIOUS
+ * The static token from 20250625161500 is public in git history: treat it as compromised and never use it as
+ * FUNCTION_SIGNING_SECRET. The edge_function_signature Vault secret from 20250628120000 is no longer read and can
+ * be deleted once this migration is live.
+ */
+
+create extension if not exists pg_net;
+create extension if not exists supabase_vault;
+create extension if not exists pgcrypto with schema extensions;
+
+-- Creates or replaces a named Vault secret used for Edge Function calls. Only the database owner and the
+-- service role may call it.
+create or replace function public.set_edge_function_secret(p_name text, p_value text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  existing_id uuid;
+begin
+  if p_name not in ('edge_functions_base_url', 'edge_functions_anon_key', 'edge_function_signing_secret') then
+    raise exception 'Unknown edge function secret: %', p_name;
+  end if;
+  if coalesce(p_value, '') = '' then
+    raise exception 'Secret % must not be empty', p_name;
+  end if;
+
+  select id into existing_id from vault.secrets where name = p_name;
+
+  if existing_id is null then
+    perform vault.create_secret(p_value, p_name, 'Edge Function call configuration');
+  else
+    perform vault.update_secret(existing_id, p_value);
+  end if;
+end;
+$$;
+
+revoke execute on function public.set_edge_function_secret(text, text) from public, anon, authenticated;
+grant execute on function public.set_edge_function_secret(text, text) to service_role;
+
+-- POSTs a signed JSON body to an Edge Function. Missing configuration is a warning, not an error, so the
+-- insert that fired the trigger still succeeds.
+create or replace function public.call_edge_function(p_function text, p_body jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  base_url       text;
+  anon_key       text;
+  signing_secret text;
+  ts             text;
+  signature      text;
+begin
+  select decrypted_secret into base_url from vault.decrypted_secrets where name = 'edge_functions_base_url';
+  select decrypted_secret into anon_key from vault.decrypted_secrets where name = 'edge_functions_anon_key';
+  select decrypted_secret into signing_secret from vault.decrypted_secrets where name = 'edge_function_signing_secret';
+
+  if coalesce(base_url, '') = '' or coalesce(anon_key, '') = '' or coalesce(signing_secret, '') = '' then
+    raise warning 'Edge function secrets are not configured in Vault; skipping % call', p_function;
+    return;
+  end if;
+
+  -- pg_net sends the jsonb body as body::text, so that exact text is what gets signed
+  ts := floor(extract(epoch from now()))::bigint::text;
+  signature := encode(
+    extensions.hmac(convert_to(ts || '.' || p_body::text, 'UTF8'), convert_to(signing_secret, 'UTF8'), 'sha256'),
+    'hex'
+  );
+
+  perform net.http_post(
+    url := rtrim(base_url, '/') || '/' || p_function,
+    body := p_body,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || anon_key,
+      'X-Function-Timestamp', ts,
+      'X-Function-Signature', signature
+    ),
+    timeout_milliseconds := 5000
+  );
+end;
+$$;
+
+revoke execute on function public.call_edge_function(text, jsonb) from public, anon, authenticated;
+grant execute on function public.call_edge_function(text, jsonb) to service_role;
+
+-- Signatures the Edge Functions have accepted, kept for the length of the timestamp window
+create table if not exists public.edge_function_request_signatures (
+  signature text primary key,
+  received_at timestamp with time zone default now() not null
+);
+
+-- RLS without policies: only the service role (used by the Edge Functions) can read or write it
+alter table public.edge_function_request_signatures enable row level security;
+
+create index if not exists idx_edge_function_request_signatures_received_at
+  on public.edge_function_request_signatures (received_at);
+
+-- Triggers now go through the Vault-backed helper (trg_feedback_replies_notify_new keeps calling the replaced function)
+create or replace function public.trigger_call_notify_new_feedback()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.call_edge_function('notify-new-feedback', jsonb_build_object('feedback_id', NEW.id));
+  return NEW;
+end;
+$$;
+
+create or replace function public.trigger_call_notify_new_reply()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.call_edge_function('notify-new-reply', jsonb_build_object('reply_id', NEW.id));
+  return NEW;
+end;
+$$;
+
+-- Schedule the notification digest runner where pg_cron is available
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule(
+      'send-notification-digest',
+      '*/15 * * * *',
+      $cron$select public.call_edge_function('send-notification-digest', '{}'::jsonb)$cron$
+    );
+  end if;
+end;
+$$;
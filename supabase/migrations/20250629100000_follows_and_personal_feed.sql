@@ -0,0 +1,102 @@
+/**
+ * supabase/migrations/20250629100000_follows_and_personal_feed.sql
+ *
+ * Feature: Follow builders and projects, personalized Community Pulse
+ *
+ * Problem: Community Pulse only shows the global activity_feed_curated view, so activity from the builders
+ *          and projects a user cares about is lost among everything else
+ * Solution: A follows table (one row per followed user or project) and get_activity_feed(), which returns
+ *           the public feed filtered to everyone, the signed-in user's follows, or the user's own projects
+ */
+
+CREATE TABLE IF NOT EXISTS public.follows (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    follower_user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+    -- Exactly one target: a builder or a project
+    followed_user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    followed_startsnap_id uuid REFERENCES public.startsnaps(id) ON DELETE CASCADE,
+
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+
+    CONSTRAINT follows_single_target CHECK (
+        (followed_user_id IS NOT NULL)::integer + (followed_startsnap_id IS NOT NULL)::integer = 1
+    ),
+    CONSTRAINT follows_not_self CHECK (followed_user_id IS DISTINCT FROM follower_user_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_follows_unique_user
+    ON public.follows (follower_user_id, followed_user_id)
+    WHERE followed_user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_follows_unique_startsnap
+    ON public.follows (follower_user_id, followed_startsnap_id)
+    WHERE followed_startsnap_id IS NOT NULL;
+
+ALTER TABLE public.follows ENABLE ROW LEVEL SECURITY;
+
+-- Follows are private to the follower
+DROP POLICY IF EXISTS "Users can read their own follows" ON public.follows;
+CREATE POLICY "Users can read their own follows"
+ON public.follows
+FOR SELECT
+TO authenticated
+USING (follower_user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can follow as themselves" ON public.follows;
+CREATE POLICY "Users can follow as themselves"
+ON public.follows
+FOR INSERT
+TO authenticated
+WITH CHECK (follower_user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can unfollow their own follows" ON public.follows;
+CREATE POLICY "Users can unfollow their own follows"
+ON public.follows
+FOR DELETE
+TO authenticated
+USING (follower_user_id = auth.uid());
+
+-- Public activity for a feed scope, newest first:
+--   everyone  - the whole public feed (same rows as activity_feed_curated)
+--   following - activity by or about followed builders, and activity on followed projects
+--   mine      - activity on the signed-in user's own projects
+-- Runs as the caller, so auth.uid() and the follows policies apply.
+CREATE OR REPLACE FUNCTION public.get_activity_feed(
+    p_scope text DEFAULT 'everyone',
+    p_limit integer DEFAULT 10,
+    p_offset integer DEFAULT 0,
+    p_since timestamp with time zone DEFAULT NULL
+) RETURNS SETOF public.activity_feed
+LANGUAGE sql STABLE SET search_path = public
+AS $$
+    SELECT af.*
+    FROM public.activity_feed af
+    WHERE af.visibility = 'public'
+      AND (p_since IS NULL OR af.created_at > p_since)
+      AND CASE p_scope
+          WHEN 'following' THEN
+              EXISTS (
+                  SELECT 1
+                  FROM public.follows f
+                  WHERE f.follower_user_id = auth.uid()
+                    AND (
+                        f.followed_user_id = af.actor_user_id
+                        OR f.followed_user_id = af.target_user_id
+                        OR f.followed_startsnap_id = af.target_startsnap_id
+                    )
+              )
+          WHEN 'mine' THEN
+              EXISTS (
+                  SELECT 1
+                  FROM public.startsnaps s
+                  WHERE s.id = af.target_startsnap_id
+                    AND s.user_id = auth.uid()
+              )
+          ELSE true
+      END
+    ORDER BY af.created_at DESC
+    LIMIT GREATEST(p_limit, 0)
+    OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_activity_feed(text, integer, integer, timestamp with time zone) TO anon, authenticated;
@@ -0,0 +1,442 @@
+/**
+ * supabase/migrations/20250629110000_badges.sql
+ *
+ * Feature: Badges / achievements (docs/masterplan.md, Gamification)
+ *
+ * Problem: The masterplan describes badges for first projects, vibe logging, giving feedback, popular
+ *          projects and hackathon entries, but there are no tables and nothing awards them
+ * Solution: A badges catalogue and a user_badges junction table. An AFTER INSERT trigger on activity_log
+ *           checks the badge rules whenever the events that already feed create_activity_log happen, so no
+ *           extra triggers on the source tables are needed. Each award is logged as a 'badge_earned'
+ *           activity; existing users are backfilled silently so the feed is not flooded.
+ */
+
+CREATE TABLE IF NOT EXISTS public.badges (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    slug text NOT NULL UNIQUE,
+    name text NOT NULL,
+    description text NOT NULL,
+    icon text NOT NULL,               -- Material icon name
+    sort_order integer DEFAULT 0 NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.user_badges (
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    badge_id uuid NOT NULL REFERENCES public.badges(id) ON DELETE CASCADE,
+    -- Project that earned the badge, when there is one
+    startsnap_id uuid REFERENCES public.startsnaps(id) ON DELETE SET NULL,
+    earned_at timestamp with time zone DEFAULT now() NOT NULL,
+    PRIMARY KEY (user_id, badge_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_badges_user_earned_at
+    ON public.user_badges (user_id, earned_at DESC);
+
+-- Badges are shown on public profiles; only the award trigger writes them
+ALTER TABLE public.badges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_badges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read badges" ON public.badges;
+CREATE POLICY "Anyone can read badges"
+ON public.badges
+FOR SELECT
+TO public
+USING (true);
+
+DROP POLICY IF EXISTS "Anyone can read earned badges" ON public.user_badges;
+CREATE POLICY "Anyone can read earned badges"
+ON public.user_badges
+FOR SELECT
+TO public
+USING (true);
+
+INSERT INTO public.badges (slug, name, description, icon, sort_order) VALUES
+    ('first_startsnap', 'First StartSnap', 'Launched your first project', 'rocket_launch', 10),
+    ('vibe_logger', 'Vibe Logger', 'Posted 3 vibe logs on a single project', 'insights', 20),
+    ('feedback_giver', 'Feedback Giver', 'Left 5 pieces of feedback or replies', 'forum', 30),
+    ('popular_vibe', 'Popular Vibe', 'Had a project reach 25 supporters', 'local_fire_department', 40),
+    ('hackathon_pioneer', 'Bolt.new Hackathon ''25 Pioneer', 'Entered a project in the Bolt.new Hackathon', 'emoji_events', 50)
+ON CONFLICT (slug) DO UPDATE
+SET name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    icon = EXCLUDED.icon,
+    sort_order = EXCLUDED.sort_order;
+
+-- Allow the new activity type
+ALTER TABLE public.activity_log DROP CONSTRAINT IF EXISTS activity_log_activity_type_check;
+
+ALTER TABLE public.activity_log ADD CONSTRAINT activity_log_activity_type_check
+CHECK (activity_type IN (
+    -- Project lifecycle
+    'project_created',
+    'project_updated',
+    'project_type_evolved',        -- idea → prototype → live
+    'project_tools_updated',
+    'project_category_changed',
+    'project_tags_updated',
+
+    -- Vibe logs & requests
+    'vibe_log_added',
+    'vibe_log_updated',
+    'vibe_request_created',
+    'vibe_request_completed',
+
+    -- User lifecycle & engagement
+    'user_joined',
+    'user_status_changed',         -- brainstorming → building → shipping
+    'profile_updated',
+    'social_links_added',
+
+    -- Community interactions
+    'project_supported',
+    'project_unsupported',
+    'support_milestone_reached',   -- 10, 25, 50, 100 supporters
+    'feedback_added',
+    'feedback_reply_added',
+
+    -- Algorand tipping
+    'tip_sent',
+
+    -- Achievements
+    'badge_earned'
+));
+
+ALTER TABLE public.activity_log DROP CONSTRAINT IF EXISTS activity_log_valid_target;
+
+ALTER TABLE public.activity_log ADD CONSTRAINT activity_log_valid_target
+CHECK (
+    CASE activity_type
+        WHEN 'user_joined' THEN target_user_id IS NOT NULL
+        WHEN 'user_status_changed' THEN target_user_id IS NOT NULL
+        WHEN 'profile_updated' THEN target_user_id IS NOT NULL
+        WHEN 'social_links_added' THEN target_user_id IS NOT NULL
+        WHEN 'project_created' THEN target_startsnap_id IS NOT NULL
+        WHEN 'project_updated' THEN target_startsnap_id IS NOT NULL
+        WHEN 'project_type_evolved' THEN target_startsnap_id IS NOT NULL
+        WHEN 'project_tools_updated' THEN target_startsnap_id IS NOT NULL
+        WHEN 'project_category_changed' THEN target_startsnap_id IS NOT NULL
+        WHEN 'project_tags_updated' THEN target_startsnap_id IS NOT NULL
+        WHEN 'project_supported' THEN target_startsnap_id IS NOT NULL
+        WHEN 'project_unsupported' THEN target_startsnap_id IS NOT NULL
+        WHEN 'support_milestone_reached' THEN target_startsnap_id IS NOT NULL
+        WHEN 'vibe_log_added' THEN target_startsnap_id IS NOT NULL AND target_vibe_log_id IS NOT NULL
+        WHEN 'vibe_log_updated' THEN target_startsnap_id IS NOT NULL AND target_vibe_log_id IS NOT NULL
+        WHEN 'vibe_request_created' THEN target_vibe_request_id IS NOT NULL
+        WHEN 'vibe_request_completed' THEN target_vibe_request_id IS NOT NULL
+        WHEN 'feedback_added' THEN target_startsnap_id IS NOT NULL AND target_feedback_id IS NOT NULL
+        WHEN 'feedback_reply_added' THEN target_startsnap_id IS NOT NULL AND target_feedback_id IS NOT NULL
+        WHEN 'tip_sent' THEN target_startsnap_id IS NOT NULL
+        WHEN 'badge_earned' THEN target_user_id IS NOT NULL
+        ELSE FALSE
+    END
+);
+
+-- Display text for badge_earned
+CREATE OR REPLACE FUNCTION public.create_activity_log(
+    p_activity_type text,
+    p_actor_user_id uuid,
+    p_target_startsnap_id uuid DEFAULT NULL,
+    p_target_vibe_log_id uuid DEFAULT NULL,
+    p_target_vibe_request_id uuid DEFAULT NULL,
+    p_target_feedback_id uuid DEFAULT NULL,
+    p_target_user_id uuid DEFAULT NULL,
+    p_metadata jsonb DEFAULT '{}',
+    p_visibility text DEFAULT 'public'
+) RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    activity_id uuid;
+    actor_username text;
+    project_name text;
+    vibe_log_title text;
+    vibe_request_title text;
+    target_username text;
+    computed_display_text text;
+    old_value text;
+    new_value text;
+    milestone_count integer;
+    tip_amount text;
+    tip_currency text;
+    badge_name text;
+BEGIN
+    -- Get actor username
+    SELECT username INTO actor_username
+    FROM public.profiles
+    WHERE user_id = p_actor_user_id;
+
+    -- Get project name if applicable
+    IF p_target_startsnap_id IS NOT NULL THEN
+        SELECT name INTO project_name
+        FROM public.startsnaps
+        WHERE id = p_target_startsnap_id;
+    END IF;
+
+    -- Get vibe log title if applicable
+    IF p_target_vibe_log_id IS NOT NULL THEN
+        SELECT title INTO vibe_log_title
+        FROM public.vibelogs
+        WHERE id = p_target_vibe_log_id;
+    END IF;
+
+    -- Get vibe request title if applicable
+    IF p_target_vibe_request_id IS NOT NULL THEN
+        SELECT title INTO vibe_request_title
+        FROM public.vibe_requests
+        WHERE id = p_target_vibe_request_id;
+    END IF;
+
+    -- Get target username if applicable
+    IF p_target_user_id IS NOT NULL THEN
+        SELECT username INTO target_username
+        FROM public.profiles
+        WHERE user_id = p_target_user_id;
+    END IF;
+
+    -- Extract metadata values for display text
+    old_value := p_metadata->>'old_value';
+    new_value := p_metadata->>'new_value';
+    milestone_count := (p_metadata->>'milestone_count')::integer;
+    tip_amount := p_metadata->>'tip_amount';
+    tip_currency := COALESCE(p_metadata->>'currency', 'ALGO'); -- Default to ALGO for backward compatibility
+    badge_name := p_metadata->>'badge_name';
+
+    -- Generate display text based on activity type
+    CASE p_activity_type
+        -- Project lifecycle
+        WHEN 'project_created' THEN
+            computed_display_text := actor_username || ' just launched a new project: ' || project_name;
+        WHEN 'project_updated' THEN
+            computed_display_text := actor_username || ' updated their project: ' || project_name;
+        WHEN 'project_type_evolved' THEN
+            computed_display_text := actor_username || '''s project ' || project_name || ' evolved from ' || old_value || ' to ' || new_value || ' 🚀';
+        WHEN 'project_tools_updated' THEN
+            computed_display_text := actor_username || ' updated the tech stack for ' || project_name;
+        WHEN 'project_category_changed' THEN
+            computed_display_text := actor_username || ' moved ' || project_name || ' to the ' || new_value || ' category';
+        WHEN 'project_tags_updated' THEN
+            computed_display_text := actor_username || ' refined the tags for ' || project_name;
+
+        -- Vibe logs & requests
+        WHEN 'vibe_log_added' THEN
+            computed_display_text := actor_username || ' just added a new Vibe Log to ' || project_name || ': "' || vibe_log_title || '"';
+        WHEN 'vibe_log_updated' THEN
+            computed_display_text := actor_username || ' updated a Vibe Log in ' || project_name || ': "' || vibe_log_title || '"';
+        WHEN 'vibe_request_created' THEN
+            computed_display_text := actor_username || ' created a new vibe request: "' || vibe_request_title || '"';
+        WHEN 'vibe_request_completed' THEN
+            computed_display_text := 'Vibe request completed: "' || vibe_request_title || '"';
+
+        -- User lifecycle & engagement
+        WHEN 'user_joined' THEN
+            computed_display_text := target_username || ' just joined the community. Welcome! 👋';
+        WHEN 'user_status_changed' THEN
+            computed_display_text := target_username || ' changed status from ' || old_value || ' to ' || new_value;
+        WHEN 'profile_updated' THEN
+            computed_display_text := target_username || ' updated their profile';
+        WHEN 'social_links_added' THEN
+            computed_display_text := target_username || ' added new social links to their profile';
+
+        -- Community interactions
+        WHEN 'project_supported' THEN
+            computed_display_text := actor_username || ' just supported ' || project_name || ' ❤️';
+        WHEN 'project_unsupported' THEN
+            computed_display_text := actor_username || ' withdrew support from ' || project_name;
+        WHEN 'support_milestone_reached' THEN
+            computed_display_text := project_name || ' just reached ' || milestone_count || ' supporters! 🎉';
+        WHEN 'feedback_added' THEN
+            computed_display_text := actor_username || ' left feedback on ' || project_name;
+        WHEN 'feedback_reply_added' THEN
+            computed_display_text := actor_username || ' replied to feedback on ' || project_name;
+
+        -- Algorand tipping (supports both ALGO and USDC)
+        WHEN 'tip_sent' THEN
+            computed_display_text := actor_username || ' just tipped ' || tip_amount || ' ' || tip_currency || ' to ' || project_name || ' 💰';
+
+        -- Achievements
+        WHEN 'badge_earned' THEN
+            computed_display_text := target_username || ' earned the "' || badge_name || '" badge 🏅';
+        ELSE
+            computed_display_text := 'Unknown activity';
+    END CASE;
+
+    -- Insert the activity log entry
+    INSERT INTO public.activity_log (
+        activity_type,
+        actor_user_id,
+        target_startsnap_id,
+        target_vibe_log_id,
+        target_vibe_request_id,
+        target_feedback_id,
+        target_user_id,
+        metadata,
+        display_text,
+        visibility
+    ) VALUES (
+        p_activity_type,
+        p_actor_user_id,
+        p_target_startsnap_id,
+        p_target_vibe_log_id,
+        p_target_vibe_request_id,
+        p_target_feedback_id,
+        p_target_user_id,
+        p_metadata,
+        computed_display_text,
+        p_visibility
+    ) RETURNING id INTO activity_id;
+
+    RETURN activity_id;
+END;
+$$;
+
+-- Awards a badge once and logs it. Returns true when the badge is new.
+CREATE OR REPLACE FUNCTION public.award_badge(
+    p_user_id uuid,
+    p_badge_slug text,
+    p_startsnap_id uuid DEFAULT NULL
+) RETURNS boolean
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    badge public.badges%ROWTYPE;
+    inserted_count integer;
+BEGIN
+    IF p_user_id IS NULL THEN
+        RETURN false;
+    END IF;
+
+    SELECT * INTO badge FROM public.badges WHERE slug = p_badge_slug;
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    INSERT INTO public.user_badges (user_id, badge_id, startsnap_id)
+    VALUES (p_user_id, badge.id, p_startsnap_id)
+    ON CONFLICT (user_id, badge_id) DO NOTHING;
+
+    GET DIAGNOSTICS inserted_count = ROW_COUNT;
+    IF inserted_count = 0 THEN
+        RETURN false;
+    END IF;
+
+    PERFORM public.create_activity_log(
+        'badge_earned',
+        p_user_id,
+        p_startsnap_id,
+        NULL, NULL, NULL,
+        p_user_id,
+        jsonb_build_object('badge_slug', badge.slug, 'badge_name', badge.name, 'badge_icon', badge.icon)
+    );
+
+    RETURN true;
+END;
+$$;
+
+-- Only the award trigger below may hand out badges
+REVOKE EXECUTE ON FUNCTION public.award_badge(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Trigger: check the badge rules for the activity that was just logged
+CREATE OR REPLACE FUNCTION public.award_badges_for_activity() RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    project_owner_id uuid;
+    project_is_hackathon_entry boolean;
+BEGIN
+    IF NEW.activity_type = 'badge_earned' THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.target_startsnap_id IS NOT NULL THEN
+        SELECT user_id, is_hackathon_entry INTO project_owner_id, project_is_hackathon_entry
+        FROM public.startsnaps
+        WHERE id = NEW.target_startsnap_id;
+    END IF;
+
+    CASE NEW.activity_type
+        WHEN 'project_created', 'project_updated' THEN
+            IF NEW.activity_type = 'project_created' THEN
+                PERFORM public.award_badge(project_owner_id, 'first_startsnap', NEW.target_startsnap_id);
+            END IF;
+
+            IF project_is_hackathon_entry THEN
+                PERFORM public.award_badge(project_owner_id, 'hackathon_pioneer', NEW.target_startsnap_id);
+            END IF;
+
+        WHEN 'vibe_log_added' THEN
+            IF (SELECT count(*) FROM public.vibelogs WHERE startsnap_id = NEW.target_startsnap_id) >= 3 THEN
+                PERFORM public.award_badge(project_owner_id, 'vibe_logger', NEW.target_startsnap_id);
+            END IF;
+
+        WHEN 'feedback_added', 'feedback_reply_added' THEN
+            IF (SELECT count(*) FROM public.feedbacks WHERE user_id = NEW.actor_user_id)
+               + (SELECT count(*) FROM public.feedback_replies WHERE user_id = NEW.actor_user_id) >= 5 THEN
+                PERFORM public.award_badge(NEW.actor_user_id, 'feedback_giver');
+            END IF;
+
+        WHEN 'project_supported', 'support_milestone_reached' THEN
+            IF (SELECT count(*) FROM public.project_supporters WHERE startsnap_id = NEW.target_startsnap_id) >= 25 THEN
+                PERFORM public.award_badge(project_owner_id, 'popular_vibe', NEW.target_startsnap_id);
+            END IF;
+
+        ELSE
+            NULL;
+    END CASE;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_award_badges_for_activity ON public.activity_log;
+CREATE TRIGGER trigger_award_badges_for_activity
+    AFTER INSERT ON public.activity_log
+    FOR EACH ROW
+    EXECUTE FUNCTION public.award_badges_for_activity();
+
+-- Backfill badges already earned before this migration, without logging activity
+INSERT INTO public.user_badges (user_id, badge_id, startsnap_id, earned_at)
+SELECT DISTINCT ON (s.user_id) s.user_id, b.id, s.id, s.created_at
+FROM public.startsnaps s
+JOIN public.badges b ON b.slug = 'first_startsnap'
+ORDER BY s.user_id, s.created_at
+ON CONFLICT (user_id, badge_id) DO NOTHING;
+
+INSERT INTO public.user_badges (user_id, badge_id, startsnap_id, earned_at)
+SELECT DISTINCT ON (s.user_id) s.user_id, b.id, s.id, s.created_at
+FROM public.startsnaps s
+JOIN public.badges b ON b.slug = 'hackathon_pioneer'
+WHERE s.is_hackathon_entry
+ORDER BY s.user_id, s.created_at
+ON CONFLICT (user_id, badge_id) DO NOTHING;
+
+INSERT INTO public.user_badges (user_id, badge_id, startsnap_id)
+SELECT DISTINCT ON (s.user_id) s.user_id, b.id, s.id
+FROM public.startsnaps s
+JOIN public.badges b ON b.slug = 'vibe_logger'
+WHERE (SELECT count(*) FROM public.vibelogs v WHERE v.startsnap_id = s.id) >= 3
+ORDER BY s.user_id, s.created_at
+ON CONFLICT (user_id, badge_id) DO NOTHING;
+
+INSERT INTO public.user_badges (user_id, badge_id, startsnap_id)
+SELECT DISTINCT ON (s.user_id) s.user_id, b.id, s.id
+FROM public.startsnaps s
+JOIN public.badges b ON b.slug = 'popular_vibe'
+WHERE (SELECT count(*) FROM public.project_supporters ps WHERE ps.startsnap_id = s.id) >= 25
+ORDER BY s.user_id, s.created_at
+ON CONFLICT (user_id, badge_id) DO NOTHING;
+
+INSERT INTO public.user_badges (user_id, badge_id)
+SELECT contributions.user_id, b.id
+FROM (
+    SELECT user_id FROM public.feedbacks
+    UNION ALL
+    SELECT user_id FROM public.feedback_replies
+) contributions
+JOIN public.badges b ON b.slug = 'feedback_giver'
+WHERE contributions.user_id IS NOT NULL
+GROUP BY contributions.user_id, b.id
+HAVING count(*) >= 5
+ON CONFLICT (user_id, badge_id) DO NOTHING;
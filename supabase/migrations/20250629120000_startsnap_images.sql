@@ -0,0 +1,217 @@
+/**
+ * supabase/migrations/20250629120000_startsnap_images.sql
+ *
+ * Feature: Project image records with captions, alt text, ordering and a cover image
+ *
+ * Problem: Screenshots are a plain ordered screenshot_urls array capped at 3 by the uploader, with no
+ *          captions, no alt text and no way to pick which image represents the project
+ * Solution: One startsnap_images row per image (url, caption, alt_text, position, is_cover), saved in one
+ *           call through save_startsnap_images(). startsnaps.screenshot_urls and the new
+ *           startsnaps.cover_image_url are kept in sync by trigger so list queries need no join.
+ *
+ * The per-project limit is enforced by a BEFORE INSERT trigger, so direct inserts cannot get around
+ * save_startsnap_images(). It defaults to 10 and can be changed without a migration:
+ *   alter database postgres set app.max_project_images = '12';
+ * Keep VITE_MAX_PROJECT_IMAGES in the frontend environment in step with it.
+ */
+
+CREATE TABLE IF NOT EXISTS public.startsnap_images (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    startsnap_id uuid NOT NULL REFERENCES public.startsnaps(id) ON DELETE CASCADE,
+    url text NOT NULL,
+    caption text,
+    alt_text text,
+    position integer NOT NULL CHECK (position >= 0),
+    is_cover boolean DEFAULT false NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_startsnap_images_startsnap_position
+    ON public.startsnap_images (startsnap_id, position);
+
+-- At most one cover per project
+CREATE UNIQUE INDEX IF NOT EXISTS idx_startsnap_images_single_cover
+    ON public.startsnap_images (startsnap_id)
+    WHERE is_cover;
+
+ALTER TABLE public.startsnaps
+    ADD COLUMN IF NOT EXISTS cover_image_url text;
+
+ALTER TABLE public.startsnap_images ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view project images" ON public.startsnap_images;
+CREATE POLICY "Anyone can view project images"
+ON public.startsnap_images
+FOR SELECT
+TO public
+USING (true);
+
+DROP POLICY IF EXISTS "Owners can add project images" ON public.startsnap_images;
+CREATE POLICY "Owners can add project images"
+ON public.startsnap_images
+FOR INSERT
+TO authenticated
+WITH CHECK (EXISTS (
+    SELECT 1 FROM public.startsnaps s
+    WHERE s.id = startsnap_images.startsnap_id AND s.user_id = auth.uid()
+));
+
+DROP POLICY IF EXISTS "Owners can update project images" ON public.startsnap_images;
+CREATE POLICY "Owners can update project images"
+ON public.startsnap_images
+FOR UPDATE
+TO authenticated
+USING (EXISTS (
+    SELECT 1 FROM public.startsnaps s
+    WHERE s.id = startsnap_images.startsnap_id AND s.user_id = auth.uid()
+))
+WITH CHECK (EXISTS (
+    SELECT 1 FROM public.startsnaps s
+    WHERE s.id = startsnap_images.startsnap_id AND s.user_id = auth.uid()
+));
+
+DROP POLICY IF EXISTS "Owners can remove project images" ON public.startsnap_images;
+CREATE POLICY "Owners can remove project images"
+ON public.startsnap_images
+FOR DELETE
+TO authenticated
+USING (EXISTS (
+    SELECT 1 FROM public.startsnaps s
+    WHERE s.id = startsnap_images.startsnap_id AND s.user_id = auth.uid()
+));
+
+-- Configured image limit per project (app.max_project_images, default 10)
+CREATE OR REPLACE FUNCTION public.startsnap_image_limit()
+RETURNS integer
+LANGUAGE sql STABLE
+AS $$
+    SELECT COALESCE(NULLIF(current_setting('app.max_project_images', true), '')::integer, 10);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.startsnap_image_limit() TO anon, authenticated;
+
+-- Trigger: reject images beyond the configured limit, however they are inserted
+CREATE OR REPLACE FUNCTION public.enforce_startsnap_image_limit() RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    image_count integer;
+BEGIN
+    -- Serialize inserts for the same project so parallel requests cannot overshoot the limit
+    PERFORM pg_advisory_xact_lock(hashtext('startsnap_images:' || NEW.startsnap_id::text));
+
+    SELECT COUNT(*) INTO image_count
+    FROM public.startsnap_images
+    WHERE startsnap_id = NEW.startsnap_id;
+
+    IF image_count >= public.startsnap_image_limit() THEN
+        RAISE EXCEPTION 'A project can have at most % images', public.startsnap_image_limit()
+            USING ERRCODE = '23514';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_enforce_startsnap_image_limit ON public.startsnap_images;
+CREATE TRIGGER trigger_enforce_startsnap_image_limit
+    BEFORE INSERT ON public.startsnap_images
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_startsnap_image_limit();
+
+-- Trigger: mirror the ordered URLs and the cover onto startsnaps
+CREATE OR REPLACE FUNCTION public.sync_startsnap_image_columns() RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    affected_startsnap_id uuid := COALESCE(NEW.startsnap_id, OLD.startsnap_id);
+BEGIN
+    UPDATE public.startsnaps s
+    SET screenshot_urls = COALESCE(
+            (SELECT array_agg(i.url ORDER BY i.position)
+             FROM public.startsnap_images i
+             WHERE i.startsnap_id = affected_startsnap_id),
+            ARRAY[]::text[]
+        ),
+        cover_image_url = (
+            SELECT i.url
+            FROM public.startsnap_images i
+            WHERE i.startsnap_id = affected_startsnap_id
+            ORDER BY i.is_cover DESC, i.position
+            LIMIT 1
+        )
+    WHERE s.id = affected_startsnap_id;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_startsnap_image_columns ON public.startsnap_images;
+CREATE TRIGGER trigger_sync_startsnap_image_columns
+    AFTER INSERT OR UPDATE OR DELETE ON public.startsnap_images
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_startsnap_image_columns();
+
+-- Replaces a project's images with the given ordered list:
+--   p_images = [{"url": "...", "caption": "...", "alt_text": "...", "is_cover": true}, ...]
+-- Array order becomes position. The first image is the cover unless another one is flagged.
+-- Runs as the caller, so the owner policies above apply. The limit check here only fails early, before the
+-- existing images are deleted; the trigger above is what enforces it.
+CREATE OR REPLACE FUNCTION public.save_startsnap_images(
+    p_startsnap_id uuid,
+    p_images jsonb
+) RETURNS SETOF public.startsnap_images
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+    image_count integer := COALESCE(jsonb_array_length(p_images), 0);
+    cover_index integer;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.startsnaps
+        WHERE id = p_startsnap_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'You can only change images of your own projects'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF image_count > public.startsnap_image_limit() THEN
+        RAISE EXCEPTION 'A project can have at most % images', public.startsnap_image_limit()
+            USING ERRCODE = '23514';
+    END IF;
+
+    SELECT (e.ordinality - 1)::integer INTO cover_index
+    FROM jsonb_array_elements(COALESCE(p_images, '[]'::jsonb)) WITH ORDINALITY AS e(image, ordinality)
+    WHERE COALESCE((e.image->>'is_cover')::boolean, false)
+    ORDER BY e.ordinality
+    LIMIT 1;
+
+    DELETE FROM public.startsnap_images WHERE startsnap_id = p_startsnap_id;
+
+    INSERT INTO public.startsnap_images (startsnap_id, url, caption, alt_text, position, is_cover)
+    SELECT
+        p_startsnap_id,
+        e.image->>'url',
+        NULLIF(btrim(e.image->>'caption'), ''),
+        NULLIF(btrim(e.image->>'alt_text'), ''),
+        (e.ordinality - 1)::integer,
+        (e.ordinality - 1) = COALESCE(cover_index, 0)
+    FROM jsonb_array_elements(COALESCE(p_images, '[]'::jsonb)) WITH ORDINALITY AS e(image, ordinality)
+    WHERE COALESCE(e.image->>'url', '') <> '';
+
+    RETURN QUERY
+    SELECT * FROM public.startsnap_images
+    WHERE startsnap_id = p_startsnap_id
+    ORDER BY position;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_startsnap_images(uuid, jsonb) TO authenticated;
+
+-- Backfill existing screenshot arrays; the first screenshot becomes the cover
+INSERT INTO public.startsnap_images (startsnap_id, url, position, is_cover)
+SELECT s.id, u.url, (u.ordinality - 1)::integer, u.ordinality = 1
+FROM public.startsnaps s
+CROSS JOIN LATERAL unnest(s.screenshot_urls) WITH ORDINALITY AS u(url, ordinality)
+WHERE s.screenshot_urls IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.startsnap_images i WHERE i.startsnap_id = s.id);
@@ -0,0 +1,77 @@
+/**
+ * supabase/migrations/20250629130000_startsnap_image_placeholders.sql
+ *
+ * Feature: Low-quality image placeholders for project screenshots
+ *
+ * Problem: Screenshots pop in as blank boxes while the full images load
+ * Solution: The uploader builds a ~16px wide JPEG data URL (LQIP) for every image it processes. It is stored in
+ *           startsnap_images.placeholder and shown blurred until the full image has loaded.
+ */
+
+ALTER TABLE public.startsnap_images
+    ADD COLUMN IF NOT EXISTS placeholder text;
+
+-- Keep placeholders tiny; they are inlined in every gallery response
+ALTER TABLE public.startsnap_images
+    DROP CONSTRAINT IF EXISTS startsnap_images_placeholder_check;
+ALTER TABLE public.startsnap_images
+    ADD CONSTRAINT startsnap_images_placeholder_check CHECK (
+        placeholder IS NULL
+        OR (placeholder LIKE 'data:image/%' AND length(placeholder) <= 4096)
+    );
+
+-- Re-created to also store each image's placeholder. Replaces a project's images with the given ordered list:
+--   p_images = [{"url": "...", "caption": "...", "alt_text": "...", "placeholder": "data:...", "is_cover": true}, ...]
+-- Array order becomes position. The first image is the cover unless another one is flagged.
+-- Runs as the caller, so the startsnap_images owner policies apply.
+CREATE OR REPLACE FUNCTION public.save_startsnap_images(
+    p_startsnap_id uuid,
+    p_images jsonb
+) RETURNS SETOF public.startsnap_images
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+    image_count integer := COALESCE(jsonb_array_length(p_images), 0);
+    cover_index integer;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.startsnaps
+        WHERE id = p_startsnap_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'You can only change images of your own projects'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF image_count > public.startsnap_image_limit() THEN
+        RAISE EXCEPTION 'A project can have at most % images', public.startsnap_image_limit()
+            USING ERRCODE = '23514';
+    END IF;
+
+    SELECT (e.ordinality - 1)::integer INTO cover_index
+    FROM jsonb_array_elements(COALESCE(p_images, '[]'::jsonb)) WITH ORDINALITY AS e(image, ordinality)
+    WHERE COALESCE((e.image->>'is_cover')::boolean, false)
+    ORDER BY e.ordinality
+    LIMIT 1;
+
+    DELETE FROM public.startsnap_images WHERE startsnap_id = p_startsnap_id;
+
+    INSERT INTO public.startsnap_images (startsnap_id, url, caption, alt_text, placeholder, position, is_cover)
+    SELECT
+        p_startsnap_id,
+        e.image->>'url',
+        NULLIF(btrim(e.image->>'caption'), ''),
+        NULLIF(btrim(e.image->>'alt_text'), ''),
+        NULLIF(e.image->>'placeholder', ''),
+        (e.ordinality - 1)::integer,
+        (e.ordinality - 1) = COALESCE(cover_index, 0)
+    FROM jsonb_array_elements(COALESCE(p_images, '[]'::jsonb)) WITH ORDINALITY AS e(image, ordinality)
+    WHERE COALESCE(e.image->>'url', '') <> '';
+
+    RETURN QUERY
+    SELECT * FROM public.startsnap_images
+    WHERE startsnap_id = p_startsnap_id
+    ORDER BY position;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_startsnap_images(uuid, jsonb) TO authenticated;
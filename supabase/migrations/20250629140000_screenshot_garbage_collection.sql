@@ -0,0 +1,109 @@
+/**
+ * supabase/migrations/20250629140000_screenshot_garbage_collection.sql
+ *
+ * Feature: Garbage collection for the project-screenshots bucket
+ *
+ * Problem: Screenshots are only removed from storage when an owner removes them in the project form. Deleting a
+ *          project, or uploading images and then abandoning the create form, leaves the files behind forever.
+ * Solution: - A startsnaps delete trigger queues the project's screenshots in storage_deletion_queue
+ *           - referenced_screenshot_paths() lists every path still referenced by a project, sorted so the Edge
+ *             Function can page through it (PostgREST caps each response at max_rows), and
+ *             count_referenced_screenshot_paths() counts them so a short read aborts the run instead of deleting
+ *             live screenshots
+ *           - The collect-orphaned-screenshots Edge Function (daily via pg_cron) empties the queue and deletes
+ *             bucket objects that nothing references and that are older than a grace period
+ *
+ * Dry run (reports what would be deleted without deleting; the response lands in net._http_response):
+ *   select public.call_edge_function('collect-orphaned-screenshots', '{"dry_run": true}'::jsonb);
+ */
+
+CREATE TABLE IF NOT EXISTS public.storage_deletion_queue (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    bucket_id text DEFAULT 'project-screenshots' NOT NULL,
+    object_path text NOT NULL,
+    reason text NOT NULL,
+    attempts integer DEFAULT 0 NOT NULL,
+    last_error text,
+    queued_at timestamp with time zone DEFAULT now() NOT NULL,
+
+    CONSTRAINT storage_deletion_queue_unique_object UNIQUE (bucket_id, object_path)
+);
+
+-- RLS without policies: only the service role (used by the Edge Function) can read or write it
+ALTER TABLE public.storage_deletion_queue ENABLE ROW LEVEL SECURITY;
+
+-- Storage path ("<userId>/<fileName>") of a public project-screenshots URL, or NULL for other URLs
+CREATE OR REPLACE FUNCTION public.screenshot_path_from_url(p_url text)
+RETURNS text
+LANGUAGE sql IMMUTABLE
+AS $$
+    SELECT NULLIF(substring(p_url FROM '/project-screenshots/([^?#]+)'), '');
+$$;
+
+-- Every screenshot path still referenced by a project, in a stable order for paging with .range()
+CREATE OR REPLACE FUNCTION public.referenced_screenshot_paths()
+RETURNS SETOF text
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT DISTINCT path
+    FROM (
+        SELECT public.screenshot_path_from_url(u.url) AS path
+        FROM public.startsnaps s
+        CROSS JOIN LATERAL unnest(s.screenshot_urls) AS u(url)
+        UNION ALL
+        SELECT public.screenshot_path_from_url(i.url)
+        FROM public.startsnap_images i
+    ) refs
+    WHERE path IS NOT NULL
+    ORDER BY path;
+$$;
+
+-- Number of rows referenced_screenshot_paths() returns
+CREATE OR REPLACE FUNCTION public.count_referenced_screenshot_paths()
+RETURNS bigint
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT COUNT(*) FROM public.referenced_screenshot_paths();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.referenced_screenshot_paths() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.referenced_screenshot_paths() TO service_role;
+REVOKE EXECUTE ON FUNCTION public.count_referenced_screenshot_paths() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.count_referenced_screenshot_paths() TO service_role;
+
+-- Trigger: queue a deleted project's screenshots for removal from storage
+CREATE OR REPLACE FUNCTION public.queue_deleted_startsnap_screenshots() RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.storage_deletion_queue (bucket_id, object_path, reason)
+    SELECT 'project-screenshots', path, 'project_deleted'
+    FROM (
+        SELECT DISTINCT public.screenshot_path_from_url(u.url) AS path
+        FROM unnest(COALESCE(OLD.screenshot_urls, ARRAY[]::text[])) AS u(url)
+    ) paths
+    WHERE path IS NOT NULL
+    ON CONFLICT (bucket_id, object_path) DO NOTHING;
+
+    RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_queue_deleted_startsnap_screenshots ON public.startsnaps;
+CREATE TRIGGER trigger_queue_deleted_startsnap_screenshots
+    AFTER DELETE ON public.startsnaps
+    FOR EACH ROW
+    EXECUTE FUNCTION public.queue_deleted_startsnap_screenshots();
+
+-- Run the collector daily where pg_cron is available
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'collect-orphaned-screenshots',
+            '30 3 * * *',
+            $cron$SELECT public.call_edge_function('collect-orphaned-screenshots', '{}'::jsonb)$cron$
+        );
+    END IF;
+END;
+$$;
@@ -0,0 +1,389 @@
+/**
+ * supabase/migrations/20250629150000_startsnap_members.sql
+ *
+ * Feature: Project collaborators (owner and editors)
+ *
+ * Problem: A StartSnap has a single user_id and every write policy checks only that owner, but most
+ *          projects are built by two or three people
+ * Solution: startsnap_members lists the owner and invited editors. Owners invite editors by username through
+ *           invite_startsnap_member(); the invitee accepts or declines with respond_to_startsnap_invitation().
+ *           Accepted editors may edit the project, its images and its vibe logs (is_startsnap_editor()).
+ *           Deleting the project and managing members stay with the owner, and startsnaps.user_id remains
+ *           the owner of record.
+ */
+
+CREATE TABLE IF NOT EXISTS public.startsnap_members (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    startsnap_id uuid NOT NULL REFERENCES public.startsnaps(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role text NOT NULL CHECK (role IN ('owner', 'editor')),
+    invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    accepted_at timestamp with time zone, -- NULL while the invitation is pending
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+
+    CONSTRAINT startsnap_members_unique_member UNIQUE (startsnap_id, user_id),
+    CONSTRAINT startsnap_members_owner_accepted CHECK (role <> 'owner' OR accepted_at IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_startsnap_members_single_owner
+    ON public.startsnap_members (startsnap_id)
+    WHERE role = 'owner';
+CREATE INDEX IF NOT EXISTS idx_startsnap_members_user
+    ON public.startsnap_members (user_id);
+
+ALTER TABLE public.startsnap_members ENABLE ROW LEVEL SECURITY;
+
+-- Accepted members are public (co-creators are shown on project cards); pending invitations are visible
+-- to the invitee and the project owner. All writes go through the functions below.
+DROP POLICY IF EXISTS "Anyone can view project members" ON public.startsnap_members;
+CREATE POLICY "Anyone can view project members"
+ON public.startsnap_members
+FOR SELECT
+TO public
+USING (
+    accepted_at IS NOT NULL
+    OR user_id = auth.uid()
+    OR EXISTS (
+        SELECT 1 FROM public.startsnaps s
+        WHERE s.id = startsnap_members.startsnap_id AND s.user_id = auth.uid()
+    )
+);
+
+-- True when the signed-in user owns the project or is an accepted editor of it. SECURITY DEFINER so
+-- policies on other tables can call it without tripping over startsnap_members RLS.
+CREATE OR REPLACE FUNCTION public.is_startsnap_editor(p_startsnap_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT auth.uid() IS NOT NULL AND (
+        EXISTS (
+            SELECT 1 FROM public.startsnaps s
+            WHERE s.id = p_startsnap_id AND s.user_id = auth.uid()
+        )
+        OR EXISTS (
+            SELECT 1 FROM public.startsnap_members m
+            WHERE m.startsnap_id = p_startsnap_id
+              AND m.user_id = auth.uid()
+              AND m.accepted_at IS NOT NULL
+        )
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_startsnap_editor(uuid) TO anon, authenticated;
+
+-- Computed field: usernames of accepted editors, in the order they joined. Select as `co_creators`.
+CREATE OR REPLACE FUNCTION public.co_creators(s public.startsnaps)
+RETURNS text[]
+LANGUAGE sql STABLE SET search_path = public
+AS $$
+    SELECT COALESCE(array_agg(p.username ORDER BY m.accepted_at), ARRAY[]::text[])
+    FROM public.startsnap_members m
+    JOIN public.profiles p ON p.user_id = m.user_id
+    WHERE m.startsnap_id = s.id
+      AND m.role = 'editor'
+      AND m.accepted_at IS NOT NULL
+      AND p.username IS NOT NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.co_creators(public.startsnaps) TO anon, authenticated;
+
+-- Trigger: every new project gets its owner row
+CREATE OR REPLACE FUNCTION public.add_startsnap_owner_member() RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.startsnap_members (startsnap_id, user_id, role, accepted_at)
+    VALUES (NEW.id, NEW.user_id, 'owner', now())
+    ON CONFLICT (startsnap_id, user_id) DO NOTHING;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_add_startsnap_owner_member ON public.startsnaps;
+CREATE TRIGGER trigger_add_startsnap_owner_member
+    AFTER INSERT ON public.startsnaps
+    FOR EACH ROW
+    EXECUTE FUNCTION public.add_startsnap_owner_member();
+
+-- Trigger: editors may update the project, but only the owner of record is the owner
+CREATE OR REPLACE FUNCTION public.protect_startsnap_owner() RETURNS trigger
+LANGUAGE plpgsql SET search_path = public
+AS $$
+BEGIN
+    -- auth.uid() is NULL for the service role and the SQL editor
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id AND auth.uid() IS NOT NULL THEN
+        RAISE EXCEPTION 'The project owner cannot be changed by editing the project'
+            USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_protect_startsnap_owner ON public.startsnaps;
+CREATE TRIGGER trigger_protect_startsnap_owner
+    BEFORE UPDATE OF user_id ON public.startsnaps
+    FOR EACH ROW
+    EXECUTE FUNCTION public.protect_startsnap_owner();
+
+-- Owners invite an editor by username
+CREATE OR REPLACE FUNCTION public.invite_startsnap_member(p_startsnap_id uuid, p_username text)
+RETURNS public.startsnap_members
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    invitee_id uuid;
+    invitation public.startsnap_members;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.startsnaps
+        WHERE id = p_startsnap_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Only the project owner can invite collaborators'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT user_id INTO invitee_id
+    FROM public.profiles
+    WHERE lower(username) = lower(btrim(p_username));
+
+    IF invitee_id IS NULL THEN
+        RAISE EXCEPTION 'No builder with the username "%"', btrim(p_username)
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.startsnap_members
+        WHERE startsnap_id = p_startsnap_id AND user_id = invitee_id
+    ) THEN
+        RAISE EXCEPTION '% is already a member of this project or has a pending invitation', btrim(p_username);
+    END IF;
+
+    INSERT INTO public.startsnap_members (startsnap_id, user_id, role, invited_by)
+    VALUES (p_startsnap_id, invitee_id, 'editor', auth.uid())
+    RETURNING * INTO invitation;
+
+    RETURN invitation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.invite_startsnap_member(uuid, text) TO authenticated;
+
+-- The invitee accepts (becomes an editor) or declines (the invitation is removed)
+CREATE OR REPLACE FUNCTION public.respond_to_startsnap_invitation(p_startsnap_id uuid, p_accept boolean)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.startsnap_members
+        WHERE startsnap_id = p_startsnap_id AND user_id = auth.uid() AND accepted_at IS NULL
+    ) THEN
+        RAISE EXCEPTION 'There is no pending invitation for you on this project'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_accept THEN
+        UPDATE public.startsnap_members
+        SET accepted_at = now()
+        WHERE startsnap_id = p_startsnap_id AND user_id = auth.uid();
+    ELSE
+        DELETE FROM public.startsnap_members
+        WHERE startsnap_id = p_startsnap_id AND user_id = auth.uid();
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.respond_to_startsnap_invitation(uuid, boolean) TO authenticated;
+
+-- Owners remove editors or cancel invitations; editors can leave a project themselves
+CREATE OR REPLACE FUNCTION public.remove_startsnap_member(p_startsnap_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    is_owner boolean;
+BEGIN
+    SELECT EXISTS (
+        SELECT 1 FROM public.startsnaps
+        WHERE id = p_startsnap_id AND user_id = auth.uid()
+    ) INTO is_owner;
+
+    IF NOT is_owner AND p_user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Only the project owner can remove collaborators'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.startsnap_members
+        WHERE startsnap_id = p_startsnap_id AND user_id = p_user_id AND role = 'owner'
+    ) THEN
+        RAISE EXCEPTION 'The project owner cannot be removed';
+    END IF;
+
+    DELETE FROM public.startsnap_members
+    WHERE startsnap_id = p_startsnap_id AND user_id = p_user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.remove_startsnap_member(uuid, uuid) TO authenticated;
+
+-- Members of a project with their usernames, owner first. Runs as the caller, so pending invitations are
+-- only included for the owner and the invitee.
+CREATE OR REPLACE FUNCTION public.get_startsnap_members(p_startsnap_id uuid)
+RETURNS TABLE (
+    user_id uuid,
+    username text,
+    role text,
+    accepted_at timestamp with time zone,
+    created_at timestamp with time zone
+)
+LANGUAGE sql STABLE SET search_path = public
+AS $$
+    SELECT m.user_id, p.username, m.role, m.accepted_at, m.created_at
+    FROM public.startsnap_members m
+    LEFT JOIN public.profiles p ON p.user_id = m.user_id
+    WHERE m.startsnap_id = p_startsnap_id
+    ORDER BY (m.role = 'owner') DESC, m.accepted_at NULLS LAST, m.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_startsnap_members(uuid) TO anon, authenticated;
+
+-- Editors can update the project (the owner check above keeps user_id fixed)
+DROP POLICY IF EXISTS "Allow users to update their own startsnaps" ON public.startsnaps;
+DROP POLICY IF EXISTS "Owners and editors can update startsnaps" ON public.startsnaps;
+CREATE POLICY "Owners and editors can update startsnaps"
+ON public.startsnaps
+FOR UPDATE
+TO authenticated
+USING (public.is_startsnap_editor(id))
+WITH CHECK (public.is_startsnap_editor(id));
+
+-- Editors can post, edit and remove vibe logs
+DROP POLICY IF EXISTS "Allow users to insert vibelogs on their own startsnaps" ON public.vibelogs;
+DROP POLICY IF EXISTS "Owners and editors can insert vibelogs" ON public.vibelogs;
+CREATE POLICY "Owners and editors can insert vibelogs"
+ON public.vibelogs
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_startsnap_editor(startsnap_id));
+
+DROP POLICY IF EXISTS "Allow users to update vibelogs on their own startsnaps" ON public.vibelogs;
+DROP POLICY IF EXISTS "Owners and editors can update vibelogs" ON public.vibelogs;
+CREATE POLICY "Owners and editors can update vibelogs"
+ON public.vibelogs
+FOR UPDATE
+TO authenticated
+USING (public.is_startsnap_editor(startsnap_id))
+WITH CHECK (public.is_startsnap_editor(startsnap_id));
+
+DROP POLICY IF EXISTS "Allow users to delete vibelogs on their own startsnaps" ON public.vibelogs;
+DROP POLICY IF EXISTS "Owners and editors can delete vibelogs" ON public.vibelogs;
+CREATE POLICY "Owners and editors can delete vibelogs"
+ON public.vibelogs
+FOR DELETE
+TO authenticated
+USING (public.is_startsnap_editor(startsnap_id));
+
+-- Editors can manage project images
+DROP POLICY IF EXISTS "Owners can add project images" ON public.startsnap_images;
+DROP POLICY IF EXISTS "Owners and editors can add project images" ON public.startsnap_images;
+CREATE POLICY "Owners and editors can add project images"
+ON public.startsnap_images
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_startsnap_editor(startsnap_id));
+
+DROP POLICY IF EXISTS "Owners can update project images" ON public.startsnap_images;
+DROP POLICY IF EXISTS "Owners and editors can update project images" ON public.startsnap_images;
+CREATE POLICY "Owners and editors can update project images"
+ON public.startsnap_images
+FOR UPDATE
+TO authenticated
+USING (public.is_startsnap_editor(startsnap_id))
+WITH CHECK (public.is_startsnap_editor(startsnap_id));
+
+DROP POLICY IF EXISTS "Owners can remove project images" ON public.startsnap_images;
+DROP POLICY IF EXISTS "Owners and editors can remove project images" ON public.startsnap_images;
+CREATE POLICY "Owners and editors can remove project images"
+ON public.startsnap_images
+FOR DELETE
+TO authenticated
+USING (public.is_startsnap_editor(startsnap_id));
+
+-- Re-created so editors can save images too; otherwise unchanged from 20250629130000
+CREATE OR REPLACE FUNCTION public.save_startsnap_images(
+    p_startsnap_id uuid,
+    p_images jsonb
+) RETURNS SETOF public.startsnap_images
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+    image_count integer := COALESCE(jsonb_array_length(p_images), 0);
+    cover_index integer;
+BEGIN
+    IF NOT public.is_startsnap_editor(p_startsnap_id) THEN
+        RAISE EXCEPTION 'You can only change images of projects you own or edit'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF image_count > public.startsnap_image_limit() THEN
+        RAISE EXCEPTION 'A project can have at most % images', public.startsnap_image_limit()
+            USING ERRCODE = '23514';
+    END IF;
+
+    SELECT (e.ordinality - 1)::integer INTO cover_index
+    FROM jsonb_array_elements(COALESCE(p_images, '[]'::jsonb)) WITH ORDINALITY AS e(image, ordinality)
+    WHERE COALESCE((e.image->>'is_cover')::boolean, false)
+    ORDER BY e.ordinality
+    LIMIT 1;
+
+    DELETE FROM public.startsnap_images WHERE startsnap_id = p_startsnap_id;
+
+    INSERT INTO public.startsnap_images (startsnap_id, url, caption, alt_text, placeholder, position, is_cover)
+    SELECT
+        p_startsnap_id,
+        e.image->>'url',
+        NULLIF(btrim(e.image->>'caption'), ''),
+        NULLIF(btrim(e.image->>'alt_text'), ''),
+        NULLIF(e.image->>'placeholder', ''),
+        (e.ordinality - 1)::integer,
+        (e.ordinality - 1) = COALESCE(cover_index, 0)
+    FROM jsonb_array_elements(COALESCE(p_images, '[]'::jsonb)) WITH ORDINALITY AS e(image, ordinality)
+    WHERE COALESCE(e.image->>'url', '') <> '';
+
+    RETURN QUERY
+    SELECT * FROM public.startsnap_images
+    WHERE startsnap_id = p_startsnap_id
+    ORDER BY position;
+END;
+$$;
+
+-- Vibe logs posted by an editor are attributed to that editor in Community Pulse
+CREATE OR REPLACE FUNCTION public.log_vibe_log_added() RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    project_owner_id uuid;
+BEGIN
+    SELECT user_id INTO project_owner_id
+    FROM public.startsnaps
+    WHERE id = NEW.startsnap_id;
+
+    PERFORM public.create_activity_log(
+        'vibe_log_added',
+        COALESCE(auth.uid(), project_owner_id),
+        NEW.startsnap_id,
+        NEW.id,
+        NULL, NULL, NULL,
+        jsonb_build_object('log_type', NEW.log_type)
+    );
+    RETURN NEW;
+END;
+$$;
+
+-- Backfill owner rows for existing projects
+INSERT INTO public.startsnap_members (startsnap_id, user_id, role, accepted_at, created_at)
+SELECT s.id, s.user_id, 'owner', COALESCE(s.created_at, now()), COALESCE(s.created_at, now())
+FROM public.startsnaps s
+WHERE s.user_id IS NOT NULL
+ON CONFLICT (startsnap_id, user_id) DO NOTHING;
@@ -0,0 +1,458 @@
+/**
+ * supabase/migrations/20250629160000_startsnap_ownership_transfer.sql
+ *
+ * Feature: Project ownership transfer
+ *
+ * Problem: A project can never change hands: EditStartSnap cannot change user_id, RLS only lets the owner update
+ *          their own rows and protect_startsnap_owner() rejects user_id changes outright
+ * Solution: The owner requests a transfer to a username (request_startsnap_transfer()); the recipient accepts or
+ *           declines it (respond_to_startsnap_transfer()). Accepting moves the project in one transaction:
+ *           - startsnaps.user_id becomes the recipient, so the creator byline and tip wallet follow
+ *           - startsnap_members makes the recipient owner and keeps the previous owner on as an editor
+ *           - Vibe log activity in Community Pulse is re-attributed to the new owner
+ *           - A 'project_transferred' activity is logged
+ */
+
+CREATE TABLE IF NOT EXISTS public.startsnap_transfer_requests (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    startsnap_id uuid NOT NULL REFERENCES public.startsnaps(id) ON DELETE CASCADE,
+    from_user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    to_user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    status text DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled')),
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    responded_at timestamp with time zone,
+
+    CONSTRAINT startsnap_transfer_requests_distinct_users CHECK (from_user_id <> to_user_id)
+);
+
+-- At most one open transfer per project
+CREATE UNIQUE INDEX IF NOT EXISTS idx_startsnap_transfer_requests_single_pending
+    ON public.startsnap_transfer_requests (startsnap_id)
+    WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_startsnap_transfer_requests_to_user
+    ON public.startsnap_transfer_requests (to_user_id)
+    WHERE status = 'pending';
+
+-- Visible to the sender and the recipient; all writes go through the functions below
+ALTER TABLE public.startsnap_transfer_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view transfer requests" ON public.startsnap_transfer_requests;
+CREATE POLICY "Participants can view transfer requests"
+ON public.startsnap_transfer_requests
+FOR SELECT
+TO authenticated
+USING (from_user_id = auth.uid() OR to_user_id = auth.uid());
+
+-- Let respond_to_startsnap_transfer() change the owner; everyone else is still blocked
+CREATE OR REPLACE FUNCTION public.protect_startsnap_owner() RETURNS trigger
+LANGUAGE plpgsql SET search_path = public
+AS $$
+BEGIN
+    -- auth.uid() is NULL for the service role and the SQL editor
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id
+       AND auth.uid() IS NOT NULL
+       AND COALESCE(current_setting('startsnap.transfer_in_progress', true), '') <> 'on' THEN
+        RAISE EXCEPTION 'The project owner can only be changed through an ownership transfer'
+            USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- Allow the new activity type
+ALTER TABLE public.activity_log DROP CONSTRAINT IF EXISTS activity_log_activity_type_check;
+
+ALTER TABLE public.activity_log ADD CONSTRAINT activity_log_activity_type_check
+CHECK (activity_type IN (
+    -- Project lifecycle
+    'project_created',
+    'project_updated',
+    'project_type_evolved',        -- idea → prototype → live
+    'project_tools_updated',
+    'project_category_changed',
+    'project_tags_updated',
+
+    -- Vibe logs & requests
+    'vibe_log_added',
+    'vibe_log_updated',
+    'vibe_request_created',
+    'vibe_request_completed',
+
+    -- User lifecycle & engagement
+    'user_joined',
+    'user_status_changed',         -- brainstorming → building → shipping
+    'profile_updated',
+    'social_links_added',
+
+    -- Community interactions
+    'project_supported',
+    'project_unsupported',
+    'support_milestone_reached',   -- 10, 25, 50, 100 supporters
+    'feedback_added',
+    'feedback_reply_added',
+
+    -- Algorand tipping
+    'tip_sent',
+
+    -- Achievements
+    'badge_earned',
+
+    -- Ownership
+    'project_transferred'
+));
+
+ALTER TABLE public.activity_log DROP CONSTRAINT IF EXISTS activity_log_valid_target;
+
+ALTER TABLE public.activity_log ADD CONSTRAINT activity_log_valid_target
+CHECK (
+    CASE activity_type
+        WHEN 'user_joined' THEN target_user_id IS NOT NULL
+        WHEN 'user_status_changed' THEN target_user_id IS NOT NULL
+        WHEN 'profile_updated' THEN target_user_id IS NOT NULL
+        WHEN 'social_links_added' THEN target_user_id IS NOT NULL
+        WHEN 'project_created' THEN target_startsnap_id IS NOT NULL
+        WHEN 'project_updated' THEN target_startsnap_id IS NOT NULL
+        WHEN 'project_type_evolved' THEN target_startsnap_id IS NOT NULL
+        WHEN 'project_tools_updated' THEN target_startsnap_id IS NOT NULL
+        WHEN 'project_category_changed' THEN target_startsnap_id IS NOT NULL
+        WHEN 'project_tags_updated' THEN target_startsnap_id IS NOT NULL
+        WHEN 'project_supported' THEN target_startsnap_id IS NOT NULL
+        WHEN 'project_unsupported' THEN target_startsnap_id IS NOT NULL
+        WHEN 'support_milestone_reached' THEN target_startsnap_id IS NOT NULL
+        WHEN 'vibe_log_added' THEN target_startsnap_id IS NOT NULL AND target_vibe_log_id IS NOT NULL
+        WHEN 'vibe_log_updated' THEN target_startsnap_id IS NOT NULL AND target_vibe_log_id IS NOT NULL
+        WHEN 'vibe_request_created' THEN target_vibe_request_id IS NOT NULL
+        WHEN 'vibe_request_completed' THEN target_vibe_request_id IS NOT NULL
+        WHEN 'feedback_added' THEN target_startsnap_id IS NOT NULL AND target_feedback_id IS NOT NULL
+        WHEN 'feedback_reply_added' THEN target_startsnap_id IS NOT NULL AND target_feedback_id IS NOT NULL
+        WHEN 'tip_sent' THEN target_startsnap_id IS NOT NULL
+        WHEN 'badge_earned' THEN target_user_id IS NOT NULL
+        WHEN 'project_transferred' THEN target_startsnap_id IS NOT NULL AND target_user_id IS NOT NULL
+        ELSE FALSE
+    END
+);
+
+-- Display text for project_transferred
+CREATE OR REPLACE FUNCTION public.create_activity_log(
+    p_activity_type text,
+    p_actor_user_id uuid,
+    p_target_startsnap_id uuid DEFAULT NULL,
+    p_target_vibe_log_id uuid DEFAULT NULL,
+    p_target_vibe_request_id uuid DEFAULT NULL,
+    p_target_feedback_id uuid DEFAULT NULL,
+    p_target_user_id uuid DEFAULT NULL,
+    p_metadata jsonb DEFAULT '{}',
+    p_visibility text DEFAULT 'public'
+) RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    activity_id uuid;
+    actor_username text;
+    project_name text;
+    vibe_log_title text;
+    vibe_request_title text;
+    target_username text;
+    computed_display_text text;
+    old_value text;
+    new_value text;
+    milestone_count integer;
+    tip_amount text;
+    tip_currency text;
+    badge_name text;
+BEGIN
+    -- Get actor username
+    SELECT username INTO actor_username
+    FROM public.profiles
+    WHERE user_id = p_actor_user_id;
+
+    -- Get project name if applicable
+    IF p_target_startsnap_id IS NOT NULL THEN
+        SELECT name INTO project_name
+        FROM public.startsnaps
+        WHERE id = p_target_startsnap_id;
+    END IF;
+
+    -- Get vibe log title if applicable
+    IF p_target_vibe_log_id IS NOT NULL THEN
+        SELECT title INTO vibe_log_title
+        FROM public.vibelogs
+        WHERE id = p_target_vibe_log_id;
+    END IF;
+
+    -- Get vibe request title if applicable
+    IF p_target_vibe_request_id IS NOT NULL THEN
+        SELECT title INTO vibe_request_title
+        FROM public.vibe_requests
+        WHERE id = p_target_vibe_request_id;
+    END IF;
+
+    -- Get target username if applicable
+    IF p_target_user_id IS NOT NULL THEN
+        SELECT username INTO target_username
+        FROM public.profiles
+        WHERE user_id = p_target_user_id;
+    END IF;
+
+    -- Extract metadata values for display text
+    old_value := p_metadata->>'old_value';
+    new_value := p_metadata->>'new_value';
+    milestone_count := (p_metadata->>'milestone_count')::integer;
+    tip_amount := p_metadata->>'tip_amount';
+    tip_currency := COALESCE(p_metadata->>'currency', 'ALGO'); -- Default to ALGO for backward compatibility
+    badge_name := p_metadata->>'badge_name';
+
+    -- Generate display text based on activity type
+    CASE p_activity_type
+        -- Project lifecycle
+        WHEN 'project_created' THEN
+            computed_display_text := actor_username || ' just launched a new project: ' || project_name;
+        WHEN 'project_updated' THEN
+            computed_display_text := actor_username || ' updated their project: ' || project_name;
+        WHEN 'project_type_evolved' THEN
+            computed_display_text := actor_username || '''s project ' || project_name || ' evolved from ' || old_value || ' to ' || new_value || ' 🚀';
+        WHEN 'project_tools_updated' THEN
+            computed_display_text := actor_username || ' updated the tech stack for ' || project_name;
+        WHEN 'project_category_changed' THEN
+            computed_display_text := actor_username || ' moved ' || project_name || ' to the ' || new_value || ' category';
+        WHEN 'project_tags_updated' THEN
+            computed_display_text := actor_username || ' refined the tags for ' || project_name;
+
+        -- Vibe logs & requests
+        WHEN 'vibe_log_added' THEN
+            computed_display_text := actor_username || ' just added a new Vibe Log to ' || project_name || ': "' || vibe_log_title || '"';
+        WHEN 'vibe_log_updated' THEN
+            computed_display_text := actor_username || ' updated a Vibe Log in ' || project_name || ': "' || vibe_log_title || '"';
+        WHEN 'vibe_request_created' THEN
+            computed_display_text := actor_username || ' created a new vibe request: "' || vibe_request_title || '"';
+        WHEN 'vibe_request_completed' THEN
+            computed_display_text := 'Vibe request completed: "' || vibe_request_title || '"';
+
+        -- User lifecycle & engagement
+        WHEN 'user_joined' THEN
+            computed_display_text := target_username || ' just joined the community. Welcome! 👋';
+        WHEN 'user_status_changed' THEN
+            computed_display_text := target_username || ' changed status from ' || old_value || ' to ' || new_value;
+        WHEN 'profile_updated' THEN
+            computed_display_text := target_username || ' updated their profile';
+        WHEN 'social_links_added' THEN
+            computed_display_text := target_username || ' added new social links to their profile';
+
+        -- Community interactions
+        WHEN 'project_supported' THEN
+            computed_display_text := actor_username || ' just supported ' || project_name || ' ❤️';
+        WHEN 'project_unsupported' THEN
+            computed_display_text := actor_username || ' withdrew support from ' || project_name;
+        WHEN 'support_milestone_reached' THEN
+            computed_display_text := project_name || ' just reached ' || milestone_count || ' supporters! 🎉';
+        WHEN 'feedback_added' THEN
+            computed_display_text := actor_username || ' left feedback on ' || project_name;
+        WHEN 'feedback_reply_added' THEN
+            computed_display_text := actor_username || ' replied to feedback on ' || project_name;
+
+        -- Algorand tipping (supports both ALGO and USDC)
+        WHEN 'tip_sent' THEN
+            computed_display_text := actor_username || ' just tipped ' || tip_amount || ' ' || tip_currency || ' to ' || project_name || ' 💰';
+
+        -- Achievements
+        WHEN 'badge_earned' THEN
+            computed_display_text := target_username || ' earned the "' || badge_name || '" badge 🏅';
+
+        -- Ownership
+        WHEN 'project_transferred' THEN
+            computed_display_text := actor_username || ' took over ' || project_name || ' from ' || target_username || ' 🤝';
+        ELSE
+            computed_display_text := 'Unknown activity';
+    END CASE;
+
+    -- Insert the activity log entry
+    INSERT INTO public.activity_log (
+        activity_type,
+        actor_user_id,
+        target_startsnap_id,
+        target_vibe_log_id,
+        target_vibe_request_id,
+        target_feedback_id,
+        target_user_id,
+        metadata,
+        display_text,
+        visibility
+    ) VALUES (
+        p_activity_type,
+        p_actor_user_id,
+        p_target_startsnap_id,
+        p_target_vibe_log_id,
+        p_target_vibe_request_id,
+        p_target_feedback_id,
+        p_target_user_id,
+        p_metadata,
+        computed_display_text,
+        p_visibility
+    ) RETURNING id INTO activity_id;
+
+    RETURN activity_id;
+END;
+$$;
+
+-- The owner offers the project to another builder
+CREATE OR REPLACE FUNCTION public.request_startsnap_transfer(p_startsnap_id uuid, p_username text)
+RETURNS public.startsnap_transfer_requests
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    recipient_id uuid;
+    transfer public.startsnap_transfer_requests;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.startsnaps
+        WHERE id = p_startsnap_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Only the project owner can transfer this project'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT user_id INTO recipient_id
+    FROM public.profiles
+    WHERE lower(username) = lower(btrim(p_username));
+
+    IF recipient_id IS NULL THEN
+        RAISE EXCEPTION 'No builder with the username "%"', btrim(p_username)
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF recipient_id = auth.uid() THEN
+        RAISE EXCEPTION 'You already own this project';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.startsnap_transfer_requests
+        WHERE startsnap_id = p_startsnap_id AND status = 'pending'
+    ) THEN
+        RAISE EXCEPTION 'This project already has a pending transfer. Cancel it before starting a new one.';
+    END IF;
+
+    INSERT INTO public.startsnap_transfer_requests (startsnap_id, from_user_id, to_user_id)
+    VALUES (p_startsnap_id, auth.uid(), recipient_id)
+    RETURNING * INTO transfer;
+
+    RETURN transfer;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_startsnap_transfer(uuid, text) TO authenticated;
+
+-- The sender withdraws a pending transfer
+CREATE OR REPLACE FUNCTION public.cancel_startsnap_transfer(p_request_id uuid)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.startsnap_transfer_requests
+    SET status = 'cancelled', responded_at = now()
+    WHERE id = p_request_id AND from_user_id = auth.uid() AND status = 'pending';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'There is no pending transfer to cancel'
+            USING ERRCODE = 'P0002';
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_startsnap_transfer(uuid) TO authenticated;
+
+-- The recipient accepts (the project moves to them) or declines. Returns the answered request: its status is
+-- 'cancelled' instead of 'accepted' when the transfer went stale, which must not raise or the cancel is rolled back.
+CREATE OR REPLACE FUNCTION public.respond_to_startsnap_transfer(p_request_id uuid, p_accept boolean)
+RETURNS public.startsnap_transfer_requests
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    transfer public.startsnap_transfer_requests;
+    from_username text;
+    to_username text;
+BEGIN
+    SELECT * INTO transfer
+    FROM public.startsnap_transfer_requests
+    WHERE id = p_request_id AND to_user_id = auth.uid() AND status = 'pending'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'There is no pending transfer for you to answer'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT p_accept THEN
+        UPDATE public.startsnap_transfer_requests
+        SET status = 'declined', responded_at = now()
+        WHERE id = transfer.id
+        RETURNING * INTO transfer;
+        RETURN transfer;
+    END IF;
+
+    -- The sender may have lost the project since asking (e.g. an earlier transfer)
+    IF NOT EXISTS (
+        SELECT 1 FROM public.startsnaps
+        WHERE id = transfer.startsnap_id AND user_id = transfer.from_user_id
+    ) THEN
+        UPDATE public.startsnap_transfer_requests
+        SET status = 'cancelled', responded_at = now()
+        WHERE id = transfer.id
+        RETURNING * INTO transfer;
+        RETURN transfer;
+    END IF;
+
+    PERFORM set_config('startsnap.transfer_in_progress', 'on', true);
+    UPDATE public.startsnaps
+    SET user_id = transfer.to_user_id
+    WHERE id = transfer.startsnap_id;
+    PERFORM set_config('startsnap.transfer_in_progress', 'off', true);
+
+    -- Demote first: a project can only have one owner row
+    UPDATE public.startsnap_members
+    SET role = 'editor'
+    WHERE startsnap_id = transfer.startsnap_id AND user_id = transfer.from_user_id;
+
+    INSERT INTO public.startsnap_members (startsnap_id, user_id, role, invited_by, accepted_at)
+    VALUES (transfer.startsnap_id, transfer.to_user_id, 'owner', transfer.from_user_id, now())
+    ON CONFLICT (startsnap_id, user_id) DO UPDATE
+    SET role = 'owner',
+        accepted_at = COALESCE(public.startsnap_members.accepted_at, now());
+
+    -- Vibe logs belong to the project, so their feed entries follow the new owner. The stored display text
+    -- starts with the actor's username, which is swapped as well.
+    SELECT username INTO from_username FROM public.profiles WHERE user_id = transfer.from_user_id;
+    SELECT username INTO to_username FROM public.profiles WHERE user_id = transfer.to_user_id;
+
+    UPDATE public.activity_log
+    SET actor_user_id = transfer.to_user_id,
+        display_text = CASE
+            WHEN from_username IS NOT NULL AND to_username IS NOT NULL
+                 AND left(display_text, length(from_username)) = from_username
+            THEN to_username || substr(display_text, length(from_username) + 1)
+            ELSE display_text
+        END
+    WHERE target_startsnap_id = transfer.startsnap_id
+      AND activity_type IN ('vibe_log_added', 'vibe_log_updated')
+      AND actor_user_id = transfer.from_user_id;
+
+    UPDATE public.startsnap_transfer_requests
+    SET status = 'accepted', responded_at = now()
+    WHERE id = transfer.id
+    RETURNING * INTO transfer;
+
+    PERFORM public.create_activity_log(
+        'project_transferred',
+        transfer.to_user_id,
+        transfer.startsnap_id,
+        NULL, NULL, NULL,
+        transfer.from_user_id,
+        jsonb_build_object('from_user_id', transfer.from_user_id, 'to_user_id', transfer.to_user_id)
+    );
+
+    RETURN transfer;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.respond_to_startsnap_transfer(uuid, boolean) TO authenticated;
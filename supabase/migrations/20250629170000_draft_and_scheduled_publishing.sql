@@ -0,0 +1,339 @@
+/**
+ * supabase/migrations/20250629170000_draft_and_scheduled_publishing.sql
+ *
+ * Feature: Drafts and scheduled publishing for StartSnaps and vibe logs
+ *
+ * Problem: Creating a project or a vibe log publishes it immediately, so builders cannot prepare a launch
+ *          or line up an update for later
+ * Solution: - status ('draft', 'scheduled', 'published') and publish_at on startsnaps and vibelogs
+ *           - RLS shows drafts and scheduled items only to the project's owner and editors, and project images
+ *             follow the visibility of their project
+ *           - project_created / vibe_log_added are logged when an item becomes published, not when the row
+ *             is inserted, and publishing moves created_at to the publish time
+ *           - publish_scheduled_content() (every minute via pg_cron) publishes items whose publish_at has passed
+ *           - is_startsnap_slug_taken() checks slugs across every project, since other builders' drafts are now
+ *             invisible to the client but still hold their slug
+ *           Existing rows default to 'published'. Published items cannot go back to draft.
+ */
+
+ALTER TABLE public.startsnaps
+    ADD COLUMN IF NOT EXISTS status text DEFAULT 'published' NOT NULL,
+    ADD COLUMN IF NOT EXISTS publish_at timestamp with time zone;
+
+ALTER TABLE public.startsnaps DROP CONSTRAINT IF EXISTS startsnaps_status_check;
+ALTER TABLE public.startsnaps ADD CONSTRAINT startsnaps_status_check
+    CHECK (status IN ('draft', 'scheduled', 'published'));
+ALTER TABLE public.startsnaps DROP CONSTRAINT IF EXISTS startsnaps_scheduled_publish_at;
+ALTER TABLE public.startsnaps ADD CONSTRAINT startsnaps_scheduled_publish_at
+    CHECK (status <> 'scheduled' OR publish_at IS NOT NULL);
+
+ALTER TABLE public.vibelogs
+    ADD COLUMN IF NOT EXISTS status text DEFAULT 'published' NOT NULL,
+    ADD COLUMN IF NOT EXISTS publish_at timestamp with time zone;
+
+ALTER TABLE public.vibelogs DROP CONSTRAINT IF EXISTS vibelogs_status_check;
+ALTER TABLE public.vibelogs ADD CONSTRAINT vibelogs_status_check
+    CHECK (status IN ('draft', 'scheduled', 'published'));
+ALTER TABLE public.vibelogs DROP CONSTRAINT IF EXISTS vibelogs_scheduled_publish_at;
+ALTER TABLE public.vibelogs ADD CONSTRAINT vibelogs_scheduled_publish_at
+    CHECK (status <> 'scheduled' OR publish_at IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_startsnaps_scheduled_publish_at
+    ON public.startsnaps (publish_at)
+    WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_vibelogs_scheduled_publish_at
+    ON public.vibelogs (publish_at)
+    WHERE status = 'scheduled';
+
+-- Drafts and scheduled items are only visible to the project's owner and editors
+DROP POLICY IF EXISTS "Allow public viewing of startsnaps" ON public.startsnaps;
+DROP POLICY IF EXISTS "Published startsnaps are public" ON public.startsnaps;
+CREATE POLICY "Published startsnaps are public"
+ON public.startsnaps
+FOR SELECT
+TO public
+USING (status = 'published' OR public.is_startsnap_editor(id));
+
+-- Images, captions and alt text of a project are visible exactly when the project is (the subquery is filtered by
+-- the policy above)
+DROP POLICY IF EXISTS "Anyone can view project images" ON public.startsnap_images;
+DROP POLICY IF EXISTS "Images of visible projects are public" ON public.startsnap_images;
+CREATE POLICY "Images of visible projects are public"
+ON public.startsnap_images
+FOR SELECT
+TO public
+USING (EXISTS (
+    SELECT 1 FROM public.startsnaps s
+    WHERE s.id = startsnap_images.startsnap_id
+));
+
+-- A vibe log is public when it and its project are published (the subquery is filtered by the policy above)
+DROP POLICY IF EXISTS "Allow public viewing of vibelogs" ON public.vibelogs;
+DROP POLICY IF EXISTS "Published vibelogs are public" ON public.vibelogs;
+CREATE POLICY "Published vibelogs are public"
+ON public.vibelogs
+FOR SELECT
+TO public
+USING (
+    (status = 'published' AND EXISTS (
+        SELECT 1 FROM public.startsnaps s
+        WHERE s.id = vibelogs.startsnap_id AND s.status = 'published'
+    ))
+    OR public.is_startsnap_editor(startsnap_id)
+);
+
+-- Trigger: keep publishing one-way and date published items from the moment they went live
+CREATE OR REPLACE FUNCTION public.stamp_publish_transition() RETURNS trigger
+LANGUAGE plpgsql SET search_path = public
+AS $$
+BEGIN
+    IF OLD.status = 'published' AND NEW.status <> 'published' THEN
+        RAISE EXCEPTION 'Published items cannot be turned back into drafts'
+            USING ERRCODE = '23514';
+    END IF;
+
+    IF OLD.status <> 'published' AND NEW.status = 'published' THEN
+        NEW.created_at := now();
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_stamp_startsnap_publish_transition ON public.startsnaps;
+CREATE TRIGGER trigger_stamp_startsnap_publish_transition
+    BEFORE UPDATE OF status ON public.startsnaps
+    FOR EACH ROW
+    EXECUTE FUNCTION public.stamp_publish_transition();
+
+DROP TRIGGER IF EXISTS trigger_stamp_vibelog_publish_transition ON public.vibelogs;
+CREATE TRIGGER trigger_stamp_vibelog_publish_transition
+    BEFORE UPDATE OF status ON public.vibelogs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.stamp_publish_transition();
+
+-- Trigger: log project_created when a project is inserted as published or becomes published later
+CREATE OR REPLACE FUNCTION public.log_project_created() RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status <> 'published' OR (TG_OP = 'UPDATE' AND OLD.status = 'published') THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM public.create_activity_log(
+        'project_created',
+        NEW.user_id,
+        NEW.id,
+        NULL, NULL, NULL, NULL,
+        jsonb_build_object('category', NEW.category, 'type', NEW.type)
+    );
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_log_project_published ON public.startsnaps;
+CREATE TRIGGER trigger_log_project_published
+    AFTER UPDATE OF status ON public.startsnaps
+    FOR EACH ROW
+    EXECUTE FUNCTION public.log_project_created();
+
+CREATE OR REPLACE FUNCTION public.log_project_updated() RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    has_meaningful_changes boolean := false;
+BEGIN
+    -- Drafts and scheduled projects are not in the feed yet; publishing is logged as project_created
+    IF OLD.status <> 'published' OR NEW.status <> 'published' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Check for meaningful changes that warrant activity logging
+    IF (OLD.name IS DISTINCT FROM NEW.name) OR
+       (OLD.description IS DISTINCT FROM NEW.description) OR
+       (OLD.category IS DISTINCT FROM NEW.category) OR
+       (OLD.type IS DISTINCT FROM NEW.type) OR
+       (OLD.tools_used IS DISTINCT FROM NEW.tools_used) OR
+       (OLD.tags IS DISTINCT FROM NEW.tags) OR
+       (OLD.live_demo_url IS DISTINCT FROM NEW.live_demo_url) OR
+       (OLD.demo_video_url IS DISTINCT FROM NEW.demo_video_url) THEN
+        has_meaningful_changes := true;
+    END IF;
+
+    IF has_meaningful_changes THEN
+        -- Log specific type evolution (higher priority)
+        IF OLD.type IS DISTINCT FROM NEW.type THEN
+            PERFORM public.create_activity_log(
+                'project_type_evolved',
+                NEW.user_id,
+                NEW.id,
+                NULL, NULL, NULL, NULL,
+                jsonb_build_object('old_value', OLD.type, 'new_value', NEW.type)
+            );
+        END IF;
+
+        -- Log category changes
+        IF OLD.category IS DISTINCT FROM NEW.category THEN
+            PERFORM public.create_activity_log(
+                'project_category_changed',
+                NEW.user_id,
+                NEW.id,
+                NULL, NULL, NULL, NULL,
+                jsonb_build_object('old_value', OLD.category, 'new_value', NEW.category),
+                'low_priority'
+            );
+        END IF;
+
+        -- Log tools updates
+        IF OLD.tools_used IS DISTINCT FROM NEW.tools_used THEN
+            PERFORM public.create_activity_log(
+                'project_tools_updated',
+                NEW.user_id,
+                NEW.id,
+                NULL, NULL, NULL, NULL,
+                jsonb_build_object('tools', NEW.tools_used),
+                'low_priority'
+            );
+        END IF;
+
+        -- Log tags updates
+        IF OLD.tags IS DISTINCT FROM NEW.tags AND NOT (OLD.type IS DISTINCT FROM NEW.type) THEN
+            PERFORM public.create_activity_log(
+                'project_tags_updated',
+                NEW.user_id,
+                NEW.id,
+                NULL, NULL, NULL, NULL,
+                jsonb_build_object('tags', NEW.tags),
+                'low_priority'
+            );
+        END IF;
+
+        -- Log general project update (lower priority, only if no specific updates logged)
+        IF NOT (OLD.type IS DISTINCT FROM NEW.type) AND
+           NOT (OLD.category IS DISTINCT FROM NEW.category) AND
+           NOT (OLD.tools_used IS DISTINCT FROM NEW.tools_used) AND
+           NOT (OLD.tags IS DISTINCT FROM NEW.tags) THEN
+            PERFORM public.create_activity_log(
+                'project_updated',
+                NEW.user_id,
+                NEW.id,
+                NULL, NULL, NULL, NULL,
+                '{}'::jsonb,
+                'low_priority'
+            );
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Trigger: log vibe_log_added when a vibe log on a published project goes live
+CREATE OR REPLACE FUNCTION public.log_vibe_log_added() RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    project_owner_id uuid;
+    project_status text;
+BEGIN
+    IF NEW.status <> 'published' OR (TG_OP = 'UPDATE' AND OLD.status = 'published') THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT user_id, status INTO project_owner_id, project_status
+    FROM public.startsnaps
+    WHERE id = NEW.startsnap_id;
+
+    -- Logs of a project that is not public yet would leak it into the feed
+    IF project_status IS DISTINCT FROM 'published' THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM public.create_activity_log(
+        'vibe_log_added',
+        COALESCE(auth.uid(), project_owner_id),
+        NEW.startsnap_id,
+        NEW.id,
+        NULL, NULL, NULL,
+        jsonb_build_object('log_type', NEW.log_type)
+    );
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_log_vibe_log_published ON public.vibelogs;
+CREATE TRIGGER trigger_log_vibe_log_published
+    AFTER UPDATE OF status ON public.vibelogs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.log_vibe_log_added();
+
+-- Trending only ranks published projects (RLS would otherwise let owners see their own drafts here)
+CREATE OR REPLACE FUNCTION public.trending_startsnaps(
+    p_window text DEFAULT '7d',
+    p_limit integer DEFAULT 3
+) RETURNS SETOF public.startsnaps
+LANGUAGE sql STABLE SET search_path = public
+AS $$
+    SELECT s.*
+    FROM public.startsnaps s
+    WHERE s.status = 'published'
+    ORDER BY public.startsnap_trending_score(s.id, p_window) DESC,
+             s.support_count DESC,
+             s.created_at DESC
+    LIMIT GREATEST(p_limit, 0);
+$$;
+
+-- Publishes scheduled projects and vibe logs whose time has come; the update triggers above log the activity
+CREATE OR REPLACE FUNCTION public.publish_scheduled_content()
+RETURNS integer
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    published_projects integer;
+    published_logs integer;
+BEGIN
+    UPDATE public.startsnaps
+    SET status = 'published'
+    WHERE status = 'scheduled' AND publish_at <= now();
+    GET DIAGNOSTICS published_projects = ROW_COUNT;
+
+    -- Projects first, so logs scheduled for the same moment see a published project
+    UPDATE public.vibelogs
+    SET status = 'published'
+    WHERE status = 'scheduled' AND publish_at <= now();
+    GET DIAGNOSTICS published_logs = ROW_COUNT;
+
+    RETURN published_projects + published_logs;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.publish_scheduled_content() FROM PUBLIC, anon, authenticated;
+
+-- Whether another project already uses a slug, including ones RLS hides from the caller
+CREATE OR REPLACE FUNCTION public.is_startsnap_slug_taken(p_slug text, p_exclude_id uuid DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.startsnaps
+        WHERE slug = p_slug
+          AND (p_exclude_id IS NULL OR id <> p_exclude_id)
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_startsnap_slug_taken(text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_startsnap_slug_taken(text, uuid) TO authenticated;
+
+-- Run the publisher every minute where pg_cron is available
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'publish-scheduled-content',
+            '* * * * *',
+            $cron$SELECT public.publish_scheduled_content()$cron$
+        );
+    END IF;
+END;
+$$;
@@ -0,0 +1,82 @@
+/**
+ * supabase/migrations/20250629180000_vibelog_revisions.sql
+ *
+ * Feature: Vibe log revision history
+ *
+ * Problem: Editing a vibe log overwrites its type, title and content in place, so readers cannot tell an entry
+ *          was changed and builders cannot get an earlier version back
+ * Solution: - vibelog_revisions keeps every replaced version of a published vibe log, written by a BEFORE UPDATE
+ *             trigger so edits from any client are recorded
+ *           - vibelogs.edited_at marks entries that were changed after publishing; only the trigger sets it, so the
+ *             marker cannot be cleared or forged by a direct update
+ *           - Revisions are readable by everyone who can read the vibe log; restoring one is a normal update
+ *           Edits to drafts and scheduled entries are not recorded, since nobody else has seen them yet.
+ */
+
+ALTER TABLE public.vibelogs
+    ADD COLUMN IF NOT EXISTS edited_at timestamp with time zone;
+
+CREATE TABLE IF NOT EXISTS public.vibelog_revisions (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    vibelog_id uuid NOT NULL REFERENCES public.vibelogs(id) ON DELETE CASCADE,
+    log_type text NOT NULL,
+    title text NOT NULL,
+    content text,
+    created_at timestamp with time zone NOT NULL,   -- when this version was written
+    replaced_at timestamp with time zone DEFAULT now() NOT NULL,
+    replaced_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_vibelog_revisions_vibelog_id
+    ON public.vibelog_revisions (vibelog_id, replaced_at DESC);
+
+ALTER TABLE public.vibelog_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Visible whenever the vibe log itself is (the subquery is filtered by the vibelogs policies);
+-- rows are only written by the trigger below
+DROP POLICY IF EXISTS "Revisions are visible with their vibe log" ON public.vibelog_revisions;
+CREATE POLICY "Revisions are visible with their vibe log"
+ON public.vibelog_revisions
+FOR SELECT
+TO public
+USING (EXISTS (
+    SELECT 1 FROM public.vibelogs v
+    WHERE v.id = vibelog_revisions.vibelog_id
+));
+
+-- Trigger: keep the replaced version of a published vibe log and mark the entry as edited. Fires on every
+-- update so edited_at only ever changes together with a recorded revision.
+CREATE OR REPLACE FUNCTION public.record_vibelog_revision() RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    IF OLD.status <> 'published'
+       OR (NEW.log_type IS NOT DISTINCT FROM OLD.log_type
+           AND NEW.title IS NOT DISTINCT FROM OLD.title
+           AND NEW.content IS NOT DISTINCT FROM OLD.content) THEN
+        NEW.edited_at := OLD.edited_at;
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO vibelog_revisions (vibelog_id, log_type, title, content, created_at, replaced_by)
+    VALUES (
+        OLD.id,
+        OLD.log_type,
+        OLD.title,
+        OLD.content,
+        COALESCE(OLD.edited_at, OLD.created_at, now()),
+        auth.uid()
+    );
+
+    NEW.edited_at := now();
+    RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_vibelog_revision() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS trigger_record_vibelog_revision ON public.vibelogs;
+CREATE TRIGGER trigger_record_vibelog_revision
+    BEFORE UPDATE ON public.vibelogs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_vibelog_revision();
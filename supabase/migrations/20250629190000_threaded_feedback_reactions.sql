@@ -0,0 +1,101 @@
+/**
+ * supabase/migrations/20250629190000_threaded_feedback_reactions.sql
+ *
+ * Feature: Nested feedback replies and emoji reactions
+ *
+ * Problem: Feedback supports exactly two levels (feedbacks → feedback_replies), so a reply cannot answer another
+ *          reply, and the only way to agree with a comment is to write one
+ * Solution: - feedback_replies.parent_reply_id lets a reply answer another reply. parent_feedback_id keeps pointing
+ *             at the feedback the thread started from (a trigger copies it from the parent reply), so thread
+ *             notifications, activity and the notify-new-reply emails work unchanged. Deleting a reply deletes
+ *             the replies below it. A reply cannot be moved after posting, so threads cannot form cycles or
+ *             reach into another project's feedback.
+ *           - feedback_reactions stores one row per user, comment and emoji. A reaction targets either a
+ *             feedback or a reply; the allowed emoji match FEEDBACK_REACTIONS in src/config/reactions.ts.
+ */
+
+ALTER TABLE public.feedback_replies
+    ADD COLUMN IF NOT EXISTS parent_reply_id uuid REFERENCES public.feedback_replies(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_replies_parent_reply_id
+    ON public.feedback_replies (parent_reply_id)
+    WHERE parent_reply_id IS NOT NULL;
+
+-- Trigger: a nested reply belongs to the same feedback thread as the reply it answers, and stays where it was posted
+CREATE OR REPLACE FUNCTION public.set_feedback_reply_thread() RETURNS trigger
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+    thread_feedback_id uuid;
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        IF (NEW.parent_reply_id, NEW.parent_feedback_id) IS DISTINCT FROM (OLD.parent_reply_id, OLD.parent_feedback_id) THEN
+            RAISE EXCEPTION 'A reply cannot be moved to another comment'
+                USING ERRCODE = '23514';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.parent_reply_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT parent_feedback_id INTO thread_feedback_id
+    FROM feedback_replies
+    WHERE id = NEW.parent_reply_id;
+
+    IF thread_feedback_id IS NULL THEN
+        RAISE EXCEPTION 'The reply you are answering no longer exists' USING ERRCODE = 'foreign_key_violation';
+    END IF;
+
+    NEW.parent_feedback_id := thread_feedback_id;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_set_feedback_reply_thread ON public.feedback_replies;
+CREATE TRIGGER trigger_set_feedback_reply_thread
+    BEFORE INSERT OR UPDATE OF parent_reply_id, parent_feedback_id ON public.feedback_replies
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_feedback_reply_thread();
+
+CREATE TABLE IF NOT EXISTS public.feedback_reactions (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    feedback_id uuid REFERENCES public.feedbacks(id) ON DELETE CASCADE,
+    reply_id uuid REFERENCES public.feedback_replies(id) ON DELETE CASCADE,
+    emoji text NOT NULL CHECK (emoji IN ('👍', '❤️', '🎉', '🚀', '👀', '😂')),
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+
+    CONSTRAINT feedback_reactions_single_target CHECK ((feedback_id IS NULL) <> (reply_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_feedback_reactions_unique_feedback
+    ON public.feedback_reactions (feedback_id, user_id, emoji)
+    WHERE feedback_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_feedback_reactions_unique_reply
+    ON public.feedback_reactions (reply_id, user_id, emoji)
+    WHERE reply_id IS NOT NULL;
+
+ALTER TABLE public.feedback_reactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view feedback reactions" ON public.feedback_reactions;
+CREATE POLICY "Anyone can view feedback reactions"
+ON public.feedback_reactions
+FOR SELECT
+TO public
+USING (true);
+
+DROP POLICY IF EXISTS "Users can add their own feedback reactions" ON public.feedback_reactions;
+CREATE POLICY "Users can add their own feedback reactions"
+ON public.feedback_reactions
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can remove their own feedback reactions" ON public.feedback_reactions;
+CREATE POLICY "Users can remove their own feedback reactions"
+ON public.feedback_reactions
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
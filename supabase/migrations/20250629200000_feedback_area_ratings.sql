@@ -0,0 +1,85 @@
+/**
+ * supabase/migrations/20250629200000_feedback_area_ratings.sql
+ *
+ * Feature: Structured feedback on a project's feedback areas
+ *
+ * Problem: startsnaps.feedback_tags lets an owner say which areas they want feedback on, but feedback is a single
+ *          free-text content with nothing tying it to those areas
+ * Solution: feedback_ratings stores a 1–5 rating per feedback entry and area. save_feedback_ratings() replaces the
+ *           ratings of a feedback entry in one call and only accepts areas listed in the project's feedback_tags
+ *           at the time, and is the only way to write ratings. Ratings are visible exactly when their feedback
+ *           is, so the project page can show a scorecard per area and filter feedback by area. Ratings on areas
+ *           the owner later removes are no longer shown and are dropped when the feedback is next edited.
+ */
+
+CREATE TABLE IF NOT EXISTS public.feedback_ratings (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    feedback_id uuid NOT NULL REFERENCES public.feedbacks(id) ON DELETE CASCADE,
+    area text NOT NULL,
+    rating smallint NOT NULL CHECK (rating BETWEEN 1 AND 5),
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+
+    CONSTRAINT feedback_ratings_unique_area UNIQUE (feedback_id, area)
+);
+
+ALTER TABLE public.feedback_ratings ENABLE ROW LEVEL SECURITY;
+
+-- Follows the feedbacks SELECT policies, so ratings of feedback the caller cannot see stay hidden too.
+-- No write policies: save_feedback_ratings() is the only way to change ratings.
+DROP POLICY IF EXISTS "Ratings of visible feedback are public" ON public.feedback_ratings;
+CREATE POLICY "Ratings of visible feedback are public"
+ON public.feedback_ratings
+FOR SELECT
+TO public
+USING (EXISTS (
+    SELECT 1 FROM public.feedbacks f
+    WHERE f.id = feedback_ratings.feedback_id
+));
+
+-- Replaces the ratings of a feedback entry. p_ratings maps area to rating, e.g. {"UI/UX": 4, "Performance": 2}.
+-- Runs as the definer because feedback_ratings has no write policies; only the feedback's author gets past the check.
+CREATE OR REPLACE FUNCTION public.save_feedback_ratings(
+    p_feedback_id uuid,
+    p_ratings jsonb
+) RETURNS SETOF public.feedback_ratings
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    project_areas text[];
+    unknown_area text;
+BEGIN
+    SELECT COALESCE(s.feedback_tags, ARRAY[]::text[]) INTO project_areas
+    FROM public.feedbacks f
+    JOIN public.startsnaps s ON s.id = f.startsnap_id
+    WHERE f.id = p_feedback_id AND f.user_id = auth.uid();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'You can only rate areas in your own feedback'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT r.key INTO unknown_area
+    FROM jsonb_each_text(COALESCE(p_ratings, '{}'::jsonb)) AS r(key, value)
+    WHERE NOT (r.key = ANY (project_areas))
+    LIMIT 1;
+
+    IF unknown_area IS NOT NULL THEN
+        RAISE EXCEPTION '"%" is not one of this project''s feedback areas', unknown_area
+            USING ERRCODE = '23514';
+    END IF;
+
+    DELETE FROM public.feedback_ratings WHERE feedback_id = p_feedback_id;
+
+    INSERT INTO public.feedback_ratings (feedback_id, area, rating)
+    SELECT p_feedback_id, r.key, r.value::smallint
+    FROM jsonb_each_text(COALESCE(p_ratings, '{}'::jsonb)) AS r(key, value);
+
+    RETURN QUERY
+    SELECT * FROM public.feedback_ratings
+    WHERE feedback_id = p_feedback_id
+    ORDER BY area;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_feedback_ratings(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_feedback_ratings(uuid, jsonb) TO authenticated;
@@ -0,0 +1,198 @@
+/**
+ * supabase/migrations/20250629210000_feedback_moderation.sql
+ *
+ * Feature: Owner moderation of feedback
+ *
+ * Problem: Only the author of a comment can edit or delete it, so project owners cannot highlight useful
+ *          feedback, show what they acted on, or keep abusive comments off their project page
+ * Solution: - Owners can pin feedback (pinned_at), mark it addressed (addressed_at), optionally linking the vibe
+ *             log that addressed it (addressed_vibelog_id), and hide feedback and replies (hidden_at, hidden_by)
+ *           - New UPDATE policies let the project owner change those columns; guard triggers keep owners from
+ *             editing content and authors from changing moderation columns, and clear moderation columns on
+ *             insert so nobody can post pre-pinned, pre-addressed or pre-hidden comments
+ *           - Hidden comments are only visible to their author and the project owner. Replies below a hidden
+ *             comment are no longer shown in the thread.
+ */
+
+ALTER TABLE public.feedbacks
+    ADD COLUMN IF NOT EXISTS pinned_at timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS addressed_at timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS addressed_vibelog_id uuid REFERENCES public.vibelogs(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS hidden_at timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS hidden_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.feedback_replies
+    ADD COLUMN IF NOT EXISTS hidden_at timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS hidden_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- True when the signed-in user owns the project the feedback was left on. SECURITY DEFINER so the feedback
+-- policies can call it without recursing into their own RLS.
+CREATE OR REPLACE FUNCTION public.is_feedback_moderator(p_feedback_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT auth.uid() IS NOT NULL AND EXISTS (
+        SELECT 1
+        FROM public.feedbacks f
+        JOIN public.startsnaps s ON s.id = f.startsnap_id
+        WHERE f.id = p_feedback_id AND s.user_id = auth.uid()
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_feedback_moderator(uuid) TO anon, authenticated;
+
+-- Visibility: hidden comments stay visible to their author and the project owner
+DROP POLICY IF EXISTS "Allow public viewing of feedbacks" ON public.feedbacks;
+DROP POLICY IF EXISTS "Visible feedback is public" ON public.feedbacks;
+CREATE POLICY "Visible feedback is public"
+ON public.feedbacks
+FOR SELECT
+TO public
+USING (
+    hidden_at IS NULL
+    OR user_id = auth.uid()
+    OR public.is_feedback_moderator(id)
+);
+
+DROP POLICY IF EXISTS "Allow public viewing of feedback replies" ON public.feedback_replies;
+DROP POLICY IF EXISTS "Visible feedback replies are public" ON public.feedback_replies;
+CREATE POLICY "Visible feedback replies are public"
+ON public.feedback_replies
+FOR SELECT
+TO public
+USING (
+    hidden_at IS NULL
+    OR user_id = auth.uid()
+    OR public.is_feedback_moderator(parent_feedback_id)
+);
+
+-- Moderation: the project owner may update feedback and replies; the guard triggers below limit which columns
+DROP POLICY IF EXISTS "Project owners can moderate feedback" ON public.feedbacks;
+CREATE POLICY "Project owners can moderate feedback"
+ON public.feedbacks
+FOR UPDATE
+TO authenticated
+USING (public.is_feedback_moderator(id))
+WITH CHECK (public.is_feedback_moderator(id));
+
+DROP POLICY IF EXISTS "Project owners can moderate feedback replies" ON public.feedback_replies;
+CREATE POLICY "Project owners can moderate feedback replies"
+ON public.feedback_replies
+FOR UPDATE
+TO authenticated
+USING (public.is_feedback_moderator(parent_feedback_id))
+WITH CHECK (public.is_feedback_moderator(parent_feedback_id));
+
+-- Trigger: new feedback starts unmoderated; owners only change moderation columns, authors only change their content
+CREATE OR REPLACE FUNCTION public.guard_feedback_moderation() RETURNS trigger
+LANGUAGE plpgsql SET search_path = public
+AS $$
+BEGIN
+    -- Server-side writes (no signed-in user) are not restricted
+    IF auth.uid() IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    -- Moderation happens after posting, through UPDATE
+    IF TG_OP = 'INSERT' THEN
+        NEW.pinned_at := NULL;
+        NEW.addressed_at := NULL;
+        NEW.addressed_vibelog_id := NULL;
+        NEW.hidden_at := NULL;
+        NEW.hidden_by := NULL;
+        RETURN NEW;
+    END IF;
+
+    IF (NEW.pinned_at, NEW.addressed_at, NEW.addressed_vibelog_id, NEW.hidden_at, NEW.hidden_by)
+       IS DISTINCT FROM (OLD.pinned_at, OLD.addressed_at, OLD.addressed_vibelog_id, OLD.hidden_at, OLD.hidden_by) THEN
+        IF NOT public.is_feedback_moderator(OLD.id) THEN
+            RAISE EXCEPTION 'Only the project owner can pin, resolve or hide feedback'
+                USING ERRCODE = '42501';
+        END IF;
+
+        IF NEW.addressed_vibelog_id IS NOT NULL AND NOT EXISTS (
+            SELECT 1 FROM public.vibelogs v
+            WHERE v.id = NEW.addressed_vibelog_id AND v.startsnap_id = NEW.startsnap_id
+        ) THEN
+            RAISE EXCEPTION 'The linked vibe log must belong to the same project'
+                USING ERRCODE = '23514';
+        END IF;
+
+        -- Linking a vibe log marks the feedback addressed; un-addressing it drops the link
+        IF NEW.addressed_vibelog_id IS NOT NULL THEN
+            NEW.addressed_at := COALESCE(NEW.addressed_at, now());
+        ELSIF NEW.addressed_at IS NULL THEN
+            NEW.addressed_vibelog_id := NULL;
+        END IF;
+
+        -- hidden_by always names whoever hid the comment
+        NEW.hidden_by := CASE
+            WHEN NEW.hidden_at IS NULL THEN NULL
+            WHEN NEW.hidden_at IS DISTINCT FROM OLD.hidden_at THEN auth.uid()
+            ELSE OLD.hidden_by
+        END;
+    END IF;
+
+    IF (NEW.content, NEW.user_id, NEW.startsnap_id) IS DISTINCT FROM (OLD.content, OLD.user_id, OLD.startsnap_id)
+       AND auth.uid() IS DISTINCT FROM OLD.user_id THEN
+        RAISE EXCEPTION 'Only the author can edit this feedback'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_guard_feedback_moderation ON public.feedbacks;
+CREATE TRIGGER trigger_guard_feedback_moderation
+    BEFORE INSERT OR UPDATE ON public.feedbacks
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_feedback_moderation();
+
+CREATE OR REPLACE FUNCTION public.guard_feedback_reply_moderation() RETURNS trigger
+LANGUAGE plpgsql SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.hidden_at := NULL;
+        NEW.hidden_by := NULL;
+        RETURN NEW;
+    END IF;
+
+    IF (NEW.hidden_at, NEW.hidden_by) IS DISTINCT FROM (OLD.hidden_at, OLD.hidden_by) THEN
+        IF NOT public.is_feedback_moderator(OLD.parent_feedback_id) THEN
+            RAISE EXCEPTION 'Only the project owner can hide replies'
+                USING ERRCODE = '42501';
+        END IF;
+
+        NEW.hidden_by := CASE
+            WHEN NEW.hidden_at IS NULL THEN NULL
+            WHEN NEW.hidden_at IS DISTINCT FROM OLD.hidden_at THEN auth.uid()
+            ELSE OLD.hidden_by
+        END;
+    END IF;
+
+    IF (NEW.content, NEW.user_id, NEW.parent_feedback_id, NEW.parent_reply_id)
+       IS DISTINCT FROM (OLD.content, OLD.user_id, OLD.parent_feedback_id, OLD.parent_reply_id)
+       AND auth.uid() IS DISTINCT FROM OLD.user_id THEN
+        RAISE EXCEPTION 'Only the author can edit this reply'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_guard_feedback_reply_moderation ON public.feedback_replies;
+CREATE TRIGGER trigger_guard_feedback_reply_moderation
+    BEFORE INSERT OR UPDATE ON public.feedback_replies
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_feedback_reply_moderation();
+
+CREATE INDEX IF NOT EXISTS idx_feedbacks_addressed_vibelog_id
+    ON public.feedbacks (addressed_vibelog_id)
+    WHERE addressed_vibelog_id IS NOT NULL;
@@ -0,0 +1,569 @@
+/**
+ * supabase/migrations/20250629220000_content_reports.sql
+ *
+ * Feature: Content reports and an admin moderation queue
+ *
+ * Problem: Nobody can report spam projects, feedback or profiles, and there is no admin role, so the only
+ *          moderation is the activity_spam_monitoring view
+ * Solution: - is_admin() reads the 'admin' role claim from the JWT's app_metadata, which only the service role
+ *             can set (e.g. auth.admin.updateUserById(id, { app_metadata: { role: 'admin' } }))
+ *           - reports stores one report per reporter and target (startsnap, feedback, feedback_reply, profile)
+ *             with a reason; reporters see their own reports, admins see all of them
+ *           - resolve_report() lets an admin dismiss a report, hide the reported content or suspend its author.
+ *             Every open report on the same target is resolved with it and the decision is recorded in
+ *             moderation_actions, the audit trail.
+ *           - Hidden projects (startsnaps.hidden_at) are only visible to their owner, editors and admins.
+ *             Feedback and replies reuse hidden_at from the owner moderation migration.
+ *           - unhide_content() and lift_suspension() let an admin reverse a decision, also recorded in
+ *             moderation_actions
+ *           - Suspended users (user_suspensions) cannot post or edit projects, vibe logs, feedback, replies or
+ *             requests, and cannot react, rate, support, follow or report
+ */
+
+-- True when the signed-in user carries the admin role claim
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean
+LANGUAGE sql STABLE SET search_path = public
+AS $$
+    SELECT COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin';
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_admin() TO anon, authenticated;
+
+-- Admins may moderate any feedback, which also lets them read hidden comments and pass the guard triggers
+CREATE OR REPLACE FUNCTION public.is_feedback_moderator(p_feedback_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT auth.uid() IS NOT NULL AND (
+        public.is_admin()
+        OR EXISTS (
+            SELECT 1
+            FROM public.feedbacks f
+            JOIN public.startsnaps s ON s.id = f.startsnap_id
+            WHERE f.id = p_feedback_id AND s.user_id = auth.uid()
+        )
+    );
+$$;
+
+-- ---------------------------------------------------------------------------------------------------------------
+-- Hidden projects
+-- ---------------------------------------------------------------------------------------------------------------
+
+ALTER TABLE public.startsnaps
+    ADD COLUMN IF NOT EXISTS hidden_at timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS hidden_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Vibe logs follow their project through the EXISTS subquery of "Published vibelogs are public"
+DROP POLICY IF EXISTS "Published startsnaps are public" ON public.startsnaps;
+CREATE POLICY "Published startsnaps are public"
+ON public.startsnaps
+FOR SELECT
+TO public
+USING (
+    (status = 'published' AND hidden_at IS NULL)
+    OR public.is_startsnap_editor(id)
+    OR public.is_admin()
+);
+
+-- Trigger: only admins hide or unhide projects
+CREATE OR REPLACE FUNCTION public.guard_startsnap_hidden() RETURNS trigger
+LANGUAGE plpgsql SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF (NEW.hidden_at, NEW.hidden_by) IS DISTINCT FROM (OLD.hidden_at, OLD.hidden_by)
+       AND NOT public.is_admin() THEN
+        RAISE EXCEPTION 'Only admins can hide or unhide projects'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_guard_startsnap_hidden ON public.startsnaps;
+CREATE TRIGGER trigger_guard_startsnap_hidden
+    BEFORE UPDATE ON public.startsnaps
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_startsnap_hidden();
+
+-- Trending never ranks hidden projects, including for their owner
+CREATE OR REPLACE FUNCTION public.trending_startsnaps(
+    p_window text DEFAULT '7d',
+    p_limit integer DEFAULT 3
+) RETURNS SETOF public.startsnaps
+LANGUAGE sql STABLE SET search_path = public
+AS $$
+    SELECT s.*
+    FROM public.startsnaps s
+    WHERE s.status = 'published' AND s.hidden_at IS NULL
+    ORDER BY public.startsnap_trending_score(s.id, p_window) DESC,
+             s.support_count DESC,
+             s.created_at DESC
+    LIMIT GREATEST(p_limit, 0);
+$$;
+
+-- ---------------------------------------------------------------------------------------------------------------
+-- Suspensions
+-- ---------------------------------------------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS public.user_suspensions (
+    user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    reason text,
+    suspended_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.user_suspensions ENABLE ROW LEVEL SECURITY;
+
+-- Suspended users can see their own suspension; writes go through resolve_report() and lift_suspension()
+DROP POLICY IF EXISTS "Users and admins can view suspensions" ON public.user_suspensions;
+CREATE POLICY "Users and admins can view suspensions"
+ON public.user_suspensions
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid() OR public.is_admin());
+
+CREATE OR REPLACE FUNCTION public.is_user_suspended(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT EXISTS (SELECT 1 FROM public.user_suspensions WHERE user_id = p_user_id);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_user_suspended(uuid) TO authenticated;
+
+-- Trigger: suspended users cannot post or edit content, react, rate, follow or report. Updates made by other
+-- triggers (support counts, search vectors) are not edits by the user and pass.
+CREATE OR REPLACE FUNCTION public.block_suspended_user_content() RETURNS trigger
+LANGUAGE plpgsql SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL OR (TG_OP = 'UPDATE' AND pg_trigger_depth() > 1) THEN
+        RETURN NEW;
+    END IF;
+
+    IF public.is_user_suspended(auth.uid()) THEN
+        RAISE EXCEPTION 'Your account is suspended and cannot post, edit or react to content'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_block_suspended_startsnaps ON public.startsnaps;
+CREATE TRIGGER trigger_block_suspended_startsnaps
+    BEFORE INSERT OR UPDATE ON public.startsnaps
+    FOR EACH ROW
+    EXECUTE FUNCTION public.block_suspended_user_content();
+
+DROP TRIGGER IF EXISTS trigger_block_suspended_vibelogs ON public.vibelogs;
+CREATE TRIGGER trigger_block_suspended_vibelogs
+    BEFORE INSERT OR UPDATE ON public.vibelogs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.block_suspended_user_content();
+
+DROP TRIGGER IF EXISTS trigger_block_suspended_feedbacks ON public.feedbacks;
+CREATE TRIGGER trigger_block_suspended_feedbacks
+    BEFORE INSERT OR UPDATE ON public.feedbacks
+    FOR EACH ROW
+    EXECUTE FUNCTION public.block_suspended_user_content();
+
+DROP TRIGGER IF EXISTS trigger_block_suspended_feedback_replies ON public.feedback_replies;
+CREATE TRIGGER trigger_block_suspended_feedback_replies
+    BEFORE INSERT OR UPDATE ON public.feedback_replies
+    FOR EACH ROW
+    EXECUTE FUNCTION public.block_suspended_user_content();
+
+DROP TRIGGER IF EXISTS trigger_block_suspended_vibe_requests ON public.vibe_requests;
+CREATE TRIGGER trigger_block_suspended_vibe_requests
+    BEFORE INSERT OR UPDATE ON public.vibe_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION public.block_suspended_user_content();
+
+DROP TRIGGER IF EXISTS trigger_block_suspended_feedback_reactions ON public.feedback_reactions;
+CREATE TRIGGER trigger_block_suspended_feedback_reactions
+    BEFORE INSERT ON public.feedback_reactions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.block_suspended_user_content();
+
+DROP TRIGGER IF EXISTS trigger_block_suspended_feedback_ratings ON public.feedback_ratings;
+CREATE TRIGGER trigger_block_suspended_feedback_ratings
+    BEFORE INSERT OR UPDATE ON public.feedback_ratings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.block_suspended_user_content();
+
+DROP TRIGGER IF EXISTS trigger_block_suspended_project_supporters ON public.project_supporters;
+CREATE TRIGGER trigger_block_suspended_project_supporters
+    BEFORE INSERT ON public.project_supporters
+    FOR EACH ROW
+    EXECUTE FUNCTION public.block_suspended_user_content();
+
+DROP TRIGGER IF EXISTS trigger_block_suspended_follows ON public.follows;
+CREATE TRIGGER trigger_block_suspended_follows
+    BEFORE INSERT ON public.follows
+    FOR EACH ROW
+    EXECUTE FUNCTION public.block_suspended_user_content();
+
+-- ---------------------------------------------------------------------------------------------------------------
+-- Reports
+-- ---------------------------------------------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS public.reports (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    reporter_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    target_type text NOT NULL CHECK (target_type IN ('startsnap', 'feedback', 'feedback_reply', 'profile')),
+    target_id uuid NOT NULL, -- The row's id; the user_id for profiles
+    target_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL, -- Author of the content, set on insert
+    reason text NOT NULL CHECK (reason IN ('spam', 'harassment', 'inappropriate', 'impersonation', 'other')),
+    details text CHECK (char_length(details) <= 1000),
+    status text DEFAULT 'open' NOT NULL CHECK (status IN ('open', 'dismissed', 'actioned')),
+    resolution_note text,
+    resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    resolved_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+
+    CONSTRAINT reports_other_needs_details CHECK (reason <> 'other' OR char_length(trim(details)) > 0)
+);
+
+-- One open report per reporter and target
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_open_unique
+    ON public.reports (reporter_id, target_type, target_id)
+    WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_reports_status_created_at
+    ON public.reports (status, created_at);
+CREATE INDEX IF NOT EXISTS idx_reports_target
+    ON public.reports (target_type, target_id);
+
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can report content" ON public.reports;
+CREATE POLICY "Users can report content"
+ON public.reports
+FOR INSERT
+TO authenticated
+WITH CHECK (reporter_id = auth.uid());
+
+DROP POLICY IF EXISTS "Reporters and admins can view reports" ON public.reports;
+CREATE POLICY "Reporters and admins can view reports"
+ON public.reports
+FOR SELECT
+TO authenticated
+USING (reporter_id = auth.uid() OR public.is_admin());
+
+-- Trigger: resolves the author of the reported content and keeps new reports open.
+-- SECURITY DEFINER so hidden or draft content the reporter can no longer read can still be resolved.
+CREATE OR REPLACE FUNCTION public.prepare_report() RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    NEW.target_user_id := CASE NEW.target_type
+        WHEN 'startsnap' THEN (SELECT user_id FROM public.startsnaps WHERE id = NEW.target_id)
+        WHEN 'feedback' THEN (SELECT user_id FROM public.feedbacks WHERE id = NEW.target_id)
+        WHEN 'feedback_reply' THEN (SELECT user_id FROM public.feedback_replies WHERE id = NEW.target_id)
+        WHEN 'profile' THEN (SELECT user_id FROM public.profiles WHERE user_id = NEW.target_id)
+    END;
+
+    IF NEW.target_user_id IS NULL THEN
+        RAISE EXCEPTION 'The reported content no longer exists'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NEW.target_user_id = NEW.reporter_id THEN
+        RAISE EXCEPTION 'You cannot report your own content'
+            USING ERRCODE = '23514';
+    END IF;
+
+    NEW.status := 'open';
+    NEW.resolution_note := NULL;
+    NEW.resolved_by := NULL;
+    NEW.resolved_at := NULL;
+    NEW.details := NULLIF(trim(NEW.details), '');
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prepare_report ON public.reports;
+CREATE TRIGGER trigger_prepare_report
+    BEFORE INSERT ON public.reports
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prepare_report();
+
+DROP TRIGGER IF EXISTS trigger_block_suspended_reports ON public.reports;
+CREATE TRIGGER trigger_block_suspended_reports
+    BEFORE INSERT ON public.reports
+    FOR EACH ROW
+    EXECUTE FUNCTION public.block_suspended_user_content();
+
+-- ---------------------------------------------------------------------------------------------------------------
+-- Audit trail
+-- ---------------------------------------------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS public.moderation_actions (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    admin_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    report_id uuid REFERENCES public.reports(id) ON DELETE SET NULL, -- NULL when not tied to a report
+    action text NOT NULL
+        CHECK (action IN ('dismiss', 'hide_content', 'suspend_user', 'unhide_content', 'unsuspend_user')),
+    target_type text NOT NULL,
+    target_id uuid NOT NULL,
+    target_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    note text,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_created_at
+    ON public.moderation_actions (created_at DESC);
+
+-- Admins read the trail; rows are only written by resolve_report(), unhide_content() and lift_suspension()
+ALTER TABLE public.moderation_actions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view moderation actions" ON public.moderation_actions;
+CREATE POLICY "Admins can view moderation actions"
+ON public.moderation_actions
+FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+-- ---------------------------------------------------------------------------------------------------------------
+-- Admin functions
+-- ---------------------------------------------------------------------------------------------------------------
+
+-- Reports with what they point at, for the admin queue. p_status is 'open' (oldest first) or 'resolved'
+-- (most recently resolved first).
+CREATE OR REPLACE FUNCTION public.get_report_queue(p_status text DEFAULT 'open')
+RETURNS TABLE (
+    id uuid,
+    target_type text,
+    target_id uuid,
+    target_user_id uuid,
+    reason text,
+    details text,
+    status text,
+    resolution_note text,
+    resolved_at timestamp with time zone,
+    created_at timestamp with time zone,
+    reporter_username text,
+    target_username text,
+    resolved_by_username text,
+    target_excerpt text,
+    target_slug text,
+    target_hidden boolean,
+    target_user_suspended boolean
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'Only admins can review reports'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        r.id,
+        r.target_type,
+        r.target_id,
+        r.target_user_id,
+        r.reason,
+        r.details,
+        r.status,
+        r.resolution_note,
+        r.resolved_at,
+        r.created_at,
+        reporter.username,
+        author.username,
+        resolver.username,
+        CASE r.target_type
+            WHEN 'startsnap' THEN s.name
+            WHEN 'feedback' THEN left(f.content, 280)
+            WHEN 'feedback_reply' THEN left(fr.content, 280)
+            WHEN 'profile' THEN left(author.bio, 280)
+        END,
+        COALESCE(s.slug, fs.slug),
+        COALESCE(s.hidden_at, f.hidden_at, fr.hidden_at) IS NOT NULL,
+        EXISTS (SELECT 1 FROM public.user_suspensions us WHERE us.user_id = r.target_user_id)
+    FROM public.reports r
+    LEFT JOIN public.profiles reporter ON reporter.user_id = r.reporter_id
+    LEFT JOIN public.profiles author ON author.user_id = r.target_user_id
+    LEFT JOIN public.profiles resolver ON resolver.user_id = r.resolved_by
+    LEFT JOIN public.startsnaps s ON r.target_type = 'startsnap' AND s.id = r.target_id
+    LEFT JOIN public.feedbacks f ON r.target_type = 'feedback' AND f.id = r.target_id
+    LEFT JOIN public.feedback_replies fr ON r.target_type = 'feedback_reply' AND fr.id = r.target_id
+    LEFT JOIN public.feedbacks parent ON parent.id = fr.parent_feedback_id
+    LEFT JOIN public.startsnaps fs ON fs.id = COALESCE(f.startsnap_id, parent.startsnap_id)
+    WHERE (p_status = 'open' AND r.status = 'open')
+       OR (p_status = 'resolved' AND r.status <> 'open')
+    ORDER BY
+        CASE WHEN p_status = 'open' THEN r.created_at END ASC,
+        r.resolved_at DESC NULLS LAST;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_report_queue(text) TO authenticated;
+
+-- Resolves a report: 'dismiss' leaves the content alone, 'hide_content' hides the reported project, feedback or
+-- reply, 'suspend_user' suspends the content's author. Every open report on the same target is resolved and the
+-- action is recorded in moderation_actions.
+CREATE OR REPLACE FUNCTION public.resolve_report(
+    p_report_id uuid,
+    p_action text,
+    p_note text DEFAULT NULL
+) RETURNS public.reports
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    report public.reports;
+    note text := NULLIF(trim(p_note), '');
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'Only admins can resolve reports'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO report FROM public.reports WHERE id = p_report_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Report not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF report.status <> 'open' THEN
+        RAISE EXCEPTION 'This report has already been resolved';
+    END IF;
+
+    IF p_action = 'hide_content' THEN
+        CASE report.target_type
+            WHEN 'startsnap' THEN
+                UPDATE public.startsnaps
+                SET hidden_at = COALESCE(hidden_at, now()), hidden_by = COALESCE(hidden_by, auth.uid())
+                WHERE id = report.target_id;
+            WHEN 'feedback' THEN
+                UPDATE public.feedbacks
+                SET hidden_at = COALESCE(hidden_at, now())
+                WHERE id = report.target_id;
+            WHEN 'feedback_reply' THEN
+                UPDATE public.feedback_replies
+                SET hidden_at = COALESCE(hidden_at, now())
+                WHERE id = report.target_id;
+            ELSE
+                RAISE EXCEPTION 'Profiles cannot be hidden. Suspend the user instead.';
+        END CASE;
+    ELSIF p_action = 'suspend_user' THEN
+        IF report.target_user_id IS NULL THEN
+            RAISE EXCEPTION 'The author of this content no longer exists';
+        END IF;
+
+        IF report.target_user_id = auth.uid() THEN
+            RAISE EXCEPTION 'You cannot suspend yourself';
+        END IF;
+
+        INSERT INTO public.user_suspensions (user_id, reason, suspended_by)
+        VALUES (report.target_user_id, COALESCE(note, report.reason), auth.uid())
+        ON CONFLICT (user_id) DO NOTHING;
+    ELSIF p_action <> 'dismiss' THEN
+        RAISE EXCEPTION 'Unknown moderation action "%"', p_action
+            USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE public.reports
+    SET status = CASE WHEN p_action = 'dismiss' THEN 'dismissed' ELSE 'actioned' END,
+        resolution_note = note,
+        resolved_by = auth.uid(),
+        resolved_at = now()
+    WHERE target_type = report.target_type
+      AND target_id = report.target_id
+      AND status = 'open';
+
+    INSERT INTO public.moderation_actions (admin_id, report_id, action, target_type, target_id, target_user_id, note)
+    VALUES (auth.uid(), report.id, p_action, report.target_type, report.target_id, report.target_user_id, note);
+
+    SELECT * INTO report FROM public.reports WHERE id = p_report_id;
+    RETURN report;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_report(uuid, text, text) TO authenticated;
+
+-- Reverses 'hide_content': makes a hidden project, feedback or reply visible again and records it in
+-- moderation_actions
+CREATE OR REPLACE FUNCTION public.unhide_content(
+    p_target_type text,
+    p_target_id uuid,
+    p_note text DEFAULT NULL
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    author_id uuid;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'Only admins can unhide content'
+            USING ERRCODE = '42501';
+    END IF;
+
+    CASE p_target_type
+        WHEN 'startsnap' THEN
+            UPDATE public.startsnaps
+            SET hidden_at = NULL, hidden_by = NULL
+            WHERE id = p_target_id AND hidden_at IS NOT NULL
+            RETURNING user_id INTO author_id;
+        WHEN 'feedback' THEN
+            UPDATE public.feedbacks
+            SET hidden_at = NULL
+            WHERE id = p_target_id AND hidden_at IS NOT NULL
+            RETURNING user_id INTO author_id;
+        WHEN 'feedback_reply' THEN
+            UPDATE public.feedback_replies
+            SET hidden_at = NULL
+            WHERE id = p_target_id AND hidden_at IS NOT NULL
+            RETURNING user_id INTO author_id;
+        ELSE
+            RAISE EXCEPTION 'Unknown content type "%"', p_target_type
+                USING ERRCODE = '22023';
+    END CASE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This content is not hidden or no longer exists'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    INSERT INTO public.moderation_actions (admin_id, action, target_type, target_id, target_user_id, note)
+    VALUES (auth.uid(), 'unhide_content', p_target_type, p_target_id, author_id, NULLIF(trim(p_note), ''));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.unhide_content(text, uuid, text) TO authenticated;
+
+-- Reverses 'suspend_user': lets the user post again and records it in moderation_actions against their profile
+CREATE OR REPLACE FUNCTION public.lift_suspension(
+    p_user_id uuid,
+    p_note text DEFAULT NULL
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'Only admins can lift suspensions'
+            USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM public.user_suspensions WHERE user_id = p_user_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This user is not suspended'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    INSERT INTO public.moderation_actions (admin_id, action, target_type, target_id, target_user_id, note)
+    VALUES (auth.uid(), 'unsuspend_user', 'profile', p_user_id, p_user_id, NULLIF(trim(p_note), ''));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.lift_suspension(uuid, text) TO authenticated;
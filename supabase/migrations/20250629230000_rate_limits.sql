@@ -0,0 +1,158 @@
+/**
+ * supabase/migrations/20250629230000_rate_limits.sql
+ *
+ * Feature: Per-user rate limits for feedback, replies, projects and vibe logs
+ *
+ * Problem: Spam prevention only dedupes support/unsupport activity logging (20250617201459_spam_prevention_triggers),
+ *          so nothing stops a script from inserting thousands of feedbacks or startsnaps
+ * Solution: - rate_limit_settings holds the threshold of each action: at most max_count inserts per
+ *             window_seconds. Admins can tune them without a migration.
+ *           - BEFORE INSERT triggers on feedbacks, feedback_replies, startsnaps and vibelogs record each insert in
+ *             rate_limit_events and reject it once the signed-in user reached the limit within the sliding window.
+ *             Events are counted instead of rows because vibelogs have no author column and publishing moves
+ *             created_at, and so deleting and re-posting does not reset the limit.
+ *           - Rejections raise SQLSTATE 'PT429' (PostgREST answers HTTP 429) with
+ *             {"retry_after_seconds": n, "limit": n, "window_seconds": n} as DETAIL, which the client turns into a
+ *             "try again in …" toast
+ *           Server-side inserts (no signed-in user) and admins are not limited.
+ */
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_settings (
+    action text PRIMARY KEY CHECK (action IN ('feedback', 'feedback_reply', 'startsnap', 'vibelog')),
+    max_count integer NOT NULL CHECK (max_count > 0),
+    window_seconds integer NOT NULL CHECK (window_seconds > 0),
+    updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+INSERT INTO public.rate_limit_settings (action, max_count, window_seconds)
+VALUES
+    ('feedback', 10, 600),       -- 10 feedbacks per 10 minutes
+    ('feedback_reply', 30, 600), -- 30 replies per 10 minutes
+    ('startsnap', 5, 3600),      -- 5 projects per hour
+    ('vibelog', 20, 3600)        -- 20 vibe log entries per hour
+ON CONFLICT (action) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_rate_limit_settings_updated_at ON public.rate_limit_settings;
+CREATE TRIGGER update_rate_limit_settings_updated_at
+    BEFORE UPDATE ON public.rate_limit_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.rate_limit_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view rate limits" ON public.rate_limit_settings;
+CREATE POLICY "Anyone can view rate limits"
+ON public.rate_limit_settings
+FOR SELECT
+TO public
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can change rate limits" ON public.rate_limit_settings;
+CREATE POLICY "Admins can change rate limits"
+ON public.rate_limit_settings
+FOR UPDATE
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
+
+-- One row per rate-limited insert. RLS without policies: only enforce_rate_limit() reads and writes it.
+CREATE TABLE IF NOT EXISTS public.rate_limit_events (
+    id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    action text NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_events_user_action
+    ON public.rate_limit_events (user_id, action, created_at);
+
+ALTER TABLE public.rate_limit_events ENABLE ROW LEVEL SECURITY;
+
+-- Trigger: TG_ARGV[0] names the rate_limit_settings action the insert counts towards
+CREATE OR REPLACE FUNCTION public.enforce_rate_limit() RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    limit_action text := TG_ARGV[0];
+    setting public.rate_limit_settings;
+    recent_count integer;
+    window_start timestamp with time zone;
+    freed_at timestamp with time zone;
+    retry_after integer;
+BEGIN
+    IF auth.uid() IS NULL OR public.is_admin() THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO setting FROM public.rate_limit_settings WHERE action = limit_action;
+    IF NOT FOUND THEN
+        RETURN NEW;
+    END IF;
+
+    -- Serialize concurrent inserts of the same user and action so parallel requests cannot overshoot the limit
+    PERFORM pg_advisory_xact_lock(hashtext(auth.uid()::text || ':' || limit_action));
+
+    window_start := now() - make_interval(secs => setting.window_seconds);
+
+    -- Events older than the window never count again
+    DELETE FROM public.rate_limit_events
+    WHERE user_id = auth.uid() AND action = limit_action AND created_at <= window_start;
+
+    SELECT COUNT(*) INTO recent_count
+    FROM public.rate_limit_events
+    WHERE user_id = auth.uid() AND action = limit_action;
+
+    IF recent_count >= setting.max_count THEN
+        -- The next insert is allowed once enough events have left the window to drop below the limit
+        SELECT created_at INTO freed_at
+        FROM public.rate_limit_events
+        WHERE user_id = auth.uid() AND action = limit_action
+        ORDER BY created_at ASC
+        OFFSET recent_count - setting.max_count
+        LIMIT 1;
+
+        retry_after := GREATEST(
+            1,
+            CEIL(EXTRACT(EPOCH FROM (freed_at + make_interval(secs => setting.window_seconds) - now())))::integer
+        );
+
+        RAISE EXCEPTION 'You are posting too quickly. Please wait before trying again.'
+            USING ERRCODE = 'PT429',
+                  DETAIL = jsonb_build_object(
+                      'retry_after_seconds', retry_after,
+                      'limit', setting.max_count,
+                      'window_seconds', setting.window_seconds
+                  )::text;
+    END IF;
+
+    -- Rolled back with the insert if a later trigger or constraint rejects it
+    INSERT INTO public.rate_limit_events (user_id, action) VALUES (auth.uid(), limit_action);
+
+    RETURN NEW;
+END;
+$$;
+
+-- Named so they fire after the trigger_block_suspended_* triggers: suspended users are told they are suspended
+DROP TRIGGER IF EXISTS trigger_rate_limit_feedbacks ON public.feedbacks;
+CREATE TRIGGER trigger_rate_limit_feedbacks
+    BEFORE INSERT ON public.feedbacks
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_rate_limit('feedback');
+
+DROP TRIGGER IF EXISTS trigger_rate_limit_feedback_replies ON public.feedback_replies;
+CREATE TRIGGER trigger_rate_limit_feedback_replies
+    BEFORE INSERT ON public.feedback_replies
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_rate_limit('feedback_reply');
+
+DROP TRIGGER IF EXISTS trigger_rate_limit_startsnaps ON public.startsnaps;
+CREATE TRIGGER trigger_rate_limit_startsnaps
+    BEFORE INSERT ON public.startsnaps
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_rate_limit('startsnap');
+
+DROP TRIGGER IF EXISTS trigger_rate_limit_vibelogs ON public.vibelogs;
+CREATE TRIGGER trigger_rate_limit_vibelogs
+    BEFORE INSERT ON public.vibelogs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_rate_limit('vibelog');